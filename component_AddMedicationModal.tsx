@@ -51,6 +51,7 @@ import { useToast } from "@/hooks/use-toast";
 import { Check, ChevronsUpDown, AlertCircle, Trash2, PlusCircle } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { debounce } from "@/lib/utils";
+import AllergyWarningDialog, { type AllergyWarning } from "@/components/AllergyWarningDialog";
 
 interface AddMedicationModalProps {
   isOpen: boolean;
@@ -219,6 +220,8 @@ export default function AddMedicationModal({
   const [showInteractions, setShowInteractions] = useState(false);
   const [showCustomTime, setShowCustomTime] = useState<boolean>(false);
   const [useSpecificDays, setUseSpecificDays] = useState<boolean>(false);
+  const [allergyWarnings, setAllergyWarnings] = useState<AllergyWarning[]>([]);
+  const [pendingMedication, setPendingMedication] = useState<any>(null);
 
   const form = useForm({
     resolver: zodResolver(medicationSchema),
@@ -345,10 +348,15 @@ export default function AddMedicationModal({
   }, [medications]);
 
   const createMedication = useMutation({
-    mutationFn: async (data: z.infer<typeof medicationSchema>) => {
+    mutationFn: async (data: any) => {
       console.log("Submitting medication data:", data);
       try {
         const response = await apiRequest("POST", "/api/medications", data);
+        // The server holds back medications that conflict with a recorded allergy until they're acknowledged
+        if (response.status === 409) {
+          const conflict = await response.json();
+          return { allergyConflict: true, allergyWarnings: conflict.allergyWarnings as AllergyWarning[], data };
+        }
         if (!response.ok) {
           const errorText = await response.text();
           console.error("API error response:", errorText);
@@ -361,15 +369,36 @@ export default function AddMedicationModal({
       }
     },
     onSuccess: (data) => {
+      if (data?.allergyConflict) {
+        setPendingMedication(data.data);
+        setAllergyWarnings(data.allergyWarnings || []);
+        return;
+      }
+
       console.log("Medication added successfully:", data);
+      setAllergyWarnings([]);
+      setPendingMedication(null);
       // Invalidate both medication list and care stats (for dashboard)
       queryClient.invalidateQueries({ queryKey: ['/api/medications', careRecipientId] });
       queryClient.invalidateQueries({ queryKey: ['/api/care-stats/today', careRecipientId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications/interaction-report'] });
       toast({
         title: "Success",
         description: "Medication added successfully",
         variant: "default",
       });
+      // The server checks the new medication against the whole active list
+      if (data?.interactions?.length > 0) {
+        const hasHigh = data.interactions.some((interaction: any) => interaction.severity === 'high');
+        toast({
+          title: `${data.interactions.length} interaction${data.interactions.length === 1 ? '' : 's'} found`,
+          description: `${data.name} may interact with ${data.interactions
+            .map((interaction: any) => interaction.drug1 === data.name ? interaction.drug2 : interaction.drug1)
+            .join(', ')}. See the Interactions panel for details.`,
+          variant: hasHigh ? "destructive" : "default",
+          duration: 10000,
+        });
+      }
       form.reset();
       onClose();
     },
@@ -1210,6 +1239,21 @@ export default function AddMedicationModal({
             </DialogFooter>
           </form>
         </Form>
+
+        <AllergyWarningDialog
+          warnings={allergyWarnings}
+          medicationName={pendingMedication?.name || ""}
+          isSaving={createMedication.isPending}
+          onConfirm={() => {
+            if (pendingMedication) {
+              createMedication.mutate({ ...pendingMedication, allergyWarningsAcknowledged: true });
+            }
+          }}
+          onCancel={() => {
+            setAllergyWarnings([]);
+            setPendingMedication(null);
+          }}
+        />
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,246 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, subDays } from "date-fns";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { formatTime } from "@/lib/utils";
+import { ClipboardCheck } from "lucide-react";
+
+interface AdherenceCounts {
+  due: number;
+  taken: number;
+  late: number;
+  vomited: number;
+  refused: number;
+  skipped: number;
+  missed: number;
+  pending: number;
+  adherence: number | null;
+}
+
+interface AdherenceReportData {
+  from: string;
+  to: string;
+  graceMinutes: number;
+  summary: AdherenceCounts;
+  medications: Array<AdherenceCounts & {
+    medicationId: number;
+    name: string;
+    dosage: string;
+    schedules: Array<AdherenceCounts & { scheduleId: number; time: string }>;
+  }>;
+  daily: Array<AdherenceCounts & { date: string }>;
+}
+
+interface AdherenceReportProps {
+  careRecipientId: string | number | null;
+}
+
+const chartConfig: ChartConfig = {
+  taken: { label: "Taken", color: "#22c55e" },
+  late: { label: "Late", color: "#f59e0b" },
+  vomited: { label: "Vomited", color: "#8b5cf6" },
+  refused: { label: "Refused", color: "#f97316" },
+  skipped: { label: "Held", color: "#9ca3af" },
+  missed: { label: "Missed", color: "#ef4444" },
+};
+
+const rangePresets = [7, 30, 90];
+
+const formatAdherence = (adherence: number | null) =>
+  adherence === null ? "—" : `${adherence}%`;
+
+const adherenceColor = (adherence: number | null) => {
+  if (adherence === null) return "text-gray-500";
+  if (adherence >= 90) return "text-green-600";
+  if (adherence >= 75) return "text-amber-600";
+  return "text-red-600";
+};
+
+export default function AdherenceReport({ careRecipientId }: AdherenceReportProps) {
+  const today = new Date();
+  const [from, setFrom] = useState(format(subDays(today, 6), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(format(today, 'yyyy-MM-dd'));
+
+  const { data: report, isLoading, isError } = useQuery<AdherenceReportData>({
+    queryKey: ['/api/reports/adherence', careRecipientId, from, to],
+    queryFn: async () => {
+      const response = await fetch(`/api/reports/adherence?careRecipientId=${careRecipientId}&from=${from}&to=${to}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch adherence report");
+      }
+      return response.json();
+    },
+    enabled: !!careRecipientId && !!from && !!to && from <= to,
+  });
+
+  const selectPreset = (days: number) => {
+    setFrom(format(subDays(new Date(), days - 1), 'yyyy-MM-dd'));
+    setTo(format(new Date(), 'yyyy-MM-dd'));
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4 mb-6">
+      <div className="flex items-center mb-3">
+        <ClipboardCheck className="h-5 w-5 text-primary mr-2" />
+        <h3 className="text-lg font-medium">Adherence Report</h3>
+      </div>
+
+      {/* Date range */}
+      <div className="grid grid-cols-2 gap-3 mb-2">
+        <div className="space-y-1">
+          <Label htmlFor="adherence-from" className="text-xs">From</Label>
+          <Input
+            id="adherence-from"
+            type="date"
+            value={from}
+            max={to}
+            onChange={(e) => setFrom(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="adherence-to" className="text-xs">To</Label>
+          <Input
+            id="adherence-to"
+            type="date"
+            value={to}
+            min={from}
+            onChange={(e) => setTo(e.target.value)}
+          />
+        </div>
+      </div>
+      <div className="flex gap-2 mb-4">
+        {rangePresets.map(days => (
+          <Button
+            key={days}
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => selectPreset(days)}
+          >
+            Last {days} days
+          </Button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="p-4 text-center text-gray-500">Loading report...</div>
+      ) : isError ? (
+        <div className="p-4 text-center text-red-500">Could not load the adherence report</div>
+      ) : !report || report.summary.due + report.summary.pending === 0 ? (
+        <div className="p-4 text-center text-gray-500">No scheduled doses in this date range</div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-4 gap-2 mb-4 text-center">
+            <div>
+              <div className={`text-xl font-semibold ${adherenceColor(report.summary.adherence)}`}>
+                {formatAdherence(report.summary.adherence)}
+              </div>
+              <div className="text-xs text-gray-500">Adherence</div>
+            </div>
+            <div>
+              <div className="text-xl font-semibold">{report.summary.taken}</div>
+              <div className="text-xs text-gray-500">On time</div>
+            </div>
+            <div>
+              <div className="text-xl font-semibold">{report.summary.late}</div>
+              <div className="text-xs text-gray-500">Late</div>
+            </div>
+            <div>
+              <div className="text-xl font-semibold">{report.summary.vomited}</div>
+              <div className="text-xs text-gray-500">Vomited</div>
+            </div>
+            <div>
+              <div className="text-xl font-semibold">{report.summary.refused}</div>
+              <div className="text-xs text-gray-500">Refused</div>
+            </div>
+            <div>
+              <div className="text-xl font-semibold">{report.summary.skipped}</div>
+              <div className="text-xs text-gray-500">Held</div>
+            </div>
+            <div>
+              <div className="text-xl font-semibold">{report.summary.missed}</div>
+              <div className="text-xs text-gray-500">Missed</div>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 mb-4">
+            {report.summary.due} doses were due. Doses logged more than {report.graceMinutes} minutes after their scheduled time count as late.
+            Vomited doses didn't stay down, so they don't count towards adherence.
+          </p>
+
+          {/* Daily chart */}
+          <ChartContainer config={chartConfig} className="h-48 w-full mb-4">
+            <BarChart data={report.daily}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="date"
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={(value) => format(new Date(`${value}T00:00:00`), 'M/d')}
+              />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={24} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="taken" stackId="doses" fill="var(--color-taken)" />
+              <Bar dataKey="late" stackId="doses" fill="var(--color-late)" />
+              <Bar dataKey="vomited" stackId="doses" fill="var(--color-vomited)" />
+              <Bar dataKey="refused" stackId="doses" fill="var(--color-refused)" />
+              <Bar dataKey="skipped" stackId="doses" fill="var(--color-skipped)" />
+              <Bar dataKey="missed" stackId="doses" fill="var(--color-missed)" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ChartContainer>
+
+          {/* Per medication and schedule time */}
+          <div className="space-y-2">
+            {report.medications.map(med => (
+              <Card key={med.medicationId}>
+                <CardContent className="p-3">
+                  <div className="flex justify-between items-center mb-1">
+                    <div>
+                      <div className="text-sm font-medium">{med.name}</div>
+                      {med.dosage && <div className="text-xs text-gray-500">{med.dosage}</div>}
+                    </div>
+                    <div className={`text-sm font-semibold ${adherenceColor(med.adherence)}`}>
+                      {formatAdherence(med.adherence)}
+                    </div>
+                  </div>
+                  {med.schedules.map(schedule => (
+                    <div
+                      key={schedule.scheduleId}
+                      className="flex justify-between items-center text-xs text-gray-600 py-1 border-t border-gray-100"
+                    >
+                      <span>{formatTime(schedule.time)}</span>
+                      <span>
+                        {schedule.taken + schedule.late}/{schedule.due} taken
+                        {schedule.late > 0 && ` · ${schedule.late} late`}
+                        {schedule.vomited > 0 && ` · ${schedule.vomited} vomited`}
+                        {schedule.refused > 0 && ` · ${schedule.refused} refused`}
+                        {schedule.skipped > 0 && ` · ${schedule.skipped} held`}
+                        {schedule.missed > 0 && ` · ${schedule.missed} missed`}
+                        <span className={`ml-2 font-medium ${adherenceColor(schedule.adherence)}`}>
+                          {formatAdherence(schedule.adherence)}
+                        </span>
+                      </span>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
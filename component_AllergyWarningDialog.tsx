@@ -0,0 +1,81 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { AlertTriangle } from "lucide-react";
+
+// Matches the warnings returned by the server when a medication conflicts with a recorded allergy
+export interface AllergyWarning {
+  allergen: string;
+  reaction: string | null;
+  matchedName: string;
+  matchType: 'name' | 'normalized' | 'drug_class';
+  message: string;
+}
+
+interface AllergyWarningDialogProps {
+  warnings: AllergyWarning[];
+  medicationName: string;
+  isSaving?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export default function AllergyWarningDialog({
+  warnings,
+  medicationName,
+  isSaving = false,
+  onConfirm,
+  onCancel
+}: AllergyWarningDialogProps) {
+  return (
+    <AlertDialog open={warnings.length > 0} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2 text-red-600">
+            <AlertTriangle className="h-5 w-5" />
+            Possible Allergy Conflict
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {medicationName} may conflict with allergies recorded in the emergency information.
+            Check with a doctor or pharmacist before saving.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <ul className="space-y-2">
+          {warnings.map((warning, index) => (
+            <li key={index} className="rounded-md border border-red-200 bg-red-50 p-3 text-sm">
+              <div className="font-medium text-red-800">
+                Allergy: {warning.allergen}
+                {warning.reaction && <span className="font-normal"> ({warning.reaction})</span>}
+              </div>
+              <div className="text-red-700">{warning.message}</div>
+              {warning.matchType !== 'name' && (
+                <div className="text-xs text-red-600 mt-1">
+                  {warning.matchType === 'drug_class' ? 'Same drug class' : `Matched as ${warning.matchedName}`}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isSaving}>Go Back</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={onConfirm}
+            disabled={isSaving}
+            className="bg-red-600 hover:bg-red-700 text-white"
+          >
+            {isSaving ? "Saving..." : "I understand, save anyway"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
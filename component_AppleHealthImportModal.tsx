@@ -0,0 +1,170 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { format, subDays } from "date-fns";
+import { Smartphone } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AppleHealthImportResult } from "@shared/health-import";
+
+interface AppleHealthImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  careRecipientId: number | null;
+}
+
+const resultRows: Array<{ key: keyof Pick<AppleHealthImportResult, 'bloodPressure' | 'glucose' | 'sleep' | 'weight'>; label: string }> = [
+  { key: "bloodPressure", label: "Blood pressure" },
+  { key: "glucose", label: "Glucose" },
+  { key: "sleep", label: "Sleep" },
+  { key: "weight", label: "Weight" },
+];
+
+// Upload export.zip from the Health app's "Export All Health Data", or the export.xml inside it
+export default function AppleHealthImportModal({ isOpen, onClose, careRecipientId }: AppleHealthImportModalProps) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [from, setFrom] = useState(format(subDays(new Date(), 30), "yyyy-MM-dd"));
+  const [to, setTo] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [result, setResult] = useState<AppleHealthImportResult | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setFile(null);
+      setResult(null);
+    }
+  }, [isOpen]);
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const params = new URLSearchParams({ careRecipientId: String(careRecipientId), from, to });
+      // The file is sent as-is so the server can read (and unzip) it as it arrives
+      const isZip = file?.name.toLowerCase().endsWith(".zip");
+      const response = await fetch(`/api/health-import/apple-health?${params}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": isZip ? "application/zip" : "application/xml",
+        },
+        body: file,
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to import Apple Health data");
+      }
+      return response.json() as Promise<AppleHealthImportResult>;
+    },
+    onSuccess: (importResult) => {
+      setResult(importResult);
+      queryClient.invalidateQueries({ queryKey: ["/api/blood-pressure", careRecipientId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/blood-pressure/trends", careRecipientId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/glucose", careRecipientId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/glucose/analytics", careRecipientId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sleep", careRecipientId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/weights", careRecipientId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/care-stats/today", careRecipientId] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[440px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Smartphone className="mr-2 h-5 w-5" />
+            Import from Apple Health
+          </DialogTitle>
+          <DialogDescription>
+            In the Health app, tap your profile picture, then Export All Health Data, and choose the
+            export.zip it creates. An export.xml taken out of it works too.
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <div className="space-y-3">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-muted-foreground text-left">
+                  <th className="font-normal pb-1"></th>
+                  <th className="font-normal pb-1 text-right">Imported</th>
+                  <th className="font-normal pb-1 text-right">Already recorded</th>
+                </tr>
+              </thead>
+              <tbody>
+                {resultRows.map(row => (
+                  <tr key={row.key} className="border-t border-gray-100">
+                    <td className="py-1">{row.label}</td>
+                    <td className="py-1 text-right font-medium">{result[row.key].imported}</td>
+                    <td className="py-1 text-right text-muted-foreground">{result[row.key].skipped}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-muted-foreground">
+              Read {result.recordsRead} records from {format(new Date(`${result.from}T00:00:00`), "MMM d, yyyy")} to {format(new Date(`${result.to}T00:00:00`), "MMM d, yyyy")}.
+              Heart rate and oxygen are added to blood pressure readings taken at the same time.
+            </p>
+            <DialogFooter>
+              <Button onClick={onClose}>Done</Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="apple-health-file">export.zip</Label>
+              <Input
+                id="apple-health-file"
+                type="file"
+                accept=".zip,application/zip,.xml,application/xml,text/xml"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="apple-health-from">From</Label>
+                <Input id="apple-health-from" type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="apple-health-to">To</Label>
+                <Input id="apple-health-to" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+              </div>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Imports blood pressure, heart rate, blood oxygen, glucose, sleep and weight. Readings already recorded at the same time are skipped.
+            </p>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={onClose} disabled={importMutation.isPending}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => importMutation.mutate()}
+                disabled={!file || !careRecipientId || !from || !to || from > to || importMutation.isPending}
+              >
+                {importMutation.isPending ? "Importing..." : "Import"}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
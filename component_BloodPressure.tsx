@@ -5,7 +5,7 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Button } from "@/components/ui/button";
 import { TabType } from "@/lib/types";
 import { format } from "date-fns";
-import { Activity, PlusCircle, ArrowLeft, ArrowRight, Heart, AlignLeft } from "lucide-react";
+import { Activity, PlusCircle, ArrowLeft, ArrowRight, Heart, AlignLeft, Pencil, SlidersHorizontal } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Calendar } from "@/components/ui/calendar";
@@ -19,11 +19,36 @@ import {
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
-import { BloodPressure } from "@shared/schema";
+import { BloodPressure, ReadingAlert } from "@shared/schema";
+import { getReadingSourceLabel } from "@shared/health-import";
 import PageHeader from "@/components/PageHeader";
 import BottomNavigation from "@/components/BottomNavigation";
 import { useCareRecipient } from "@/hooks/use-care-recipient";
 import { CharacterCount } from "@/components/ui/character-count";
+import CaregiverFilter, { LoggedBy, filterByCaregiver } from "@/components/CaregiverFilter";
+import EditBloodPressureModal from "@/components/EditBloodPressureModal";
+import BloodPressureTrends, { categoryColors } from "@/components/BloodPressureTrends";
+import ClinicalThresholdsModal, { useClinicalThresholds } from "@/components/ClinicalThresholdsModal";
+import ReadingAlerts from "@/components/ReadingAlerts";
+import { BloodPressureCategory, bloodPressurePositions, getBloodPressureCategoryLabel } from "@shared/blood-pressure";
+import { defaultClinicalThresholds, describeBreach, getThresholdStatus } from "@shared/clinical-thresholds";
+
+// Readings come back from the server with their AHA category
+type ClassifiedReading = BloodPressure & { category: BloodPressureCategory };
+
+const categoryBadges: Record<BloodPressureCategory, string> = {
+  normal: "bg-green-50 text-green-700",
+  elevated: "bg-amber-50 text-amber-700",
+  stage_1: "bg-orange-50 text-orange-700",
+  stage_2: "bg-red-50 text-red-700",
+  crisis: "bg-red-100 text-red-800",
+};
+
+const vitalStatusColors = {
+  low: "text-red-500",
+  high: "text-red-500",
+  normal: "text-green-500",
+};
 
 interface BloodPressurePageProps {
   activeTab: TabType;
@@ -43,7 +68,11 @@ export default function BloodPressurePage({ activeTab, setActiveTab }: BloodPres
   const [oxygenLevel, setOxygenLevel] = useState("");
   const [position, setPosition] = useState("sitting");
   const [notes, setNotes] = useState("");
+  const [caregiverFilter, setCaregiverFilter] = useState("all");
+  const [editingReading, setEditingReading] = useState<ClassifiedReading | null>(null);
+  const [showThresholds, setShowThresholds] = useState(false);
   const { toast } = useToast();
+  const { data: thresholds = defaultClinicalThresholds } = useClinicalThresholds(careRecipientId);
 
   const { data: readings, isLoading } = useQuery({
     queryKey: ["/api/blood-pressure", careRecipientId],
@@ -57,6 +86,8 @@ export default function BloodPressurePage({ activeTab, setActiveTab }: BloodPres
     enabled: !!careRecipientId,
   });
 
+  const visibleReadings = filterByCaregiver<ClassifiedReading>(readings, caregiverFilter);
+
   const addReadingMutation = useMutation({
     mutationFn: async (data: {
       careRecipientId: number;
@@ -80,7 +111,7 @@ export default function BloodPressurePage({ activeTab, setActiveTab }: BloodPres
       }
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (newReading: ClassifiedReading & { alerts: ReadingAlert[] }) => {
       // Reset the form and hide it
       setShowAddForm(false);
       setSystolic("");
@@ -91,11 +122,21 @@ export default function BloodPressurePage({ activeTab, setActiveTab }: BloodPres
       setNotes("");
       
       // Show success toast and invalidate queries
-      toast({
-        title: "Success",
-        description: "Blood pressure reading added successfully",
-      });
+      if (newReading.alerts.length > 0) {
+        toast({
+          title: "Reading out of range",
+          description: newReading.alerts.map(alert => describeBreach(alert)).join(". "),
+          variant: "destructive",
+        });
+        queryClient.invalidateQueries({ queryKey: ["/api/reading-alerts", careRecipientId] });
+      } else {
+        toast({
+          title: "Success",
+          description: "Blood pressure reading added successfully",
+        });
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/blood-pressure", careRecipientId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/blood-pressure/trends", careRecipientId] });
       // Also invalidate today's stats for dashboard updates
       queryClient.invalidateQueries({ queryKey: ["/api/care-stats/today", careRecipientId] });
     },
@@ -148,29 +189,15 @@ export default function BloodPressurePage({ activeTab, setActiveTab }: BloodPres
     });
   };
   
-  const getStatusColor = (reading: BloodPressure) => {
-    // Determine color based on blood pressure category
-    if (reading.systolic >= 180 || reading.diastolic >= 120) {
-      return "text-red-600"; // Crisis (Stage 3)
-    } else if (reading.systolic >= 140 || reading.diastolic >= 90) {
-      return "text-red-500"; // Stage 2
-    } else if ((reading.systolic >= 130 && reading.systolic < 140) || 
-              (reading.diastolic >= 80 && reading.diastolic < 90)) {
-      return "text-amber-500"; // Stage 1
-    } else if ((reading.systolic >= 120 && reading.systolic < 130) && 
-              reading.diastolic < 80) {
-      return "text-amber-400"; // Elevated
-    } else {
-      return "text-green-500"; // Normal
-    }
-  };
-
   return (
     <div className="p-4 md:p-6">
       <PageHeader title="Blood Pressure Tracker" icon={<Activity className="h-6 w-6" />} />
       
       <div className="flex justify-between items-center mb-6">
-        <div></div> {/* Empty div for flex spacing */}
+        <Button variant="outline" onClick={() => setShowThresholds(true)}>
+          <SlidersHorizontal className="mr-2 h-4 w-4" />
+          Thresholds
+        </Button>
         <Button onClick={() => setShowAddForm(!showAddForm)}>
           {showAddForm ? "Cancel" : "Add Reading"}
           {!showAddForm && <PlusCircle className="ml-2 h-4 w-4" />}
@@ -245,9 +272,9 @@ export default function BloodPressurePage({ activeTab, setActiveTab }: BloodPres
                       <SelectValue placeholder="Select position" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="sitting">Sitting</SelectItem>
-                      <SelectItem value="standing">Standing</SelectItem>
-                      <SelectItem value="lying">Lying down</SelectItem>
+                      {bloodPressurePositions.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -317,46 +344,55 @@ export default function BloodPressurePage({ activeTab, setActiveTab }: BloodPres
         </Card>
       )}
 
+      <ReadingAlerts careRecipientId={careRecipientId} readingType="blood_pressure" />
+
+      <BloodPressureTrends careRecipientId={careRecipientId} />
+
       <div className="space-y-4">
-        <h2 className="text-xl font-semibold flex items-center">
-          <Activity className="mr-2 h-5 w-5" />
-          Blood Pressure History
-        </h2>
+        <div className="flex justify-between items-center">
+          <h2 className="text-xl font-semibold flex items-center">
+            <Activity className="mr-2 h-5 w-5" />
+            Blood Pressure History
+          </h2>
+          <CaregiverFilter
+            careRecipientId={careRecipientId}
+            value={caregiverFilter}
+            onChange={setCaregiverFilter}
+          />
+        </div>
         
         {isLoading ? (
           <div className="text-center py-8">Loading...</div>
-        ) : !readings || readings.length === 0 ? (
+        ) : visibleReadings.length === 0 ? (
           <div className="text-center py-8">
             <p className="text-muted-foreground">No blood pressure readings recorded yet.</p>
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {readings.map((reading: BloodPressure) => (
+            {visibleReadings.map((reading) => (
               <Card key={reading.id} className="overflow-hidden w-full">
                 <CardHeader className="pb-2 px-4 py-3">
                   <div className="flex justify-between items-start">
                     <CardTitle className="text-lg flex flex-wrap items-center">
-                      <span className={getStatusColor(reading)}>
+                      <span className={categoryColors[reading.category]}>
                         {reading.systolic}/{reading.diastolic}
                       </span> 
                       <span className="text-base font-normal ml-1">mmHg</span>
-                      {(reading.systolic >= 130 || reading.diastolic >= 80) && (
-                        <span className={`text-xs font-medium ml-2 py-0.5 px-1.5 rounded ${
-                          reading.systolic >= 180 || reading.diastolic >= 120 
-                            ? "bg-red-100 text-red-800" 
-                            : reading.systolic >= 140 || reading.diastolic >= 90
-                              ? "bg-red-50 text-red-700"
-                              : "bg-amber-50 text-amber-700"
-                        }`}>
-                          {reading.systolic >= 180 || reading.diastolic >= 120 
-                            ? "Crisis" 
-                            : reading.systolic >= 140 || reading.diastolic >= 90
-                              ? "High"
-                              : "Elevated"}
-                        </span>
-                      )}
+                      <span className={`text-xs font-medium ml-2 py-0.5 px-1.5 rounded ${categoryBadges[reading.category]}`}>
+                        {getBloodPressureCategoryLabel(reading.category)}
+                      </span>
                     </CardTitle>
-                    <Heart className={`h-5 w-5 ${getStatusColor(reading)} flex-shrink-0`} />
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => setEditingReading(reading)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Heart className={`h-5 w-5 ${categoryColors[reading.category]}`} />
+                    </div>
                   </div>
                   <CardDescription className="text-sm">
                     {format(new Date(reading.timeOfReading), "MMM d, yyyy 'at' h:mm a")}
@@ -367,13 +403,15 @@ export default function BloodPressurePage({ activeTab, setActiveTab }: BloodPres
                     {reading.pulse && (
                       <div className="flex justify-between">
                         <span className="text-muted-foreground">Pulse:</span>
-                        <span>{reading.pulse} bpm</span>
+                        <span className={vitalStatusColors[getThresholdStatus(reading.pulse, thresholds.pulseLow, thresholds.pulseHigh)]}>
+                          {reading.pulse} bpm
+                        </span>
                       </div>
                     )}
                     {reading.oxygenLevel && (
                       <div className="flex justify-between">
                         <span className="text-muted-foreground">O₂:</span>
-                        <span className={`${reading.oxygenLevel >= 95 ? "text-green-500" : reading.oxygenLevel >= 90 ? "text-amber-500" : "text-red-500"}`}>
+                        <span className={vitalStatusColors[getThresholdStatus(reading.oxygenLevel, thresholds.oxygenLow, null)]}>
                           {reading.oxygenLevel}%
                         </span>
                       </div>
@@ -382,6 +420,12 @@ export default function BloodPressurePage({ activeTab, setActiveTab }: BloodPres
                       <span className="text-muted-foreground">Position:</span>
                       <span className="capitalize">{reading.position || "Not recorded"}</span>
                     </div>
+                    {reading.source !== 'manual' && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Source:</span>
+                        <span>{getReadingSourceLabel(reading.source)}</span>
+                      </div>
+                    )}
                     {reading.notes && (
                       <div className="pt-2 mt-2 border-t border-gray-100">
                         <div className="flex items-center gap-1 mb-1">
@@ -393,6 +437,7 @@ export default function BloodPressurePage({ activeTab, setActiveTab }: BloodPres
                         </p>
                       </div>
                     )}
+                    <LoggedBy entry={reading} />
                   </div>
                 </CardContent>
               </Card>
@@ -401,6 +446,18 @@ export default function BloodPressurePage({ activeTab, setActiveTab }: BloodPres
         )}
       </div>
       
+      <EditBloodPressureModal
+        isOpen={!!editingReading}
+        onClose={() => setEditingReading(null)}
+        reading={editingReading}
+      />
+      
+      <ClinicalThresholdsModal
+        isOpen={showThresholds}
+        onClose={() => setShowThresholds(false)}
+        careRecipientId={careRecipientId}
+      />
+      
       {/* Bottom Navigation */}
       <BottomNavigation 
         activeTab={activeTab} 
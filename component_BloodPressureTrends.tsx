@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, subDays } from "date-fns";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { TrendingUp } from "lucide-react";
+import {
+  BloodPressureCategory,
+  bloodPressureCategories,
+  bloodPressurePositions,
+  getBloodPressureCategoryLabel
+} from "@shared/blood-pressure";
+
+interface TrendSummary {
+  count: number;
+  systolic: number | null;
+  diastolic: number | null;
+  pulse: number | null;
+  category: BloodPressureCategory | null;
+}
+
+interface BloodPressureTrendData {
+  periods: Array<{
+    days: number;
+    overall: TrendSummary;
+    morning: TrendSummary;
+    evening: TrendSummary;
+    byPosition: Array<TrendSummary & { position: string }>;
+    categories: Partial<Record<BloodPressureCategory, number>>;
+  }>;
+  daily: Array<{
+    date: string;
+    systolic: number | null;
+    diastolic: number | null;
+    pulse: number | null;
+    count: number;
+  }>;
+}
+
+interface BloodPressureTrendsProps {
+  careRecipientId: number | null;
+}
+
+const chartConfig: ChartConfig = {
+  systolic: { label: "Systolic", color: "#ef4444" },
+  diastolic: { label: "Diastolic", color: "#3b82f6" },
+  pulse: { label: "Pulse", color: "#9ca3af" },
+};
+
+export const categoryColors: Record<BloodPressureCategory, string> = {
+  normal: "text-green-600",
+  elevated: "text-amber-500",
+  stage_1: "text-orange-500",
+  stage_2: "text-red-500",
+  crisis: "text-red-700",
+};
+
+const formatAverage = (summary: TrendSummary) =>
+  summary.systolic === null || summary.diastolic === null ? "—" : `${summary.systolic}/${summary.diastolic}`;
+
+// Averages over the last 7, 30 or 90 days, with morning/evening and position breakdowns
+export default function BloodPressureTrends({ careRecipientId }: BloodPressureTrendsProps) {
+  const [days, setDays] = useState(30);
+
+  const { data: trends, isLoading } = useQuery<BloodPressureTrendData>({
+    queryKey: ["/api/blood-pressure/trends", careRecipientId],
+    queryFn: async () => {
+      const response = await fetch(`/api/blood-pressure/trends?careRecipientId=${careRecipientId}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch blood pressure trends");
+      }
+      return response.json();
+    },
+    enabled: !!careRecipientId,
+  });
+
+  const period = trends?.periods.find(entry => entry.days === days);
+  const periodStart = format(subDays(new Date(), days - 1), 'yyyy-MM-dd');
+  const daily = trends?.daily.filter(day => day.date >= periodStart) || [];
+
+  const rows: Array<{ label: string; summary: TrendSummary }> = period ? [
+    { label: "All readings", summary: period.overall },
+    { label: "Morning", summary: period.morning },
+    { label: "Evening", summary: period.evening },
+    ...bloodPressurePositions.map(position => ({
+      label: position.label,
+      summary: period.byPosition.find(entry => entry.position === position.value) || {
+        count: 0, systolic: null, diastolic: null, pulse: null, category: null
+      }
+    }))
+  ] : [];
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-2">
+        <div className="flex justify-between items-center">
+          <CardTitle className="text-lg flex items-center">
+            <TrendingUp className="mr-2 h-5 w-5" />
+            Trends
+          </CardTitle>
+          <div className="flex gap-1">
+            {[7, 30, 90].map(option => (
+              <Button
+                key={option}
+                variant={days === option ? "default" : "outline"}
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setDays(option)}
+              >
+                {option}d
+              </Button>
+            ))}
+          </div>
+        </div>
+        <CardDescription>Average readings over the last {days} days</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-6 text-sm text-muted-foreground">Loading trends...</div>
+        ) : !period || period.overall.count === 0 ? (
+          <div className="text-center py-6 text-sm text-muted-foreground">No readings in the last {days} days</div>
+        ) : (
+          <div className="space-y-4">
+            <ChartContainer config={chartConfig} className="h-48 w-full">
+              <LineChart data={daily}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="date"
+                  tickLine={false}
+                  axisLine={false}
+                  tickFormatter={(value) => format(new Date(`${value}T00:00:00`), 'M/d')}
+                />
+                <YAxis tickLine={false} axisLine={false} width={32} domain={['dataMin - 10', 'dataMax + 10']} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Line dataKey="systolic" stroke="var(--color-systolic)" strokeWidth={2} dot={false} connectNulls />
+                <Line dataKey="diastolic" stroke="var(--color-diastolic)" strokeWidth={2} dot={false} connectNulls />
+                <Line dataKey="pulse" stroke="var(--color-pulse)" strokeDasharray="4 4" dot={false} connectNulls />
+              </LineChart>
+            </ChartContainer>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-muted-foreground text-left">
+                  <th className="font-normal pb-1"></th>
+                  <th className="font-normal pb-1">Average</th>
+                  <th className="font-normal pb-1">Pulse</th>
+                  <th className="font-normal pb-1 text-right">Readings</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.label} className="border-t border-gray-100">
+                    <td className="py-1">{row.label}</td>
+                    <td className={`py-1 font-medium ${row.summary.category ? categoryColors[row.summary.category] : ''}`}>
+                      {formatAverage(row.summary)}
+                      {row.summary.category && (
+                        <span className="text-xs font-normal ml-1">{getBloodPressureCategoryLabel(row.summary.category)}</span>
+                      )}
+                    </td>
+                    <td className="py-1">{row.summary.pulse ?? "—"}</td>
+                    <td className="py-1 text-right text-muted-foreground">{row.summary.count}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+              {bloodPressureCategories.map(category => (
+                <span key={category.value} className={categoryColors[category.value]}>
+                  {category.label}: {period.categories[category.value] || 0}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -19,6 +19,7 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import BottomNavigation from "@/components/BottomNavigation";
 import { useCareRecipient } from "@/hooks/use-care-recipient";
+import CaregiverFilter, { LoggedBy, filterByCaregiver } from "@/components/CaregiverFilter";
 
 interface BowelMovementsProps {
   activeTab: TabType;
@@ -34,6 +35,7 @@ export default function BowelMovements({ activeTab, setActiveTab }: BowelMovemen
   const [isAddUrinationOpen, setIsAddUrinationOpen] = useState(false);
   const [isEditUrinationOpen, setIsEditUrinationOpen] = useState(false);
   const [activeBodilyTab, setActiveBodilyTab] = useState("bowel");
+  const [caregiverFilter, setCaregiverFilter] = useState("all");
   const { toast } = useToast();
   
   // Use the global care recipient context
@@ -169,6 +171,9 @@ export default function BowelMovements({ activeTab, setActiveTab }: BowelMovemen
     }
   };
 
+  const visibleMovements = filterByCaregiver<BowelMovement>(movements, caregiverFilter);
+  const visibleUrination = filterByCaregiver<Urination>(urinationRecords, caregiverFilter);
+
   return (
     <div className="container p-4 max-w-4xl mx-auto">
       <PageHeader title="Bodily Functions" icon={<Toilet className="h-6 w-6" />} />
@@ -185,6 +190,11 @@ export default function BowelMovements({ activeTab, setActiveTab }: BowelMovemen
                 Track bowel movements and urination to monitor health
               </CardDescription>
             </div>
+            <CaregiverFilter
+              careRecipientId={activeCareRecipientId}
+              value={caregiverFilter}
+              onChange={setCaregiverFilter}
+            />
           </div>
         </CardHeader>
         <CardContent>
@@ -212,7 +222,7 @@ export default function BowelMovements({ activeTab, setActiveTab }: BowelMovemen
                 <div className="flex justify-center p-8">
                   <Loader2 className="h-8 w-8 animate-spin text-primary" />
                 </div>
-              ) : movements.length === 0 ? (
+              ) : visibleMovements.length === 0 ? (
                 <div className="text-center p-8 border rounded-lg bg-muted/20">
                   <Toilet className="h-12 w-12 mx-auto text-muted-foreground mb-2" />
                   <h3 className="text-lg font-medium">No bowel movements recorded</h3>
@@ -226,7 +236,7 @@ export default function BowelMovements({ activeTab, setActiveTab }: BowelMovemen
               ) : (
             <ScrollArea className="h-[400px] rounded-md border">
               <div className="p-4 space-y-4">
-                {movements.map((movement: BowelMovement) => (
+                {visibleMovements.map((movement: BowelMovement) => (
                   <div 
                     key={movement.id} 
                     className="flex justify-between items-center p-3 border rounded-lg hover:bg-accent cursor-pointer"
@@ -249,6 +259,7 @@ export default function BowelMovements({ activeTab, setActiveTab }: BowelMovemen
                           <Clock className="h-3 w-3 mr-1" />
                           {formatDate(movement.occuredAt)} at {formatTime(movement.occuredAt)}
                         </div>
+                        <LoggedBy entry={movement} className="mt-1" />
                       </div>
                     </div>
                     {movement.notes && (
@@ -275,7 +286,7 @@ export default function BowelMovements({ activeTab, setActiveTab }: BowelMovemen
                 <div className="flex justify-center p-8">
                   <Loader2 className="h-8 w-8 animate-spin text-primary" />
                 </div>
-              ) : urinationRecords.length === 0 ? (
+              ) : visibleUrination.length === 0 ? (
                 <div className="text-center p-8 border rounded-lg bg-muted/20">
                   <Droplets className="h-12 w-12 mx-auto text-muted-foreground mb-2" />
                   <h3 className="text-lg font-medium">No urination records</h3>
@@ -289,7 +300,7 @@ export default function BowelMovements({ activeTab, setActiveTab }: BowelMovemen
               ) : (
                 <ScrollArea className="h-[400px] rounded-md border">
                   <div className="p-4 space-y-4">
-                    {urinationRecords.map((record: Urination) => (
+                    {visibleUrination.map((record: Urination) => (
                       <div 
                         key={record.id} 
                         className="flex justify-between items-center p-3 border rounded-lg hover:bg-accent cursor-pointer"
@@ -310,6 +321,7 @@ export default function BowelMovements({ activeTab, setActiveTab }: BowelMovemen
                               {record.volume && ` • Volume: ${record.volume}ml`}
                               {record.urgency && ` • Urgency: ${record.urgency}`}
                             </div>
+                            <LoggedBy entry={record} className="mt-1" />
                           </div>
                         </div>
                         {record.notes && (
@@ -353,6 +365,8 @@ export default function BowelMovements({ activeTab, setActiveTab }: BowelMovemen
                   </p>
                 </div>
               )}
+
+              <LoggedBy entry={selectedMovement} />
               
               <div className="flex justify-end space-x-2 pt-4">
                 <Button 
@@ -442,6 +456,8 @@ export default function BowelMovements({ activeTab, setActiveTab }: BowelMovemen
                   </p>
                 </div>
               )}
+
+              <LoggedBy entry={selectedUrination} />
               
               <div className="flex justify-end space-x-2 pt-4">
                 <Button 
@@ -34,35 +34,41 @@ import {
   Trash2
 } from "lucide-react";
 
-interface UpcomingEvent {
-  id: string;
-  type: string;
-  title: string;
+interface ScheduledDose {
+  scheduleId: number;
+  medicationId: number;
+  date: string;
   time: string;
-  details: string;
-  scheduledFor?: string;
+  scheduledFor: string;
+  quantity: string;
+  withFood: boolean;
+  taperingStep: number | null;
+  medicationName: string;
+  dosage: string;
+  instructions: string;
 }
 
 export function UpcomingMedicationDoses({ careRecipientId }: { careRecipientId: number | null }) {
   // Get wouter's navigator - always declare hooks at the top level
   const [_, navigate] = useLocation();
   
-  const { data: upcomingEvents, isLoading } = useQuery<UpcomingEvent[]>({
-    queryKey: ['/api/events/upcoming', careRecipientId],
+  const today = new Date();
+  const todayFormatted = format(today, 'yyyy-MM-dd');
+  
+  // Today's doses come from the same schedule expansion the dashboard and stats use
+  const { data: todaysDoses, isLoading } = useQuery<ScheduledDose[]>({
+    queryKey: ['/api/doses', careRecipientId, todayFormatted],
     queryFn: async () => {
-      const res = await fetch(`/api/events/upcoming?careRecipientId=${careRecipientId}`);
-      if (!res.ok) throw new Error('Failed to fetch upcoming events');
+      const res = await fetch(`/api/doses?careRecipientId=${careRecipientId}&from=${todayFormatted}&to=${todayFormatted}`);
+      if (!res.ok) throw new Error('Failed to fetch scheduled doses');
       return res.json();
     },
     enabled: !!careRecipientId,
   });
   
-  // Filter to only show medication events for today
-  const today = new Date();
-  const todayFormatted = format(today, 'yyyy-MM-dd');
-  
-  const medicationEvents = upcomingEvents?.filter(event => 
-    event.type === 'medication' && event.date === todayFormatted
+  // Only show doses that are still to come today
+  const medicationEvents = todaysDoses?.filter(dose => 
+    new Date(dose.scheduledFor) > today
   ) || [];
   
   if (isLoading) {
@@ -97,18 +103,18 @@ export function UpcomingMedicationDoses({ careRecipientId }: { careRecipientId:
   
   return (
     <div className="space-y-2">
-      {medicationEvents.map((event) => (
-        <Card key={event.id} className="overflow-hidden border-l-4 border-l-primary">
+      {medicationEvents.map((dose) => (
+        <Card key={`${dose.scheduleId}_${dose.date}`} className="overflow-hidden border-l-4 border-l-primary">
           <CardContent className="p-3">
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-3">
                 <Pill className="h-5 w-5 text-primary" />
                 <div>
-                  <p className="font-medium">{event.title}</p>
+                  <p className="font-medium">{dose.medicationName}</p>
                   <p className="text-sm text-gray-500 flex items-center">
-                    <Clock className="h-3 w-3 mr-1" /> {formatTime(event.time)}
+                    <Clock className="h-3 w-3 mr-1" /> {formatTime(dose.time)}
                   </p>
-                  <p className="text-sm text-gray-600">{event.details}</p>
+                  <p className="text-sm text-gray-600">{dose.quantity || dose.dosage}</p>
                 </div>
               </div>
             </div>
@@ -154,6 +160,17 @@ export default function Calendar({ activeTab: navTab, setActiveTab: setNavTab }:
     enabled: !!activeCareRecipient && !!selectedDate && !isToday, // Don't fetch for today
   });
   
+  // Fetch the doses that were scheduled on the selected date
+  const { data: scheduledDoses } = useQuery<ScheduledDose[]>({
+    queryKey: ['/api/doses', activeCareRecipient, formattedDate],
+    queryFn: async () => {
+      const res = await fetch(`/api/doses?careRecipientId=${activeCareRecipient}&from=${formattedDate}&to=${formattedDate}`);
+      if (!res.ok) throw new Error('Failed to fetch scheduled doses');
+      return res.json();
+    },
+    enabled: !!activeCareRecipient && !!selectedDate && !isToday, // Today is covered by upcoming doses
+  });
+  
   // Fetch meals for the selected date
   const { data: meals, isLoading: isLoadingMeals } = useQuery({
     queryKey: ['/api/meals', activeCareRecipient, formattedDate],
@@ -483,6 +500,42 @@ export default function Calendar({ activeTab: navTab, setActiveTab: setNavTab }:
                   
                   {/* Meds Tab */}
                   <TabsContent value="meds">
+                    {scheduledDoses && scheduledDoses.length > 0 && (
+                      <div className="mb-4">
+                        <h4 className="text-sm font-medium text-gray-700">Scheduled Doses</h4>
+                        <div className="space-y-2 mt-2">
+                          {scheduledDoses.map((dose) => {
+                            const taken = dateStats.medications?.logs?.some(
+                              (log: any) => log.scheduleId === dose.scheduleId
+                            );
+                            return (
+                              <Card key={`${dose.scheduleId}_${dose.date}`}>
+                                <CardContent className="p-3">
+                                  <div className="flex items-center justify-between">
+                                    <div className="flex items-center gap-2">
+                                      <Clock className="h-4 w-4 text-gray-500" />
+                                      <div>
+                                        <p className="font-medium">{dose.medicationName}</p>
+                                        <p className="text-sm text-gray-500">
+                                          {formatTime(dose.time)}, {dose.quantity}
+                                          {dose.taperingStep !== null && ` (taper step ${dose.taperingStep + 1})`}
+                                        </p>
+                                      </div>
+                                    </div>
+                                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                                      taken ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                                    }`}>
+                                      {taken ? 'Taken' : 'Not logged'}
+                                    </span>
+                                  </div>
+                                </CardContent>
+                              </Card>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    )}
+                    
                     <h4 className="text-sm font-medium text-gray-700">Medication Logs</h4>
                     {!dateStats.medications?.logs || dateStats.medications.logs.length === 0 ? (
                       <Card>
@@ -0,0 +1,85 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+
+interface Caregiver {
+  id: number;
+  name: string | null;
+  username: string;
+}
+
+// The attribution fields every log entry comes back with
+export interface LoggedByEntry {
+  createdById?: number | null;
+  updatedById?: number | null;
+  createdBy?: Caregiver | null;
+  updatedBy?: Caregiver | null;
+}
+
+interface CaregiverFilterProps {
+  careRecipientId: string | number | null;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+const getCaregiverName = (caregiver: Caregiver) => caregiver.name || caregiver.username;
+
+// "all" keeps every entry; otherwise only entries logged by that caregiver
+export const filterByCaregiver = <T extends LoggedByEntry>(entries: T[] | undefined, caregiverId: string) =>
+  caregiverId === "all"
+    ? entries || []
+    : (entries || []).filter(entry => String(entry.createdById) === caregiverId);
+
+// "Logged by Jane", plus who edited it when that was someone else
+export function LoggedBy({ entry, className = "" }: { entry: LoggedByEntry; className?: string }) {
+  if (!entry.createdBy) return null;
+
+  const editedBy = entry.updatedBy && entry.updatedById !== entry.createdById ? entry.updatedBy : null;
+
+  return (
+    <div className={`text-xs text-gray-400 ${className}`}>
+      Logged by {getCaregiverName(entry.createdBy)}
+      {editedBy && ` · edited by ${getCaregiverName(editedBy)}`}
+    </div>
+  );
+}
+
+export default function CaregiverFilter({ careRecipientId, value, onChange }: CaregiverFilterProps) {
+  const { data: caregivers } = useQuery<Caregiver[]>({
+    queryKey: ['/api/caregivers', careRecipientId],
+    queryFn: async () => {
+      const response = await fetch(`/api/caregivers?careRecipientId=${careRecipientId}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch caregivers");
+      }
+      return response.json();
+    },
+    enabled: !!careRecipientId,
+  });
+
+  // Nothing to filter until more than one person has logged care
+  if (!caregivers || caregivers.length < 2) {
+    return null;
+  }
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-[150px] h-8 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">All caregivers</SelectItem>
+        {caregivers.map(caregiver => (
+          <SelectItem key={caregiver.id} value={String(caregiver.id)}>
+            {getCaregiverName(caregiver)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,223 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { SlidersHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ClinicalThresholdValues, glucoseReadingTypes } from "@shared/clinical-thresholds";
+
+export type ClinicalThresholdSettings = ClinicalThresholdValues & {
+  notifyEmail: boolean;
+  notifySms: boolean;
+  isDefault: boolean;
+};
+
+// The care recipient's saved limits. Pages colour readings by them, falling back to
+// defaultClinicalThresholds while loading.
+export function useClinicalThresholds(careRecipientId: number | null, enabled = true) {
+  return useQuery<ClinicalThresholdSettings>({
+    queryKey: ["/api/clinical-thresholds", careRecipientId],
+    queryFn: async () => {
+      const response = await fetch(`/api/clinical-thresholds?careRecipientId=${careRecipientId}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch clinical thresholds");
+      }
+      return response.json();
+    },
+    enabled: !!careRecipientId && enabled,
+  });
+}
+
+type LimitField = 'systolicLow' | 'systolicHigh' | 'diastolicLow' | 'diastolicHigh' | 'pulseLow' | 'pulseHigh' | 'oxygenLow';
+
+const vitalRows: Array<{ label: string; unit: string; low: LimitField; high?: LimitField }> = [
+  { label: "Systolic", unit: "mmHg", low: "systolicLow", high: "systolicHigh" },
+  { label: "Diastolic", unit: "mmHg", low: "diastolicLow", high: "diastolicHigh" },
+  { label: "Pulse", unit: "bpm", low: "pulseLow", high: "pulseHigh" },
+  { label: "Oxygen", unit: "%", low: "oxygenLow" },
+];
+
+const toInput = (value: number | null | undefined) => value === null || value === undefined ? "" : value.toString();
+
+interface ClinicalThresholdsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  careRecipientId: number | null;
+}
+
+// Low/high limits per reading type, usually copied from the care recipient's doctor. Readings
+// outside them raise an alert and notify the account owner on the chosen channels.
+export default function ClinicalThresholdsModal({ isOpen, onClose, careRecipientId }: ClinicalThresholdsModalProps) {
+  const { toast } = useToast();
+  const [glucoseRanges, setGlucoseRanges] = useState<Record<string, { low: string; high: string }>>({});
+  const [limits, setLimits] = useState<Record<LimitField, string>>({} as Record<LimitField, string>);
+  const [notifyEmail, setNotifyEmail] = useState(false);
+  const [notifySms, setNotifySms] = useState(false);
+
+  const { data: thresholds, isLoading } = useClinicalThresholds(careRecipientId, isOpen);
+
+  useEffect(() => {
+    if (!thresholds || !isOpen) return;
+
+    setGlucoseRanges(Object.fromEntries(glucoseReadingTypes.map(type => {
+      const range = thresholds.glucoseRanges[type.value];
+      return [type.value, { low: toInput(range?.low), high: toInput(range?.high) }];
+    })));
+    setLimits(Object.fromEntries(
+      vitalRows.flatMap(row => row.high ? [row.low, row.high] : [row.low]).map(field => [field, toInput(thresholds[field])])
+    ) as Record<LimitField, string>);
+    setNotifyEmail(thresholds.notifyEmail);
+    setNotifySms(thresholds.notifySms);
+  }, [thresholds, isOpen]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/clinical-thresholds", {
+        careRecipientId,
+        glucoseRanges,
+        ...limits,
+        notifyEmail,
+        notifySms
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to save thresholds");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Thresholds saved",
+        description: "New readings will be checked against these limits.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/clinical-thresholds", careRecipientId] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateGlucoseRange = (type: string, bound: 'low' | 'high', value: string) => {
+    setGlucoseRanges(current => ({ ...current, [type]: { ...current[type], [bound]: value } }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[480px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <SlidersHorizontal className="mr-2 h-5 w-5" />
+            Reading Thresholds
+          </DialogTitle>
+          <DialogDescription>
+            Readings outside these limits are flagged and you'll be notified. Leave a limit blank to not check it.
+            {thresholds?.isDefault && " These are the standard limits until you save your own."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-6 text-sm text-muted-foreground">Loading thresholds...</div>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <div className="space-y-5 mb-4">
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Glucose (mg/dL)</h4>
+                <div className="grid grid-cols-[1fr_5rem_5rem] gap-2 items-center text-xs text-muted-foreground">
+                  <span></span>
+                  <span>Low</span>
+                  <span>High</span>
+                </div>
+                {glucoseReadingTypes.map(type => (
+                  <div key={type.value} className="grid grid-cols-[1fr_5rem_5rem] gap-2 items-center">
+                    <Label htmlFor={`threshold-glucose-${type.value}-low`} className="font-normal">{type.label}</Label>
+                    <Input
+                      id={`threshold-glucose-${type.value}-low`}
+                      type="number"
+                      min="0"
+                      value={glucoseRanges[type.value]?.low ?? ""}
+                      onChange={(e) => updateGlucoseRange(type.value, 'low', e.target.value)}
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      value={glucoseRanges[type.value]?.high ?? ""}
+                      onChange={(e) => updateGlucoseRange(type.value, 'high', e.target.value)}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Blood pressure and vitals</h4>
+                {vitalRows.map(row => (
+                  <div key={row.low} className="grid grid-cols-[1fr_5rem_5rem] gap-2 items-center">
+                    <Label htmlFor={`threshold-${row.low}`} className="font-normal">{row.label} ({row.unit})</Label>
+                    <Input
+                      id={`threshold-${row.low}`}
+                      type="number"
+                      min="0"
+                      value={limits[row.low] ?? ""}
+                      onChange={(e) => setLimits(current => ({ ...current, [row.low]: e.target.value }))}
+                    />
+                    {row.high ? (
+                      <Input
+                        type="number"
+                        min="0"
+                        value={limits[row.high] ?? ""}
+                        onChange={(e) => setLimits(current => ({ ...current, [row.high!]: e.target.value }))}
+                      />
+                    ) : (
+                      <span></span>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-3 border-t pt-4">
+                <h4 className="text-sm font-medium">When a reading is out of range</h4>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="threshold-notify-email" className="font-normal">Send an email</Label>
+                  <Switch id="threshold-notify-email" checked={notifyEmail} onCheckedChange={setNotifyEmail} />
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="threshold-notify-sms" className="font-normal">Send a text message</Label>
+                  <Switch id="threshold-notify-sms" checked={notifySms} onCheckedChange={setNotifySms} />
+                </div>
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose} disabled={saveMutation.isPending}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? "Saving..." : "Save Thresholds"}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
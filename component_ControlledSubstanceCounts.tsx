@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Medication, ControlledSubstanceCount } from "@shared/schema";
+
+interface CountUser {
+  id: number;
+  name: string | null;
+  username: string;
+}
+
+export interface ControlledSubstanceCountWithUsers extends ControlledSubstanceCount {
+  countedBy: CountUser | null;
+  witness: CountUser | null;
+  resolvedBy: CountUser | null;
+}
+
+interface ControlledSubstanceCountsProps {
+  medication: Medication;
+}
+
+export const shiftLabels: Record<string, string> = {
+  day: "Day",
+  evening: "Evening",
+  night: "Night"
+};
+
+export const getCountUserName = (user: CountUser | null) => user ? user.name || user.username : "Unknown";
+
+export const formatDiscrepancy = (discrepancy: number) => discrepancy > 0 ? `+${discrepancy}` : String(discrepancy);
+
+// Count sheet for a controlled medication: record each shift's count with a witness
+export default function ControlledSubstanceCounts({ medication }: ControlledSubstanceCountsProps) {
+  const { toast } = useToast();
+  const [shift, setShift] = useState("day");
+  const [countedQuantity, setCountedQuantity] = useState("");
+  const [witnessUsername, setWitnessUsername] = useState("");
+  const [witnessPassword, setWitnessPassword] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const { data: counts } = useQuery<ControlledSubstanceCountWithUsers[]>({
+    queryKey: ['/api/controlled-counts', medication.id],
+    queryFn: async () => {
+      const response = await fetch(`/api/medications/${medication.id}/controlled-counts`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch controlled substance counts");
+      }
+      return response.json();
+    },
+  });
+
+  const recordCountMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/medications/${medication.id}/controlled-counts`, {
+        shift,
+        countedQuantity: parseFloat(countedQuantity),
+        witnessUsername,
+        witnessPassword,
+        notes: notes || undefined
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to record count");
+      }
+      return response.json();
+    },
+    onSuccess: (count: ControlledSubstanceCount) => {
+      toast({
+        title: count.discrepancy === 0 ? "Count recorded" : "Count discrepancy",
+        description: count.discrepancy === 0
+          ? "The count matches the stock on record."
+          : `Counted ${count.countedQuantity}, expected ${count.expectedQuantity}. The caregiver in charge has been alerted.`,
+        variant: count.discrepancy === 0 ? "default" : "destructive"
+      });
+      setCountedQuantity("");
+      setWitnessUsername("");
+      setWitnessPassword("");
+      setNotes("");
+      queryClient.invalidateQueries({ queryKey: ['/api/controlled-counts'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleRecordCount = () => {
+    if (countedQuantity === "" || isNaN(parseFloat(countedQuantity))) {
+      toast({
+        title: "Error",
+        description: "Enter the number of units counted",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    recordCountMutation.mutate();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="border rounded-md p-3 space-y-3">
+        <div className="flex justify-between items-center">
+          <h3 className="text-sm font-medium">Record Shift Count</h3>
+          <span className="text-xs text-muted-foreground">
+            On record: {medication.currentQuantity || 0}
+          </span>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <Select value={shift} onValueChange={setShift}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(shiftLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label} shift</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min="0"
+            step="0.5"
+            placeholder="Units counted"
+            value={countedQuantity}
+            onChange={(e) => setCountedQuantity(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Witness sign-off</Label>
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              placeholder="Witness username"
+              autoComplete="off"
+              value={witnessUsername}
+              onChange={(e) => setWitnessUsername(e.target.value)}
+            />
+            <Input
+              type="password"
+              placeholder="Witness password"
+              autoComplete="new-password"
+              value={witnessPassword}
+              onChange={(e) => setWitnessPassword(e.target.value)}
+            />
+          </div>
+        </div>
+        <Input
+          placeholder="Notes (optional)"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={handleRecordCount}
+          disabled={recordCountMutation.isPending || !witnessUsername || !witnessPassword}
+        >
+          Sign Off Count
+        </Button>
+      </div>
+
+      <h3 className="text-lg font-medium">Count Sheet</h3>
+
+      {!counts || counts.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          No counts recorded yet.
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {counts.map((count) => (
+            <div
+              key={count.id}
+              className={`border rounded-md p-3 ${count.discrepancy !== 0 && !count.resolvedAt ? 'border-red-200 bg-red-50' : ''}`}
+            >
+              <div className="flex justify-between items-center">
+                <div className="font-medium">
+                  {shiftLabels[count.shift] || count.shift} shift: {count.countedQuantity}
+                </div>
+                {count.discrepancy === 0 ? (
+                  <div className="text-sm font-medium text-green-600">Matches</div>
+                ) : (
+                  <div className="text-sm font-medium text-red-600">
+                    {formatDiscrepancy(count.discrepancy)} (expected {count.expectedQuantity})
+                  </div>
+                )}
+              </div>
+              <div className="text-sm text-muted-foreground">
+                {format(new Date(count.countedAt), "MMM d, yyyy h:mm a")}
+                {` · ${getCountUserName(count.countedBy)}, witnessed by ${getCountUserName(count.witness)}`}
+              </div>
+              {count.notes && (
+                <div className="text-sm mt-1">
+                  Notes: {count.notes}
+                </div>
+              )}
+              {count.resolvedAt && (
+                <div className="text-sm mt-1 text-muted-foreground">
+                  Resolved by {getCountUserName(count.resolvedBy)}: {count.resolutionNotes}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
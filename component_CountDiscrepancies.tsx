@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ShieldAlert } from "lucide-react";
+import {
+  ControlledSubstanceCountWithUsers,
+  shiftLabels,
+  getCountUserName,
+  formatDiscrepancy
+} from "@/components/ControlledSubstanceCounts";
+
+interface CountDiscrepancy extends ControlledSubstanceCountWithUsers {
+  medication: {
+    id: number;
+    name: string;
+    dosage: string;
+    currentQuantity: number | null;
+  };
+}
+
+interface CountDiscrepanciesProps {
+  careRecipientId: string | number | null;
+}
+
+// Controlled substance counts that didn't match, until someone records what was found
+export default function CountDiscrepancies({ careRecipientId }: CountDiscrepanciesProps) {
+  const { toast } = useToast();
+  const [resolvingId, setResolvingId] = useState<number | null>(null);
+  const [resolutionNotes, setResolutionNotes] = useState("");
+  const [adjustStock, setAdjustStock] = useState(false);
+
+  const { data: discrepancies } = useQuery<CountDiscrepancy[]>({
+    queryKey: ['/api/controlled-counts/discrepancies', careRecipientId],
+    queryFn: async () => {
+      const response = await fetch(`/api/controlled-counts/discrepancies?careRecipientId=${careRecipientId}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch count discrepancies");
+      }
+      return response.json();
+    },
+    enabled: !!careRecipientId,
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async (countId: number) => {
+      const response = await apiRequest("POST", `/api/controlled-counts/${countId}/resolve`, {
+        notes: resolutionNotes,
+        adjustStock
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to resolve discrepancy");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Discrepancy resolved",
+        description: adjustStock ? "Stock has been corrected to the count." : "The count sheet has been updated."
+      });
+      setResolvingId(null);
+      setResolutionNotes("");
+      setAdjustStock(false);
+      queryClient.invalidateQueries({ queryKey: ['/api/controlled-counts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/controlled-counts/discrepancies'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medication-inventory-ledger'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (!discrepancies || discrepancies.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-red-200 p-4 mb-6">
+      <div className="flex items-center mb-3">
+        <ShieldAlert className="h-5 w-5 text-red-600 mr-2" />
+        <h3 className="text-lg font-medium">Count Discrepancies</h3>
+      </div>
+
+      <div className="space-y-2">
+        {discrepancies.map(count => (
+          <div key={count.id} className="border border-red-100 rounded-lg p-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="font-medium text-sm">
+                  {count.medication.name} <span className="text-gray-500 font-normal">{count.medication.dosage}</span>
+                </div>
+                <div className="text-xs text-red-600 font-medium">
+                  Counted {count.countedQuantity}, expected {count.expectedQuantity} ({formatDiscrepancy(count.discrepancy)})
+                </div>
+                <div className="text-xs text-gray-500">
+                  {shiftLabels[count.shift] || count.shift} shift, {format(new Date(count.countedAt), 'MMM d, h:mm a')}
+                  {` · ${getCountUserName(count.countedBy)}, witnessed by ${getCountUserName(count.witness)}`}
+                </div>
+              </div>
+              {resolvingId !== count.id && (
+                <Button variant="outline" size="sm" onClick={() => setResolvingId(count.id)}>
+                  Resolve
+                </Button>
+              )}
+            </div>
+
+            {resolvingId === count.id && (
+              <div className="mt-3 space-y-2">
+                <Input
+                  placeholder="What was found (e.g. dose given but not logged)"
+                  value={resolutionNotes}
+                  onChange={(e) => setResolutionNotes(e.target.value)}
+                />
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`adjust-stock-${count.id}`}
+                    checked={adjustStock}
+                    onCheckedChange={(checked) => setAdjustStock(checked === true)}
+                  />
+                  <Label htmlFor={`adjust-stock-${count.id}`} className="text-sm font-normal">
+                    Correct stock on record by {formatDiscrepancy(count.discrepancy)}
+                  </Label>
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => setResolvingId(null)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => resolveMutation.mutate(count.id)}
+                    disabled={!resolutionNotes.trim() || resolveMutation.isPending}
+                  >
+                    Save
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -45,6 +45,14 @@ export default function Dashboard({ careRecipientId, inspirationMessage }: Dashb
           icon={<Pill className="h-4 w-4" />}
           color="primary"
           progress={todayStats?.medications?.progress || 0}
+          alertText={[
+            todayStats?.medications?.missed 
+              ? `${todayStats.medications.missed} missed ${todayStats.medications.missed === 1 ? 'dose' : 'doses'}` 
+              : null,
+            todayStats?.medications?.doses?.refused ? `${todayStats.medications.doses.refused} refused` : null,
+            todayStats?.medications?.doses?.skipped ? `${todayStats.medications.doses.skipped} held` : null,
+            todayStats?.medications?.doses?.vomited ? `${todayStats.medications.doses.vomited} vomited` : null
+          ].filter(Boolean).join(' · ') || undefined}
           onClick={() => setLocation(`/medications?careRecipientId=${careRecipientId}`)}
         />
 
@@ -14,9 +14,12 @@ import {
   Settings,
   CheckCircle,
   AlertCircle,
-  Plus
+  Plus,
+  Upload
 } from "lucide-react";
 import { useCareRecipient } from "@/hooks/use-care-recipient";
+import GlucoseImportModal from "@/components/GlucoseImportModal";
+import AppleHealthImportModal from "@/components/AppleHealthImportModal";
 
 interface DeviceConnection {
   id: string;
@@ -74,7 +77,7 @@ export default function DeviceConnections() {
       type: "health_platform",
       icon: <Smartphone className="h-6 w-6" />,
       connected: false,
-      metrics: ["All Health Data", "Medications", "Vitals"],
+      metrics: ["Blood Pressure", "Heart Rate", "SpO2", "Glucose", "Sleep", "Weight"],
       description: "Import data from Apple Health app"
     },
     {
@@ -89,6 +92,8 @@ export default function DeviceConnections() {
   ]);
 
   const [autoSyncEnabled, setAutoSyncEnabled] = useState(true);
+  const [showGlucoseImport, setShowGlucoseImport] = useState(false);
+  const [showAppleHealthImport, setShowAppleHealthImport] = useState(false);
 
   const handleConnect = (deviceId: string) => {
     // In a real implementation, this would initiate OAuth flow
@@ -206,6 +211,29 @@ export default function DeviceConnections() {
                     </div>
                   </div>
                   <div className="flex gap-2">
+                    {/* Works without a connection - upload a Clarity export */}
+                    {device.id === "dexcom" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setShowGlucoseImport(true)}
+                        className="gap-2"
+                      >
+                        <Upload className="h-4 w-4" />
+                        Import CSV
+                      </Button>
+                    )}
+                    {device.id === "apple_health" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setShowAppleHealthImport(true)}
+                        className="gap-2"
+                      >
+                        <Upload className="h-4 w-4" />
+                        Import export.xml
+                      </Button>
+                    )}
                     {device.connected ? (
                       <>
                         <Button 
@@ -255,6 +283,18 @@ export default function DeviceConnections() {
           </div>
         </CardContent>
       </Card>
+
+      <GlucoseImportModal
+        isOpen={showGlucoseImport}
+        onClose={() => setShowGlucoseImport(false)}
+        careRecipientId={parseInt(activeCareRecipientId)}
+      />
+
+      <AppleHealthImportModal
+        isOpen={showAppleHealthImport}
+        onClose={() => setShowAppleHealthImport(false)}
+        careRecipientId={parseInt(activeCareRecipientId)}
+      />
     </div>
   );
 }
\ No newline at end of file
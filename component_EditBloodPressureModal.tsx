@@ -0,0 +1,328 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { Activity } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CharacterCount } from "@/components/ui/character-count";
+import { BloodPressure } from "@shared/schema";
+import { bloodPressurePositions } from "@shared/blood-pressure";
+
+interface EditBloodPressureModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  reading: BloodPressure | null;
+}
+
+export default function EditBloodPressureModal({
+  isOpen,
+  onClose,
+  reading,
+}: EditBloodPressureModalProps) {
+  const [readingDate, setReadingDate] = useState<Date>(new Date());
+  const [readingTime, setReadingTime] = useState(format(new Date(), "HH:mm"));
+  const [systolic, setSystolic] = useState("");
+  const [diastolic, setDiastolic] = useState("");
+  const [pulse, setPulse] = useState("");
+  const [oxygenLevel, setOxygenLevel] = useState("");
+  const [position, setPosition] = useState("sitting");
+  const [notes, setNotes] = useState("");
+
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (reading && isOpen) {
+      setSystolic(reading.systolic.toString());
+      setDiastolic(reading.diastolic.toString());
+      setPulse(reading.pulse ? reading.pulse.toString() : "");
+      setOxygenLevel(reading.oxygenLevel ? reading.oxygenLevel.toString() : "");
+      setPosition(reading.position || "sitting");
+      setNotes(reading.notes || "");
+
+      const date = new Date(reading.timeOfReading);
+      setReadingDate(date);
+      setReadingTime(format(date, "HH:mm"));
+    }
+  }, [reading, isOpen]);
+
+  const invalidateReadings = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/blood-pressure", reading?.careRecipientId] });
+    queryClient.invalidateQueries({ queryKey: ["/api/blood-pressure/trends", reading?.careRecipientId] });
+    queryClient.invalidateQueries({ queryKey: ["/api/reading-alerts", reading?.careRecipientId] });
+    // Also invalidate today's stats for dashboard updates
+    queryClient.invalidateQueries({ queryKey: ["/api/care-stats/today", reading?.careRecipientId] });
+  };
+
+  const updateReadingMutation = useMutation({
+    mutationFn: async (updateData: {
+      systolic: number;
+      diastolic: number;
+      pulse: number | null;
+      oxygenLevel: number | null;
+      position: string;
+      timeOfReading: Date;
+      notes: string;
+    }) => {
+      const response = await fetch(`/api/blood-pressure/${reading?.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(updateData),
+      });
+      if (!response.ok) {
+        throw new Error("Failed to update blood pressure reading");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Blood pressure reading updated successfully",
+      });
+      invalidateReadings();
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteReadingMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/blood-pressure/${reading?.id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to delete blood pressure reading");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Blood pressure reading deleted successfully",
+      });
+      invalidateReadings();
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!systolic || !diastolic) {
+      toast({
+        title: "Error",
+        description: "Systolic and diastolic values are required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Create the timestamp from the date and time
+    const timeOfReading = new Date(readingDate);
+    const [hours, minutes] = readingTime.split(':').map(Number);
+    timeOfReading.setHours(hours, minutes);
+
+    updateReadingMutation.mutate({
+      systolic: Number(systolic),
+      diastolic: Number(diastolic),
+      pulse: pulse ? Number(pulse) : null,
+      oxygenLevel: oxygenLevel ? Number(oxygenLevel) : null,
+      position,
+      timeOfReading,
+      notes,
+    });
+  };
+
+  const handleDelete = () => {
+    if (window.confirm("Are you sure you want to delete this blood pressure reading?")) {
+      deleteReadingMutation.mutate();
+    }
+  };
+
+  const isSaving = updateReadingMutation.isPending || deleteReadingMutation.isPending;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Activity className="mr-2 h-5 w-5" />
+            Edit Blood Pressure Reading
+          </DialogTitle>
+          <DialogDescription>
+            Correct or delete this reading
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4 mb-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="edit-systolic">Systolic (mmHg)</Label>
+                <Input
+                  id="edit-systolic"
+                  type="number"
+                  value={systolic}
+                  onChange={(e) => setSystolic(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-diastolic">Diastolic (mmHg)</Label>
+                <Input
+                  id="edit-diastolic"
+                  type="number"
+                  value={diastolic}
+                  onChange={(e) => setDiastolic(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="edit-pulse">Pulse (bpm)</Label>
+                <Input
+                  id="edit-pulse"
+                  type="number"
+                  value={pulse}
+                  onChange={(e) => setPulse(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-oxygenLevel">Oxygen Level (%)</Label>
+                <Input
+                  id="edit-oxygenLevel"
+                  type="number"
+                  value={oxygenLevel}
+                  onChange={(e) => setOxygenLevel(e.target.value)}
+                  min="0"
+                  max="100"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="edit-position">Position</Label>
+              <Select value={position} onValueChange={setPosition}>
+                <SelectTrigger id="edit-position">
+                  <SelectValue placeholder="Select position" />
+                </SelectTrigger>
+                <SelectContent>
+                  {bloodPressurePositions.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Date</Label>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant="outline"
+                      className="w-full justify-start text-left font-normal"
+                    >
+                      {format(readingDate, "PPP")}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar
+                      mode="single"
+                      selected={readingDate}
+                      onSelect={(date) => date && setReadingDate(date)}
+                      initialFocus
+                    />
+                  </PopoverContent>
+                </Popover>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-time">Time</Label>
+                <Input
+                  id="edit-time"
+                  type="time"
+                  value={readingTime}
+                  onChange={(e) => setReadingTime(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="edit-notes">Notes</Label>
+              <Textarea
+                id="edit-notes"
+                placeholder="Add any additional information"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                className="min-h-[80px]"
+              />
+              <CharacterCount value={notes} maxLength={500} />
+            </div>
+          </div>
+
+          <DialogFooter className="flex flex-col sm:flex-row gap-2 sm:justify-between sm:gap-0">
+            <Button
+              type="button"
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={isSaving}
+            >
+              Delete
+            </Button>
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onClose}
+                disabled={isSaving}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {updateReadingMutation.isPending ? "Updating..." : "Update"}
+              </Button>
+            </div>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
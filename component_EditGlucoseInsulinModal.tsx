@@ -26,6 +26,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { CharacterCount } from "@/components/ui/character-count";
+import { importReadingTypes } from "@shared/glucose-import";
 
 interface EditGlucoseInsulinModalProps {
   type: "glucose" | "insulin";
@@ -109,6 +110,8 @@ export default function EditGlucoseInsulinModal({
         description: "Glucose reading updated successfully",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/glucose", data.careRecipientId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/glucose/analytics", data.careRecipientId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reading-alerts", data.careRecipientId] });
       // Also invalidate today's stats for dashboard updates
       queryClient.invalidateQueries({ queryKey: ["/api/care-stats/today", data.careRecipientId] });
       onClose();
@@ -179,6 +182,8 @@ export default function EditGlucoseInsulinModal({
         description: "Glucose reading deleted successfully",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/glucose", data.careRecipientId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/glucose/analytics", data.careRecipientId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reading-alerts", data.careRecipientId] });
       // Also invalidate today's stats for dashboard updates
       queryClient.invalidateQueries({ queryKey: ["/api/care-stats/today", data.careRecipientId] });
       onClose();
@@ -338,10 +343,9 @@ export default function EditGlucoseInsulinModal({
                     <SelectValue placeholder="Select reading type" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="fasting">Fasting</SelectItem>
-                    <SelectItem value="before-meal">Before Meal</SelectItem>
-                    <SelectItem value="after-meal">After Meal (2 hours)</SelectItem>
-                    <SelectItem value="bedtime">Bedtime</SelectItem>
+                    {importReadingTypes.map(type => (
+                      <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { useMutation } from '@tanstack/react-query';
+import { useMutation, useQuery } from '@tanstack/react-query';
 import {
   Dialog,
   DialogContent,
@@ -21,7 +21,8 @@ import {
 } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest, queryClient } from '@/lib/queryClient';
-import { Medication, MedicationSchedule } from '@shared/schema';
+import { Medication, MedicationSchedule, Doctor } from '@shared/schema';
+import AllergyWarningDialog, { type AllergyWarning } from '@/components/AllergyWarningDialog';
 
 interface EditMedicationModalProps {
   isOpen: boolean;
@@ -41,13 +42,20 @@ export default function EditMedicationModal({
     form: 'pill',
     icon: 'pill',
     iconColor: 'blue',
-    prescribingDoctorId: null,
+    doctorId: null,
     prescriptionNumber: '',
     reorderThreshold: 5,
   });
 
+  const [allergyWarnings, setAllergyWarnings] = useState<AllergyWarning[]>([]);
+
   const { toast } = useToast();
 
+  const { data: doctors = [] } = useQuery<Doctor[]>({
+    queryKey: ['/api/doctors', medication?.careRecipientId?.toString()],
+    enabled: isOpen && !!medication?.careRecipientId,
+  });
+
   useEffect(() => {
     if (medication) {
       setMedicationData({
@@ -60,7 +68,7 @@ export default function EditMedicationModal({
         icon: medication.icon || 'pill',
         iconColor: medication.iconColor || 'blue',
         // These properties might not exist in the schema, so we'll handle them safely
-        prescribingDoctorId: (medication as any).prescribingDoctorId || null,
+        doctorId: medication.doctorId ?? null,
         prescriptionNumber: (medication as any).prescriptionNumber || '',
         reorderThreshold: medication.reorderThreshold || 5,
         careRecipientId: medication.careRecipientId,
@@ -75,9 +83,23 @@ export default function EditMedicationModal({
         `/api/medications/${data.id}`,
         data
       );
+      // A renamed medication that conflicts with a recorded allergy needs to be acknowledged first
+      if (response.status === 409) {
+        const conflict = await response.json();
+        return { allergyConflict: true, allergyWarnings: conflict.allergyWarnings as AllergyWarning[] };
+      }
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
+      if (result?.allergyConflict) {
+        setAllergyWarnings(result.allergyWarnings || []);
+        return;
+      }
+
+      setAllergyWarnings([]);
       toast({
         title: "Medication Updated",
         description: "Successfully updated the medication information"
@@ -85,6 +107,8 @@ export default function EditMedicationModal({
       
       // Refresh medication data
       queryClient.invalidateQueries({ queryKey: ['/api/medications'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications/interaction-report'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medication-changes'] });
       onClose();
     },
     onError: (error) => {
@@ -104,7 +128,7 @@ export default function EditMedicationModal({
     }));
   };
 
-  const handleSelectChange = (name: string, value: string) => {
+  const handleSelectChange = (name: string, value: string | null) => {
     setMedicationData((prev: any) => ({
       ...prev,
       [name]: value
@@ -227,6 +251,26 @@ export default function EditMedicationModal({
               />
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="doctorId">Prescribing Doctor</Label>
+              <Select
+                value={medicationData.doctorId ? medicationData.doctorId.toString() : 'none'}
+                onValueChange={(value) => handleSelectChange('doctorId', value === 'none' ? null : value)}
+              >
+                <SelectTrigger id="doctorId">
+                  <SelectValue placeholder="Select doctor" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Not recorded</SelectItem>
+                  {doctors.map((doctor) => (
+                    <SelectItem key={doctor.id} value={doctor.id.toString()}>
+                      {doctor.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="form">Form</Label>
               <Select
@@ -334,6 +378,14 @@ export default function EditMedicationModal({
             {updateMedicationMutation.isPending ? 'Saving...' : 'Save Changes'}
           </Button>
         </DialogFooter>
+
+        <AllergyWarningDialog
+          warnings={allergyWarnings}
+          medicationName={medicationData.name}
+          isSaving={updateMedicationMutation.isPending}
+          onConfirm={() => updateMedicationMutation.mutate({ ...medicationData, allergyWarningsAcknowledged: true })}
+          onCancel={() => setAllergyWarnings([])}
+        />
       </DialogContent>
     </Dialog>
   );
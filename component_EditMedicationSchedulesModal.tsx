@@ -26,14 +26,27 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { format } from "date-fns";
 import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Trash2, PlusCircle, Loader2 } from "lucide-react";
+import { Trash2, PlusCircle, Loader2, Wand2 } from "lucide-react";
 import { Medication, MedicationLog } from "@shared/schema";
+import {
+  Sig,
+  SigFrequency,
+  sigTemplates,
+  sigFromTemplate,
+  parseSig,
+  describeSig,
+  getEveryNHoursTimes,
+  buildSchedulesFromSig,
+  matchSchedulesByTime,
+  parseDoseAmount,
+} from "@shared/sig";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { formatDate, formatTime } from "@/lib/utils";
 
@@ -49,14 +62,23 @@ const scheduleItemSchema = z.object({
   time: z.string().min(1, "Time is required"),
   daysOfWeek: z.array(z.number().min(0).max(6)),
   quantity: z.string().min(1, "Quantity is required"),
+  // Numeric dose, kept in step with the quantity text when saving
+  doseAmount: z.number().positive().nullable().default(null),
+  doseUnit: z.string().nullable().default(null),
   withFood: z.boolean().default(false),
   active: z.boolean().default(true),
   // Still include reminderEnabled in the schema to match database, but we'll hide it in the UI
   reminderEnabled: z.boolean().default(true),
   // Add asNeeded flag for "as needed" medications
   asNeeded: z.boolean().default(false),
+  // Safety limits for as-needed doses (empty means no limit)
+  maxDosesPer24h: z.number().int().positive().nullable().default(null),
+  minHoursBetweenDoses: z.number().int().positive().max(72).nullable().default(null),
   // Add specific days selection (for medications taken on specific calendar days)
   specificDays: z.array(z.string()).default([]),
+  // Every N days from intervalStartDate, used instead of days of the week
+  intervalDays: z.number().int().min(2).max(90).nullable().default(null),
+  intervalStartDate: z.string().nullable().default(null),
   // Add tapering dose schedule support
   isTapering: z.boolean().default(false),
   taperingSchedule: z.array(
@@ -146,6 +168,14 @@ const getQuantityOptionsForMedication = (medication: Medication | null) => {
     || quantityOptionsByForm.default;
 };
 
+// Sig builder unit for each medication form
+const sigUnitByForm: Record<string, string> = {
+  pills: "tablet",
+  capsule: "capsule",
+  droplet: "mL",
+  syringe: "injection",
+};
+
 // Days of the week options
 const daysOfWeekOptions = [
   { label: "Sunday", value: 0 },
@@ -164,6 +194,11 @@ export default function EditMedicationSchedulesModal({
 }: EditMedicationSchedulesModalProps) {
   const { toast } = useToast();
   const [showCustomTime, setShowCustomTime] = useState<number[]>([]);
+  const [sigText, setSigText] = useState("");
+  const [sig, setSig] = useState<Sig | null>(null);
+  const [sigErrors, setSigErrors] = useState<string[]>([]);
+  // Saved schedules replaced by generated ones - deleted when the new schedules are saved
+  const [replacedScheduleIds, setReplacedScheduleIds] = useState<number[]>([]);
 
   const form = useForm<z.infer<typeof scheduleSchema>>({
     resolver: zodResolver(scheduleSchema),
@@ -179,6 +214,11 @@ export default function EditMedicationSchedulesModal({
 
   // Load existing schedules when the medication changes
   useEffect(() => {
+    setSig(null);
+    setSigText("");
+    setSigErrors([]);
+    setReplacedScheduleIds([]);
+    
     if (medication && medication.schedules) {
       console.log("Loading schedules:", medication.schedules);
       
@@ -190,12 +230,18 @@ export default function EditMedicationSchedulesModal({
           time: schedule.time,
           daysOfWeek: Array.isArray(schedule.daysOfWeek) ? schedule.daysOfWeek : [0, 1, 2, 3, 4, 5, 6],
           quantity: schedule.quantity || "1 tablet",
+          doseAmount: schedule.doseAmount ?? null,
+          doseUnit: schedule.doseUnit ?? null,
           withFood: schedule.withFood || false,
           active: schedule.active || true,
           reminderEnabled: schedule.reminderEnabled || true,
           asNeeded: schedule.asNeeded || false,
+          maxDosesPer24h: schedule.maxDosesPer24h ?? null,
+          minHoursBetweenDoses: schedule.minHoursBetweenDoses ?? null,
           // Add the new fields with defaults if they don't exist in the schedule
           specificDays: schedule.specificDays || [],
+          intervalDays: schedule.intervalDays ?? null,
+          intervalStartDate: schedule.intervalStartDate ?? null,
           isTapering: schedule.isTapering || false,
           taperingSchedule: schedule.taperingSchedule || [],
         })),
@@ -234,6 +280,9 @@ export default function EditMedicationSchedulesModal({
     onSuccess: () => {
       // Invalidate relevant queries
       queryClient.invalidateQueries({ queryKey: ['/api/medications'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications/interaction-report'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications/prn-status'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medication-changes'] });
       
       toast({
         title: "Success",
@@ -259,8 +308,25 @@ export default function EditMedicationSchedulesModal({
       
       const results = [];
       
+      // Remove the schedules a generated sig replaced before adding the new ones
+      for (const scheduleId of replacedScheduleIds) {
+        const response = await apiRequest("DELETE", `/api/medication-schedules/${scheduleId}`);
+        if (!response.ok && response.status !== 404) {
+          const errorText = await response.text();
+          throw new Error(`Error deleting schedule: ${errorText}`);
+        }
+      }
+      
       // Update or create each schedule
-      for (const schedule of data.schedules) {
+      for (const formSchedule of data.schedules) {
+        // Keep the numeric dose in step with the quantity text, which may have been edited by hand
+        const dose = parseDoseAmount(formSchedule.quantity);
+        const schedule = {
+          ...formSchedule,
+          doseAmount: dose?.amount ?? null,
+          doseUnit: dose?.unit ?? null,
+        };
+        
         try {
           const isNew = !schedule.id;
           const method = isNew ? "POST" : "PATCH";
@@ -308,6 +374,9 @@ export default function EditMedicationSchedulesModal({
     onSuccess: () => {
       // Invalidate relevant queries
       queryClient.invalidateQueries({ queryKey: ['/api/medications'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications/interaction-report'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications/prn-status'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medication-changes'] });
       
       toast({
         title: "Success",
@@ -343,12 +412,70 @@ export default function EditMedicationSchedulesModal({
       active: true,
       reminderEnabled: true, // Keep this true even though UI option is removed
       asNeeded: false, // Default to regular schedule (not as-needed)
+      maxDosesPer24h: null,
+      minHoursBetweenDoses: null,
+      doseAmount: null,
+      doseUnit: null,
       specificDays: [], // Default to no specific days
+      intervalDays: null,
+      intervalStartDate: null,
       isTapering: false, // Default to not tapering
       taperingSchedule: [], // Default to no tapering schedule
     });
   };
 
+  // Start a sig from a frequency template, keeping the dose already entered
+  const handleSigTemplateSelect = (frequency: SigFrequency) => {
+    setSigErrors([]);
+    setSig(sigFromTemplate(frequency, {
+      amount: sig?.amount ?? 1,
+      unit: sig?.unit ?? sigUnitByForm[medication?.icon || "pills"] ?? "dose",
+      route: sig?.route ?? null,
+      withFood: sig?.withFood ?? false,
+      asNeeded: sig?.asNeeded ?? false,
+      maxDosesPer24h: sig?.maxDosesPer24h ?? null,
+    }));
+  };
+  
+  const updateSig = (changes: Partial<Sig>) => {
+    if (!sig) return;
+    const updated = { ...sig, ...changes };
+    if (changes.everyHours !== undefined && updated.everyHours) {
+      updated.times = getEveryNHoursTimes(updated.everyHours);
+    }
+    setSig(updated);
+  };
+  
+  const handleParseSig = () => {
+    const result = parseSig(sigText);
+    setSigErrors(result.errors);
+    if (result.sig) {
+      setSig(result.sig);
+    }
+  };
+  
+  // Replace the schedules in the form with the rows the sig describes. Saved schedules at a
+  // time the sig keeps are updated in place, so doses already logged against them stay attached;
+  // the rest are removed on save (the server switches off the ones with logged doses).
+  const applySig = () => {
+    if (!medication || !sig) return;
+    
+    const saved = form.getValues("schedules")
+      .filter((schedule): schedule is typeof schedule & { id: number } => !!schedule.id);
+    
+    const today = format(new Date(), "yyyy-MM-dd");
+    const { schedules, removedIds } = matchSchedulesByTime(saved, buildSchedulesFromSig(sig, medication.id, today));
+    setReplacedScheduleIds(prev => [...prev, ...removedIds]);
+    
+    form.reset({ schedules });
+    setShowCustomTime([]);
+    
+    toast({
+      title: "Schedules generated",
+      description: "Review the schedules below, then save to apply them.",
+    });
+  };
+
   const handleTimeOptionSelect = (index: number, value: string) => {
     // If "Custom" is selected, show the custom time input
     if (value === "custom") {
@@ -399,6 +526,169 @@ export default function EditMedicationSchedulesModal({
           <TabsContent value="schedules">
             <Form {...form}>
               <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                {/* Sig builder - generate schedules from directions or a frequency template */}
+                <div className="border rounded-lg p-4 space-y-3 bg-muted/30">
+                  <div>
+                    <h4 className="text-sm font-medium">Directions</h4>
+                    <p className="text-xs text-muted-foreground">
+                      Type the directions from the label (e.g. "1 tab PO BID with food") or pick a frequency
+                    </p>
+                  </div>
+                  
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="1 tab PO BID with food"
+                      value={sigText}
+                      onChange={(e) => setSigText(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") {
+                          e.preventDefault();
+                          handleParseSig();
+                        }
+                      }}
+                    />
+                    <Button type="button" variant="outline" onClick={handleParseSig} disabled={!sigText.trim()}>
+                      Read
+                    </Button>
+                  </div>
+                  
+                  {sigErrors.length > 0 && (
+                    <div className="text-xs text-destructive space-y-1">
+                      {sigErrors.map((error) => (
+                        <p key={error}>{error}</p>
+                      ))}
+                    </div>
+                  )}
+                  
+                  <div className="flex flex-wrap gap-2">
+                    {sigTemplates.map((template) => (
+                      <Button
+                        key={template.frequency}
+                        type="button"
+                        size="sm"
+                        variant={sig?.frequency === template.frequency ? "default" : "outline"}
+                        onClick={() => handleSigTemplateSelect(template.frequency)}
+                        title={template.abbreviation}
+                      >
+                        {template.label}
+                      </Button>
+                    ))}
+                  </div>
+                  
+                  {sig && (
+                    <div className="space-y-3">
+                      <div className="grid grid-cols-2 gap-2">
+                        <div>
+                          <label className="text-xs font-medium">Amount</label>
+                          <Input
+                            type="number"
+                            min={0.25}
+                            step={0.25}
+                            value={sig.amount}
+                            onChange={(e) => {
+                              const amount = parseFloat(e.target.value);
+                              if (amount > 0) updateSig({ amount });
+                            }}
+                          />
+                        </div>
+                        <div>
+                          <label className="text-xs font-medium">Unit</label>
+                          <Input
+                            value={sig.unit}
+                            onChange={(e) => updateSig({ unit: e.target.value })}
+                          />
+                        </div>
+                      </div>
+                      
+                      {sig.frequency === "every_n_hours" && (
+                        <div>
+                          <label className="text-xs font-medium">Every how many hours</label>
+                          <Input
+                            type="number"
+                            min={1}
+                            max={24}
+                            value={sig.everyHours ?? ""}
+                            onChange={(e) => {
+                              const everyHours = parseInt(e.target.value);
+                              if (everyHours >= 1 && everyHours <= 24) updateSig({ everyHours });
+                            }}
+                          />
+                        </div>
+                      )}
+                      
+                      {sig.frequency === "every_n_days" && (
+                        <div>
+                          <label className="text-xs font-medium">Every how many days (starting today)</label>
+                          <Input
+                            type="number"
+                            min={2}
+                            max={90}
+                            value={sig.everyDays ?? ""}
+                            onChange={(e) => {
+                              const everyDays = parseInt(e.target.value);
+                              if (everyDays >= 2 && everyDays <= 90) updateSig({ everyDays });
+                            }}
+                          />
+                        </div>
+                      )}
+                      
+                      {sig.frequency === "weekly" && (
+                        <div>
+                          <label className="text-xs font-medium">Day of the week</label>
+                          <Select
+                            value={String(sig.dayOfWeek ?? new Date().getDay())}
+                            onValueChange={(value) => updateSig({ dayOfWeek: parseInt(value) })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {daysOfWeekOptions.map((day) => (
+                                <SelectItem key={day.value} value={String(day.value)}>
+                                  {day.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+                      
+                      <div className="flex flex-wrap gap-4">
+                        <div className="flex items-center space-x-2">
+                          <Checkbox
+                            id="sig-with-food"
+                            checked={sig.withFood}
+                            onCheckedChange={(checked) => updateSig({ withFood: !!checked })}
+                          />
+                          <label htmlFor="sig-with-food" className="text-xs cursor-pointer">With food</label>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <Checkbox
+                            id="sig-as-needed"
+                            checked={sig.asNeeded}
+                            onCheckedChange={(checked) => updateSig({ asNeeded: !!checked })}
+                          />
+                          <label htmlFor="sig-as-needed" className="text-xs cursor-pointer">As needed</label>
+                        </div>
+                      </div>
+                      
+                      <div className="text-sm">
+                        <span className="font-medium">{describeSig(sig)}</span>
+                        {!sig.asNeeded && (
+                          <p className="text-xs text-muted-foreground">
+                            Doses at {sig.times.map(time => timeOptions.find(option => option.value === time)?.label ?? time.slice(0, 5)).join(", ")}
+                          </p>
+                        )}
+                      </div>
+                      
+                      <Button type="button" size="sm" onClick={applySig} className="flex items-center gap-2">
+                        <Wand2 className="h-4 w-4" />
+                        {fields.length > 0 ? "Replace schedules" : "Create schedules"}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                
                 {fields.length === 0 ? (
                   <div className="text-center py-6">
                     <p className="text-muted-foreground mb-4">No schedules set for this medication.</p>
@@ -606,11 +896,24 @@ export default function EditMedicationSchedulesModal({
                                 </p>
                               </div>
                               <Select 
-                                value={form.watch(`schedules.${index}.specificDays`).length > 0 ? "specific" : "weekly"}
+                                value={
+                                  form.watch(`schedules.${index}.specificDays`).length > 0
+                                    ? "specific"
+                                    : form.watch(`schedules.${index}.intervalDays`)
+                                      ? "interval"
+                                      : "weekly"
+                                }
                                 onValueChange={(value) => {
+                                  // Only one kind of schedule applies at a time
+                                  form.setValue(`schedules.${index}.intervalDays`, null);
+                                  form.setValue(`schedules.${index}.intervalStartDate`, null);
                                   if (value === "weekly") {
                                     // Clear any specific dates if switching to weekly
                                     form.setValue(`schedules.${index}.specificDays`, []);
+                                  } else if (value === "interval") {
+                                    form.setValue(`schedules.${index}.specificDays`, []);
+                                    form.setValue(`schedules.${index}.intervalDays`, 2);
+                                    form.setValue(`schedules.${index}.intervalStartDate`, format(new Date(), "yyyy-MM-dd"));
                                   } else {
                                     // Add today's date if switching to specific dates
                                     const today = new Date();
@@ -624,13 +927,58 @@ export default function EditMedicationSchedulesModal({
                                 </SelectTrigger>
                                 <SelectContent>
                                   <SelectItem value="weekly">Days of Week</SelectItem>
+                                  <SelectItem value="interval">Every N Days</SelectItem>
                                   <SelectItem value="specific">Specific Dates</SelectItem>
                                 </SelectContent>
                               </Select>
                             </div>
 
-                            {/* Show Days of Week selection if no specific days are selected */}
-                            {form.watch(`schedules.${index}.specificDays`).length === 0 && (
+                            {/* Every N days from a start date */}
+                            {form.watch(`schedules.${index}.specificDays`).length === 0 &&
+                             !!form.watch(`schedules.${index}.intervalDays`) && (
+                              <div className="grid grid-cols-2 gap-2">
+                                <FormField
+                                  control={form.control}
+                                  name={`schedules.${index}.intervalDays`}
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel className="text-xs">Every how many days</FormLabel>
+                                      <FormControl>
+                                        <Input
+                                          type="number"
+                                          min={2}
+                                          max={90}
+                                          value={field.value ?? ""}
+                                          onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : null)}
+                                        />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                                <FormField
+                                  control={form.control}
+                                  name={`schedules.${index}.intervalStartDate`}
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel className="text-xs">Starting</FormLabel>
+                                      <FormControl>
+                                        <Input
+                                          type="date"
+                                          value={field.value ?? ""}
+                                          onChange={(e) => field.onChange(e.target.value || null)}
+                                        />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                              </div>
+                            )}
+
+                            {/* Show Days of Week selection if no specific days or interval are set */}
+                            {form.watch(`schedules.${index}.specificDays`).length === 0 &&
+                             !form.watch(`schedules.${index}.intervalDays`) && (
                               <FormField
                                 control={form.control}
                                 name={`schedules.${index}.daysOfWeek`}
@@ -709,6 +1057,51 @@ export default function EditMedicationSchedulesModal({
                             )}
                           />
                           
+                          {/* Dose limits for as-needed medications */}
+                          {form.watch(`schedules.${index}.asNeeded`) && (
+                            <div className="grid grid-cols-2 gap-3">
+                              <FormField
+                                control={form.control}
+                                name={`schedules.${index}.maxDosesPer24h`}
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel className="text-xs">Max doses per 24 hours</FormLabel>
+                                    <FormControl>
+                                      <Input
+                                        type="number"
+                                        min="1"
+                                        placeholder="No limit"
+                                        value={field.value ?? ""}
+                                        onChange={(e) => field.onChange(e.target.value === "" ? null : parseInt(e.target.value))}
+                                      />
+                                    </FormControl>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+                              <FormField
+                                control={form.control}
+                                name={`schedules.${index}.minHoursBetweenDoses`}
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel className="text-xs">Min hours between doses</FormLabel>
+                                    <FormControl>
+                                      <Input
+                                        type="number"
+                                        min="1"
+                                        max="72"
+                                        placeholder="No limit"
+                                        value={field.value ?? ""}
+                                        onChange={(e) => field.onChange(e.target.value === "" ? null : parseInt(e.target.value))}
+                                      />
+                                    </FormControl>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+                            </div>
+                          )}
+                          
                           {/* Only show if not "As Needed" */}
                           {!form.watch(`schedules.${index}.asNeeded`) && (
                             <>
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarClock } from "lucide-react";
+
+interface ExpiringMedication {
+  medicationId: number;
+  name: string;
+  dosage: string;
+  expirationDate: string;
+  currentQuantity: number;
+  daysUntilExpiration: number;
+  expired: boolean;
+  expiringSoon: boolean;
+}
+
+interface ExpiringMedicationsProps {
+  careRecipientId: string | number | null;
+}
+
+// "default" uses the caregiver's own setting from notification settings
+const leadDayOptions = ["default", "7", "14", "30", "60", "90"];
+
+export default function ExpiringMedications({ careRecipientId }: ExpiringMedicationsProps) {
+  const { toast } = useToast();
+  const [leadDays, setLeadDays] = useState("default");
+
+  const { data: expiring, isLoading } = useQuery<ExpiringMedication[]>({
+    queryKey: ['/api/medications/expiring', careRecipientId, leadDays],
+    queryFn: async () => {
+      const params = new URLSearchParams({ careRecipientId: String(careRecipientId) });
+      if (leadDays !== "default") params.set("leadDays", leadDays);
+      const response = await fetch(`/api/medications/expiring?${params}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch expiring medications");
+      }
+      return response.json();
+    },
+    enabled: !!careRecipientId,
+  });
+
+  const writeOffMutation = useMutation({
+    mutationFn: async (medicationId: number) => {
+      const response = await apiRequest("POST", `/api/medications/${medicationId}/write-off-expired`, {});
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to write off expired stock");
+      }
+      return response.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Expired stock written off",
+        description: `${result.writtenOff} removed from inventory.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications/expiring'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications/reorder-alerts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications/refill-forecast'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medication-inventory-ledger'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Nothing to show unless something is expiring, so the panel stays out of the way
+  if (isLoading || !expiring || (expiring.length === 0 && leadDays === "default")) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center">
+          <CalendarClock className="h-5 w-5 text-amber-500 mr-2" />
+          <h3 className="text-lg font-medium">Expiring Soon</h3>
+        </div>
+        <Select value={leadDays} onValueChange={setLeadDays}>
+          <SelectTrigger className="w-[130px] h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {leadDayOptions.map(option => (
+              <SelectItem key={option} value={option}>
+                {option === "default" ? "My setting" : `Next ${option} days`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {expiring.length === 0 ? (
+        <div className="py-2 text-sm text-gray-500">No medications expire in the next {leadDays} days.</div>
+      ) : (
+        <div className="space-y-2">
+          {expiring.map(med => (
+            <div key={med.medicationId} className="flex items-center justify-between border border-gray-100 rounded-lg p-3">
+              <div>
+                <div className="font-medium text-sm">{med.name} <span className="text-gray-500 font-normal">{med.dosage}</span></div>
+                <div className={`text-xs ${med.expired ? 'text-red-600 font-medium' : 'text-amber-700'}`}>
+                  {med.expired ? 'Expired' : 'Expires'} {format(new Date(`${med.expirationDate}T00:00:00`), 'MMM d, yyyy')}
+                  {!med.expired && ` (${med.daysUntilExpiration === 0 ? 'today' : `in ${med.daysUntilExpiration} days`})`}
+                  {` · ${med.currentQuantity} in stock`}
+                </div>
+              </div>
+              {med.expired && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => writeOffMutation.mutate(med.medicationId)}
+                  disabled={writeOffMutation.isPending}
+                >
+                  Write off
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
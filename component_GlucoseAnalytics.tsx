@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Area, CartesianGrid, ComposedChart, Line, ReferenceLine, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { BarChart3 } from "lucide-react";
+import {
+  DEFAULT_GLUCOSE_ANALYTICS_WINDOW,
+  GLUCOSE_VARIABILITY_TARGET,
+  GlucoseRangeBand,
+  glucoseAnalyticsWindows,
+  glucoseRangeBands
+} from "@shared/glucose-analytics";
+
+interface GlucoseAnalyticsData {
+  days: number;
+  from: string;
+  to: string;
+  readingCount: number;
+  daysWithReadings: number;
+  mean: number | null;
+  standardDeviation: number | null;
+  coefficientOfVariation: number | null;
+  gmi: number | null;
+  estimatedA1c: number | null;
+  timeInRanges: Record<GlucoseRangeBand, number>;
+  profile: Array<{
+    hour: number;
+    count: number;
+    p5: number | null;
+    p25: number | null;
+    p50: number | null;
+    p75: number | null;
+    p95: number | null;
+  }>;
+}
+
+interface GlucoseAnalyticsProps {
+  careRecipientId: number | null;
+}
+
+const bandColors: Record<GlucoseRangeBand, string> = {
+  veryHigh: "bg-orange-500",
+  high: "bg-amber-300",
+  inRange: "bg-green-500",
+  low: "bg-red-400",
+  veryLow: "bg-red-700",
+};
+
+const chartConfig: ChartConfig = {
+  outer: { label: "5th-95th percentile", color: "#93c5fd" },
+  inner: { label: "25th-75th percentile", color: "#3b82f6" },
+  p50: { label: "Median", color: "#1e3a8a" },
+};
+
+const formatHour = (hour: number) => format(new Date(2000, 0, 1, hour), 'ha');
+
+// Time in range, GMI / estimated A1C and the ambulatory glucose profile (AGP) - every day's
+// readings stacked onto one 24-hour day to show when glucose usually runs high or low
+export default function GlucoseAnalytics({ careRecipientId }: GlucoseAnalyticsProps) {
+  const [days, setDays] = useState(DEFAULT_GLUCOSE_ANALYTICS_WINDOW);
+
+  const { data: analytics, isLoading } = useQuery<GlucoseAnalyticsData>({
+    queryKey: ["/api/glucose/analytics", careRecipientId, days],
+    queryFn: async () => {
+      const response = await fetch(`/api/glucose/analytics?careRecipientId=${careRecipientId}&days=${days}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch glucose analytics");
+      }
+      return response.json();
+    },
+    enabled: !!careRecipientId,
+  });
+
+  // Recharts draws a band when an Area's value is a [low, high] pair
+  const profile = analytics?.profile.map(hour => ({
+    hour: hour.hour,
+    outer: hour.p5 === null || hour.p95 === null ? null : [hour.p5, hour.p95],
+    inner: hour.p25 === null || hour.p75 === null ? null : [hour.p25, hour.p75],
+    p50: hour.p50,
+  })) || [];
+
+  const stats = analytics ? [
+    { label: "Average", value: analytics.mean === null ? "—" : `${analytics.mean} mg/dL` },
+    { label: "GMI", value: analytics.gmi === null ? "—" : `${analytics.gmi}%` },
+    { label: "Est. A1C", value: analytics.estimatedA1c === null ? "—" : `${analytics.estimatedA1c}%` },
+    { label: "Std. deviation", value: analytics.standardDeviation === null ? "—" : `${analytics.standardDeviation} mg/dL` },
+    {
+      label: "Variability (CV)",
+      value: analytics.coefficientOfVariation === null ? "—" : `${analytics.coefficientOfVariation}%`,
+      warning: analytics.coefficientOfVariation !== null && analytics.coefficientOfVariation > GLUCOSE_VARIABILITY_TARGET
+    },
+    { label: "Readings", value: `${analytics.readingCount} on ${analytics.daysWithReadings} days` },
+  ] : [];
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-2">
+        <div className="flex justify-between items-center">
+          <CardTitle className="text-lg flex items-center">
+            <BarChart3 className="mr-2 h-5 w-5" />
+            Glucose Report
+          </CardTitle>
+          <div className="flex gap-1">
+            {glucoseAnalyticsWindows.map(option => (
+              <Button
+                key={option}
+                variant={days === option ? "default" : "outline"}
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setDays(option)}
+              >
+                {option}d
+              </Button>
+            ))}
+          </div>
+        </div>
+        <CardDescription>
+          {analytics
+            ? `${format(new Date(`${analytics.from}T00:00:00`), 'MMM d')} – ${format(new Date(`${analytics.to}T00:00:00`), 'MMM d, yyyy')}`
+            : `The last ${days} days`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-6 text-sm text-muted-foreground">Loading report...</div>
+        ) : !analytics || analytics.readingCount === 0 ? (
+          <div className="text-center py-6 text-sm text-muted-foreground">No glucose readings in the last {days} days</div>
+        ) : (
+          <div className="space-y-5">
+            <div>
+              <h4 className="text-sm font-medium mb-2">Time in range</h4>
+              <div className="flex h-4 w-full overflow-hidden rounded">
+                {[...glucoseRangeBands].reverse().map(band => analytics.timeInRanges[band.value] > 0 && (
+                  <div
+                    key={band.value}
+                    className={bandColors[band.value]}
+                    style={{ width: `${analytics.timeInRanges[band.value]}%` }}
+                    title={`${band.label}: ${analytics.timeInRanges[band.value]}%`}
+                  />
+                ))}
+              </div>
+              <div className="mt-2 space-y-0.5">
+                {glucoseRangeBands.map(band => (
+                  <div key={band.value} className="flex items-center justify-between text-xs">
+                    <span className="flex items-center">
+                      <span className={`inline-block h-2 w-2 rounded-full mr-2 ${bandColors[band.value]}`} />
+                      {band.label} <span className="text-muted-foreground ml-1">({band.description})</span>
+                    </span>
+                    <span className="font-medium">{analytics.timeInRanges[band.value]}%</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {stats.map(stat => (
+                <div key={stat.label} className="rounded-md bg-gray-50 p-2">
+                  <div className="text-xs text-muted-foreground">{stat.label}</div>
+                  <div className={`text-sm font-medium ${stat.warning ? 'text-amber-600' : ''}`}>{stat.value}</div>
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium mb-1">Daily glucose profile</h4>
+              <p className="text-xs text-muted-foreground mb-2">
+                Median and spread of readings by hour of day. Hours without readings are left out.
+              </p>
+              <ChartContainer config={chartConfig} className="h-56 w-full">
+                <ComposedChart data={profile}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="hour"
+                    tickLine={false}
+                    axisLine={false}
+                    ticks={[0, 3, 6, 9, 12, 15, 18, 21]}
+                    tickFormatter={formatHour}
+                  />
+                  <YAxis tickLine={false} axisLine={false} width={32} domain={[40, 'dataMax + 20']} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => formatHour(payload?.[0]?.payload?.hour ?? 0)} />} />
+                  <ReferenceLine y={70} stroke="#ef4444" strokeDasharray="4 4" />
+                  <ReferenceLine y={180} stroke="#f59e0b" strokeDasharray="4 4" />
+                  <Area dataKey="outer" stroke="none" fill="var(--color-outer)" fillOpacity={0.4} connectNulls />
+                  <Area dataKey="inner" stroke="none" fill="var(--color-inner)" fillOpacity={0.5} connectNulls />
+                  <Line dataKey="p50" stroke="var(--color-p50)" strokeWidth={2} dot={false} connectNulls />
+                </ComposedChart>
+              </ChartContainer>
+            </div>
+
+            {analytics.daysWithReadings < DEFAULT_GLUCOSE_ANALYTICS_WINDOW && (
+              <p className="text-xs text-muted-foreground">
+                GMI and time in range are most reliable with readings on at least {DEFAULT_GLUCOSE_ANALYTICS_WINDOW} days,
+                ideally from a continuous glucose monitor.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,261 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { parseCsv } from "@shared/csv";
+import {
+  GlucoseImportFormat,
+  GlucoseImportResult,
+  GlucoseUnit,
+  glucoseImportFormats,
+  importReadingTypes
+} from "@shared/glucose-import";
+
+interface GlucoseImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  careRecipientId: number | null;
+}
+
+// Upload a Dexcom Clarity export or any meter CSV into the glucose readings
+export default function GlucoseImportModal({ isOpen, onClose, careRecipientId }: GlucoseImportModalProps) {
+  const { toast } = useToast();
+  const [format, setFormat] = useState<GlucoseImportFormat>("dexcom_clarity");
+  const [file, setFile] = useState<File | null>(null);
+  const [columns, setColumns] = useState<string[]>([]);
+  const [timestampColumn, setTimestampColumn] = useState("");
+  const [valueColumn, setValueColumn] = useState("");
+  const [unit, setUnit] = useState<GlucoseUnit>("mg/dL");
+  const [readingType, setReadingType] = useState("other");
+  const [result, setResult] = useState<GlucoseImportResult | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setFile(null);
+      setColumns([]);
+      setTimestampColumn("");
+      setValueColumn("");
+      setResult(null);
+    }
+  }, [isOpen]);
+
+  // Read the header row so the caregiver can pick columns for a generic CSV
+  const handleFileChange = async (selected: File | null) => {
+    setFile(selected);
+    setResult(null);
+    setColumns([]);
+    setTimestampColumn("");
+    setValueColumn("");
+    if (!selected) return;
+
+    const [header = []] = parseCsv((await selected.slice(0, 4096).text()).split(/\r?\n/)[0] || "");
+    const names = header.map(name => name.trim()).filter(Boolean);
+    setColumns(names);
+    setTimestampColumn(names.find(name => /time|date/i.test(name)) || "");
+    setValueColumn(names.find(name => /glucose|bg|value|reading/i.test(name)) || "");
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const params = new URLSearchParams({ careRecipientId: String(careRecipientId), format });
+      if (format === "generic") {
+        params.set("timestampColumn", timestampColumn);
+        params.set("valueColumn", valueColumn);
+        params.set("unit", unit);
+        params.set("readingType", readingType);
+      }
+
+      const response = await fetch(`/api/glucose/import?${params}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "text/csv",
+        },
+        body: await file!.text(),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to import readings");
+      }
+      return response.json() as Promise<GlucoseImportResult>;
+    },
+    onSuccess: (importResult) => {
+      setResult(importResult);
+      if (importResult.imported > 0) {
+        queryClient.invalidateQueries({ queryKey: ["/api/glucose", careRecipientId] });
+        queryClient.invalidateQueries({ queryKey: ["/api/glucose/analytics", careRecipientId] });
+        queryClient.invalidateQueries({ queryKey: ["/api/care-stats/today", careRecipientId] });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canImport = !!file && !!careRecipientId && (format === "dexcom_clarity" || (!!timestampColumn && !!valueColumn));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[480px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Upload className="mr-2 h-5 w-5" />
+            Import Glucose Readings
+          </DialogTitle>
+          <DialogDescription>
+            Readings already recorded at the same time are skipped, so it's safe to import overlapping exports.
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div className="rounded-md bg-green-50 p-2">
+                <div className="text-lg font-semibold text-green-700">{result.imported}</div>
+                <div className="text-xs text-muted-foreground">Imported</div>
+              </div>
+              <div className="rounded-md bg-gray-50 p-2">
+                <div className="text-lg font-semibold">{result.skipped}</div>
+                <div className="text-xs text-muted-foreground">Already recorded</div>
+              </div>
+              <div className="rounded-md bg-red-50 p-2">
+                <div className="text-lg font-semibold text-red-700">{result.rejected}</div>
+                <div className="text-xs text-muted-foreground">Rejected</div>
+              </div>
+            </div>
+            {result.errors.length > 0 && (
+              <div className="text-xs space-y-0.5">
+                {result.errors.map(error => (
+                  <div key={error.row} className="text-red-700">Row {error.row}: {error.reason}</div>
+                ))}
+                {result.rejected > result.errors.length && (
+                  <div className="text-muted-foreground">and {result.rejected - result.errors.length} more</div>
+                )}
+              </div>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setResult(null)}>Import Another</Button>
+              <Button onClick={onClose}>Done</Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="glucose-import-format">Export from</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as GlucoseImportFormat)}>
+                <SelectTrigger id="glucose-import-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {glucoseImportFormats.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {glucoseImportFormats.find(option => option.value === format)?.description}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="glucose-import-file">CSV file</Label>
+              <Input
+                id="glucose-import-file"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+              />
+            </div>
+
+            {format === "generic" && columns.length > 0 && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="glucose-import-timestamp">Date/time column</Label>
+                  <Select value={timestampColumn} onValueChange={setTimestampColumn}>
+                    <SelectTrigger id="glucose-import-timestamp">
+                      <SelectValue placeholder="Select column" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {columns.map(column => (
+                        <SelectItem key={column} value={column}>{column}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="glucose-import-value">Glucose column</Label>
+                  <Select value={valueColumn} onValueChange={setValueColumn}>
+                    <SelectTrigger id="glucose-import-value">
+                      <SelectValue placeholder="Select column" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {columns.map(column => (
+                        <SelectItem key={column} value={column}>{column}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="glucose-import-unit">Unit</Label>
+                  <Select value={unit} onValueChange={(value) => setUnit(value as GlucoseUnit)}>
+                    <SelectTrigger id="glucose-import-unit">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="mg/dL">mg/dL</SelectItem>
+                      <SelectItem value="mmol/L">mmol/L</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="glucose-import-type">Reading type</Label>
+                  <Select value={readingType} onValueChange={setReadingType}>
+                    <SelectTrigger id="glucose-import-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {importReadingTypes.map(type => (
+                        <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={onClose} disabled={importMutation.isPending}>
+                Cancel
+              </Button>
+              <Button onClick={() => importMutation.mutate()} disabled={!canImport || importMutation.isPending}>
+                {importMutation.isPending ? "Importing..." : "Import"}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
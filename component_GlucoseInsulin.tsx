@@ -5,7 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { TabType } from "@/lib/types";
 import { format } from "date-fns";
-import { Droplets, PlusCircle, Syringe, ArrowDown, ArrowUp, Pencil } from "lucide-react";
+import { Droplets, PlusCircle, Syringe, ArrowDown, ArrowUp, Pencil, SlidersHorizontal, Upload } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Calendar } from "@/components/ui/calendar";
@@ -21,11 +21,24 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { Glucose, Insulin } from "@shared/schema";
+import { Glucose, Insulin, ReadingAlert } from "@shared/schema";
+import { getReadingSourceLabel } from "@shared/health-import";
 import PageHeader from "@/components/PageHeader";
 import BottomNavigation from "@/components/BottomNavigation";
 import { useCareRecipient } from "@/hooks/use-care-recipient";
 import EditGlucoseInsulinModal from "@/components/EditGlucoseInsulinModal";
+import CaregiverFilter, { LoggedBy, filterByCaregiver } from "@/components/CaregiverFilter";
+import ClinicalThresholdsModal, { useClinicalThresholds } from "@/components/ClinicalThresholdsModal";
+import ReadingAlerts from "@/components/ReadingAlerts";
+import GlucoseAnalytics from "@/components/GlucoseAnalytics";
+import GlucoseImportModal from "@/components/GlucoseImportModal";
+import {
+  defaultClinicalThresholds,
+  describeBreach,
+  getGlucoseRange,
+  getThresholdStatus,
+  glucoseReadingTypes
+} from "@shared/clinical-thresholds";
 
 interface GlucoseInsulinPageProps {
   activeTab: TabType;
@@ -56,8 +69,12 @@ export default function GlucoseInsulinPage({ activeTab, setActiveTab }: GlucoseI
   const [editModalOpen, setEditModalOpen] = useState(false);
   const [editModalType, setEditModalType] = useState<"glucose" | "insulin">("glucose");
   const [selectedRecord, setSelectedRecord] = useState<Glucose | Insulin | null>(null);
+  const [caregiverFilter, setCaregiverFilter] = useState("all");
+  const [showThresholds, setShowThresholds] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   
   const { toast } = useToast();
+  const { data: thresholds = defaultClinicalThresholds } = useClinicalThresholds(careRecipientId);
 
   const { data: glucoseReadings, isLoading: isLoadingGlucose } = useQuery({
     queryKey: ["/api/glucose", careRecipientId],
@@ -83,6 +100,9 @@ export default function GlucoseInsulinPage({ activeTab, setActiveTab }: GlucoseI
     enabled: !!careRecipientId,
   });
 
+  const visibleGlucose = filterByCaregiver<Glucose>(glucoseReadings, caregiverFilter);
+  const visibleInsulin = filterByCaregiver<Insulin>(insulinRecords, caregiverFilter);
+
   const addGlucoseMutation = useMutation({
     mutationFn: async (data: {
       careRecipientId: number;
@@ -103,7 +123,7 @@ export default function GlucoseInsulinPage({ activeTab, setActiveTab }: GlucoseI
       }
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (newReading: Glucose & { alerts: ReadingAlert[] }) => {
       // Reset only the glucose form and hide it (keep insulin form data intact)
       setShowAddForm(false);
       setGlucoseLevel("");
@@ -111,11 +131,21 @@ export default function GlucoseInsulinPage({ activeTab, setActiveTab }: GlucoseI
       setGlucoseNotes("");
       
       // Show success toast and invalidate queries
-      toast({
-        title: "Success",
-        description: "Glucose reading added successfully",
-      });
+      if (newReading.alerts.length > 0) {
+        toast({
+          title: "Reading out of range",
+          description: newReading.alerts.map(alert => describeBreach(alert)).join(". "),
+          variant: "destructive",
+        });
+        queryClient.invalidateQueries({ queryKey: ["/api/reading-alerts", careRecipientId] });
+      } else {
+        toast({
+          title: "Success",
+          description: "Glucose reading added successfully",
+        });
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/glucose", careRecipientId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/glucose/analytics", careRecipientId] });
       // Also invalidate today's stats for dashboard updates
       queryClient.invalidateQueries({ queryKey: ["/api/care-stats/today", careRecipientId] });
     },
@@ -250,18 +280,10 @@ export default function GlucoseInsulinPage({ activeTab, setActiveTab }: GlucoseI
     });
   };
   
-  const getGlucoseStatusColor = (level: number, type: string) => {
-    // Different thresholds based on reading type
-    if (type === 'fasting') {
-      if (level < 70) return "text-red-500"; // Low
-      if (level > 130) return "text-red-500"; // High
-      return "text-green-500"; // Normal
-    } else {
-      // Post-meal
-      if (level < 70) return "text-red-500"; // Low
-      if (level > 180) return "text-red-500"; // High
-      return "text-green-500"; // Normal
-    }
+  // Where a reading sits against the care recipient's range for its reading type
+  const getGlucoseStatus = (level: number, type: string) => {
+    const range = getGlucoseRange(thresholds, type);
+    return getThresholdStatus(level, range.low, range.high);
   };
 
   const getReadingTypeBadge = (type: string) => {
@@ -274,6 +296,10 @@ export default function GlucoseInsulinPage({ activeTab, setActiveTab }: GlucoseI
         return <Badge variant="outline">After Meal</Badge>;
       case 'bedtime':
         return <Badge variant="outline">Bedtime</Badge>;
+      case 'cgm':
+        return <Badge variant="outline">CGM</Badge>;
+      case 'other':
+        return <Badge variant="outline">Other</Badge>;
       default:
         return <Badge variant="outline">{type}</Badge>;
     }
@@ -312,7 +338,16 @@ export default function GlucoseInsulinPage({ activeTab, setActiveTab }: GlucoseI
       <PageHeader title="Glucose & Insulin Tracker" icon={<Droplets className="h-6 w-6" />} />
       
       <div className="flex justify-between items-center mb-6">
-        <div></div> {/* Empty div for flex spacing */}
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setShowThresholds(true)}>
+            <SlidersHorizontal className="mr-2 h-4 w-4" />
+            Thresholds
+          </Button>
+          <Button variant="outline" onClick={() => setShowImport(true)}>
+            <Upload className="mr-2 h-4 w-4" />
+            Import
+          </Button>
+        </div>
         <Button onClick={() => {
           // Only toggle the visibility, don't reset form data
           setShowAddForm(!showAddForm)
@@ -378,10 +413,9 @@ export default function GlucoseInsulinPage({ activeTab, setActiveTab }: GlucoseI
                         <SelectValue placeholder="Select reading type" />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="fasting">Fasting</SelectItem>
-                        <SelectItem value="before-meal">Before Meal</SelectItem>
-                        <SelectItem value="after-meal">After Meal (2 hours)</SelectItem>
-                        <SelectItem value="bedtime">Bedtime</SelectItem>
+                        {glucoseReadingTypes.map(type => (
+                          <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   </div>
@@ -538,7 +572,19 @@ export default function GlucoseInsulinPage({ activeTab, setActiveTab }: GlucoseI
         </Card>
       )}
 
+      <ReadingAlerts careRecipientId={careRecipientId} readingType="glucose" />
+
+      <GlucoseAnalytics careRecipientId={careRecipientId} />
+
       <div className="space-y-8">
+        <div className="flex justify-end">
+          <CaregiverFilter
+            careRecipientId={careRecipientId}
+            value={caregiverFilter}
+            onChange={setCaregiverFilter}
+          />
+        </div>
+
         {/* Glucose Records */}
         <div className="space-y-4">
           <h2 className="text-xl font-semibold flex items-center">
@@ -548,18 +594,18 @@ export default function GlucoseInsulinPage({ activeTab, setActiveTab }: GlucoseI
           
           {isLoadingGlucose ? (
             <div className="text-center py-8">Loading...</div>
-          ) : !glucoseReadings || glucoseReadings.length === 0 ? (
+          ) : visibleGlucose.length === 0 ? (
             <div className="text-center py-8">
               <p className="text-muted-foreground">No glucose readings recorded yet.</p>
             </div>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {glucoseReadings.map((reading: Glucose) => (
+              {visibleGlucose.map((reading: Glucose) => (
                 <Card key={reading.id} className="overflow-hidden w-full">
                   <CardHeader className="pb-2 px-4 py-3">
                     <div className="flex justify-between items-start">
                       <CardTitle className="text-lg">
-                        <span className={getGlucoseStatusColor(reading.level, reading.readingType)}>
+                        <span className={getGlucoseStatus(reading.level, reading.readingType) === 'normal' ? "text-green-500" : "text-red-500"}>
                           {reading.level} mg/dL
                         </span>
                       </CardTitle>
@@ -573,9 +619,9 @@ export default function GlucoseInsulinPage({ activeTab, setActiveTab }: GlucoseI
                         >
                           <Pencil className="h-4 w-4" />
                         </Button>
-                        {reading.level > 130 ? (
+                        {getGlucoseStatus(reading.level, reading.readingType) === 'high' ? (
                           <ArrowUp className="h-5 w-5 text-red-500" />
-                        ) : reading.level < 70 ? (
+                        ) : getGlucoseStatus(reading.level, reading.readingType) === 'low' ? (
                           <ArrowDown className="h-5 w-5 text-red-500" />
                         ) : (
                           <Droplets className="h-5 w-5 text-green-500" />
@@ -594,12 +640,19 @@ export default function GlucoseInsulinPage({ activeTab, setActiveTab }: GlucoseI
                           {getReadingTypeBadge(reading.readingType)}
                         </div>
                       </div>
+                      {reading.source !== 'manual' && (
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Source:</span>
+                          <span className="text-sm">{getReadingSourceLabel(reading.source)}</span>
+                        </div>
+                      )}
                       {reading.notes && (
                         <div className="pt-2 mt-2 border-t border-gray-100">
                           <p className="text-sm text-muted-foreground mb-1">Notes:</p>
                           <p className="text-sm line-clamp-2">{reading.notes}</p>
                         </div>
                       )}
+                      <LoggedBy entry={reading} />
                     </div>
                   </CardContent>
                 </Card>
@@ -617,13 +670,13 @@ export default function GlucoseInsulinPage({ activeTab, setActiveTab }: GlucoseI
           
           {isLoadingInsulin ? (
             <div className="text-center py-8">Loading...</div>
-          ) : !insulinRecords || insulinRecords.length === 0 ? (
+          ) : visibleInsulin.length === 0 ? (
             <div className="text-center py-8">
               <p className="text-muted-foreground">No insulin records recorded yet.</p>
             </div>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {insulinRecords.map((record: Insulin) => (
+              {visibleInsulin.map((record: Insulin) => (
                 <Card key={record.id} className="overflow-hidden w-full">
                   <CardHeader className="pb-2 px-4 py-3">
                     <div className="flex justify-between items-start">
@@ -667,6 +720,7 @@ export default function GlucoseInsulinPage({ activeTab, setActiveTab }: GlucoseI
                           <p className="text-sm line-clamp-2">{record.notes}</p>
                         </div>
                       )}
+                      <LoggedBy entry={record} />
                     </div>
                   </CardContent>
                 </Card>
@@ -691,6 +745,18 @@ export default function GlucoseInsulinPage({ activeTab, setActiveTab }: GlucoseI
           data={selectedRecord}
         />
       )}
+      
+      <ClinicalThresholdsModal
+        isOpen={showThresholds}
+        onClose={() => setShowThresholds(false)}
+        careRecipientId={careRecipientId}
+      />
+      
+      <GlucoseImportModal
+        isOpen={showImport}
+        onClose={() => setShowImport(false)}
+        careRecipientId={careRecipientId}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -16,6 +16,7 @@ import EditMealModal from "@/components/EditMealModal";
 import { useLocation } from "wouter";
 import { useCareRecipient } from "@/hooks/use-care-recipient";
 import PageHeader from "@/components/PageHeader";
+import CaregiverFilter, { LoggedBy, filterByCaregiver } from "@/components/CaregiverFilter";
 
 interface MealsProps {
   activeTab: TabType;
@@ -27,6 +28,7 @@ export default function Meals({ activeTab, setActiveTab }: MealsProps) {
   const [isDetailsOpen, setIsDetailsOpen] = useState(false);
   const [isAddMealOpen, setIsAddMealOpen] = useState(false);
   const [isEditMealOpen, setIsEditMealOpen] = useState(false);
+  const [caregiverFilter, setCaregiverFilter] = useState("all");
   const { toast } = useToast();
   const [_, navigate] = useLocation();
   
@@ -95,7 +97,7 @@ export default function Meals({ activeTab, setActiveTab }: MealsProps) {
   };
 
   // Group meals by date for better organization
-  const groupedMeals = meals.reduce((groups: Record<string, Meal[]>, meal: Meal) => {
+  const groupedMeals = filterByCaregiver<Meal>(meals, caregiverFilter).reduce((groups: Record<string, Meal[]>, meal: Meal) => {
     const date = formatDate(meal.consumedAt);
     if (!groups[date]) {
       groups[date] = [];
@@ -123,9 +125,16 @@ export default function Meals({ activeTab, setActiveTab }: MealsProps) {
                 Track meals and food consumption
               </CardDescription>
             </div>
-            <Button onClick={() => setIsAddMealOpen(true)}>
-              <Plus className="mr-2 h-4 w-4" /> Add Meal
-            </Button>
+            <div className="flex items-center gap-2">
+              <CaregiverFilter
+                careRecipientId={activeCareRecipientId}
+                value={caregiverFilter}
+                onChange={setCaregiverFilter}
+              />
+              <Button onClick={() => setIsAddMealOpen(true)}>
+                <Plus className="mr-2 h-4 w-4" /> Add Meal
+              </Button>
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -176,6 +185,7 @@ export default function Meals({ activeTab, setActiveTab }: MealsProps) {
                                       Type: {meal.type}
                                     </p>
                                   )}
+                                  <LoggedBy entry={meal} className="mt-1" />
                                 </div>
                                 <div>
                                   <Button 
@@ -239,6 +249,8 @@ export default function Meals({ activeTab, setActiveTab }: MealsProps) {
                   <p className="whitespace-pre-wrap">{selectedMeal.notes}</p>
                 </div>
               )}
+
+              <LoggedBy entry={selectedMeal} />
               
               <div className="flex justify-between items-center pt-4">
                 <Button 
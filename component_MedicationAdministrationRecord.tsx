@@ -0,0 +1,51 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { FileText, Printer } from "lucide-react";
+
+interface MedicationAdministrationRecordProps {
+  careRecipientId: string | number | null;
+}
+
+export default function MedicationAdministrationRecord({ careRecipientId }: MedicationAdministrationRecordProps) {
+  const [month, setMonth] = useState(format(new Date(), 'yyyy-MM'));
+
+  // The server renders the PDF; opening it in a new tab lets the browser print or save it
+  const openRecord = () => {
+    window.open(`/api/reports/mar?careRecipientId=${careRecipientId}&month=${month}`, '_blank');
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4 mb-6">
+      <div className="flex items-center mb-1">
+        <FileText className="h-5 w-5 text-primary mr-2" />
+        <h3 className="text-lg font-medium">Administration Record (MAR)</h3>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        A printable monthly grid of every scheduled dose, as-needed doses with their reasons, and recorded allergies.
+      </p>
+
+      <div className="flex items-end gap-3">
+        <div className="space-y-1 flex-1">
+          <Label htmlFor="mar-month" className="text-xs">Month</Label>
+          <Input
+            id="mar-month"
+            type="month"
+            value={month}
+            max={format(new Date(), 'yyyy-MM')}
+            onChange={(e) => setMonth(e.target.value)}
+          />
+        </div>
+        <Button
+          onClick={openRecord}
+          disabled={!careRecipientId || !month}
+        >
+          <Printer className="h-4 w-4 mr-2" />
+          Print MAR
+        </Button>
+      </div>
+    </div>
+  );
+}
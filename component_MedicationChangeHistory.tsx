@@ -0,0 +1,76 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { MedicationChange } from "@shared/schema";
+
+interface MedicationChangeWithUser extends MedicationChange {
+  changedBy: {
+    id: number;
+    name: string | null;
+    username: string;
+  } | null;
+}
+
+interface MedicationChangeHistoryProps {
+  medicationId: number;
+}
+
+const fieldLabels: Record<string, string> = {
+  dosage: "Dosage",
+  instructions: "Instructions",
+  doctor: "Prescribing doctor",
+  schedule_time: "Schedule time",
+  schedule_quantity: "Scheduled dose",
+  schedule_days: "Schedule days",
+  schedule_added: "Schedule added",
+  schedule_removed: "Schedule removed"
+};
+
+// Describe one change, e.g. "10 mg → 20 mg"
+const describeChange = (change: MedicationChange) => {
+  if (change.field === "schedule_added") return change.newValue;
+  if (change.field === "schedule_removed") return change.oldValue;
+  return `${change.oldValue || "None"} → ${change.newValue || "None"}`;
+};
+
+// Timeline of edits to a medication's dosage, instructions, prescriber and schedule
+export default function MedicationChangeHistory({ medicationId }: MedicationChangeHistoryProps) {
+  const { data: changes, isLoading } = useQuery<MedicationChangeWithUser[]>({
+    queryKey: ['/api/medication-changes', medicationId],
+    queryFn: async () => {
+      const response = await fetch(`/api/medications/${medicationId}/changes`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch medication changes");
+      }
+      return response.json();
+    },
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-8 text-muted-foreground">Loading changes...</div>;
+  }
+
+  if (!changes || changes.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No changes recorded for this medication.
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+      {changes.map(change => (
+        <li key={change.id} className="ml-4">
+          <div className="absolute w-2.5 h-2.5 bg-primary rounded-full -left-[5px] mt-1.5" />
+          <div className="text-xs text-muted-foreground">
+            {format(new Date(change.changedAt), "MMM d, yyyy h:mm a")}
+            {` · ${change.changedBy ? change.changedBy.name || change.changedBy.username : "Unknown"}`}
+            {change.source === "reconciliation" && " · discharge reconciliation"}
+          </div>
+          <div className="text-sm font-medium">{fieldLabels[change.field] || change.field}</div>
+          <div className="text-sm break-words">{describeChange(change)}</div>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,109 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { ShieldAlert, ShieldCheck } from "lucide-react";
+
+interface MedicationInteraction {
+  drug1: string;
+  drug2: string;
+  medicationId1?: number;
+  medicationId2?: number;
+  severity: 'high' | 'moderate' | 'low';
+  description: string;
+  mechanism: string | null;
+  management: string | null;
+}
+
+interface InteractionReport {
+  datasetVersion: string;
+  checkedMedications: number;
+  interactions: MedicationInteraction[];
+}
+
+interface MedicationInteractionsProps {
+  careRecipientId: string | number | null;
+}
+
+const severityStyles: Record<string, { label: string; className: string }> = {
+  high: { label: "High", className: "bg-red-100 text-red-800 border-red-200" },
+  moderate: { label: "Moderate", className: "bg-amber-100 text-amber-800 border-amber-200" },
+  low: { label: "Low", className: "bg-blue-100 text-blue-800 border-blue-200" },
+};
+
+export default function MedicationInteractions({ careRecipientId }: MedicationInteractionsProps) {
+  const { data: report, isLoading, isError } = useQuery<InteractionReport>({
+    queryKey: ['/api/medications/interaction-report', careRecipientId],
+    queryFn: async () => {
+      const response = await fetch(`/api/medications/interaction-report?careRecipientId=${careRecipientId}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch medication interactions");
+      }
+      return response.json();
+    },
+    enabled: !!careRecipientId,
+  });
+
+  const interactions = report?.interactions || [];
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4 mb-6">
+      <div className="flex items-center mb-3">
+        {interactions.length > 0 ? (
+          <ShieldAlert className="h-5 w-5 text-red-500 mr-2" />
+        ) : (
+          <ShieldCheck className="h-5 w-5 text-primary mr-2" />
+        )}
+        <h3 className="text-lg font-medium">Interactions</h3>
+        {interactions.length > 0 && (
+          <Badge variant="outline" className="ml-2 bg-red-50 text-red-700 border-red-200">
+            {interactions.length}
+          </Badge>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="py-4 text-center text-gray-500 text-sm">Checking interactions...</div>
+      ) : isError ? (
+        <div className="py-4 text-center text-red-500 text-sm">Couldn't check medication interactions</div>
+      ) : interactions.length === 0 ? (
+        <div className="py-2 text-sm text-gray-500">
+          No known interactions between the {report?.checkedMedications || 0} active medications.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {interactions.map((interaction, index) => {
+            const style = severityStyles[interaction.severity] || severityStyles.moderate;
+            return (
+              <div key={index} className="border border-gray-100 rounded-lg p-3">
+                <div className="flex items-center justify-between mb-1">
+                  <div className="font-medium text-sm">
+                    {interaction.drug1} + {interaction.drug2}
+                  </div>
+                  <Badge variant="outline" className={style.className}>
+                    {style.label}
+                  </Badge>
+                </div>
+                <p className="text-sm text-gray-700">{interaction.description}</p>
+                {interaction.mechanism && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    <span className="font-medium">Why:</span> {interaction.mechanism}
+                  </p>
+                )}
+                {interaction.management && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    <span className="font-medium">What to do:</span> {interaction.management}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {report && (
+        <p className="text-xs text-gray-400 mt-3">
+          Checked offline against interaction data v{report.datasetVersion}. Always confirm with a doctor or pharmacist.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -13,8 +13,9 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Medication, MedicationLog } from "@shared/schema";
+import { Medication, MedicationLog, MedicationInventoryTransaction } from "@shared/schema";
 import { Slider } from "@/components/ui/slider";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Select,
   SelectContent,
@@ -24,6 +25,9 @@ import {
 } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { formatDate, formatTime } from "@/lib/utils";
+import { format } from "date-fns";
+import ControlledSubstanceCounts from "@/components/ControlledSubstanceCounts";
+import MedicationChangeHistory from "@/components/MedicationChangeHistory";
 
 interface MedicationInventoryModalProps {
   isOpen: boolean;
@@ -47,6 +51,13 @@ export default function MedicationInventoryModal({
     refillsRemaining: 0
   });
 
+  const [expirationDate, setExpirationDate] = useState("");
+  const [adjustmentNotes, setAdjustmentNotes] = useState("");
+  const [wasteQuantity, setWasteQuantity] = useState(0);
+  const [wasteNotes, setWasteNotes] = useState("");
+  const [isControlled, setIsControlled] = useState(false);
+  const [controlledSchedule, setControlledSchedule] = useState("");
+
   // Load existing data when medication changes
   useEffect(() => {
     if (medication) {
@@ -57,9 +68,26 @@ export default function MedicationInventoryModal({
         originalQuantity: medication.originalQuantity || 0,
         refillsRemaining: medication.refillsRemaining || 0
       });
+      setExpirationDate(medication.expirationDate || "");
+      setAdjustmentNotes("");
+      setWasteQuantity(0);
+      setWasteNotes("");
+      setIsControlled(medication.isControlled);
+      setControlledSchedule(medication.controlledSchedule || "");
     }
   }, [medication]);
 
+  // Stock changes affect the medication list, reorder alerts and the ledger
+  const invalidateInventoryQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/medications'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/medications/reorder-alerts'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/medications/refill-forecast'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/medications/expiring'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/medication-inventory-ledger'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/controlled-counts'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/care-stats/today', medication?.careRecipientId?.toString()] });
+  };
+
   const updateInventoryMutation = useMutation({
     mutationFn: async (data: typeof inventoryData) => {
       if (!medication) return null;
@@ -67,7 +95,13 @@ export default function MedicationInventoryModal({
       const response = await apiRequest(
         "PATCH", 
         `/api/medications/${medication.id}/inventory`,
-        data
+        {
+          ...data,
+          expirationDate: expirationDate || null,
+          isControlled,
+          controlledSchedule: isControlled ? controlledSchedule || null : null,
+          adjustmentNotes: adjustmentNotes || undefined
+        }
       );
       return response.json();
     },
@@ -76,9 +110,7 @@ export default function MedicationInventoryModal({
         title: "Inventory Updated",
         description: "Medication inventory has been updated successfully."
       });
-      queryClient.invalidateQueries({ queryKey: ['/api/medications'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/medications/reorder-alerts'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/care-stats/today', medication?.careRecipientId?.toString()] });
+      invalidateInventoryQueries();
       onClose();
     },
     onError: (error) => {
@@ -97,7 +129,12 @@ export default function MedicationInventoryModal({
       const response = await apiRequest(
         "POST", 
         `/api/medications/${medication.id}/refill`,
-        { refillAmount, refillDate: new Date() }
+        {
+          refillAmount,
+          refillDate: new Date(),
+          // A changed date is taken to be the expiration of the new supply
+          expirationDate: expirationDate && expirationDate !== medication.expirationDate ? expirationDate : undefined
+        }
       );
       return response.json();
     },
@@ -106,9 +143,7 @@ export default function MedicationInventoryModal({
         title: "Medication Refilled",
         description: "Medication has been refilled successfully."
       });
-      queryClient.invalidateQueries({ queryKey: ['/api/medications'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/medications/reorder-alerts'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/care-stats/today', medication?.careRecipientId?.toString()] });
+      invalidateInventoryQueries();
       onClose();
     },
     onError: (error) => {
@@ -120,6 +155,79 @@ export default function MedicationInventoryModal({
     }
   });
 
+  const wasteMutation = useMutation({
+    mutationFn: async ({ quantity, notes }: { quantity: number; notes: string }) => {
+      if (!medication) return null;
+      
+      const response = await apiRequest(
+        "POST", 
+        `/api/medications/${medication.id}/waste`,
+        { quantity, notes: notes || undefined }
+      );
+      return response.json();
+    },
+    onSuccess: (updatedMedication) => {
+      toast({
+        title: "Waste Recorded",
+        description: "The wasted stock has been removed from inventory."
+      });
+      if (updatedMedication) {
+        setInventoryData(prev => ({
+          ...prev,
+          currentQuantity: updatedMedication.currentQuantity || 0
+        }));
+      }
+      setWasteQuantity(0);
+      setWasteNotes("");
+      invalidateInventoryQueries();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to record waste: ${error.message}`,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const writeOffExpiredMutation = useMutation({
+    mutationFn: async () => {
+      if (!medication) return null;
+      
+      const response = await apiRequest(
+        "POST", 
+        `/api/medications/${medication.id}/write-off-expired`,
+        {}
+      );
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to write off expired stock");
+      }
+      return response.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Expired Stock Written Off",
+        description: `${result?.writtenOff ?? 0} removed from inventory.`
+      });
+      if (result?.medication) {
+        setInventoryData(prev => ({
+          ...prev,
+          currentQuantity: result.medication.currentQuantity || 0
+        }));
+      }
+      setExpirationDate("");
+      invalidateInventoryQueries();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to write off expired stock: ${error.message}`,
+        variant: "destructive"
+      });
+    }
+  });
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setInventoryData(prev => ({
@@ -151,6 +259,43 @@ export default function MedicationInventoryModal({
     }
   };
 
+  const handleRecordWaste = () => {
+    if (wasteQuantity <= 0) {
+      toast({
+        title: "Error",
+        description: "Enter how many units were wasted",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    wasteMutation.mutate({ quantity: wasteQuantity, notes: wasteNotes });
+  };
+
+  // Fetch the inventory ledger for this medication
+  const { data: ledger } = useQuery<MedicationInventoryTransaction[]>({
+    queryKey: ['/api/medication-inventory-ledger', medication?.id],
+    queryFn: async () => {
+      const response = await fetch(`/api/medications/${medication?.id}/inventory-ledger`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch inventory ledger");
+      }
+      return response.json();
+    },
+    enabled: !!medication?.id && isOpen,
+  });
+
+  const ledgerTypeLabels: Record<string, string> = {
+    dose: "Dose taken",
+    dose_reversal: "Dose log removed",
+    refill: "Refill",
+    adjustment: "Manual count",
+    waste: "Waste",
+    expired: "Expired stock written off",
+    count_correction: "Controlled count correction",
+    organizer_fill: "Pill organizer fill"
+  };
+
   // Fetch medication logs
   const { data: medicationLogs } = useQuery<MedicationLog[]>({
     queryKey: ['/api/medication-logs', medication?.careRecipientId],
@@ -175,8 +320,11 @@ export default function MedicationInventoryModal({
         </DialogHeader>
         
         <Tabs defaultValue="inventory" className="w-full">
-          <TabsList className="grid grid-cols-2 mb-4">
+          <TabsList className={`grid ${medication.isControlled ? 'grid-cols-5' : 'grid-cols-4'} mb-4`}>
             <TabsTrigger value="inventory">Inventory</TabsTrigger>
+            <TabsTrigger value="ledger">Ledger</TabsTrigger>
+            {medication.isControlled && <TabsTrigger value="counts">Counts</TabsTrigger>}
+            <TabsTrigger value="changes">Changes</TabsTrigger>
             <TabsTrigger value="history">History</TabsTrigger>
           </TabsList>
           
@@ -194,6 +342,45 @@ export default function MedicationInventoryModal({
                 />
               </div>
               
+              {inventoryData.currentQuantity !== (medication.currentQuantity || 0) && (
+                <div className="grid grid-cols-2 items-center gap-4">
+                  <Label htmlFor="adjustmentNotes">Reason for count change</Label>
+                  <Input
+                    id="adjustmentNotes"
+                    placeholder="e.g. Pill count"
+                    value={adjustmentNotes}
+                    onChange={(e) => setAdjustmentNotes(e.target.value)}
+                  />
+                </div>
+              )}
+              
+              <div className="grid grid-cols-2 items-center gap-4">
+                <Label htmlFor="expirationDate">Expiration Date</Label>
+                <Input
+                  id="expirationDate"
+                  type="date"
+                  value={expirationDate}
+                  onChange={(e) => setExpirationDate(e.target.value)}
+                />
+              </div>
+              
+              {medication.expirationDate && expirationDate === medication.expirationDate && 
+                medication.expirationDate < format(new Date(), 'yyyy-MM-dd') && (
+                <div className="flex items-center justify-between gap-4 rounded-md border border-red-200 bg-red-50 p-3">
+                  <div className="text-sm text-red-700">
+                    This stock expired on {formatDate(new Date(`${medication.expirationDate}T00:00:00`))}.
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => writeOffExpiredMutation.mutate()}
+                    disabled={writeOffExpiredMutation.isPending}
+                  >
+                    Write Off
+                  </Button>
+                </div>
+              )}
+              
               <div className="grid grid-cols-2 items-center gap-4">
                 <Label htmlFor="reorderThreshold">Reorder Threshold</Label>
                 <Input
@@ -246,6 +433,29 @@ export default function MedicationInventoryModal({
                   onChange={handleInputChange}
                 />
               </div>
+              
+              <div className="grid grid-cols-2 items-center gap-4">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="isControlled"
+                    checked={isControlled}
+                    onCheckedChange={(checked) => setIsControlled(checked === true)}
+                  />
+                  <Label htmlFor="isControlled">Controlled substance</Label>
+                </div>
+                {isControlled && (
+                  <Select value={controlledSchedule} onValueChange={setControlledSchedule}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="DEA schedule" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {["II", "III", "IV", "V"].map(schedule => (
+                        <SelectItem key={schedule} value={schedule}>Schedule {schedule}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
             </div>
             
             <DialogFooter className="flex flex-col sm:flex-row gap-2 pt-4">
@@ -267,6 +477,85 @@ export default function MedicationInventoryModal({
             </DialogFooter>
           </TabsContent>
           
+          <TabsContent value="ledger">
+            <div className="space-y-4">
+              <div className="border rounded-md p-3 space-y-3">
+                <h3 className="text-sm font-medium">Record Waste</h3>
+                <div className="grid grid-cols-3 gap-2">
+                  <Input
+                    type="number"
+                    min="1"
+                    placeholder="Qty"
+                    value={wasteQuantity || ""}
+                    onChange={(e) => setWasteQuantity(parseInt(e.target.value) || 0)}
+                  />
+                  <Input
+                    className="col-span-2"
+                    placeholder="Reason (dropped, expired...)"
+                    value={wasteNotes}
+                    onChange={(e) => setWasteNotes(e.target.value)}
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  onClick={handleRecordWaste}
+                  disabled={wasteMutation.isPending}
+                >
+                  Record Waste
+                </Button>
+              </div>
+              
+              <h3 className="text-lg font-medium">Stock Changes</h3>
+              
+              {!ledger || ledger.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  No stock changes recorded yet.
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {ledger.map((entry) => (
+                    <div key={entry.id} className="border rounded-md p-3">
+                      <div className="flex justify-between items-center">
+                        <div className="font-medium">
+                          {ledgerTypeLabels[entry.type] || entry.type}
+                        </div>
+                        <div className={`text-sm font-medium ${entry.quantityChange < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                          {entry.quantityChange > 0 ? `+${entry.quantityChange}` : entry.quantityChange}
+                        </div>
+                      </div>
+                      <div className="flex justify-between text-sm text-muted-foreground">
+                        <span>
+                          {formatDate(new Date(entry.createdAt))} {formatTime(new Date(entry.createdAt))}
+                        </span>
+                        <span>Balance: {entry.quantityAfter}</span>
+                      </div>
+                      {entry.notes && (
+                        <div className="text-sm mt-1">
+                          Notes: {entry.notes}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </TabsContent>
+          
+          {medication.isControlled && (
+            <TabsContent value="counts">
+              <ControlledSubstanceCounts medication={medication} />
+            </TabsContent>
+          )}
+          
+          <TabsContent value="changes">
+            <div className="space-y-4">
+              <h3 className="text-lg font-medium">Change History</h3>
+              <MedicationChangeHistory medicationId={medication.id} />
+            </div>
+          </TabsContent>
+          
           <TabsContent value="history">
             <div className="space-y-4">
               <h3 className="text-lg font-medium">Medication History</h3>
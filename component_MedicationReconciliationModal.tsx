@@ -0,0 +1,383 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import AllergyWarningDialog, { type AllergyWarning } from "@/components/AllergyWarningDialog";
+import { MedicationReconciliation } from "@shared/schema";
+import {
+  ReconciliationAction,
+  ReconciliationItem,
+  getReconciliationActionLabel
+} from "@shared/reconciliation";
+
+interface ReconciliationPreview {
+  items: Array<{
+    name: string;
+    dosage: string;
+    instructions: string | null;
+    normalizedName: string;
+    match: { medicationId: number; name: string; dosage: string; instructions: string | null } | null;
+    suggestedAction: ReconciliationAction;
+  }>;
+  notOnList: Array<{
+    medicationId: number;
+    name: string;
+    dosage: string;
+    instructions: string | null;
+    suggestedAction: ReconciliationAction;
+  }>;
+}
+
+// One row of the review step. "skip" leaves an unmatched discharge entry off the list.
+interface ReviewRow {
+  key: string;
+  medicationId?: number;
+  currentName: string | null;
+  currentDosage: string | null;
+  name: string;
+  dosage: string;
+  instructions: string | null;
+  action: ReconciliationAction | "skip";
+  options: Array<ReconciliationAction | "skip">;
+}
+
+interface MedicationReconciliationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  careRecipientId: string | null;
+}
+
+const getActionLabel = (action: ReconciliationAction | "skip") =>
+  action === "skip" ? "Don't add" : getReconciliationActionLabel(action);
+
+export default function MedicationReconciliationModal({
+  isOpen,
+  onClose,
+  careRecipientId
+}: MedicationReconciliationModalProps) {
+  const { toast } = useToast();
+  const [dischargeText, setDischargeText] = useState("");
+  const [facility, setFacility] = useState("");
+  const [dischargeDate, setDischargeDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [notes, setNotes] = useState("");
+  const [rows, setRows] = useState<ReviewRow[] | null>(null);
+  const [allergyWarnings, setAllergyWarnings] = useState<AllergyWarning[]>([]);
+
+  const { data: history } = useQuery<MedicationReconciliation[]>({
+    queryKey: ['/api/medication-reconciliations', careRecipientId],
+    queryFn: async () => {
+      const response = await fetch(`/api/medication-reconciliations?careRecipientId=${careRecipientId}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch reconciliations");
+      }
+      return response.json();
+    },
+    enabled: !!careRecipientId && isOpen,
+  });
+
+  const reset = () => {
+    setDischargeText("");
+    setFacility("");
+    setDischargeDate(format(new Date(), "yyyy-MM-dd"));
+    setNotes("");
+    setRows(null);
+    setAllergyWarnings([]);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/medication-reconciliations/preview", {
+        careRecipientId,
+        text: dischargeText
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to match the discharge list");
+      }
+      return response.json() as Promise<ReconciliationPreview>;
+    },
+    onSuccess: (preview) => {
+      setRows([
+        ...preview.items.map((item, index) => ({
+          key: `entry-${index}`,
+          medicationId: item.match?.medicationId,
+          currentName: item.match?.name ?? null,
+          currentDosage: item.match?.dosage ?? null,
+          name: item.match?.name ?? item.name,
+          dosage: item.dosage || item.match?.dosage || "",
+          instructions: item.instructions ?? item.match?.instructions ?? null,
+          action: item.suggestedAction,
+          options: item.match
+            ? ["continue", "change_dose", "stop"] as ReconciliationAction[]
+            : ["new", "skip"] as Array<ReconciliationAction | "skip">
+        })),
+        ...preview.notOnList.map(med => ({
+          key: `current-${med.medicationId}`,
+          medicationId: med.medicationId,
+          currentName: med.name,
+          currentDosage: med.dosage,
+          name: med.name,
+          dosage: med.dosage,
+          instructions: med.instructions,
+          action: med.suggestedAction,
+          options: ["continue", "stop"] as ReconciliationAction[]
+        }))
+      ]);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async (allergyWarningsAcknowledged: boolean = false) => {
+      const items = (rows || [])
+        .filter(row => row.action !== "skip")
+        .map(row => ({
+          action: row.action,
+          medicationId: row.medicationId,
+          name: row.name,
+          dosage: row.dosage,
+          instructions: row.instructions
+        }));
+
+      const response = await apiRequest("POST", "/api/medication-reconciliations", {
+        careRecipientId,
+        facility: facility || undefined,
+        dischargeDate: dischargeDate || undefined,
+        notes: notes || undefined,
+        items,
+        allergyWarningsAcknowledged
+      });
+      // New medications that conflict with a recorded allergy are held back until they're acknowledged
+      if (response.status === 409) {
+        const conflict = await response.json();
+        return { allergyConflict: true as const, allergyWarnings: conflict.allergyWarnings as AllergyWarning[] };
+      }
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to apply reconciliation");
+      }
+      return response.json() as Promise<MedicationReconciliation & { interactions: any[] }>;
+    },
+    onSuccess: (reconciliation) => {
+      if ("allergyConflict" in reconciliation) {
+        setAllergyWarnings(reconciliation.allergyWarnings || []);
+        return;
+      }
+
+      const changed = (reconciliation.items as ReconciliationItem[]).filter(item => item.action !== "continue").length;
+      toast({
+        title: "Medication list reconciled",
+        description: `${changed} ${changed === 1 ? 'change' : 'changes'} applied.`
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medication-reconciliations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medication-changes'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications/interaction-report'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications/refill-forecast'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/care-stats/today', careRecipientId] });
+      // The server checks the new medications against the whole active list
+      if (reconciliation.interactions?.length > 0) {
+        const hasHigh = reconciliation.interactions.some((interaction: any) => interaction.severity === 'high');
+        toast({
+          title: `${reconciliation.interactions.length} interaction${reconciliation.interactions.length === 1 ? '' : 's'} found`,
+          description: reconciliation.interactions
+            .map((interaction: any) => `${interaction.drug1} and ${interaction.drug2}`)
+            .join(', ') + ". See the Interactions panel for details.",
+          variant: hasHigh ? "destructive" : "default",
+          duration: 10000,
+        });
+      }
+      handleClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const updateRow = (key: string, changes: Partial<ReviewRow>) => {
+    setRows(prev => prev && prev.map(row => row.key === key ? { ...row, ...changes } : row));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[650px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl">Reconcile Discharge Medications</DialogTitle>
+          <DialogDescription>
+            {rows
+              ? "Choose what happens to each medication. Nothing changes until you apply."
+              : "Paste the medication list from the discharge paperwork, one medication per line."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!rows ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="facility">Hospital</Label>
+                <Input
+                  id="facility"
+                  placeholder="e.g. St. Mary's"
+                  value={facility}
+                  onChange={(e) => setFacility(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="dischargeDate">Discharge date</Label>
+                <Input
+                  id="dischargeDate"
+                  type="date"
+                  value={dischargeDate}
+                  onChange={(e) => setDischargeDate(e.target.value)}
+                />
+              </div>
+            </div>
+            <Textarea
+              className="min-h-[180px] font-mono text-sm"
+              placeholder={"Metoprolol tartrate 25 mg - 1 tablet twice daily\nFurosemide 40 mg - 1 tablet every morning"}
+              value={dischargeText}
+              onChange={(e) => setDischargeText(e.target.value)}
+            />
+
+            {history && history.length > 0 && (
+              <div className="space-y-1">
+                <h3 className="text-sm font-medium">Previous reconciliations</h3>
+                {history.slice(0, 5).map(entry => {
+                  const items = entry.items as ReconciliationItem[];
+                  const count = (action: ReconciliationAction) => items.filter(item => item.action === action).length;
+                  return (
+                    <div key={entry.id} className="text-xs text-muted-foreground">
+                      {format(new Date(entry.dischargeDate ? `${entry.dischargeDate}T00:00:00` : entry.createdAt), "MMM d, yyyy")}
+                      {entry.facility && ` · ${entry.facility}`}
+                      {` · ${count("new")} new, ${count("change_dose")} changed, ${count("stop")} stopped`}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={handleClose}>Cancel</Button>
+              <Button
+                onClick={() => previewMutation.mutate()}
+                disabled={!dischargeText.trim() || previewMutation.isPending}
+              >
+                Match Medications
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              {rows.map(row => (
+                <div key={row.key} className="border rounded-md p-3 space-y-2">
+                  <div className="flex justify-between items-start gap-3">
+                    <div>
+                      <div className="font-medium text-sm">{row.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {row.currentName
+                          ? `Current: ${row.currentDosage}${row.key.startsWith("current-") ? ' · not on the discharge list' : ''}`
+                          : 'Not on the current list'}
+                      </div>
+                    </div>
+                    <Select
+                      value={row.action}
+                      onValueChange={(value) => updateRow(row.key, { action: value as ReviewRow["action"] })}
+                    >
+                      <SelectTrigger className="w-[140px] h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {row.options.map(option => (
+                          <SelectItem key={option} value={option}>{getActionLabel(option)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {(row.action === "change_dose" || row.action === "new") && (
+                    <div className="grid grid-cols-3 gap-2">
+                      <Input
+                        placeholder="Dosage"
+                        value={row.dosage}
+                        onChange={(e) => updateRow(row.key, { dosage: e.target.value })}
+                      />
+                      <Input
+                        className="col-span-2"
+                        placeholder="Instructions"
+                        value={row.instructions || ""}
+                        onChange={(e) => updateRow(row.key, { instructions: e.target.value || null })}
+                      />
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <Input
+              placeholder="Notes (optional)"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setRows(null)}>Back</Button>
+              <Button
+                onClick={() => applyMutation.mutate(false)}
+                disabled={applyMutation.isPending || rows.every(row => row.action === "skip")}
+              >
+                Apply Changes
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+
+        <AllergyWarningDialog
+          warnings={allergyWarnings}
+          medicationName={(rows || [])
+            .filter(row => row.action === "new")
+            .map(row => row.name)
+            .join(", ")}
+          isSaving={applyMutation.isPending}
+          onConfirm={() => applyMutation.mutate(true)}
+          onCancel={() => setAllergyWarnings([])}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
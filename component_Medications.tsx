@@ -4,9 +4,27 @@ import BottomNavigation from "@/components/BottomNavigation";
 import AddCareEventModal from "@/components/AddCareEventModal";
 import MedicationInventoryModal from "@/components/MedicationInventoryModal";
 import AddMedicationModal from "@/components/AddMedicationModal";
+import MedicationReconciliationModal from "@/components/MedicationReconciliationModal";
 import EditMedicationSchedulesModal from "@/components/EditMedicationSchedulesModal";
 import EditMedicationModal from "@/components/EditMedicationModal";
+import AdherenceReport from "@/components/AdherenceReport";
+import MedicationInteractions from "@/components/MedicationInteractions";
+import MedicationAdministrationRecord from "@/components/MedicationAdministrationRecord";
+import PillOrganizer from "@/components/PillOrganizer";
+import ExpiringMedications from "@/components/ExpiringMedications";
+import CountDiscrepancies from "@/components/CountDiscrepancies";
+import CaregiverFilter, { LoggedBy, LoggedByEntry } from "@/components/CaregiverFilter";
 import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from "@/components/ui/tooltip";
 import {
   AlertDialog,
@@ -19,7 +37,17 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { MedicationLog, CareRecipient, Medication, MedicationSchedule } from "@shared/schema";
+import { format } from "date-fns";
+import { MedicationLog, CareRecipient, Medication, MedicationSchedule, MissedDose } from "@shared/schema";
+import {
+  DoseLogStatus,
+  doseLogStatuses,
+  doseReasonCodes,
+  getDoseLogStatus,
+  getDoseStatusLabel,
+  getDoseReasonLabel,
+  isDoseGiven,
+} from "@shared/dose-outcomes";
 import { TabType } from "@/lib/types";
 import { formatTime, getTimeAgo } from "@/lib/utils";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -35,7 +63,12 @@ import {
   Edit,
   Save,
   X,
-  Trash2
+  Trash2,
+  AlertTriangle,
+  Archive,
+  RotateCcw,
+  MoreHorizontal,
+  ClipboardList
 } from "lucide-react";
 
 // Define a type that includes the schedules array
@@ -43,6 +76,63 @@ interface MedicationWithSchedules extends Medication {
   schedules?: MedicationSchedule[];
 }
 
+// Logs come with their medication so discontinued medications still show by name
+interface MedicationLogWithMedication extends MedicationLog, LoggedByEntry {
+  medication?: Pick<Medication, 'id' | 'name' | 'dosage' | 'status'>;
+}
+
+interface MissedDoseWithMedication extends MissedDose {
+  medication?: Medication;
+}
+
+interface RefillForecast {
+  medicationId: number;
+  reorderDate: string | null;
+  runOutDate: string | null;
+  daysUntilRunOut: number | null;
+  needsReorder: boolean;
+  contactPrescriber: boolean;
+  expirationDate: string | null;
+  daysUntilExpiration: number | null;
+  expired: boolean;
+  expiringSoon: boolean;
+}
+
+interface PrnDoseStatus {
+  scheduleId: number;
+  medicationId: number;
+  maxDosesPer24h: number | null;
+  minHoursBetweenDoses: number | null;
+  allowed: boolean;
+  dosesInLast24h: number;
+  nextAllowedAt: string | null;
+}
+
+// A PRN dose the server refused, waiting for the caregiver to give an override reason
+interface PrnOverrideRequest {
+  medicationId: number;
+  scheduleId: number;
+  violations: string[];
+  nextAllowedAt: string | null;
+}
+
+// A scheduled dose the caregiver is recording as refused, held, vomited or given late
+interface DoseOutcomeRequest {
+  medicationId: number;
+  scheduleId: number;
+  medicationName: string;
+  time: string;
+}
+
+// How each recorded outcome looks on a schedule's dose button
+const doseStatusStyles: Record<DoseLogStatus, string> = {
+  taken: "bg-green-600 text-white",
+  late: "bg-amber-500 text-white",
+  vomited: "bg-purple-500 text-white",
+  refused: "bg-orange-500 text-white",
+  skipped: "bg-gray-400 text-white",
+};
+
 interface MedicationsProps {
   activeTab: TabType;
   setActiveTab: (tab: TabType) => void;
@@ -51,17 +141,29 @@ interface MedicationsProps {
 export default function Medications({ activeTab, setActiveTab }: MedicationsProps) {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isAddMedicationModalOpen, setIsAddMedicationModalOpen] = useState(false);
+  const [isReconciliationModalOpen, setIsReconciliationModalOpen] = useState(false);
   const [selectedMedication, setSelectedMedication] = useState<MedicationWithSchedules | null>(null);
   const [isInventoryModalOpen, setIsInventoryModalOpen] = useState(false);
   const [isSchedulesModalOpen, setIsSchedulesModalOpen] = useState(false);
   const [isEditMedicationModalOpen, setIsEditMedicationModalOpen] = useState(false);
-  // Track taken medication doses by schedule
-  const [takenMedicationDoses, setTakenMedicationDoses] = useState<Map<string, boolean>>(new Map());
+  // Track what was recorded for today's medication doses by schedule
+  const [takenMedicationDoses, setTakenMedicationDoses] = useState<Map<string, DoseLogStatus>>(new Map());
   // State for delete confirmation dialogs
   const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
   const [isDeleteMedicationConfirmOpen, setIsDeleteMedicationConfirmOpen] = useState(false);
   const [logToDelete, setLogToDelete] = useState<MedicationLog | null>(null);
   const [medicationToDelete, setMedicationToDelete] = useState<MedicationWithSchedules | null>(null);
+  const [prnOverride, setPrnOverride] = useState<PrnOverrideRequest | null>(null);
+  const [medicationListTab, setMedicationListTab] = useState("current");
+  const [medicationToDiscontinue, setMedicationToDiscontinue] = useState<MedicationWithSchedules | null>(null);
+  const [discontinueReason, setDiscontinueReason] = useState("");
+  const [discontinueStopDate, setDiscontinueStopDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [overrideReason, setOverrideReason] = useState("");
+  const [historyCaregiver, setHistoryCaregiver] = useState("all");
+  const [doseOutcome, setDoseOutcome] = useState<DoseOutcomeRequest | null>(null);
+  const [doseOutcomeStatus, setDoseOutcomeStatus] = useState<DoseLogStatus>("refused");
+  const [doseOutcomeReason, setDoseOutcomeReason] = useState("");
+  const [doseOutcomeNotes, setDoseOutcomeNotes] = useState("");
   const { toast } = useToast();
   
   // Use the global care recipient context
@@ -73,12 +175,70 @@ export default function Medications({ activeTab, setActiveTab }: MedicationsProp
     enabled: !!activeCareRecipientId,
   });
 
+  // Fetch discontinued medications for the Past tab
+  const { data: pastMedications } = useQuery<MedicationWithSchedules[]>({
+    queryKey: ['/api/medications', activeCareRecipientId, 'discontinued'],
+    queryFn: async () => {
+      const response = await fetch(`/api/medications?careRecipientId=${activeCareRecipientId}&status=discontinued`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch past medications");
+      }
+      return response.json();
+    },
+    enabled: !!activeCareRecipientId,
+  });
+
   // Fetch medication logs (history)
-  const { data: medicationLogs } = useQuery<MedicationLog[]>({
+  const { data: medicationLogs } = useQuery<MedicationLogWithMedication[]>({
     queryKey: ['/api/medication-logs', activeCareRecipientId],
     enabled: !!activeCareRecipientId,
   });
   
+  // The history list can be narrowed to one caregiver's entries
+  const { data: caregiverLogs } = useQuery<MedicationLogWithMedication[]>({
+    queryKey: ['/api/medication-logs', activeCareRecipientId, 'loggedBy', historyCaregiver],
+    queryFn: async () => {
+      const response = await fetch(`/api/medication-logs?careRecipientId=${activeCareRecipientId}&loggedBy=${historyCaregiver}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch medication logs");
+      }
+      return response.json();
+    },
+    enabled: !!activeCareRecipientId && historyCaregiver !== "all",
+  });
+  const historyLogs = historyCaregiver === "all" ? medicationLogs : caregiverLogs;
+  
+  // Fetch missed dose history (including doses that were later logged)
+  const { data: missedDoses } = useQuery<MissedDoseWithMedication[]>({
+    queryKey: ['/api/missed-doses', activeCareRecipientId],
+    queryFn: async () => {
+      const response = await fetch(`/api/missed-doses?careRecipientId=${activeCareRecipientId}&includeResolved=true`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch missed doses");
+      }
+      return response.json();
+    },
+    enabled: !!activeCareRecipientId,
+  });
+  
+  // Fetch projected run-out and reorder dates
+  const { data: refillForecast } = useQuery<RefillForecast[]>({
+    queryKey: ['/api/medications/refill-forecast', activeCareRecipientId],
+    enabled: !!activeCareRecipientId,
+  });
+  
+  const getForecast = (medicationId: number) => 
+    refillForecast?.find(forecast => forecast.medicationId === medicationId);
+  
+  // Fetch when each as-needed medication can next be given
+  const { data: prnStatuses } = useQuery<PrnDoseStatus[]>({
+    queryKey: ['/api/medications/prn-status', activeCareRecipientId],
+    enabled: !!activeCareRecipientId,
+  });
+  
+  const getPrnStatus = (scheduleId: number) =>
+    prnStatuses?.find(status => status.scheduleId === scheduleId);
+  
   // Update the taken medication doses map whenever logs change
   React.useEffect(() => {
     if (medicationLogs && medicationLogs.length > 0) {
@@ -86,19 +246,19 @@ export default function Medications({ activeTab, setActiveTab }: MedicationsProp
       const today = new Date();
       const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate());
       
-      // Create a map of medication+schedule combinations that have been taken today
-      const takenDosesMap = new Map<string, boolean>();
+      // Create a map of medication+schedule combinations recorded today, with what happened
+      const takenDosesMap = new Map<string, DoseLogStatus>();
       
       medicationLogs
         .filter(log => new Date(log.takenAt) >= startOfToday)
         .forEach(log => {
           // If the log has a scheduleId, use that to create a unique key
           if (log.scheduleId) {
-            takenDosesMap.set(`${log.medicationId}-${log.scheduleId}`, true);
+            takenDosesMap.set(`${log.medicationId}-${log.scheduleId}`, getDoseLogStatus(log));
           } else {
             // For logs without scheduleId (taken manually), only mark the medication as taken with key '0'
             // We no longer auto-mark all scheduled times as taken when a manual log exists
-            takenDosesMap.set(`${log.medicationId}-0`, true);
+            takenDosesMap.set(`${log.medicationId}-0`, getDoseLogStatus(log));
           }
         });
       
@@ -125,7 +285,12 @@ export default function Medications({ activeTab, setActiveTab }: MedicationsProp
 
   // Handle marking a medication dose as taken
   const markAsTakenMutation = useMutation({
-    mutationFn: async ({ medicationId, scheduleId }: { medicationId: number, scheduleId?: number }) => {
+    mutationFn: async ({ medicationId, scheduleId, asNeeded, overrideReason }: { 
+      medicationId: number, 
+      scheduleId?: number, 
+      asNeeded?: boolean, 
+      overrideReason?: string 
+    }) => {
       if (!activeCareRecipientId) return null;
       
       const response = await apiRequest(
@@ -137,13 +302,32 @@ export default function Medications({ activeTab, setActiveTab }: MedicationsProp
           careRecipientId: parseInt(activeCareRecipientId),
           taken: true,
           takenAt: new Date(),
-          notes: scheduleId ? `Taken at scheduled time` : "Taken manually"
+          notes: asNeeded ? "Taken as needed" : (scheduleId ? `Taken at scheduled time` : "Taken manually"),
+          overrideReason
         }
       );
       
+      // The dose breaks the as-needed limits - ask for a reason before logging it
+      if (response.status === 409) {
+        const conflict = await response.json();
+        return { requiresOverride: true, medicationId, scheduleId, ...conflict };
+      }
+      
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
+      if (data?.requiresOverride) {
+        setOverrideReason("");
+        setPrnOverride({
+          medicationId: data.medicationId,
+          scheduleId: data.scheduleId,
+          violations: data.violations || [],
+          nextAllowedAt: data.nextAllowedAt || null
+        });
+        return;
+      }
+      
+      setPrnOverride(null);
       toast({
         title: "Medication Taken",
         description: "Successfully logged the medication as taken"
@@ -157,6 +341,11 @@ export default function Medications({ activeTab, setActiveTab }: MedicationsProp
       queryClient.invalidateQueries({ queryKey: ['/api/medication-logs'] });
       queryClient.invalidateQueries({ queryKey: ['/api/medications'] });
       queryClient.invalidateQueries({ queryKey: ['/api/care-stats/today'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/missed-doses'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reports/adherence'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medication-inventory-ledger'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications/refill-forecast'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications/prn-status'] });
     },
     onError: (error) => {
       toast({
@@ -232,6 +421,11 @@ export default function Medications({ activeTab, setActiveTab }: MedicationsProp
       queryClient.invalidateQueries({ queryKey: ['/api/medication-logs'] });
       queryClient.invalidateQueries({ queryKey: ['/api/medications'] });
       queryClient.invalidateQueries({ queryKey: ['/api/care-stats/today'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/missed-doses'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reports/adherence'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medication-inventory-ledger'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications/refill-forecast'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications/prn-status'] });
     },
     onError: (error) => {
       toast({
@@ -242,11 +436,14 @@ export default function Medications({ activeTab, setActiveTab }: MedicationsProp
     }
   });
 
-  // Check if a specific medication dose has been taken
+  // Check if a specific medication dose has been recorded (given or not)
   const isDoseTaken = (medicationId: number, scheduleId: number | null) => {
     const key = `${medicationId}-${scheduleId || 0}`;
     return takenMedicationDoses.has(key);
   };
+  
+  const getDoseStatus = (medicationId: number, scheduleId: number | null) =>
+    takenMedicationDoses.get(`${medicationId}-${scheduleId || 0}`);
 
   // Handle marking a medication dose as taken
   const handleMarkDoseAsTaken = (medicationId: number, scheduleId?: number) => {
@@ -264,7 +461,7 @@ export default function Medications({ activeTab, setActiveTab }: MedicationsProp
     } else {
       // Otherwise, mark it as taken - update local state first
       const updatedMap = new Map(takenMedicationDoses);
-      updatedMap.set(key, true);
+      updatedMap.set(key, "taken");
       setTakenMedicationDoses(updatedMap);
       
       // Then make the API call
@@ -272,6 +469,87 @@ export default function Medications({ activeTab, setActiveTab }: MedicationsProp
     }
   };
 
+  // As-needed doses can be given more than once a day, so each click logs another dose
+  const handleLogPrnDose = (medicationId: number, scheduleId: number) => {
+    markAsTakenMutation.mutate({ medicationId, scheduleId, asNeeded: true });
+  };
+  
+  const confirmPrnOverride = () => {
+    if (!prnOverride || !overrideReason.trim()) return;
+    markAsTakenMutation.mutate({
+      medicationId: prnOverride.medicationId,
+      scheduleId: prnOverride.scheduleId,
+      asNeeded: true,
+      overrideReason: overrideReason.trim()
+    });
+  };
+
+  const openDoseOutcome = (medication: MedicationWithSchedules, schedule: MedicationSchedule) => {
+    setDoseOutcomeStatus("refused");
+    setDoseOutcomeReason("");
+    setDoseOutcomeNotes("");
+    setDoseOutcome({
+      medicationId: medication.id,
+      scheduleId: schedule.id,
+      medicationName: medication.name,
+      time: schedule.time
+    });
+  };
+  
+  const doseOutcomeNeedsReason = doseLogStatuses.find(status => status.value === doseOutcomeStatus)?.requiresReason ?? false;
+  
+  // Record a dose that was refused, held, vomited or given late
+  const recordDoseOutcomeMutation = useMutation({
+    mutationFn: async (request: DoseOutcomeRequest) => {
+      if (!activeCareRecipientId) return null;
+      
+      const response = await apiRequest(
+        "POST",
+        `/api/medication-logs`,
+        {
+          medicationId: request.medicationId,
+          scheduleId: request.scheduleId,
+          careRecipientId: parseInt(activeCareRecipientId),
+          taken: isDoseGiven(doseOutcomeStatus),
+          status: doseOutcomeStatus,
+          reasonCode: doseOutcomeReason || null,
+          takenAt: new Date(),
+          notes: doseOutcomeNotes.trim() || null
+        }
+      );
+      
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to record dose");
+      }
+      
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Dose Recorded",
+        description: `Recorded as ${getDoseStatusLabel(doseOutcomeStatus).toLowerCase()}`
+      });
+      setDoseOutcome(null);
+      
+      queryClient.invalidateQueries({ queryKey: ['/api/medication-logs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/care-stats/today'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/missed-doses'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reports/adherence'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medication-inventory-ledger'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications/refill-forecast'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications/prn-status'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to record dose: ${error.message}`,
+        variant: "destructive"
+      });
+    }
+  });
+
   // Function to edit a medication via modal
   const handleEditMedication = (medication: MedicationWithSchedules) => {
     setSelectedMedication(medication);
@@ -305,6 +583,10 @@ export default function Medications({ activeTab, setActiveTab }: MedicationsProp
       queryClient.invalidateQueries({ queryKey: ['/api/medication-logs'] });
       queryClient.invalidateQueries({ queryKey: ['/api/medications'] });
       queryClient.invalidateQueries({ queryKey: ['/api/care-stats/today'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reports/adherence'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medication-inventory-ledger'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications/refill-forecast'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications/prn-status'] });
       
       setIsDeleteConfirmOpen(false);
       setLogToDelete(null);
@@ -350,6 +632,8 @@ export default function Medications({ activeTab, setActiveTab }: MedicationsProp
       queryClient.invalidateQueries({ queryKey: ['/api/medication-logs'] });
       queryClient.invalidateQueries({ queryKey: ['/api/care-stats/today'] });
       queryClient.invalidateQueries({ queryKey: ['/api/upcoming-events'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications/interaction-report'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications/expiring'] });
       
       setIsDeleteMedicationConfirmOpen(false);
       setMedicationToDelete(null);
@@ -363,6 +647,95 @@ export default function Medications({ activeTab, setActiveTab }: MedicationsProp
     }
   });
   
+  // Discontinue a medication (keeps its schedules and history)
+  const discontinueMedicationMutation = useMutation({
+    mutationFn: async ({ medicationId, reason, stopDate }: { medicationId: number, reason: string, stopDate: string }) => {
+      const response = await apiRequest(
+        "POST",
+        `/api/medications/${medicationId}/discontinue`,
+        { reason, stopDate }
+      );
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Medication Discontinued",
+        description: "The medication has been moved to Past medications"
+      });
+      
+      queryClient.invalidateQueries({ queryKey: ['/api/medications'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/care-stats/today'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/upcoming-events'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/missed-doses'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reports/adherence'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications/refill-forecast'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications/interaction-report'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications/expiring'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications/prn-status'] });
+      
+      setMedicationToDiscontinue(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to discontinue medication: ${error.message}`,
+        variant: "destructive"
+      });
+    }
+  });
+  
+  // Put a discontinued medication back on the current list
+  const reactivateMedicationMutation = useMutation({
+    mutationFn: async (medicationId: number) => {
+      const response = await apiRequest("POST", `/api/medications/${medicationId}/reactivate`);
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Medication Restarted",
+        description: "The medication is back on the current list"
+      });
+      
+      queryClient.invalidateQueries({ queryKey: ['/api/medications'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/care-stats/today'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/upcoming-events'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reports/adherence'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications/refill-forecast'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications/interaction-report'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications/expiring'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medications/prn-status'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to restart medication: ${error.message}`,
+        variant: "destructive"
+      });
+    }
+  });
+  
+  const handleDiscontinueMedication = (medication: MedicationWithSchedules) => {
+    setDiscontinueReason("");
+    setDiscontinueStopDate(format(new Date(), 'yyyy-MM-dd'));
+    setMedicationToDiscontinue(medication);
+  };
+  
+  const confirmDiscontinueMedication = () => {
+    if (medicationToDiscontinue) {
+      discontinueMedicationMutation.mutate({
+        medicationId: medicationToDiscontinue.id,
+        reason: discontinueReason.trim(),
+        stopDate: discontinueStopDate
+      });
+    }
+  };
+  
   // Handle delete medication click
   const handleDeleteMedication = (medication: MedicationWithSchedules) => {
     setMedicationToDelete(medication);
@@ -409,12 +782,28 @@ export default function Medications({ activeTab, setActiveTab }: MedicationsProp
               >
                 Add Medication <Plus className="ml-1 h-4 w-4" />
               </Button>
+              <Button 
+                size="sm" 
+                variant="outline" 
+                onClick={() => setIsReconciliationModalOpen(true)}
+              >
+                Discharge List <ClipboardList className="ml-1 h-4 w-4" />
+              </Button>
               {/* "Record Taken" button removed */}
             </div>
           </div>
 
           {/* Filter section removed as medical history shows this information */}
 
+          <Tabs value={medicationListTab} onValueChange={setMedicationListTab}>
+            <TabsList className="grid w-full grid-cols-2 mb-3">
+              <TabsTrigger value="current">Current</TabsTrigger>
+              <TabsTrigger value="past">
+                Past{pastMedications && pastMedications.length > 0 ? ` (${pastMedications.length})` : ''}
+              </TabsTrigger>
+            </TabsList>
+            
+            <TabsContent value="current">
           {/* Medication List */}
           <div className="bg-white rounded-xl shadow-sm overflow-hidden border border-gray-100 mb-6">
             {isLoadingMedications ? (
@@ -450,9 +839,44 @@ export default function Medications({ activeTab, setActiveTab }: MedicationsProp
                               Refills: {med.refillsRemaining}
                             </div>
                           )}
+                          
+                          {(() => {
+                            const forecast = getForecast(med.id);
+                            if (!forecast?.expirationDate || (!forecast.expired && !forecast.expiringSoon)) return null;
+                            return (
+                              <div className={`text-xs font-medium px-2 py-0.5 rounded-full ${forecast.expired ? 'bg-red-100 text-red-600' : 'bg-amber-100 text-amber-700'}`}>
+                                {forecast.expired 
+                                  ? 'Expired' 
+                                  : `Expires ${format(new Date(`${forecast.expirationDate}T00:00:00`), 'MMM d')}`}
+                              </div>
+                            );
+                          })()}
                         </div>
                       </div>
                       
+                      {/* Refill forecast */}
+                      {(() => {
+                        const forecast = getForecast(med.id);
+                        if (!forecast || (!forecast.runOutDate && !forecast.reorderDate)) return null;
+                        return (
+                          <div className="text-xs text-gray-600 mt-1 flex flex-wrap items-center gap-x-3 gap-y-1">
+                            {forecast.runOutDate && (
+                              <span className={forecast.daysUntilRunOut !== null && forecast.daysUntilRunOut <= 7 ? 'text-red-600 font-medium' : ''}>
+                                Runs out {format(new Date(`${forecast.runOutDate}T00:00:00`), 'MMM d')}
+                              </span>
+                            )}
+                            {forecast.reorderDate && (
+                              <span>Reorder by {format(new Date(`${forecast.reorderDate}T00:00:00`), 'MMM d')}</span>
+                            )}
+                            {forecast.needsReorder && forecast.contactPrescriber && (
+                              <span className="font-medium px-2 py-0.5 rounded-full bg-amber-100 text-amber-700">
+                                No refills - contact prescriber
+                              </span>
+                            )}
+                          </div>
+                        );
+                      })()}
+                      
                       {/* Instructions */}
                       {med.instructions && (
                         <div className="text-sm text-gray-600 mt-1">
@@ -465,37 +889,96 @@ export default function Medications({ activeTab, setActiveTab }: MedicationsProp
                         <div className="mt-3">
                           <div className="text-sm font-medium mb-1">Schedule:</div>
                           <div className="flex flex-wrap gap-2">
-                            {med.schedules.map(schedule => (
+                            {med.schedules.map(schedule => schedule.asNeeded ? (
                               <Tooltip key={schedule.id}>
                                 <TooltipTrigger asChild>
                                   <Button
                                     size="sm"
-                                    variant={isDoseTaken(med.id, schedule.id) ? "default" : "outline"}
-                                    className={`text-xs py-0.5 px-2 h-auto min-w-[60px] ${
-                                      isDoseTaken(med.id, schedule.id)
-                                        ? "bg-green-600 text-white"
-                                        : "border border-primary"
-                                    }`}
-                                    onClick={() => handleMarkDoseAsTaken(med.id, schedule.id)}
+                                    variant="outline"
+                                    className="text-xs py-0.5 px-2 h-auto min-w-[60px] border border-primary"
+                                    onClick={() => handleLogPrnDose(med.id, schedule.id)}
                                   >
-                                    {schedule.asNeeded 
-                                      ? "As Needed" 
-                                      : (schedule.time ? formatTime(schedule.time) : "Unknown")}
-                                    {isDoseTaken(med.id, schedule.id) && (
-                                      <Check className="ml-1 h-3 w-3" />
-                                    )}
+                                    As Needed
                                   </Button>
                                 </TooltipTrigger>
                                 <TooltipContent>
-                                  <p>
-                                    {isDoseTaken(med.id, schedule.id)
-                                      ? "Click to unmark as taken"
-                                      : "Click to mark as taken"}
-                                  </p>
+                                  <p>Click to log a dose</p>
                                 </TooltipContent>
                               </Tooltip>
+                            ) : (
+                              <div key={schedule.id} className="flex items-center">
+                                <Tooltip>
+                                  <TooltipTrigger asChild>
+                                    <Button
+                                      size="sm"
+                                      variant={isDoseTaken(med.id, schedule.id) ? "default" : "outline"}
+                                      className={`text-xs py-0.5 px-2 h-auto min-w-[60px] ${
+                                        isDoseTaken(med.id, schedule.id)
+                                          ? doseStatusStyles[getDoseStatus(med.id, schedule.id) || "taken"]
+                                          : "border border-primary"
+                                      }`}
+                                      onClick={() => handleMarkDoseAsTaken(med.id, schedule.id)}
+                                    >
+                                      {schedule.time ? formatTime(schedule.time) : "Unknown"}
+                                      {getDoseStatus(med.id, schedule.id) === "taken" && (
+                                        <Check className="ml-1 h-3 w-3" />
+                                      )}
+                                      {isDoseTaken(med.id, schedule.id) && getDoseStatus(med.id, schedule.id) !== "taken" && (
+                                        <span className="ml-1">{getDoseStatusLabel(getDoseStatus(med.id, schedule.id))}</span>
+                                      )}
+                                    </Button>
+                                  </TooltipTrigger>
+                                  <TooltipContent>
+                                    <p>
+                                      {isDoseTaken(med.id, schedule.id)
+                                        ? "Click to clear this dose"
+                                        : "Click to mark as taken"}
+                                    </p>
+                                  </TooltipContent>
+                                </Tooltip>
+                                {!isDoseTaken(med.id, schedule.id) && (
+                                  <Tooltip>
+                                    <TooltipTrigger asChild>
+                                      <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        className="h-6 w-6 p-0 ml-0.5"
+                                        onClick={() => openDoseOutcome(med, schedule)}
+                                      >
+                                        <MoreHorizontal className="h-3 w-3" />
+                                      </Button>
+                                    </TooltipTrigger>
+                                    <TooltipContent>
+                                      <p>Record as refused, held, vomited or given late</p>
+                                    </TooltipContent>
+                                  </Tooltip>
+                                )}
+                              </div>
                             ))}
                           </div>
+                          
+                          {/* As-needed dose limits */}
+                          {med.schedules.filter(schedule => schedule.asNeeded).map(schedule => {
+                            const status = getPrnStatus(schedule.id);
+                            if (!status) return null;
+                            return (
+                              <div key={schedule.id} className="text-xs mt-1">
+                                {status.allowed ? (
+                                  <span className="text-green-600">Can be given now</span>
+                                ) : (
+                                  <span className="text-amber-700 font-medium">
+                                    Next allowed at {status.nextAllowedAt ? format(new Date(status.nextAllowedAt), 'h:mm a') : '—'}
+                                  </span>
+                                )}
+                                {status.maxDosesPer24h && (
+                                  <span className="text-gray-500 ml-2">
+                                    {status.dosesInLast24h} of {status.maxDosesPer24h} in last 24h
+                                  </span>
+                                )}
+                              </div>
+                            );
+                          })}
+                          </div>
                         </div>
                       ) : (
                         <div className="mt-2 text-sm text-gray-400 italic">No schedule set</div>
@@ -532,9 +1015,9 @@ export default function Medications({ activeTab, setActiveTab }: MedicationsProp
                           size="sm" 
                           variant="outline" 
                           className="text-xs font-medium text-red-500 px-2 py-1 rounded-full border border-red-500"
-                          onClick={() => handleDeleteMedication(med)}
+                          onClick={() => handleDiscontinueMedication(med)}
                         >
-                          <Trash2 className="mr-1 h-3 w-3" /> Delete
+                          <Archive className="mr-1 h-3 w-3" /> Discontinue
                         </Button>
                       </div>
                     </div>
@@ -543,16 +1026,95 @@ export default function Medications({ activeTab, setActiveTab }: MedicationsProp
               ))
             )}
           </div>
+            </TabsContent>
+            
+            {/* Discontinued medications, kept for their history */}
+            <TabsContent value="past">
+              <div className="bg-white rounded-xl shadow-sm overflow-hidden border border-gray-100 mb-6">
+                {!pastMedications || pastMedications.length === 0 ? (
+                  <div className="p-8 text-center text-gray-500">No past medications</div>
+                ) : (
+                  pastMedications.map((med) => (
+                    <div key={med.id} className="p-4 border-b border-gray-100">
+                      <div className="flex justify-between items-start">
+                        <div>
+                          <div className="text-lg font-medium text-gray-700">{med.name}</div>
+                          <div className="text-sm text-gray-600">{med.dosage}</div>
+                          <div className="text-xs text-gray-500 mt-1">
+                            {med.startDate ? format(new Date(`${med.startDate}T00:00:00`), 'MMM d, yyyy') : 'Unknown start'}
+                            {' – '}
+                            {med.stopDate ? `stopped ${format(new Date(`${med.stopDate}T00:00:00`), 'MMM d, yyyy')}` : 'stopped'}
+                          </div>
+                          {med.discontinuationReason && (
+                            <div className="text-sm text-gray-600 mt-1">
+                              <span className="font-medium">Reason:</span> {med.discontinuationReason}
+                            </div>
+                          )}
+                        </div>
+                        <div className="text-xs font-medium px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">
+                          Discontinued
+                        </div>
+                      </div>
+                      <div className="flex flex-wrap gap-2 mt-3">
+                        <Button 
+                          size="sm" 
+                          variant="outline" 
+                          className="text-xs font-medium text-green-500 px-2 py-1 rounded-full border border-green-500"
+                          onClick={() => reactivateMedicationMutation.mutate(med.id)}
+                          disabled={reactivateMedicationMutation.isPending}
+                        >
+                          <RotateCcw className="mr-1 h-3 w-3" /> Restart
+                        </Button>
+                        <Button 
+                          size="sm" 
+                          variant="outline" 
+                          className="text-xs font-medium text-red-500 px-2 py-1 rounded-full border border-red-500"
+                          onClick={() => handleDeleteMedication(med)}
+                        >
+                          <Trash2 className="mr-1 h-3 w-3" /> Delete
+                        </Button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </TabsContent>
+          </Tabs>
+          
+          {/* Controlled substance counts that didn't match the stock on record */}
+          <CountDiscrepancies careRecipientId={activeCareRecipientId} />
+          
+          {/* Stock that has expired or is about to */}
+          <ExpiringMedications careRecipientId={activeCareRecipientId} />
+          
+          {/* Interactions across the active medication list */}
+          <MedicationInteractions careRecipientId={activeCareRecipientId} />
+          
+          {/* Weekly pill organizer fill */}
+          <PillOrganizer careRecipientId={activeCareRecipientId} />
+          
+          {/* Adherence Report */}
+          <AdherenceReport careRecipientId={activeCareRecipientId} />
+          
+          {/* Printable monthly MAR */}
+          <MedicationAdministrationRecord careRecipientId={activeCareRecipientId} />
           
           {/* Medication History */}
-          <h3 className="text-lg font-medium mb-3">Medication History</h3>
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-lg font-medium">Medication History</h3>
+            <CaregiverFilter
+              careRecipientId={activeCareRecipientId}
+              value={historyCaregiver}
+              onChange={setHistoryCaregiver}
+            />
+          </div>
           <div className="bg-white rounded-xl shadow-sm overflow-hidden border border-gray-100 mb-6">
-            {!medicationLogs || medicationLogs.length === 0 ? (
+            {!historyLogs || historyLogs.length === 0 ? (
               <div className="p-8 text-center text-gray-500">No medication history</div>
             ) : (
               <div>
-                {medicationLogs.slice(0, 10).map(log => {
-                  const medication = medications?.find(m => m.id === log.medicationId);
+                {historyLogs.slice(0, 10).map(log => {
+                  const medication = medications?.find(m => m.id === log.medicationId) || log.medication;
                   
                   return (
                     <div 
@@ -576,6 +1138,19 @@ export default function Medications({ activeTab, setActiveTab }: MedicationsProp
                               ({getTimeAgo(new Date(log.takenAt))})
                             </span>
                           </div>
+                          {getDoseLogStatus(log) !== "taken" && (
+                            <div className={`text-xs ${isDoseGiven(getDoseLogStatus(log)) ? 'text-amber-700' : 'text-red-600'}`}>
+                              {getDoseStatusLabel(getDoseLogStatus(log))}
+                              {getDoseReasonLabel(log.reasonCode) && `: ${getDoseReasonLabel(log.reasonCode)}`}
+                              {log.notes && ` - ${log.notes}`}
+                            </div>
+                          )}
+                          {log.overrideReason && (
+                            <div className="text-xs text-amber-700">
+                              Given outside as-needed limits: {log.overrideReason}
+                            </div>
+                          )}
+                          <LoggedBy entry={log} />
                         </div>
                       </div>
                       <Button
@@ -590,16 +1165,61 @@ export default function Medications({ activeTab, setActiveTab }: MedicationsProp
                   );
                 })}
                 
-                {medicationLogs.length > 10 && (
+                {historyLogs.length > 10 && (
                   <div className="p-3 text-center">
                     <Button variant="link" size="sm">
-                      View all {medicationLogs.length} entries
+                      View all {historyLogs.length} entries
                     </Button>
                   </div>
                 )}
               </div>
             )}
           </div>
+          
+          {/* Missed Doses */}
+          <h3 className="text-lg font-medium mb-3">Missed Doses</h3>
+          <div className="bg-white rounded-xl shadow-sm overflow-hidden border border-gray-100 mb-6">
+            {!missedDoses || missedDoses.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">No missed doses</div>
+            ) : (
+              missedDoses.map(dose => (
+                <div 
+                  key={dose.id} 
+                  className="p-3 border-b border-gray-100 flex justify-between items-center"
+                >
+                  <div className="flex items-center">
+                    <div className={`w-8 h-8 rounded-full flex items-center justify-center mr-3 ${
+                      dose.resolvedAt ? 'bg-gray-100' : 'bg-red-100'
+                    }`}>
+                      <AlertTriangle className={`h-4 w-4 ${dose.resolvedAt ? 'text-gray-500' : 'text-red-600'}`} />
+                    </div>
+                    <div>
+                      <div className="text-sm font-medium">
+                        {dose.medication?.name || "Unknown medication"}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        Due {new Date(dose.scheduledFor).toLocaleString()}
+                        <span className="ml-2 text-gray-400">
+                          ({getTimeAgo(new Date(dose.scheduledFor))})
+                        </span>
+                      </div>
+                    </div>
+                  </div>
+                  <div className={`text-xs font-medium px-2 py-0.5 rounded-full ${
+                    dose.resolvedAt 
+                      ? 'bg-gray-100 text-gray-600' 
+                      : 'bg-red-100 text-red-600'
+                  }`}>
+                    {dose.resolvedAt 
+                      ? 'Given late' 
+                      : dose.escalationLevel >= 2 
+                        ? 'Backup notified' 
+                        : 'Missed'}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
         </section>
       </main>
       
@@ -612,6 +1232,12 @@ export default function Medications({ activeTab, setActiveTab }: MedicationsProp
         careRecipientId={activeCareRecipientId}
       />
       
+      <MedicationReconciliationModal
+        isOpen={isReconciliationModalOpen}
+        onClose={() => setIsReconciliationModalOpen(false)}
+        careRecipientId={activeCareRecipientId}
+      />
+      
       <AddCareEventModal 
         isOpen={isModalOpen} 
         onClose={() => {
@@ -673,7 +1299,7 @@ export default function Medications({ activeTab, setActiveTab }: MedicationsProp
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Medication</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete {medicationToDelete?.name}? This will also delete all schedules and history for this medication. This action cannot be undone.
+              Are you sure you want to permanently delete {medicationToDelete?.name}? This will also delete all schedules and history for this medication, so it will no longer appear in reports. Only do this for a medication added by mistake. This action cannot be undone.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -687,6 +1313,138 @@ export default function Medications({ activeTab, setActiveTab }: MedicationsProp
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+      
+      {/* Discontinue Medication Dialog */}
+      <AlertDialog open={!!medicationToDiscontinue} onOpenChange={(open) => !open && setMedicationToDiscontinue(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Discontinue {medicationToDiscontinue?.name}</AlertDialogTitle>
+            <AlertDialogDescription>
+              The medication will move to Past medications. Its schedules and history are kept for reports.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <label htmlFor="discontinue-stop-date" className="text-sm font-medium">Stop date</label>
+              <Input
+                id="discontinue-stop-date"
+                type="date"
+                value={discontinueStopDate}
+                onChange={(e) => setDiscontinueStopDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <label htmlFor="discontinue-reason" className="text-sm font-medium">Reason</label>
+              <Textarea
+                id="discontinue-reason"
+                value={discontinueReason}
+                onChange={(e) => setDiscontinueReason(e.target.value)}
+                placeholder="e.g. Stopped by Dr. Lee - replaced with losartan"
+              />
+            </div>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDiscontinueMedication}
+              disabled={!discontinueStopDate}
+              className="bg-red-600 hover:bg-red-700 text-white"
+            >
+              Discontinue
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      
+      {/* PRN limit override */}
+      <AlertDialog open={!!prnOverride} onOpenChange={(open) => !open && setPrnOverride(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Outside As-Needed Limits</AlertDialogTitle>
+            <AlertDialogDescription>
+              {prnOverride?.violations.join('. ')}.
+              {prnOverride?.nextAllowedAt && ` The next dose is allowed at ${format(new Date(prnOverride.nextAllowedAt), 'h:mm a')}.`}
+              {' '}To give this dose anyway, record the reason.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Textarea
+            value={overrideReason}
+            onChange={(e) => setOverrideReason(e.target.value)}
+            placeholder="e.g. Approved by Dr. Smith by phone"
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmPrnOverride}
+              disabled={!overrideReason.trim()}
+              className="bg-amber-600 hover:bg-amber-700 text-white"
+            >
+              Give Dose Anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      
+      {/* Record a dose that wasn't simply given on time */}
+      <AlertDialog open={!!doseOutcome} onOpenChange={(open) => !open && setDoseOutcome(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Record Dose</AlertDialogTitle>
+            <AlertDialogDescription>
+              {doseOutcome?.medicationName}
+              {doseOutcome?.time && ` - ${formatTime(doseOutcome.time)} dose`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-3">
+            <div>
+              <label className="text-sm font-medium">What happened</label>
+              <Select value={doseOutcomeStatus} onValueChange={(value) => setDoseOutcomeStatus(value as DoseLogStatus)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {doseLogStatuses.filter(status => status.value !== "taken").map(status => (
+                    <SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm font-medium">
+                Reason{doseOutcomeNeedsReason ? "" : " (optional)"}
+              </label>
+              <Select value={doseOutcomeReason} onValueChange={setDoseOutcomeReason}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {doseReasonCodes.map(reason => (
+                    <SelectItem key={reason.value} value={reason.value}>{reason.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Textarea
+              value={doseOutcomeNotes}
+              onChange={(e) => setDoseOutcomeNotes(e.target.value)}
+              placeholder="Notes (e.g. held per nurse, BP 88/50)"
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                // Keep the dialog open until the dose is saved
+                e.preventDefault();
+                if (doseOutcome) recordDoseOutcomeMutation.mutate(doseOutcome);
+              }}
+              disabled={(doseOutcomeNeedsReason && !doseOutcomeReason) || recordDoseOutcomeMutation.isPending}
+            >
+              Record Dose
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </TooltipProvider>
   );
 }
\ No newline at end of file
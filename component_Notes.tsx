@@ -1,6 +1,7 @@
 import { useState } from "react";
 import PageHeader from "@/components/PageHeader";
 import BottomNavigation from "@/components/BottomNavigation";
+import CaregiverFilter, { LoggedBy, filterByCaregiver } from "@/components/CaregiverFilter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
@@ -26,6 +27,7 @@ export default function Notes({ activeTab, setActiveTab }: NotesProps) {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [activeCareRecipient, setActiveCareRecipient] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
+  const [caregiverFilter, setCaregiverFilter] = useState("all");
 
   // Fetch care recipients
   const { data: careRecipients, isLoading: isLoadingRecipients } = useQuery<CareRecipient[]>({
@@ -43,8 +45,8 @@ export default function Notes({ activeTab, setActiveTab }: NotesProps) {
     enabled: !!activeCareRecipient,
   });
 
-  // Filter notes based on search query
-  const filteredNotes = notes?.filter(note => 
+  // Filter notes based on caregiver and search query
+  const filteredNotes = filterByCaregiver(notes, caregiverFilter).filter(note => 
     note.title.toLowerCase().includes(searchQuery.toLowerCase()) || 
     note.content.toLowerCase().includes(searchQuery.toLowerCase())
   );
@@ -122,13 +124,20 @@ export default function Notes({ activeTab, setActiveTab }: NotesProps) {
           </div>
 
           {/* Search */}
-          <div className="relative mb-4">
-            <Search className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
-            <Input
-              placeholder="Search notes..."
-              className="pl-9"
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
+          <div className="flex items-center gap-2 mb-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+              <Input
+                placeholder="Search notes..."
+                className="pl-9"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+              />
+            </div>
+            <CaregiverFilter
+              careRecipientId={activeCareRecipient}
+              value={caregiverFilter}
+              onChange={setCaregiverFilter}
             />
           </div>
 
@@ -139,7 +148,7 @@ export default function Notes({ activeTab, setActiveTab }: NotesProps) {
             ) : !filteredNotes || filteredNotes.length === 0 ? (
               <Card>
                 <CardContent className="p-6 text-center">
-                  {searchQuery ? (
+                  {searchQuery || caregiverFilter !== "all" ? (
                     <p className="text-gray-500">No notes match your search</p>
                   ) : (
                     <>
@@ -172,6 +181,7 @@ export default function Notes({ activeTab, setActiveTab }: NotesProps) {
                           ? `${note.content.substring(0, 150)}...` 
                           : note.content}
                       </p>
+                      <LoggedBy entry={note} className="mt-1" />
                     </div>
                   </CardContent>
                 </Card>
@@ -8,13 +8,19 @@ import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import { Bell, Mail, MessageSquare, Settings } from "lucide-react";
+import { AlertTriangle, Bell, CalendarClock, Mail, MessageSquare, Settings } from "lucide-react";
 
 interface NotificationPreferences {
   phone?: string;
   emailNotifications: boolean;
   smsNotifications: boolean;
   medicationReminders: boolean;
+  missedDoseGraceMinutes?: number;
+  expirationLeadDays?: number;
+  autoWriteOffExpired?: boolean;
+  backupContactName?: string;
+  backupContactEmail?: string;
+  backupContactPhone?: string;
 }
 
 export default function NotificationSettings() {
@@ -24,6 +30,12 @@ export default function NotificationSettings() {
   const [emailNotifications, setEmailNotifications] = useState(true);
   const [smsNotifications, setSmsNotifications] = useState(false);
   const [medicationReminders, setMedicationReminders] = useState(true);
+  const [missedDoseGraceMinutes, setMissedDoseGraceMinutes] = useState(60);
+  const [expirationLeadDays, setExpirationLeadDays] = useState(30);
+  const [autoWriteOffExpired, setAutoWriteOffExpired] = useState(false);
+  const [backupContactName, setBackupContactName] = useState("");
+  const [backupContactEmail, setBackupContactEmail] = useState("");
+  const [backupContactPhone, setBackupContactPhone] = useState("");
 
   const { data: preferences, isLoading } = useQuery<NotificationPreferences>({
     queryKey: ["/api/user/notifications"],
@@ -34,6 +46,12 @@ export default function NotificationSettings() {
         setEmailNotifications(data.emailNotifications);
         setSmsNotifications(data.smsNotifications);
         setMedicationReminders(data.medicationReminders);
+        setMissedDoseGraceMinutes(data.missedDoseGraceMinutes ?? 60);
+        setExpirationLeadDays(data.expirationLeadDays ?? 30);
+        setAutoWriteOffExpired(data.autoWriteOffExpired ?? false);
+        setBackupContactName(data.backupContactName || "");
+        setBackupContactEmail(data.backupContactEmail || "");
+        setBackupContactPhone(data.backupContactPhone || "");
       }
     }
   });
@@ -76,6 +94,12 @@ export default function NotificationSettings() {
       emailNotifications,
       smsNotifications,
       medicationReminders,
+      missedDoseGraceMinutes,
+      expirationLeadDays,
+      autoWriteOffExpired,
+      backupContactName: backupContactName || undefined,
+      backupContactEmail: backupContactEmail || undefined,
+      backupContactPhone: backupContactPhone || undefined,
     });
   };
 
@@ -195,6 +219,105 @@ export default function NotificationSettings() {
                 )}
               </div>
 
+              {/* Missed Dose Alerts */}
+              <div className="space-y-4 p-4 border rounded-lg bg-red-50">
+                <div className="flex items-center space-x-3">
+                  <AlertTriangle className="w-5 h-5 text-red-600" />
+                  <div>
+                    <Label className="text-base font-medium">Missed Dose Alerts</Label>
+                    <p className="text-sm text-gray-600">
+                      If a scheduled dose isn't logged in time, you get a follow-up. If it's still not logged after the same amount of time again, your backup contact is notified.
+                    </p>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="missed-dose-grace">Grace window (minutes)</Label>
+                  <Input
+                    id="missed-dose-grace"
+                    type="number"
+                    min={5}
+                    max={720}
+                    value={missedDoseGraceMinutes}
+                    onChange={(e) => setMissedDoseGraceMinutes(parseInt(e.target.value) || 60)}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="backup-contact-name">Backup Contact Name</Label>
+                  <Input
+                    id="backup-contact-name"
+                    placeholder="e.g. Jane Smith"
+                    value={backupContactName}
+                    onChange={(e) => setBackupContactName(e.target.value)}
+                  />
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="backup-contact-email">Backup Contact Email</Label>
+                    <Input
+                      id="backup-contact-email"
+                      type="email"
+                      placeholder="backup@example.com"
+                      value={backupContactEmail}
+                      onChange={(e) => setBackupContactEmail(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="backup-contact-phone">Backup Contact Phone</Label>
+                    <Input
+                      id="backup-contact-phone"
+                      type="tel"
+                      placeholder="+1 (555) 123-4567"
+                      value={backupContactPhone}
+                      onChange={(e) => setBackupContactPhone(e.target.value)}
+                    />
+                  </div>
+                </div>
+              </div>
+
+              {/* Medication Expiration */}
+              <div className="space-y-4 p-4 border rounded-lg bg-amber-50">
+                <div className="flex items-center space-x-3">
+                  <CalendarClock className="w-5 h-5 text-amber-600" />
+                  <div>
+                    <Label className="text-base font-medium">Medication Expiration</Label>
+                    <p className="text-sm text-gray-600">
+                      Medications expiring within this many days are flagged on their card and included with reorder alerts.
+                    </p>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="expiration-lead-days">Warn before expiration (days)</Label>
+                  <Input
+                    id="expiration-lead-days"
+                    type="number"
+                    min={1}
+                    max={365}
+                    value={expirationLeadDays}
+                    onChange={(e) => setExpirationLeadDays(parseInt(e.target.value) || 30)}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between p-3 border rounded-lg bg-white">
+                  <div>
+                    <Label htmlFor="auto-write-off-expired" className="text-sm font-medium">
+                      Write off expired stock automatically
+                    </Label>
+                    <p className="text-xs text-gray-600">
+                      Removes expired stock from inventory so the current quantity only counts usable doses
+                    </p>
+                  </div>
+                  <Switch
+                    id="auto-write-off-expired"
+                    checked={autoWriteOffExpired}
+                    onCheckedChange={setAutoWriteOffExpired}
+                  />
+                </div>
+              </div>
+
               <div className="pt-4">
                 <Button 
                   type="submit" 
@@ -210,6 +333,7 @@ export default function NotificationSettings() {
               <h4 className="font-medium text-blue-900 mb-2">How It Works</h4>
               <ul className="text-sm text-blue-800 space-y-1">
                 <li>• Reminders are sent when medications are scheduled</li>
+                <li>• Doses that aren't logged within the grace window are flagged as missed</li>
                 <li>• You can choose email, SMS, or both notification methods</li>
                 <li>• Turn off reminders completely if you prefer manual tracking</li>
                 <li>• All reminders include medication details and dosage information</li>
@@ -1,9 +1,10 @@
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { TabType } from "@/lib/types";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Pill, Calendar, Building, Phone, Plus, Store } from "lucide-react";
+import { Pill, Calendar, Building, Phone, Plus, Store, AlertTriangle, Mail, Printer, Copy } from "lucide-react";
+import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import BottomNavigation from "@/components/BottomNavigation";
 import { useState } from "react";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
@@ -13,12 +14,46 @@ import { Textarea } from "@/components/ui/textarea";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import PageHeader from "@/components/PageHeader";
-import type { Pharmacy } from "@shared/schema";
-import { format } from "date-fns";
+import type { Pharmacy, MedicationPharmacy, Medication } from "@shared/schema";
+import { format, isSameDay } from "date-fns";
 import { useCareRecipient } from "@/hooks/use-care-recipient";
 import { formatPhoneNumber, normalizePhoneNumber } from "@/lib/utils";
 import { Pencil } from "lucide-react";
 
+interface RefillForecast {
+  medicationId: number;
+  name: string;
+  dosage: string;
+  currentQuantity: number;
+  refillsRemaining: number;
+  reorderDate: string | null;
+  runOutDate: string | null;
+  daysUntilRunOut: number | null;
+  needsReorder: boolean;
+  contactPrescriber: boolean;
+  pharmacy: { id: number; name: string; phoneNumber: string; relationId: number; refillStatus: string } | null;
+}
+
+interface PharmacyWithMedications extends Pharmacy {
+  medicationRelations?: Array<MedicationPharmacy & { medication: Medication }>;
+}
+
+interface RefillRequest {
+  subject: string;
+  body: string;
+  pharmacy: { name: string; phoneNumber: string; email: string | null; faxNumber: string | null };
+  mailto: string | null;
+}
+
+const refillStatusStyles: Record<string, { label: string; className: string }> = {
+  requested: { label: "Refill requested", className: "bg-blue-100 text-blue-700" },
+  ready: { label: "Ready for pickup", className: "bg-green-100 text-green-700" },
+  picked_up: { label: "Picked up", className: "bg-gray-100 text-gray-600" },
+};
+
+// Forecast dates are plain yyyy-MM-dd strings - read them as local dates
+const parseForecastDate = (date: string) => new Date(`${date}T00:00:00`);
+
 interface PharmaciesProps {
   activeTab: TabType;
   setActiveTab: (tab: TabType) => void;
@@ -35,23 +70,54 @@ export default function Pharmacies({ activeTab, setActiveTab }: PharmaciesProps)
     name: "",
     address: "",
     phoneNumber: "",
+    email: "",
+    faxNumber: "",
     notes: "",
   });
   
   const { toast } = useToast();
   
+  // Refill workflow dialogs
+  const [requestRelation, setRequestRelation] = useState<(MedicationPharmacy & { medication: Medication }) | null>(null);
+  const [pickupRelation, setPickupRelation] = useState<(MedicationPharmacy & { medication: Medication }) | null>(null);
+  const [pickupQuantity, setPickupQuantity] = useState(0);
+  const [pickupExpirationDate, setPickupExpirationDate] = useState("");
+  
   // Fetch pharmacies
-  const { data: pharmacies = [], isLoading: isLoadingPharmacies } = useQuery({
+  const { data: pharmacies = [], isLoading: isLoadingPharmacies } = useQuery<PharmacyWithMedications[]>({
     queryKey: ["/api/pharmacies", activeCareRecipientId],
     enabled: !!activeCareRecipientId,
   });
   
+  // Fetch projected reorder and run-out dates for the refill calendar
+  const { data: refillForecast = [] } = useQuery<RefillForecast[]>({
+    queryKey: ["/api/medications/refill-forecast", activeCareRecipientId],
+    enabled: !!activeCareRecipientId,
+  });
+  
+  const [selectedRefillDate, setSelectedRefillDate] = useState<Date | undefined>(undefined);
+  
+  const reorderDates = refillForecast
+    .filter(forecast => forecast.reorderDate)
+    .map(forecast => parseForecastDate(forecast.reorderDate!));
+  const runOutDates = refillForecast
+    .filter(forecast => forecast.runOutDate)
+    .map(forecast => parseForecastDate(forecast.runOutDate!));
+  
+  // Upcoming refills in date order, optionally narrowed to the day picked on the calendar
+  const upcomingRefills = refillForecast
+    .filter(forecast => forecast.reorderDate)
+    .filter(forecast => !selectedRefillDate || 
+      isSameDay(parseForecastDate(forecast.reorderDate!), selectedRefillDate) ||
+      (forecast.runOutDate && isSameDay(parseForecastDate(forecast.runOutDate), selectedRefillDate)))
+    .sort((a, b) => a.reorderDate!.localeCompare(b.reorderDate!));
+  
   // Handle form input change
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     
     // Special handling for phone numbers
-    if (name === "phoneNumber") {
+    if (name === "phoneNumber" || name === "faxNumber") {
       setFormData(prev => ({ ...prev, [name]: normalizePhoneNumber(value) }));
     } else {
       setFormData(prev => ({ ...prev, [name]: value }));
@@ -74,6 +140,8 @@ export default function Pharmacies({ activeTab, setActiveTab }: PharmaciesProps)
       name: pharmacy.name,
       address: pharmacy.address || "",
       phoneNumber: pharmacy.phoneNumber,
+      email: pharmacy.email || "",
+      faxNumber: pharmacy.faxNumber || "",
       notes: pharmacy.notes || "",
     });
     
@@ -87,11 +155,101 @@ export default function Pharmacies({ activeTab, setActiveTab }: PharmaciesProps)
       name: "",
       address: "",
       phoneNumber: "",
+      email: "",
+      faxNumber: "",
       notes: ""
     });
     setEditingPharmacyId(null);
   };
   
+  // Text for the refill request, generated when the request dialog opens
+  const { data: refillRequest, isLoading: isLoadingRefillRequest } = useQuery<RefillRequest>({
+    queryKey: ["/api/medication-pharmacies/refill-request", requestRelation?.id],
+    queryFn: async () => {
+      const response = await fetch(`/api/medication-pharmacies/${requestRelation?.id}/refill-request`);
+      if (!response.ok) {
+        throw new Error("Failed to generate refill request");
+      }
+      return response.json();
+    },
+    enabled: !!requestRelation,
+  });
+  
+  const refillStatusMutation = useMutation({
+    mutationFn: async ({ relationId, status, refillAmount, expirationDate }: {
+      relationId: number;
+      status: string;
+      refillAmount?: number;
+      expirationDate?: string;
+    }) => {
+      const response = await apiRequest(
+        "POST",
+        `/api/medication-pharmacies/${relationId}/refill-status`,
+        { status, refillAmount, expirationDate }
+      );
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to update refill");
+      }
+      return response.json();
+    },
+    onSuccess: (_, { status }) => {
+      // Picking up changes stock, so everything derived from it needs refreshing
+      queryClient.invalidateQueries({ queryKey: ["/api/pharmacies", activeCareRecipientId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/medications/refill-forecast"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/medications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/medications/reorder-alerts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/medications/expiring"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/medication-inventory-ledger"] });
+      
+      setRequestRelation(null);
+      setPickupRelation(null);
+      
+      toast({
+        title: status === "picked_up" ? "Refill added to inventory" : "Refill updated",
+        description: status === "none" ? "The refill request was cancelled." : refillStatusStyles[status]?.label,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update refill",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const openPickupDialog = (relation: MedicationPharmacy & { medication: Medication }) => {
+    setPickupQuantity(relation.medication.originalQuantity || 0);
+    setPickupExpirationDate("");
+    setPickupRelation(relation);
+  };
+  
+  const copyRefillRequest = async () => {
+    if (!refillRequest) return;
+    try {
+      await navigator.clipboard.writeText(`${refillRequest.subject}\n\n${refillRequest.body}`);
+      toast({ title: "Copied", description: "The refill request is on your clipboard." });
+    } catch (error) {
+      toast({ title: "Couldn't copy", description: "Select the text and copy it instead.", variant: "destructive" });
+    }
+  };
+  
+  // Open the request as a printable page for faxing
+  const printRefillRequest = () => {
+    if (!refillRequest) return;
+    const printWindow = window.open("", "_blank");
+    if (!printWindow) return;
+    const faxLine = refillRequest.pharmacy.faxNumber ? `Fax: ${refillRequest.pharmacy.faxNumber}\n` : "";
+    printWindow.document.title = refillRequest.subject;
+    const pre = printWindow.document.createElement("pre");
+    pre.style.fontFamily = "sans-serif";
+    pre.style.whiteSpace = "pre-wrap";
+    pre.textContent = `To: ${refillRequest.pharmacy.name}\n${faxLine}Phone: ${refillRequest.pharmacy.phoneNumber}\n\n${refillRequest.subject}\n\n${refillRequest.body}`;
+    printWindow.document.body.appendChild(pre);
+    printWindow.print();
+  };
+  
   // Handle add pharmacy
   const handleAddPharmacy = async () => {
     if (!activeCareRecipientId) return;
@@ -224,6 +382,31 @@ export default function Pharmacies({ activeTab, setActiveTab }: PharmaciesProps)
                     required
                   />
                 </div>
+                <div className="grid grid-cols-4 items-center gap-4">
+                  <Label htmlFor="faxNumber" className="text-right">
+                    Fax Number
+                  </Label>
+                  <Input
+                    id="faxNumber"
+                    name="faxNumber"
+                    value={formData.faxNumber}
+                    onChange={handleInputChange}
+                    className="col-span-3"
+                  />
+                </div>
+                <div className="grid grid-cols-4 items-center gap-4">
+                  <Label htmlFor="email" className="text-right">
+                    Email
+                  </Label>
+                  <Input
+                    id="email"
+                    name="email"
+                    type="email"
+                    value={formData.email}
+                    onChange={handleInputChange}
+                    className="col-span-3"
+                  />
+                </div>
                 <div className="grid grid-cols-4 items-center gap-4">
                   <Label htmlFor="notes" className="text-right">
                     Notes
@@ -247,6 +430,88 @@ export default function Pharmacies({ activeTab, setActiveTab }: PharmaciesProps)
         </div>
       )}
       
+      {/* Refill Calendar */}
+      {activeCareRecipientId && refillForecast.length > 0 && (
+        <Card className="mb-4">
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2">
+              <Calendar className="h-5 w-5 text-primary" />
+              Refill Calendar
+            </CardTitle>
+            <CardDescription>
+              Projected from current stock and each medication's schedule
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col md:flex-row gap-4">
+              <CalendarComponent
+                mode="single"
+                selected={selectedRefillDate}
+                onSelect={setSelectedRefillDate}
+                className="rounded-md border self-start"
+                modifiers={{
+                  reorder: reorderDates,
+                  runOut: runOutDates
+                }}
+                modifiersStyles={{
+                  reorder: { backgroundColor: '#fef3c7', fontWeight: 'bold' },
+                  runOut: { backgroundColor: '#fee2e2', color: '#b91c1c', fontWeight: 'bold' }
+                }}
+              />
+              <div className="flex-1 space-y-2">
+                <div className="flex gap-3 text-xs text-gray-500">
+                  <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-amber-100 inline-block" /> Reorder</span>
+                  <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-red-100 inline-block" /> Runs out</span>
+                </div>
+                {upcomingRefills.length === 0 ? (
+                  <div className="text-sm text-gray-500 py-4">
+                    {selectedRefillDate ? "No refills due on this day" : "No refills projected in the next six months"}
+                  </div>
+                ) : (
+                  upcomingRefills.map(forecast => (
+                    <div key={forecast.medicationId} className="border rounded-md p-3 text-sm">
+                      <div className="flex justify-between items-center">
+                        <div className="flex items-center gap-1 font-medium">
+                          <Pill className="h-3 w-3 text-primary" />
+                          {forecast.name}
+                          {forecast.dosage && <span className="font-normal text-gray-500"> - {forecast.dosage}</span>}
+                        </div>
+                        {forecast.needsReorder && (
+                          <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-red-100 text-red-600">
+                            Reorder now
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-600 mt-1">
+                        Reorder by {format(parseForecastDate(forecast.reorderDate!), 'MMM d, yyyy')}
+                        {forecast.runOutDate && ` · Runs out ${format(parseForecastDate(forecast.runOutDate), 'MMM d, yyyy')}`}
+                      </div>
+                      <div className="text-xs text-gray-600">
+                        {forecast.currentQuantity} on hand · {forecast.refillsRemaining} {forecast.refillsRemaining === 1 ? 'refill' : 'refills'} left
+                        {forecast.pharmacy && ` · ${forecast.pharmacy.name}`}
+                      </div>
+                      {forecast.pharmacy && refillStatusStyles[forecast.pharmacy.refillStatus] && forecast.pharmacy.refillStatus !== "picked_up" && (
+                        <div className="mt-1">
+                          <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${refillStatusStyles[forecast.pharmacy.refillStatus].className}`}>
+                            {refillStatusStyles[forecast.pharmacy.refillStatus].label}
+                          </span>
+                        </div>
+                      )}
+                      {forecast.contactPrescriber && (
+                        <div className="text-xs text-amber-700 mt-1 flex items-center gap-1">
+                          <AlertTriangle className="h-3 w-3" />
+                          No refills left - contact the prescriber
+                        </div>
+                      )}
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+      
       {/* Pharmacies List */}
       {isLoadingPharmacies ? (
         <div className="flex justify-center p-8">
@@ -262,7 +527,7 @@ export default function Pharmacies({ activeTab, setActiveTab }: PharmaciesProps)
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mt-4">
-          {pharmacies.map((pharmacy: Pharmacy) => (
+          {pharmacies.map((pharmacy) => (
             <Card key={pharmacy.id} className="overflow-hidden">
               <CardHeader className="pb-3">
                 <CardTitle className="flex items-center justify-between">
@@ -291,6 +556,18 @@ export default function Pharmacies({ activeTab, setActiveTab }: PharmaciesProps)
                     <Phone className="h-4 w-4 text-primary" />
                     <span>{formatPhoneNumber(pharmacy.phoneNumber)}</span>
                   </div>
+                  {pharmacy.faxNumber && (
+                    <div className="flex items-center gap-2">
+                      <Printer className="h-4 w-4 text-primary" />
+                      <span>{formatPhoneNumber(pharmacy.faxNumber)}</span>
+                    </div>
+                  )}
+                  {pharmacy.email && (
+                    <div className="flex items-center gap-2">
+                      <Mail className="h-4 w-4 text-primary" />
+                      <span className="text-sm break-all">{pharmacy.email}</span>
+                    </div>
+                  )}
                   {pharmacy.notes && (
                     <div className="mt-2 text-sm border-t pt-2">
                       <span className="font-medium">Notes:</span> {pharmacy.notes}
@@ -323,9 +600,50 @@ export default function Pharmacies({ activeTab, setActiveTab }: PharmaciesProps)
                               {relation.nextRefillDate && (
                                 <div className="text-xs ml-5 flex items-center gap-1">
                                   <Calendar className="h-3 w-3" />
-                                  Next refill: {format(new Date(relation.nextRefillDate), 'MMM d, yyyy')}
+                                  Next refill: {format(parseForecastDate(relation.nextRefillDate), 'MMM d, yyyy')}
                                 </div>
                               )}
+                              
+                              {/* Refill workflow */}
+                              <div className="ml-5 mt-1 flex flex-wrap items-center gap-2">
+                                {refillStatusStyles[relation.refillStatus] && (
+                                  <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${refillStatusStyles[relation.refillStatus].className}`}>
+                                    {refillStatusStyles[relation.refillStatus].label}
+                                  </span>
+                                )}
+                                {(relation.refillStatus === "none" || relation.refillStatus === "picked_up") && (
+                                  <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setRequestRelation(relation)}>
+                                    Request refill
+                                  </Button>
+                                )}
+                                {relation.refillStatus === "requested" && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="h-7 text-xs"
+                                    disabled={refillStatusMutation.isPending}
+                                    onClick={() => refillStatusMutation.mutate({ relationId: relation.id, status: "ready" })}
+                                  >
+                                    Mark ready
+                                  </Button>
+                                )}
+                                {(relation.refillStatus === "requested" || relation.refillStatus === "ready") && (
+                                  <>
+                                    <Button size="sm" className="h-7 text-xs" onClick={() => openPickupDialog(relation)}>
+                                      Picked up
+                                    </Button>
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      className="h-7 text-xs"
+                                      disabled={refillStatusMutation.isPending}
+                                      onClick={() => refillStatusMutation.mutate({ relationId: relation.id, status: "none" })}
+                                    >
+                                      Cancel
+                                    </Button>
+                                  </>
+                                )}
+                              </div>
                             </li>
                           );
                         })}
@@ -388,6 +706,31 @@ export default function Pharmacies({ activeTab, setActiveTab }: PharmaciesProps)
                 required
               />
             </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="edit-faxNumber" className="text-right">
+                Fax Number
+              </Label>
+              <Input
+                id="edit-faxNumber"
+                name="faxNumber"
+                value={formData.faxNumber}
+                onChange={handleInputChange}
+                className="col-span-3"
+              />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="edit-email" className="text-right">
+                Email
+              </Label>
+              <Input
+                id="edit-email"
+                name="email"
+                type="email"
+                value={formData.email}
+                onChange={handleInputChange}
+                className="col-span-3"
+              />
+            </div>
             <div className="grid grid-cols-4 items-center gap-4">
               <Label htmlFor="edit-notes" className="text-right">
                 Notes
@@ -423,6 +766,104 @@ export default function Pharmacies({ activeTab, setActiveTab }: PharmaciesProps)
         </DialogContent>
       </Dialog>
 
+      {/* Refill Request Dialog */}
+      <Dialog open={!!requestRelation} onOpenChange={(open) => !open && setRequestRelation(null)}>
+        <DialogContent className="sm:max-w-[550px]">
+          <DialogHeader>
+            <DialogTitle>Request Refill</DialogTitle>
+            <DialogDescription>
+              Send this to the pharmacy by email or fax, or call it in, then mark the refill as requested.
+            </DialogDescription>
+          </DialogHeader>
+          {isLoadingRefillRequest || !refillRequest ? (
+            <div className="py-6 text-center text-sm text-gray-500">Preparing refill request...</div>
+          ) : (
+            <div className="space-y-3">
+              <div className="text-sm font-medium">{refillRequest.subject}</div>
+              <Textarea readOnly value={refillRequest.body} className="min-h-[220px] text-sm" />
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" size="sm" onClick={copyRefillRequest}>
+                  <Copy className="mr-2 h-4 w-4" />
+                  Copy
+                </Button>
+                {refillRequest.mailto && (
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={refillRequest.mailto}>
+                      <Mail className="mr-2 h-4 w-4" />
+                      Email
+                    </a>
+                  </Button>
+                )}
+                <Button variant="outline" size="sm" onClick={printRefillRequest}>
+                  <Printer className="mr-2 h-4 w-4" />
+                  Print for fax
+                </Button>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRequestRelation(null)}>
+              Close
+            </Button>
+            <Button
+              onClick={() => requestRelation && refillStatusMutation.mutate({ relationId: requestRelation.id, status: "requested" })}
+              disabled={refillStatusMutation.isPending}
+            >
+              Mark as Requested
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      
+      {/* Refill Pickup Dialog */}
+      <Dialog open={!!pickupRelation} onOpenChange={(open) => !open && setPickupRelation(null)}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Refill Picked Up</DialogTitle>
+            <DialogDescription>
+              {pickupRelation && `The refill of ${pickupRelation.medication.name} will be added to inventory.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <div className="grid grid-cols-2 items-center gap-4">
+              <Label htmlFor="pickup-quantity">Quantity received</Label>
+              <Input
+                id="pickup-quantity"
+                type="number"
+                min="1"
+                value={pickupQuantity || ""}
+                onChange={(e) => setPickupQuantity(parseInt(e.target.value) || 0)}
+              />
+            </div>
+            <div className="grid grid-cols-2 items-center gap-4">
+              <Label htmlFor="pickup-expiration">Expiration date</Label>
+              <Input
+                id="pickup-expiration"
+                type="date"
+                value={pickupExpirationDate}
+                onChange={(e) => setPickupExpirationDate(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPickupRelation(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => pickupRelation && refillStatusMutation.mutate({
+                relationId: pickupRelation.id,
+                status: "picked_up",
+                refillAmount: pickupQuantity,
+                expirationDate: pickupExpirationDate || undefined
+              })}
+              disabled={refillStatusMutation.isPending || pickupQuantity <= 0}
+            >
+              Add to Inventory
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Bottom Navigation */}
       <BottomNavigation 
         activeTab={activeTab} 
@@ -0,0 +1,282 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { addDays, format, isSunday, nextSunday } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ChevronLeft, ChevronRight, Grid3X3 } from "lucide-react";
+import { PillOrganizerFill } from "@shared/schema";
+import { OrganizerCompartment, organizerCompartments } from "@shared/pill-organizer";
+
+interface OrganizerDose {
+  medicationId: number;
+  scheduleId: number;
+  name: string;
+  dosage: string;
+  quantity: string;
+  time: string;
+  withFood: boolean;
+  units: number;
+}
+
+interface PillOrganizerPlan {
+  weekStart: string;
+  weekEnd: string;
+  days: Array<{
+    date: string;
+    compartments: Array<{
+      compartment: OrganizerCompartment;
+      key: string;
+      doses: OrganizerDose[];
+    }>;
+  }>;
+  medications: Array<{
+    medicationId: number;
+    name: string;
+    dosage: string;
+    units: number;
+    currentQuantity: number;
+    shortBy: number;
+  }>;
+  fill: (PillOrganizerFill & {
+    filledBy: { id: number; name: string | null; username: string } | null;
+  }) | null;
+}
+
+interface PillOrganizerProps {
+  careRecipientId: string | number | null;
+}
+
+const compartmentLabels = Object.fromEntries(
+  organizerCompartments.map(compartment => [compartment.value, compartment.label])
+) as Record<OrganizerCompartment, string>;
+
+// The organizer is filled on Sundays, so plan from today if it's Sunday, otherwise the coming one
+const getDefaultWeekStart = () => {
+  const today = new Date();
+  return format(isSunday(today) ? today : nextSunday(today), 'yyyy-MM-dd');
+};
+
+const shiftWeek = (weekStart: string, days: number) =>
+  format(addDays(new Date(`${weekStart}T00:00:00`), days), 'yyyy-MM-dd');
+
+// Weekly AM / noon / PM / bedtime pillbox: what goes in each compartment, a checklist while
+// filling it, and the option to take the pills out of stock when the fill is confirmed
+export default function PillOrganizer({ careRecipientId }: PillOrganizerProps) {
+  const { toast } = useToast();
+  const [weekStart, setWeekStart] = useState(getDefaultWeekStart);
+  const [checked, setChecked] = useState<string[]>([]);
+  const [deductInventory, setDeductInventory] = useState(false);
+
+  const { data: plan, isLoading } = useQuery<PillOrganizerPlan>({
+    queryKey: ['/api/pill-organizer', careRecipientId, weekStart],
+    queryFn: async () => {
+      const response = await fetch(`/api/pill-organizer?careRecipientId=${careRecipientId}&weekStart=${weekStart}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch pill organizer plan");
+      }
+      return response.json();
+    },
+    enabled: !!careRecipientId,
+  });
+
+  useEffect(() => {
+    setChecked((plan?.fill?.checkedCompartments as string[]) || []);
+  }, [plan]);
+
+  const checklistMutation = useMutation({
+    mutationFn: async (nextChecked: string[]) => {
+      const response = await apiRequest("PUT", "/api/pill-organizer/checklist", {
+        careRecipientId,
+        weekStart,
+        checked: nextChecked
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to save checklist");
+      }
+      return response.json();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/pill-organizer', careRecipientId, weekStart] });
+    }
+  });
+
+  const fillMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/pill-organizer/fill", {
+        careRecipientId,
+        weekStart,
+        deductInventory
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to confirm fill");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Organizer filled",
+        description: deductInventory
+          ? "The pills have been taken out of inventory."
+          : "The fill has been recorded."
+      });
+      setDeductInventory(false);
+      queryClient.invalidateQueries({ queryKey: ['/api/pill-organizer', careRecipientId, weekStart] });
+      if (deductInventory) {
+        queryClient.invalidateQueries({ queryKey: ['/api/medications'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/medication-inventory-ledger'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/medications/refill-forecast'] });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const toggleCompartment = (key: string, isChecked: boolean) => {
+    const nextChecked = isChecked ? [...checked, key] : checked.filter(entry => entry !== key);
+    setChecked(nextChecked);
+    checklistMutation.mutate(nextChecked);
+  };
+
+  const filledCompartments = plan?.days.flatMap(day => day.compartments.filter(entry => entry.doses.length > 0)) || [];
+  const checkedCount = filledCompartments.filter(entry => checked.includes(entry.key)).length;
+  const shortMedications = plan?.medications.filter(med => med.shortBy > 0) || [];
+  const isFilled = !!plan?.fill?.filledAt;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4 mb-6">
+      <div className="flex items-center justify-between mb-1">
+        <div className="flex items-center">
+          <Grid3X3 className="h-5 w-5 text-primary mr-2" />
+          <h3 className="text-lg font-medium">Pill Organizer</h3>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setWeekStart(shiftWeek(weekStart, -7))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm">
+            {format(new Date(`${weekStart}T00:00:00`), 'MMM d')} – {format(new Date(`${shiftWeek(weekStart, 6)}T00:00:00`), 'MMM d')}
+          </span>
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setWeekStart(shiftWeek(weekStart, 7))}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        What goes in each compartment this week, from the current schedules. Tick compartments off as you fill them.
+      </p>
+
+      {isLoading ? (
+        <div className="text-center py-6 text-sm text-gray-500">Loading organizer...</div>
+      ) : !plan || filledCompartments.length === 0 ? (
+        <div className="text-center py-6 text-sm text-gray-500">No scheduled doses this week.</div>
+      ) : (
+        <div className="space-y-4">
+          <div className="space-y-3">
+            {plan.days.map(day => (
+              <div key={day.date} className="border rounded-lg p-3">
+                <div className="font-medium text-sm mb-2">
+                  {format(new Date(`${day.date}T00:00:00`), 'EEEE, MMM d')}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  {day.compartments.map(entry => (
+                    <div
+                      key={entry.key}
+                      className={`rounded-md p-2 ${entry.doses.length === 0 ? 'bg-gray-50' : checked.includes(entry.key) ? 'bg-green-50' : 'bg-blue-50'}`}
+                    >
+                      <div className="flex items-center gap-2 mb-1">
+                        {entry.doses.length > 0 && (
+                          <Checkbox
+                            id={`organizer-${entry.key}`}
+                            checked={checked.includes(entry.key)}
+                            disabled={isFilled}
+                            onCheckedChange={(value) => toggleCompartment(entry.key, value === true)}
+                          />
+                        )}
+                        <Label htmlFor={`organizer-${entry.key}`} className="text-xs font-semibold uppercase text-gray-600">
+                          {compartmentLabels[entry.compartment]}
+                        </Label>
+                      </div>
+                      {entry.doses.length === 0 ? (
+                        <div className="text-xs text-gray-400">Empty</div>
+                      ) : (
+                        <ul className="space-y-0.5">
+                          {entry.doses.map(dose => (
+                            <li key={`${dose.scheduleId}-${dose.time}`} className="text-xs">
+                              <span className="font-medium">{dose.quantity}</span> {dose.name} {dose.dosage}
+                              {dose.withFood && <span className="text-gray-500"> · with food</span>}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium mb-1">Needed for the week</h4>
+            <div className="space-y-1">
+              {plan.medications.map(med => (
+                <div key={med.medicationId} className="flex justify-between text-xs">
+                  <span>{med.name} {med.dosage}</span>
+                  <span className={med.shortBy > 0 ? 'text-red-600 font-medium' : 'text-gray-600'}>
+                    {med.units} of {med.currentQuantity} on hand{med.shortBy > 0 && ` · short ${med.shortBy}`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {isFilled ? (
+            <div className="text-sm text-green-700 bg-green-50 rounded-md p-2">
+              Filled {format(new Date(plan.fill!.filledAt!), 'EEE, MMM d h:mm a')}
+              {plan.fill!.filledBy && ` by ${plan.fill!.filledBy.name || plan.fill!.filledBy.username}`}
+              {(plan.fill!.deductions as unknown[]).length > 0 && ' · taken out of inventory'}
+            </div>
+          ) : (
+            <div className="space-y-2 border-t pt-3">
+              <div className="text-xs text-gray-500">
+                {checkedCount} of {filledCompartments.length} compartments filled
+                {shortMedications.length > 0 && ` · not enough stock for ${shortMedications.map(med => med.name).join(', ')}`}
+              </div>
+              <div className="flex items-start space-x-2">
+                <Checkbox
+                  id="organizer-deduct-inventory"
+                  checked={deductInventory}
+                  onCheckedChange={(value) => setDeductInventory(value === true)}
+                />
+                <Label htmlFor="organizer-deduct-inventory" className="text-sm font-normal leading-tight">
+                  Take these pills out of inventory now. Doses given from the organizer this week won't be taken out again.
+                </Label>
+              </div>
+              <Button
+                className="w-full"
+                onClick={() => fillMutation.mutate()}
+                disabled={fillMutation.isPending || checkedCount < filledCompartments.length}
+              >
+                Confirm Fill
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertTriangle, Check } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ReadingAlert } from "@shared/schema";
+import { describeBreach } from "@shared/clinical-thresholds";
+
+interface ReadingAlertsProps {
+  careRecipientId: number | null;
+  readingType: 'glucose' | 'blood_pressure';
+}
+
+// Readings that crossed the care recipient's thresholds and haven't been looked at yet
+export default function ReadingAlerts({ careRecipientId, readingType }: ReadingAlertsProps) {
+  const { toast } = useToast();
+
+  const { data: alerts = [] } = useQuery<ReadingAlert[]>({
+    queryKey: ["/api/reading-alerts", careRecipientId, readingType],
+    queryFn: async () => {
+      const response = await fetch(`/api/reading-alerts?careRecipientId=${careRecipientId}&readingType=${readingType}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch reading alerts");
+      }
+      return response.json();
+    },
+    enabled: !!careRecipientId,
+  });
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: async (alertIds: number[]) => {
+      for (const id of alertIds) {
+        const response = await apiRequest("POST", `/api/reading-alerts/${id}/acknowledge`);
+        if (!response.ok) {
+          const error = await response.json();
+          throw new Error(error.message || "Failed to acknowledge alert");
+        }
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reading-alerts", careRecipientId] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (alerts.length === 0) {
+    return null;
+  }
+
+  // One row per reading - a blood pressure reading can cross several limits at once
+  const readings = Object.values(alerts.reduce<Record<number, ReadingAlert[]>>((groups, alert) => {
+    (groups[alert.readingId] ||= []).push(alert);
+    return groups;
+  }, {}));
+
+  return (
+    <div className="bg-red-50 border border-red-200 rounded-xl p-4 mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center text-red-800">
+          <AlertTriangle className="h-5 w-5 mr-2" />
+          <h3 className="font-medium">Out-of-range readings</h3>
+        </div>
+        {readings.length > 1 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs text-red-800"
+            onClick={() => acknowledgeMutation.mutate(alerts.map(alert => alert.id))}
+            disabled={acknowledgeMutation.isPending}
+          >
+            Acknowledge all
+          </Button>
+        )}
+      </div>
+      <div className="space-y-2">
+        {readings.map(group => (
+          <div key={group[0].readingId} className="flex items-start justify-between gap-2 bg-white rounded-md p-2">
+            <div>
+              <div className="text-sm text-red-700">
+                {group.map(alert => describeBreach(alert)).join(' · ')}
+              </div>
+              <div className="text-xs text-gray-500">
+                {format(new Date(group[0].readingTime), "MMM d, yyyy 'at' h:mm a")}
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs flex-shrink-0"
+              onClick={() => acknowledgeMutation.mutate(group.map(alert => alert.id))}
+              disabled={acknowledgeMutation.isPending}
+            >
+              <Check className="h-3 w-3 mr-1" />
+              Acknowledge
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
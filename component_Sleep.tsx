@@ -14,6 +14,7 @@ import { type Sleep as SleepType } from "@shared/schema";
 import AddSleepModal from "@/components/AddSleepModal";
 import { useCareRecipient } from "@/hooks/use-care-recipient";
 import PageHeader from "@/components/PageHeader";
+import CaregiverFilter, { LoggedBy, filterByCaregiver } from "@/components/CaregiverFilter";
 
 interface SleepProps {
   activeTab: TabType;
@@ -24,6 +25,7 @@ export default function Sleep({ activeTab, setActiveTab }: SleepProps) {
   const [selectedSleep, setSelectedSleep] = useState<SleepType | null>(null);
   const [isDetailsOpen, setIsDetailsOpen] = useState(false);
   const [isAddSleepOpen, setIsAddSleepOpen] = useState(false);
+  const [caregiverFilter, setCaregiverFilter] = useState("all");
   const { toast } = useToast();
   
   // Use global care recipient context
@@ -98,7 +100,7 @@ export default function Sleep({ activeTab, setActiveTab }: SleepProps) {
   };
 
   // Group sleep records by date for better organization
-  const groupedSleep = sleepRecords.reduce((groups: Record<string, SleepType[]>, sleep) => {
+  const groupedSleep = filterByCaregiver<SleepType>(sleepRecords, caregiverFilter).reduce((groups: Record<string, SleepType[]>, sleep) => {
     const date = formatDate(sleep.startTime);
     if (!groups[date]) {
       groups[date] = [];
@@ -139,9 +141,16 @@ export default function Sleep({ activeTab, setActiveTab }: SleepProps) {
                 Track sleep patterns and quality
               </CardDescription>
             </div>
-            <Button onClick={() => setIsAddSleepOpen(true)}>
-              <Plus className="mr-2 h-4 w-4" /> Add Sleep
-            </Button>
+            <div className="flex items-center gap-2">
+              <CaregiverFilter
+                careRecipientId={activeCareRecipientId}
+                value={caregiverFilter}
+                onChange={setCaregiverFilter}
+              />
+              <Button onClick={() => setIsAddSleepOpen(true)}>
+                <Plus className="mr-2 h-4 w-4" /> Add Sleep
+              </Button>
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -210,6 +219,7 @@ export default function Sleep({ activeTab, setActiveTab }: SleepProps) {
                                       Notes: {sleep.notes}
                                     </p>
                                   )}
+                                  <LoggedBy entry={sleep} className="mt-1" />
                                 </div>
                                 <div>
                                   <Button 
@@ -284,6 +294,8 @@ export default function Sleep({ activeTab, setActiveTab }: SleepProps) {
                   <p className="whitespace-pre-wrap">{selectedSleep.notes}</p>
                 </div>
               )}
+
+              <LoggedBy entry={selectedSleep} />
               
               <div className="flex justify-end space-x-2 pt-4">
                 <Button 
@@ -10,6 +10,7 @@ interface StatusCardProps {
   color: string;
   progress?: number;
   secondaryText?: string;
+  alertText?: string;
   onClick?: () => void;
 }
 
@@ -21,6 +22,7 @@ export default function StatusCard({
   color, 
   progress = 0,
   secondaryText,
+  alertText,
   onClick
 }: StatusCardProps) {
   // Convert color to Tailwind color class
@@ -61,6 +63,12 @@ export default function StatusCard({
             {secondaryText}
           </div>
         )}
+        
+        {alertText && (
+          <div className="mt-1 text-xs font-medium text-red-600">
+            {alertText}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
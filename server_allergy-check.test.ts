@@ -0,0 +1,44 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("./storage", () => ({ storage: {} }));
+
+import { parseMedicationAllergies, findMedicationAllergyConflicts } from "./allergy-check";
+
+describe("parseMedicationAllergies", () => {
+  it("splits the allergy field and keeps any reaction noted", () => {
+    expect(parseMedicationAllergies("Penicillin (hives), sulfa drugs; Codeine - nausea")).toEqual([
+      { allergen: "Penicillin", key: "penicillin", reaction: "hives" },
+      { allergen: "sulfa drugs", key: "sulfa drugs", reaction: null },
+      { allergen: "Codeine", key: "codeine", reaction: "nausea" }
+    ]);
+  });
+
+  it("treats no known allergies as none", () => {
+    expect(parseMedicationAllergies("NKDA")).toEqual([]);
+    expect(parseMedicationAllergies(null)).toEqual([]);
+  });
+});
+
+describe("findMedicationAllergyConflicts", () => {
+  it("matches the medication name against the allergen", () => {
+    const [warning] = findMedicationAllergyConflicts("Amoxicillin 500mg", "amoxicillin (rash)");
+
+    expect(warning).toMatchObject({ allergen: "amoxicillin", reaction: "rash", matchType: "name" });
+  });
+
+  it("matches brand and generic names either way round", () => {
+    expect(findMedicationAllergyConflicts("Coumadin", "Warfarin")).toMatchObject([{ matchType: "normalized" }]);
+    expect(findMedicationAllergyConflicts("Warfarin", "Coumadin")).toMatchObject([{ matchType: "normalized" }]);
+  });
+
+  it("matches a medication in an allergic drug class", () => {
+    expect(findMedicationAllergyConflicts("Augmentin", "PCN")).toMatchObject([
+      { matchType: "drug_class", matchedName: "penicillin" }
+    ]);
+  });
+
+  it("doesn't match on part of a word", () => {
+    expect(findMedicationAllergyConflicts("Codeine", "Co")).toEqual([]);
+    expect(findMedicationAllergyConflicts("Metoprolol", "Penicillin")).toEqual([]);
+  });
+});
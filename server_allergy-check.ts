@@ -0,0 +1,138 @@
+import { storage } from "./storage";
+import { getMedicationMatchKey } from "./reconciliation";
+
+// A recorded medication allergy that the medication being saved appears to conflict with
+export interface AllergyWarning {
+  allergen: string; // As written in the emergency info
+  reaction: string | null; // Anything recorded in parentheses, e.g. "Penicillin (hives)"
+  matchedName: string; // The medication name, or the generic name both sides share
+  matchType: 'name' | 'normalized' | 'drug_class';
+  message: string;
+}
+
+// Allergies are often recorded by drug class, so map common classes to the drugs in them
+const drugClassMembers: Record<string, string[]> = {
+  penicillin: ['penicillin', 'amoxicillin', 'ampicillin', 'augmentin', 'dicloxacillin', 'nafcillin', 'oxacillin', 'piperacillin'],
+  cephalosporin: ['cephalexin', 'keflex', 'cefazolin', 'cefuroxime', 'cefdinir', 'ceftriaxone', 'cefprozil', 'cefadroxil', 'cefpodoxime'],
+  sulfa: ['sulfamethoxazole', 'bactrim', 'septra', 'sulfasalazine', 'sulfadiazine'],
+  nsaid: ['ibuprofen', 'advil', 'motrin', 'naproxen', 'aleve', 'aspirin', 'diclofenac', 'meloxicam', 'celecoxib', 'indomethacin', 'ketorolac'],
+  opioid: ['codeine', 'morphine', 'hydrocodone', 'oxycodone', 'hydromorphone', 'tramadol', 'fentanyl', 'percocet', 'vicodin', 'norco'],
+  statin: ['atorvastatin', 'lipitor', 'simvastatin', 'zocor', 'rosuvastatin', 'crestor', 'pravastatin', 'lovastatin'],
+  'ace inhibitor': ['lisinopril', 'enalapril', 'ramipril', 'benazepril', 'captopril', 'quinapril'],
+  macrolide: ['azithromycin', 'zithromax', 'z-pak', 'clarithromycin', 'erythromycin'],
+  fluoroquinolone: ['ciprofloxacin', 'cipro', 'levofloxacin', 'levaquin', 'moxifloxacin'],
+  tetracycline: ['tetracycline', 'doxycycline', 'minocycline']
+};
+
+// Other ways people write the class names above
+const drugClassAliases: Record<string, string> = {
+  penicillins: 'penicillin',
+  pcn: 'penicillin',
+  cephalosporins: 'cephalosporin',
+  sulfonamide: 'sulfa',
+  sulfonamides: 'sulfa',
+  'sulfa drugs': 'sulfa',
+  nsaids: 'nsaid',
+  opioids: 'opioid',
+  opiates: 'opioid',
+  narcotics: 'opioid',
+  statins: 'statin',
+  'ace inhibitors': 'ace inhibitor',
+  macrolides: 'macrolide',
+  fluoroquinolones: 'fluoroquinolone',
+  quinolones: 'fluoroquinolone',
+  tetracyclines: 'tetracycline'
+};
+
+const normalize = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9\s-]/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Split the free-text allergy field into individual allergens, keeping any reaction noted in parentheses
+export const parseMedicationAllergies = (allergyText: string | null | undefined) => {
+  if (!allergyText) return [];
+
+  return allergyText
+    .split(/[,;\n]|\band\b/i)
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0 && !/^(none|nkda|n\/a|no known( drug)? allergies)$/i.test(entry))
+    .map(entry => {
+      const reactionMatch = entry.match(/\(([^)]*)\)/) || entry.match(/\s[-:]\s*(.+)$/);
+      const allergen = entry.replace(/\([^)]*\)/g, '').replace(/\s[-:]\s*.+$/, '').trim();
+      return {
+        allergen,
+        key: normalize(allergen),
+        reaction: reactionMatch ? reactionMatch[1].trim() : null
+      };
+    })
+    .filter(entry => entry.key.length >= 3);
+};
+
+// Does a medication name refer to the allergen? Whole-word containment either way, so
+// "Amoxicillin 500mg" matches an "amoxicillin" allergy but "Codeine" doesn't match "Co"
+const namesMatch = (medicationName: string, allergenKey: string) => {
+  const name = ` ${normalize(medicationName)} `;
+  const allergen = ` ${allergenKey} `;
+  return name.includes(allergen) || (name.trim().length >= 4 && allergen.includes(name));
+};
+
+// Compare a medication's name against recorded allergies. Brand names are swapped for the
+// generic on both sides, so "Coumadin" matches a warfarin allergy and "Warfarin" a Coumadin one.
+export const findMedicationAllergyConflicts = (
+  medicationName: string,
+  allergyText: string | null | undefined
+): AllergyWarning[] => {
+  const warnings: AllergyWarning[] = [];
+  const allergies = parseMedicationAllergies(allergyText);
+  const genericName = getMedicationMatchKey(medicationName);
+
+  for (const allergy of allergies) {
+    const warningBase = { allergen: allergy.allergen, reaction: allergy.reaction };
+    const reactionNote = allergy.reaction ? ` (${allergy.reaction})` : '';
+    const allergenGeneric = getMedicationMatchKey(allergy.allergen);
+
+    if (namesMatch(medicationName, allergy.key)) {
+      warnings.push({
+        ...warningBase,
+        matchedName: medicationName,
+        matchType: 'name',
+        message: `${medicationName} matches a recorded allergy to ${allergy.allergen}${reactionNote}.`
+      });
+      continue;
+    }
+
+    if (genericName && allergenGeneric && namesMatch(genericName, allergenGeneric)) {
+      warnings.push({
+        ...warningBase,
+        matchedName: allergenGeneric,
+        matchType: 'normalized',
+        message: `${medicationName} and ${allergy.allergen} are both ${allergenGeneric}, and an allergy to ${allergy.allergen}${reactionNote} is recorded.`
+      });
+      continue;
+    }
+
+    const drugClass = drugClassAliases[allergy.key] || allergy.key;
+    const members = drugClassMembers[drugClass];
+    if (!members) continue;
+
+    if (members.some(member => namesMatch(medicationName, member) || namesMatch(genericName, member))) {
+      warnings.push({
+        ...warningBase,
+        matchedName: drugClass,
+        matchType: 'drug_class',
+        message: `${medicationName} belongs to the ${drugClass} class, and an allergy to ${allergy.allergen}${reactionNote} is recorded.`
+      });
+    }
+  }
+
+  return warnings;
+};
+
+// Look up the care recipient's recorded medication allergies and check a medication name against them
+export async function checkMedicationAllergies(careRecipientId: number, medicationName: string): Promise<AllergyWarning[]> {
+  if (!careRecipientId || !medicationName) return [];
+
+  const info = await storage.getEmergencyInfo(careRecipientId);
+  if (!info?.medicationAllergies) return [];
+
+  return findMedicationAllergyConflicts(medicationName, info.medicationAllergies);
+}
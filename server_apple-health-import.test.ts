@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from "vitest";
+import { Readable } from "stream";
+
+vi.mock("./storage", () => ({ storage: {} }));
+
+import { parseAppleHealthDate, readAppleHealthExport } from "./apple-health-import";
+
+const exportXml = (records: string[]) => Readable.from([
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<HealthData locale="en_US">',
+  ...records,
+  '</HealthData>'
+].join("\n"));
+
+const from = new Date("2026-03-01T00:00:00Z");
+const to = new Date("2026-03-31T23:59:59Z");
+
+describe("parseAppleHealthDate", () => {
+  it("reads the date with its UTC offset", () => {
+    expect(parseAppleHealthDate("2026-03-04 08:05:00 -0500")).toEqual(new Date("2026-03-04T13:05:00Z"));
+  });
+
+  it("returns null for anything else", () => {
+    expect(parseAppleHealthDate("2026-03-04T08:05:00Z")).toBeNull();
+    expect(parseAppleHealthDate(undefined)).toBeNull();
+  });
+});
+
+describe("readAppleHealthExport", () => {
+  it("keeps the record types we store in the date range, with their metadata", async () => {
+    const records = await readAppleHealthExport(exportXml([
+      '<Record type="HKQuantityTypeIdentifierBloodGlucose" sourceName="Contour &amp; Co" unit="mg/dL" startDate="2026-03-04 08:05:00 -0500" endDate="2026-03-04 08:05:00 -0500" value="104">',
+      '  <MetadataEntry key="HKBloodGlucoseMealTime" value="1"/>',
+      '</Record>',
+      '<Record type="HKQuantityTypeIdentifierStepCount" sourceName="iPhone" unit="count" startDate="2026-03-04 08:00:00 -0500" endDate="2026-03-04 08:10:00 -0500" value="500"/>',
+      '<Record type="HKQuantityTypeIdentifierBodyMass" sourceName="Scale" unit="lb" startDate="2026-02-27 07:00:00 -0500" endDate="2026-02-27 07:00:00 -0500" value="160"/>',
+      '<Record type="HKQuantityTypeIdentifierHeartRate" sourceName="Watch" unit="count/min" startDate="2026-03-04 08:06:00 -0500" value="72"/>'
+    ]), from, to);
+
+    expect(records.glucose).toMatchObject([
+      { sourceName: "Contour & Co", unit: "mg/dL", value: "104", metadata: { HKBloodGlucoseMealTime: "1" } }
+    ]);
+    expect(records.bodyMass).toEqual([]);
+    expect(records.heartRate).toHaveLength(1);
+    expect(records.heartRate[0].end).toEqual(records.heartRate[0].start);
+  });
+
+  it("rejects files that aren't a Health export", async () => {
+    await expect(readAppleHealthExport(Readable.from("Date,Glucose\n2026-03-04,104"), from, to))
+      .rejects.toThrow("This does not look like an Apple Health export");
+  });
+});
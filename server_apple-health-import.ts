@@ -0,0 +1,293 @@
+import { createInterface } from "readline";
+import { PassThrough, type Readable } from "stream";
+import unzipper from "unzipper";
+import { format } from "date-fns";
+import { storage } from "./storage";
+import { MG_DL_PER_MMOL_L } from "@shared/glucose-import";
+import type { AppleHealthImportResult } from "@shared/health-import";
+
+// Apple Health "Export All Health Data" writes export.xml with one <Record> per sample, each
+// start tag on its own line and any <MetadataEntry> children on the lines after it. Exports run
+// to hundreds of megabytes, so the file is read line by line and only the record types we
+// store are kept. The export.zip the Health app shares can be uploaded as it is - export.xml is
+// unzipped from it as it arrives.
+
+const appleHealthTypes = {
+  systolic: 'HKQuantityTypeIdentifierBloodPressureSystolic',
+  diastolic: 'HKQuantityTypeIdentifierBloodPressureDiastolic',
+  heartRate: 'HKQuantityTypeIdentifierHeartRate',
+  oxygen: 'HKQuantityTypeIdentifierOxygenSaturation',
+  glucose: 'HKQuantityTypeIdentifierBloodGlucose',
+  sleep: 'HKCategoryTypeIdentifierSleepAnalysis',
+  bodyMass: 'HKQuantityTypeIdentifierBodyMass',
+} as const;
+
+type RecordKind = keyof typeof appleHealthTypes;
+
+const kindByType = new Map<string, RecordKind>(
+  Object.entries(appleHealthTypes).map(([kind, type]) => [type, kind as RecordKind])
+);
+
+interface HealthRecord {
+  sourceName: string;
+  unit: string;
+  value: string;
+  startDate: string; // As written, for pairing systolic with diastolic
+  start: Date;
+  end: Date;
+  metadata: Record<string, string>;
+}
+
+type CollectedRecords = Record<RecordKind, HealthRecord[]>;
+
+// Pulse and SpO2 recorded within this long of a blood pressure reading go on the reading
+const VITALS_MATCH_WINDOW_MS = 5 * 60 * 1000;
+
+// Sleep segments closer together than this are one night; shorter breaks count as interruptions
+const SLEEP_SESSION_GAP_MS = 60 * 60 * 1000;
+const SLEEP_INTERRUPTION_MS = 5 * 60 * 1000;
+const MIN_SLEEP_SESSION_MS = 20 * 60 * 1000;
+
+// HKBloodGlucoseMealTime: 1 is before a meal, 2 after
+const glucoseMealTimes: Record<string, string> = { '1': 'before-meal', '2': 'after-meal' };
+
+const xmlEntities: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const parseAttributes = (tag: string) => {
+  const attributes: Record<string, string> = {};
+  const attributePattern = /(\w+)="([^"]*)"/g;
+  let match: RegExpExecArray | null;
+  while ((match = attributePattern.exec(tag)) !== null) {
+    attributes[match[1]] = match[2].replace(/&(amp|lt|gt|quot|apos);/g, (_: string, entity: string) => xmlEntities[entity]);
+  }
+  return attributes;
+};
+
+// export.zip holds apple_health_export/export.xml next to the clinical records and workout routes
+const EXPORT_XML_ENTRY = /(^|\/)export\.xml$/;
+
+// The export.xml inside an uploaded export.zip. A file that isn't a zip, or a zip without
+// export.xml, fails the import the same way a file that isn't an export does.
+export const extractExportXml = (input: Readable): Readable => {
+  const xml = new PassThrough();
+  const entry = unzipper.ParseOne(EXPORT_XML_ENTRY);
+
+  input.on('error', error => xml.destroy(error));
+  entry.on('error', () => xml.destroy(new Error('This does not look like an Apple Health export')));
+
+  input.pipe(entry).pipe(xml);
+  return xml;
+};
+
+// Apple writes dates as "2024-01-15 08:05:00 -0500"
+export const parseAppleHealthDate = (value: string | undefined) => {
+  const match = value?.match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/);
+  if (!match) return null;
+  const date = new Date(`${match[1]}T${match[2]}${match[3]}:${match[4]}`);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+export async function readAppleHealthExport(input: Readable, from: Date, to: Date) {
+  const records = Object.fromEntries(
+    Object.keys(appleHealthTypes).map(kind => [kind, []])
+  ) as unknown as CollectedRecords;
+  let isHealthExport = false;
+  let current: { kind: RecordKind; record: HealthRecord } | null = null;
+
+  const lines = createInterface({ input, crlfDelay: Infinity });
+
+  for await (const rawLine of lines) {
+    const line = rawLine.trim();
+
+    if (!isHealthExport && line.startsWith('<HealthData')) {
+      isHealthExport = true;
+      continue;
+    }
+
+    // Metadata of the record we're inside, e.g. the meal time of a glucose reading
+    if (current) {
+      if (line.startsWith('<MetadataEntry')) {
+        const { key, value } = parseAttributes(line);
+        if (key) current.record.metadata[key] = value;
+      } else if (line.startsWith('</Record>')) {
+        current = null;
+      }
+      continue;
+    }
+
+    if (!line.startsWith('<Record ')) continue;
+
+    const attributes = parseAttributes(line);
+    const kind = kindByType.get(attributes.type);
+    if (!kind) continue;
+
+    const start = parseAppleHealthDate(attributes.startDate);
+    const end = parseAppleHealthDate(attributes.endDate) || start;
+    if (!start || !end || start < from || start > to) continue;
+
+    const record: HealthRecord = {
+      sourceName: attributes.sourceName || '',
+      unit: attributes.unit || '',
+      value: attributes.value || '',
+      startDate: attributes.startDate,
+      start,
+      end,
+      metadata: {}
+    };
+    records[kind].push(record);
+
+    if (!line.endsWith('/>')) {
+      current = { kind, record };
+    }
+  }
+
+  if (!isHealthExport) {
+    throw new Error('This does not look like an Apple Health export');
+  }
+
+  return records;
+}
+
+// The sample closest in time to `time`, if one is within the window. Samples must be sorted.
+const findNearest = (samples: Array<{ time: number; value: number }>, time: number) => {
+  let low = 0;
+  let high = samples.length - 1;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (samples[middle].time < time) low = middle + 1;
+    else high = middle;
+  }
+
+  const candidates = [samples[low - 1], samples[low]].filter(Boolean);
+  const nearest = candidates.sort((a, b) => Math.abs(a.time - time) - Math.abs(b.time - time))[0];
+  return nearest && Math.abs(nearest.time - time) <= VITALS_MATCH_WINDOW_MS ? nearest.value : null;
+};
+
+const toSamples = (records: HealthRecord[], scale = 1) =>
+  records
+    .map(record => ({ time: record.start.getTime(), value: Number(record.value) * scale }))
+    .filter(sample => Number.isFinite(sample.value))
+    .sort((a, b) => a.time - b.time);
+
+// Apple stores blood pressure as separate systolic and diastolic samples with the same
+// start time. Pulse and SpO2 have no column of their own, so they're only kept when taken
+// alongside a blood pressure reading.
+const mapBloodPressure = (records: CollectedRecords) => {
+  const diastolicByKey = new Map(records.diastolic.map(record => [`${record.sourceName}|${record.startDate}`, record]));
+  const heartRates = toSamples(records.heartRate);
+  // SpO2 is exported as a fraction (0.97)
+  const oxygenLevels = toSamples(records.oxygen, 100);
+
+  return records.systolic.flatMap(systolic => {
+    const diastolic = diastolicByKey.get(`${systolic.sourceName}|${systolic.startDate}`);
+    const systolicValue = Math.round(Number(systolic.value));
+    const diastolicValue = Math.round(Number(diastolic?.value));
+    if (!diastolic || !(systolicValue > 0) || !(diastolicValue > 0)) return [];
+
+    const time = systolic.start.getTime();
+    const pulse = findNearest(heartRates, time);
+    const oxygenLevel = findNearest(oxygenLevels, time);
+
+    return [{
+      timeOfReading: systolic.start,
+      systolic: systolicValue,
+      diastolic: diastolicValue,
+      pulse: pulse === null ? null : Math.round(pulse),
+      oxygenLevel: oxygenLevel === null ? null : Math.round(oxygenLevel),
+      notes: systolic.sourceName ? `From ${systolic.sourceName}` : null
+    }];
+  });
+};
+
+const mapGlucose = (records: CollectedRecords) =>
+  records.glucose.flatMap(record => {
+    const value = Number(record.value);
+    if (!(value > 0)) return [];
+
+    // mmol/L is exported as "mmol<180.15588000005408>/L"
+    const level = Math.round(record.unit.startsWith('mmol') ? value * MG_DL_PER_MMOL_L : value);
+    return [{
+      timeOfReading: record.start,
+      level,
+      readingType: glucoseMealTimes[record.metadata.HKBloodGlucoseMealTime] || 'other',
+      notes: record.sourceName ? `From ${record.sourceName}` : null
+    }];
+  });
+
+// Sleep comes as many segments a night (core, deep, REM, awake) from each device. Asleep
+// segments are merged into one record per night; older exports only have "in bed" segments,
+// which are used when there are no asleep ones.
+const mapSleep = (records: CollectedRecords) => {
+  const asleep = records.sleep.filter(record => record.value.startsWith('HKCategoryValueSleepAnalysisAsleep'));
+  const segments = (asleep.length > 0
+    ? asleep
+    : records.sleep.filter(record => record.value === 'HKCategoryValueSleepAnalysisInBed')
+  ).slice().sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const sessions: Array<{ startTime: Date; endTime: Date; interruptions: number; notes: string | null }> = [];
+  for (const segment of segments) {
+    const session = sessions[sessions.length - 1];
+    const gap = session ? segment.start.getTime() - session.endTime.getTime() : Infinity;
+
+    if (gap > SLEEP_SESSION_GAP_MS) {
+      sessions.push({ startTime: segment.start, endTime: segment.end, interruptions: 0, notes: null });
+      continue;
+    }
+
+    if (gap > SLEEP_INTERRUPTION_MS) {
+      session.interruptions++;
+    }
+    if (segment.end > session.endTime) {
+      session.endTime = segment.end;
+    }
+  }
+
+  return sessions.filter(session => session.endTime.getTime() - session.startTime.getTime() >= MIN_SLEEP_SESSION_MS);
+};
+
+// Kept in the unit it was measured in; grams and stone are converted to kg and lb
+const mapWeights = (records: CollectedRecords) =>
+  records.bodyMass.flatMap(record => {
+    const value = Number(record.value);
+    if (!(value > 0)) return [];
+
+    const [weight, unit] =
+      record.unit === 'g' ? [value / 1000, 'kg'] :
+      record.unit === 'st' ? [value * 14, 'lb'] :
+      record.unit === 'kg' || record.unit === 'lb' ? [value, record.unit] :
+      [null, null];
+    if (weight === null || unit === null) return [];
+
+    return [{
+      timeOfReading: record.start,
+      weight: Math.round(weight * 10) / 10,
+      unit,
+      notes: record.sourceName ? `From ${record.sourceName}` : null
+    }];
+  });
+
+// Read an export.xml stream and save what's new in the date range
+export async function importAppleHealthExport(
+  careRecipientId: number,
+  input: Readable,
+  from: Date,
+  to: Date,
+  userId?: number | null
+): Promise<AppleHealthImportResult> {
+  const records = await readAppleHealthExport(input, from, to);
+
+  const bloodPressure = mapBloodPressure(records);
+  const glucose = mapGlucose(records);
+  const sleep = mapSleep(records);
+  const weights = mapWeights(records);
+
+  return {
+    from: format(from, 'yyyy-MM-dd'),
+    to: format(to, 'yyyy-MM-dd'),
+    recordsRead: Object.values(records).reduce((total, list) => total + list.length, 0),
+    bloodPressure: await storage.importBloodPressureReadings(careRecipientId, bloodPressure, 'apple_health', userId),
+    glucose: await storage.importGlucoseReadings(careRecipientId, glucose, 'apple_health', userId),
+    sleep: await storage.importSleepRecords(careRecipientId, sleep, 'apple_health', userId),
+    weight: await storage.importWeights(careRecipientId, weights, 'apple_health', userId)
+  };
+}
@@ -0,0 +1,42 @@
+import { format } from "date-fns";
+import { storage } from "./storage";
+import { sendCountDiscrepancyAlert } from "./notification-service";
+
+// Let the care recipient's owner know a controlled substance count didn't match the stock on record.
+// Returns false when the count balanced or the alert already went out.
+export async function alertCountDiscrepancy(countId: number, now: Date = new Date()) {
+  const count = await storage.getControlledSubstanceCount(countId);
+  const medication = count?.medication;
+  const owner = medication?.careRecipient?.user;
+
+  if (!count || !medication || !owner || count.discrepancy === 0 || count.alertSentAt) {
+    return false;
+  }
+
+  const nameOf = (user: { name: string | null; username: string } | null) =>
+    user ? user.name || user.username : 'Unknown';
+
+  await sendCountDiscrepancyAlert(
+    {
+      recipientName: medication.careRecipient.name,
+      medicationName: medication.name,
+      dosage: medication.dosage,
+      shift: count.shift,
+      countedQuantity: count.countedQuantity,
+      expectedQuantity: count.expectedQuantity,
+      countedBy: nameOf(count.countedBy),
+      witness: nameOf(count.witness),
+      countedAt: format(new Date(count.countedAt), 'MMM d, h:mm a'),
+      contactName: owner.name || owner.username,
+      contactEmail: owner.email || undefined,
+      contactPhone: owner.phone || undefined
+    },
+    {
+      email: owner.emailNotifications ?? true,
+      sms: owner.smsNotifications ?? false
+    }
+  );
+
+  await storage.markControlledCountAlertSent(count.id, now);
+  return true;
+}
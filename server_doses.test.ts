@@ -0,0 +1,305 @@
+import { describe, it, expect } from "vitest";
+import {
+  matchDoseLogs,
+  getDoseForDay,
+  expandScheduleDoses,
+  parseDoseQuantity,
+  getDoseStockUnits,
+  checkPrnDoseLimits,
+  withMedicationDates,
+  isMedicationActiveDuring,
+  classifyDose,
+  type ScheduleForExpansion
+} from "./doses";
+
+const dose = (scheduleId: number, scheduledFor: Date) => ({ scheduleId, scheduledFor });
+const log = (id: number, scheduleId: number | null, takenAt: Date) => ({ id, scheduleId, takenAt });
+
+describe("matchDoseLogs", () => {
+  it("gives each log to the dose it was taken closest to", () => {
+    const doses = [dose(1, new Date(2026, 0, 5, 8, 0)), dose(1, new Date(2026, 0, 5, 20, 0))];
+    const logs = [log(1, 1, new Date(2026, 0, 5, 8, 10)), log(2, 1, new Date(2026, 0, 5, 19, 45))];
+
+    expect(matchDoseLogs(doses, logs).map(matched => matched.map(entry => entry.id))).toEqual([[1], [2]]);
+  });
+
+  it("counts a log for one dose only, even when two doses could take it", () => {
+    const doses = [dose(1, new Date(2026, 0, 5, 8, 0)), dose(1, new Date(2026, 0, 5, 12, 0))];
+    const logs = [log(1, 1, new Date(2026, 0, 5, 9, 0))];
+
+    expect(matchDoseLogs(doses, logs).map(matched => matched.length)).toEqual([1, 0]);
+  });
+
+  it("counts a late dose given after midnight for the evening before", () => {
+    const doses = [dose(1, new Date(2026, 0, 5, 21, 0)), dose(1, new Date(2026, 0, 6, 21, 0))];
+    const logs = [log(1, 1, new Date(2026, 0, 6, 0, 30))];
+
+    expect(matchDoseLogs(doses, logs).map(matched => matched.length)).toEqual([1, 0]);
+  });
+
+  it("doesn't count a log taken once the schedule's next dose is due", () => {
+    const doses = [dose(1, new Date(2026, 0, 5, 8, 0)), dose(1, new Date(2026, 0, 6, 8, 0))];
+    const logs = [log(1, 1, new Date(2026, 0, 6, 8, 30))];
+
+    expect(matchDoseLogs(doses, logs).map(matched => matched.length)).toEqual([0, 1]);
+  });
+
+  it("only matches logs against doses of their own schedule", () => {
+    const doses = [dose(1, new Date(2026, 0, 5, 8, 0)), dose(2, new Date(2026, 0, 5, 8, 0))];
+    const logs = [log(1, 2, new Date(2026, 0, 5, 8, 5)), log(2, null, new Date(2026, 0, 5, 8, 5))];
+
+    expect(matchDoseLogs(doses, logs).map(matched => matched.map(entry => entry.id))).toEqual([[], [1]]);
+  });
+
+  it("ignores logs from before the day of the schedule's first dose", () => {
+    const doses = [dose(1, new Date(2026, 0, 5, 8, 0))];
+    const logs = [log(1, 1, new Date(2026, 0, 4, 23, 0))];
+
+    expect(matchDoseLogs(doses, logs)).toEqual([[]]);
+  });
+});
+
+const schedule = (overrides: Partial<ScheduleForExpansion> = {}): ScheduleForExpansion => ({
+  id: 1,
+  medicationId: 1,
+  time: "08:00:00",
+  daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+  quantity: "1 tablet",
+  ...overrides
+});
+
+// 2026-01-05 is a Monday
+const monday = new Date(2026, 0, 5);
+const tuesday = new Date(2026, 0, 6);
+
+describe("getDoseForDay", () => {
+  it("has a dose on the schedule's days of the week", () => {
+    const mondays = schedule({ daysOfWeek: [1] });
+
+    expect(getDoseForDay(mondays, monday)).toEqual({ quantity: "1 tablet", doseAmount: null, taperingStep: null });
+    expect(getDoseForDay(mondays, tuesday)).toBeNull();
+  });
+
+  it("reads days of the week saved as a JSON string", () => {
+    expect(getDoseForDay(schedule({ daysOfWeek: "[1]" }), monday)).not.toBeNull();
+    expect(getDoseForDay(schedule({ daysOfWeek: "[1]" }), tuesday)).toBeNull();
+  });
+
+  it("limits the schedule to specific calendar days in either date format", () => {
+    const specific = schedule({ specificDays: ["01/06/2026", "2026-01-08"] });
+
+    expect(getDoseForDay(specific, monday)).toBeNull();
+    expect(getDoseForDay(specific, tuesday)).not.toBeNull();
+    expect(getDoseForDay(specific, new Date(2026, 0, 8))).not.toBeNull();
+  });
+
+  it("uses the tapering step's quantity and has no dose outside the steps", () => {
+    const taper = schedule({
+      isTapering: true,
+      taperingSchedule: [
+        { startDate: "2026-01-05", endDate: "2026-01-05", quantity: "2 tablets" },
+        { startDate: "2026-01-06", endDate: "2026-01-07", quantity: "1 tablet" }
+      ]
+    });
+
+    expect(getDoseForDay(taper, monday)).toEqual({ quantity: "2 tablets", doseAmount: null, taperingStep: 0 });
+    expect(getDoseForDay(taper, tuesday)).toEqual({ quantity: "1 tablet", doseAmount: null, taperingStep: 1 });
+    expect(getDoseForDay(taper, new Date(2026, 0, 8))).toBeNull();
+  });
+
+  it("has no scheduled doses for as-needed or switched-off schedules", () => {
+    expect(getDoseForDay(schedule({ asNeeded: true }), monday)).toBeNull();
+    expect(getDoseForDay(schedule({ active: false }), monday)).toBeNull();
+  });
+});
+
+describe("expandScheduleDoses", () => {
+  it("returns the doses between from and to, inclusive", () => {
+    const doses = expandScheduleDoses(schedule(), new Date(2026, 0, 5, 8, 0), new Date(2026, 0, 7, 8, 0));
+
+    expect(doses.map(dose => dose.date)).toEqual(["2026-01-05", "2026-01-06", "2026-01-07"]);
+    expect(doses[0].scheduledFor).toEqual(new Date(2026, 0, 5, 8, 0));
+  });
+
+  it("leaves out the first day's dose when the range starts after it", () => {
+    const doses = expandScheduleDoses(schedule(), new Date(2026, 0, 5, 9, 0), new Date(2026, 0, 6, 23, 59));
+
+    expect(doses.map(dose => dose.date)).toEqual(["2026-01-06"]);
+  });
+});
+
+describe("parseDoseQuantity", () => {
+  it("reads whole, decimal, fractional and mixed amounts", () => {
+    expect(parseDoseQuantity("2 tablets")).toBe(2);
+    expect(parseDoseQuantity("0.5 ml")).toBe(0.5);
+    expect(parseDoseQuantity("1/2 pill")).toBe(0.5);
+    expect(parseDoseQuantity("1 1/2 tablets")).toBe(1.5);
+  });
+
+  it("reads amounts written as words", () => {
+    expect(parseDoseQuantity("two capsules")).toBe(2);
+    expect(parseDoseQuantity("half a tablet")).toBe(0.5);
+  });
+
+  it("returns null when there's no amount to read", () => {
+    expect(parseDoseQuantity("as directed")).toBeNull();
+    expect(parseDoseQuantity("0 tablets")).toBeNull();
+    expect(parseDoseQuantity(undefined)).toBeNull();
+  });
+});
+
+describe("getDoseStockUnits", () => {
+  it("prefers the schedule's numeric dose amount over the text", () => {
+    expect(getDoseStockUnits("2 tablets", 3)).toBe(3);
+    expect(getDoseStockUnits("2 tablets", null)).toBe(2);
+  });
+
+  it("counts half a tablet as half a unit and an unreadable quantity as one", () => {
+    expect(getDoseStockUnits("1/2 tablet")).toBe(0.5);
+    expect(getDoseStockUnits("as directed")).toBe(1);
+  });
+});
+
+describe("checkPrnDoseLimits", () => {
+  const at = new Date(2026, 0, 5, 12, 0);
+
+  it("allows a dose when no limit is reached", () => {
+    const check = checkPrnDoseLimits({ maxDosesPer24h: 4, minHoursBetweenDoses: 4 }, [new Date(2026, 0, 5, 6, 0)], at);
+
+    expect(check).toEqual({
+      allowed: true,
+      violations: [],
+      dosesInLast24h: 1,
+      lastDoseAt: new Date(2026, 0, 5, 6, 0),
+      nextAllowedAt: null
+    });
+  });
+
+  it("holds off the next dose until the minimum gap has passed", () => {
+    const check = checkPrnDoseLimits({ minHoursBetweenDoses: 4 }, [new Date(2026, 0, 5, 10, 0)], at);
+
+    expect(check.allowed).toBe(false);
+    expect(check.violations).toEqual(["Less than 4 hours since the last dose"]);
+    expect(check.nextAllowedAt).toEqual(new Date(2026, 0, 5, 14, 0));
+  });
+
+  it("allows another dose once enough of the last 24 hours' doses have aged out", () => {
+    const doseTimes = [new Date(2026, 0, 4, 14, 0), new Date(2026, 0, 4, 20, 0), new Date(2026, 0, 5, 8, 0)];
+    const check = checkPrnDoseLimits({ maxDosesPer24h: 3 }, doseTimes, at);
+
+    expect(check.violations).toEqual(["Already 3 of 3 doses in the last 24 hours"]);
+    expect(check.nextAllowedAt).toEqual(new Date(2026, 0, 5, 14, 0));
+  });
+
+  it("ignores doses logged after the time being checked", () => {
+    const check = checkPrnDoseLimits({ minHoursBetweenDoses: 4 }, [new Date(2026, 0, 5, 13, 0)], at);
+
+    expect(check.allowed).toBe(true);
+    expect(check.lastDoseAt).toBeNull();
+  });
+});
+
+describe("withMedicationDates", () => {
+  const medication = {
+    startDate: "2026-01-01",
+    stopDate: "2026-01-20",
+    courseBreaks: [{ stopDate: "2026-01-06", restartDate: "2026-01-08" }],
+    schedules: [schedule()]
+  };
+
+  it("has no doses before the start date or from the stop date on", () => {
+    const [dated] = withMedicationDates(medication);
+
+    expect(getDoseForDay(dated, new Date(2025, 11, 31))).toBeNull();
+    expect(getDoseForDay(dated, new Date(2026, 0, 19))).not.toBeNull();
+    expect(getDoseForDay(dated, new Date(2026, 0, 20))).toBeNull();
+  });
+
+  it("has no doses while the medication was stopped before a restart", () => {
+    const [dated] = withMedicationDates(medication);
+
+    expect(getDoseForDay(dated, monday)).not.toBeNull();
+    expect(getDoseForDay(dated, tuesday)).toBeNull();
+    expect(getDoseForDay(dated, new Date(2026, 0, 8))).not.toBeNull();
+  });
+});
+
+describe("isMedicationActiveDuring", () => {
+  it("is active when any part of the range falls between the start and stop dates", () => {
+    const medication = { startDate: "2026-01-05", stopDate: "2026-01-10" };
+
+    expect(isMedicationActiveDuring(medication, new Date(2026, 0, 1), new Date(2026, 0, 5))).toBe(true);
+    expect(isMedicationActiveDuring(medication, new Date(2026, 0, 1), new Date(2026, 0, 4))).toBe(false);
+    expect(isMedicationActiveDuring(medication, new Date(2026, 0, 10), new Date(2026, 0, 12))).toBe(false);
+  });
+
+  it("isn't active when the whole range falls in a break", () => {
+    const medication = { startDate: "2026-01-01", courseBreaks: [{ stopDate: "2026-01-05", restartDate: "2026-01-15" }] };
+
+    expect(isMedicationActiveDuring(medication, new Date(2026, 0, 6), new Date(2026, 0, 10))).toBe(false);
+    expect(isMedicationActiveDuring(medication, new Date(2026, 0, 10), new Date(2026, 0, 16))).toBe(true);
+  });
+});
+
+describe("classifyDose", () => {
+  const due = { scheduledFor: new Date(2026, 0, 5, 8, 0) };
+  const now = new Date(2026, 0, 5, 12, 0);
+
+  it("is taken when given within the grace window, and late after it", () => {
+    expect(classifyDose(due, [{ takenAt: new Date(2026, 0, 5, 8, 30), taken: true }], 60, now).outcome).toBe("taken");
+    expect(classifyDose(due, [{ takenAt: new Date(2026, 0, 5, 9, 30), taken: true }], 60, now).outcome).toBe("late");
+  });
+
+  it("is skipped when every log says it wasn't given", () => {
+    expect(classifyDose(due, [{ takenAt: new Date(2026, 0, 5, 8, 0), taken: false }], 60, now).outcome).toBe("skipped");
+  });
+
+  it("is pending until the grace window has passed, then missed", () => {
+    expect(classifyDose(due, [], 60, new Date(2026, 0, 5, 8, 59))).toEqual({ outcome: "pending", log: null });
+    expect(classifyDose(due, [], 60, new Date(2026, 0, 5, 9, 1))).toEqual({ outcome: "missed", log: null });
+  });
+});
+
+describe("getDoseForDay for sig schedules", () => {
+  it("has a dose every N days from the interval's start date", () => {
+    const everyOtherDay = schedule({ intervalDays: 2, intervalStartDate: "2026-01-05" });
+
+    expect(getDoseForDay(everyOtherDay, new Date(2026, 0, 4))).toBeNull();
+    expect(getDoseForDay(everyOtherDay, monday)).not.toBeNull();
+    expect(getDoseForDay(everyOtherDay, tuesday)).toBeNull();
+    expect(getDoseForDay(everyOtherDay, new Date(2026, 0, 7))).not.toBeNull();
+  });
+
+  it("keeps doses due before a schedule was switched off", () => {
+    const switchedOff = schedule({ active: false, deactivatedAt: new Date(2026, 0, 6, 12, 0) });
+
+    expect(getDoseForDay(switchedOff, tuesday)).not.toBeNull();
+    expect(getDoseForDay(switchedOff, new Date(2026, 0, 7))).toBeNull();
+    expect(getDoseForDay(schedule({ ...switchedOff, time: "13:00:00" }), tuesday)).toBeNull();
+  });
+});
+
+describe("classifyDose with dose statuses", () => {
+  const due = { scheduledFor: new Date(2026, 0, 5, 8, 0) };
+  const now = new Date(2026, 0, 5, 12, 0);
+
+  it("is late when recorded as given late, even inside the grace window", () => {
+    const log = { takenAt: new Date(2026, 0, 5, 8, 30), taken: true, status: "late" };
+
+    expect(classifyDose(due, [log], 60, now).outcome).toBe("late");
+  });
+
+  it("is vomited unless the dose was given again", () => {
+    const vomited = { takenAt: new Date(2026, 0, 5, 8, 0), taken: true, status: "vomited" };
+    const givenAgain = { takenAt: new Date(2026, 0, 5, 8, 40), taken: true, status: "taken" };
+
+    expect(classifyDose(due, [vomited], 60, now).outcome).toBe("vomited");
+    expect(classifyDose(due, [vomited, givenAgain], 60, now)).toEqual({ outcome: "taken", log: givenAgain });
+  });
+
+  it("is refused when the dose was refused", () => {
+    const log = { takenAt: new Date(2026, 0, 5, 8, 0), taken: false, status: "refused" };
+
+    expect(classifyDose(due, [log], 60, now).outcome).toBe("refused");
+  });
+});
@@ -0,0 +1,435 @@
+import { addDays, addHours, differenceInCalendarDays, format, isValid, parse, startOfDay, subHours } from "date-fns";
+
+// The subset of a medication schedule row needed to work out when doses are due
+export interface ScheduleForExpansion {
+  id: number;
+  medicationId: number;
+  time: string;
+  daysOfWeek: unknown;
+  quantity: string;
+  doseAmount?: number | null;
+  withFood?: boolean | null;
+  active?: boolean | null;
+  deactivatedAt?: Date | null;
+  asNeeded?: boolean | null;
+  specificDays?: unknown;
+  isTapering?: boolean | null;
+  taperingSchedule?: unknown;
+  intervalDays?: number | null;
+  intervalStartDate?: string | null;
+  activeFrom?: string | null; // yyyy-MM-dd - the medication's start date
+  activeUntil?: string | null; // yyyy-MM-dd - the medication's stop date (no doses from this day on)
+  courseBreaks?: CourseBreak[]; // Stretches between an earlier stop and a restart, with no doses
+}
+
+// A medication stopped on stopDate and restarted on restartDate (yyyy-MM-dd)
+export interface CourseBreak {
+  stopDate: string;
+  restartDate: string;
+  reason?: string | null;
+}
+
+// A single concrete dose produced by expanding a schedule over a date range
+export interface DoseInstance {
+  scheduleId: number;
+  medicationId: number;
+  date: string; // yyyy-MM-dd
+  time: string;
+  scheduledFor: Date;
+  quantity: string;
+  doseAmount: number | null; // Numeric amount from the schedule; null for taper steps, which only have text
+  withFood: boolean;
+  taperingStep: number | null; // Index into taperingSchedule when the dose comes from a taper step
+}
+
+interface TaperingStep {
+  startDate: string;
+  endDate: string;
+  quantity: string;
+}
+
+// daysOfWeek is stored as jsonb, but older rows were saved as a JSON string
+export const parseDaysOfWeek = (daysOfWeek: unknown): number[] => {
+  if (Array.isArray(daysOfWeek)) {
+    return daysOfWeek.map(day => Number(day));
+  }
+
+  if (typeof daysOfWeek === 'string') {
+    try {
+      const parsed = JSON.parse(daysOfWeek);
+      return Array.isArray(parsed) ? parsed.map(day => Number(day)) : [];
+    } catch (e) {
+      return [];
+    }
+  }
+
+  return [];
+};
+
+// Same as daysOfWeek - jsonb arrays that may have been saved as JSON strings
+const parseJsonArray = (value: unknown): any[] => {
+  if (Array.isArray(value)) return value;
+
+  if (typeof value === 'string') {
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (e) {
+      return [];
+    }
+  }
+
+  return [];
+};
+
+// Calendar dates are documented as MM/DD/YYYY, but the medication forms save yyyy-MM-dd.
+// Normalize either to a yyyy-MM-dd key (or null if it can't be read)
+export const normalizeScheduleDate = (value: unknown): string | null => {
+  if (typeof value !== 'string' || !value.trim()) return null;
+
+  const trimmed = value.trim();
+  const formats = ['MM/dd/yyyy', 'M/d/yyyy', 'yyyy-MM-dd'];
+
+  for (const dateFormat of formats) {
+    const parsed = parse(trimmed.slice(0, 10), dateFormat, new Date());
+    if (isValid(parsed)) {
+      return format(parsed, 'yyyy-MM-dd');
+    }
+  }
+
+  return null;
+};
+
+const quantityWords: Record<string, number> = {
+  half: 0.5, one: 1, two: 2, three: 3, four: 4, five: 5,
+  six: 6, seven: 7, eight: 8, nine: 9, ten: 10
+};
+
+// Read the amount out of a free-text schedule quantity such as "2 tablets", "1/2 pill",
+// "1 1/2 tablets", "0.5 ml" or "two capsules". Returns null when there's no amount to read.
+export const parseDoseQuantity = (quantity: unknown): number | null => {
+  if (typeof quantity === 'number') return quantity > 0 ? quantity : null;
+  if (typeof quantity !== 'string') return null;
+
+  const text = quantity.trim().toLowerCase();
+
+  const mixed = text.match(/^(\d+)\s+(\d+)\/(\d+)/);
+  if (mixed && Number(mixed[3]) > 0) {
+    return Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+  }
+
+  const fraction = text.match(/^(\d+)\/(\d+)/);
+  if (fraction && Number(fraction[2]) > 0) {
+    return Number(fraction[1]) / Number(fraction[2]);
+  }
+
+  const decimal = text.match(/^(\d+(?:\.\d+)?)/);
+  if (decimal) {
+    const value = parseFloat(decimal[1]);
+    return value > 0 ? value : null;
+  }
+
+  const word = text.match(/^([a-z]+)/);
+  if (word && quantityWords[word[1]] !== undefined) {
+    return quantityWords[word[1]];
+  }
+
+  return null;
+};
+
+// How many units of stock a dose uses. Half a tablet uses half a unit, so two half-tablet
+// doses use up one tablet, and an unreadable quantity counts as one.
+// A schedule's numeric doseAmount is used when it has one; older rows only have the text.
+export const getDoseStockUnits = (quantity: unknown, doseAmount?: number | null): number => {
+  const units = doseAmount && doseAmount > 0 ? doseAmount : parseDoseQuantity(quantity);
+  return units || 1;
+};
+
+// Combine a calendar day with a schedule time ("HH:MM" or "HH:MM:SS")
+export const getScheduledDateTime = (day: Date, time: string): Date => {
+  const [hourStr, minuteStr] = time.split(':');
+  const scheduled = startOfDay(day);
+  scheduled.setHours(parseInt(hourStr), parseInt(minuteStr), 0, 0);
+  return scheduled;
+};
+
+// Work out whether a schedule has a dose on the given day, and how much.
+// Specific calendar dates take priority over an every-N-days interval, which takes priority
+// over weekdays, and a tapering plan limits the schedule to its step date ranges using each step's quantity.
+export const getDoseForDay = (
+  schedule: ScheduleForExpansion,
+  day: Date
+): { quantity: string; doseAmount: number | null; taperingStep: number | null } | null => {
+  if (schedule.asNeeded) return null;
+  // A schedule switched off after doses were logged keeps the doses due before it was switched off
+  if (schedule.active === false && (!schedule.deactivatedAt || getScheduledDateTime(day, schedule.time) >= schedule.deactivatedAt)) {
+    return null;
+  }
+
+  const dateKey = format(day, 'yyyy-MM-dd');
+  if (schedule.activeFrom && dateKey < schedule.activeFrom) return null;
+  if (schedule.activeUntil && dateKey >= schedule.activeUntil) return null;
+  if (schedule.courseBreaks?.some(gap => dateKey >= gap.stopDate && dateKey < gap.restartDate)) return null;
+  
+  const specificDays = parseJsonArray(schedule.specificDays)
+    .map(normalizeScheduleDate)
+    .filter((date): date is string => !!date);
+
+  const intervalStart = normalizeScheduleDate(schedule.intervalStartDate);
+
+  if (specificDays.length > 0) {
+    if (!specificDays.includes(dateKey)) return null;
+  } else if (schedule.intervalDays && schedule.intervalDays > 1 && intervalStart) {
+    if (dateKey < intervalStart) return null;
+    const daysSinceStart = differenceInCalendarDays(day, new Date(`${intervalStart}T00:00:00`));
+    if (daysSinceStart % schedule.intervalDays !== 0) return null;
+  } else if (!parseDaysOfWeek(schedule.daysOfWeek).includes(day.getDay())) {
+    return null;
+  }
+
+  if (schedule.isTapering) {
+    const steps: TaperingStep[] = parseJsonArray(schedule.taperingSchedule);
+
+    if (steps.length > 0) {
+      const stepIndex = steps.findIndex(step => {
+        const stepStart = normalizeScheduleDate(step.startDate);
+        const stepEnd = normalizeScheduleDate(step.endDate) || stepStart;
+        return !!stepStart && !!stepEnd && dateKey >= stepStart && dateKey <= stepEnd;
+      });
+
+      // Outside every step means the taper hasn't started yet or has finished
+      if (stepIndex === -1) return null;
+
+      return {
+        quantity: steps[stepIndex].quantity || schedule.quantity,
+        doseAmount: null,
+        taperingStep: stepIndex
+      };
+    }
+  }
+
+  return { quantity: schedule.quantity, doseAmount: schedule.doseAmount ?? null, taperingStep: null };
+};
+
+// courseBreaks is stored as jsonb; entries that can't be read are dropped
+export const parseCourseBreaks = (courseBreaks: unknown): CourseBreak[] => {
+  return parseJsonArray(courseBreaks).flatMap(gap => {
+    const stopDate = normalizeScheduleDate(gap?.stopDate);
+    const restartDate = normalizeScheduleDate(gap?.restartDate);
+    return stopDate && restartDate ? [{ stopDate, restartDate, reason: gap.reason ?? null }] : [];
+  });
+};
+
+// A medication's schedules limited to the dates it was taken, so a discontinued
+// medication still has doses before its stop date but none after, and a restarted
+// one has none while it was stopped
+export const withMedicationDates = <T extends ScheduleForExpansion>(medication: {
+  startDate?: string | null;
+  stopDate?: string | null;
+  courseBreaks?: unknown;
+  schedules?: T[] | null;
+}): T[] => {
+  const courseBreaks = parseCourseBreaks(medication.courseBreaks);
+  return (medication.schedules || []).map(schedule => ({
+    ...schedule,
+    activeFrom: normalizeScheduleDate(medication.startDate),
+    activeUntil: normalizeScheduleDate(medication.stopDate),
+    courseBreaks
+  }));
+};
+
+// Was the medication being taken at any point between from and to?
+export const isMedicationActiveDuring = (
+  medication: { startDate?: string | null; stopDate?: string | null; courseBreaks?: unknown },
+  from: Date,
+  to: Date
+) => {
+  const startDate = normalizeScheduleDate(medication.startDate);
+  const stopDate = normalizeScheduleDate(medication.stopDate);
+  const fromKey = format(from, 'yyyy-MM-dd');
+  const toKey = format(to, 'yyyy-MM-dd');
+  if (startDate && startDate > toKey) return false;
+  if (stopDate && stopDate <= fromKey) return false;
+  return !parseCourseBreaks(medication.courseBreaks)
+    .some(gap => gap.stopDate <= fromKey && gap.restartDate > toKey);
+};
+
+export type DoseOutcome = 'taken' | 'late' | 'vomited' | 'refused' | 'skipped' | 'missed' | 'pending';
+
+// Decide what happened to a scheduled dose from the logs recorded against it that day.
+// A taken log after the grace window (or recorded as given late) is late, and a dose that came
+// back up is vomited unless it was given again. Logs that all say not taken mean it was refused
+// or skipped; no log at all is missed once the grace window has passed, and pending until then.
+export const classifyDose = <L extends { taken: boolean; takenAt: Date | string; status?: string | null }>(
+  dose: { scheduledFor: Date },
+  doseLogs: L[],
+  graceMinutes: number,
+  now: Date
+): { outcome: DoseOutcome; log: L | null } => {
+  const graceMs = graceMinutes * 60 * 1000;
+  const dueAt = dose.scheduledFor.getTime();
+  const givenLogs = doseLogs.filter(log => log.taken);
+  const takenLog = givenLogs.find(log => log.status !== 'vomited') || givenLogs[0];
+
+  if (takenLog) {
+    if (takenLog.status === 'vomited') {
+      return { outcome: 'vomited', log: takenLog };
+    }
+    const late = takenLog.status === 'late' || new Date(takenLog.takenAt).getTime() > dueAt + graceMs;
+    return { outcome: late ? 'late' : 'taken', log: takenLog };
+  }
+  if (doseLogs.length > 0) {
+    return { outcome: doseLogs[0].status === 'refused' ? 'refused' : 'skipped', log: doseLogs[0] };
+  }
+  return { outcome: now.getTime() > dueAt + graceMs ? 'missed' : 'pending', log: null };
+};
+
+// Far enough past a range to reach the next dose of any weekly schedule, so logs for the range's
+// last doses that were given late are still seen
+export const DOSE_LOG_LOOKAHEAD_DAYS = 8;
+
+// Pair scheduled doses with the logs recorded against them. A log can count for a dose of its
+// schedule from the start of that dose's day until the schedule's next dose, so a dose given late
+// still counts - even after midnight. Where two doses could take a log, it goes to the one it was
+// given closest to; every log counts for one dose at most. Returns each dose's logs, in dose order.
+// Include the doses after the range (see DOSE_LOG_LOOKAHEAD_DAYS) so the last ones have an end.
+export const matchDoseLogs = <L extends { scheduleId: number | null; takenAt: Date | string }>(
+  doses: Array<{ scheduleId: number; scheduledFor: Date }>,
+  logs: L[]
+): L[][] => {
+  const matched: L[][] = doses.map(() => []);
+
+  // Each schedule's doses as indexes into doses, in time order
+  const dosesBySchedule = new Map<number, number[]>();
+  doses.forEach((dose, index) => {
+    dosesBySchedule.set(dose.scheduleId, [...(dosesBySchedule.get(dose.scheduleId) || []), index]);
+  });
+  dosesBySchedule.forEach(indexes => indexes.sort((a, b) => doses[a].scheduledFor.getTime() - doses[b].scheduledFor.getTime()));
+
+  for (const log of logs) {
+    const indexes = log.scheduleId ? dosesBySchedule.get(log.scheduleId) : undefined;
+    if (!indexes) continue;
+
+    const takenAt = new Date(log.takenAt).getTime();
+    const distance = (index: number) => Math.abs(takenAt - doses[index].scheduledFor.getTime());
+    let closest: number | null = null;
+
+    indexes.forEach((index, position) => {
+      const next = indexes[position + 1];
+      const opensAt = startOfDay(doses[index].scheduledFor).getTime();
+      const closesAt = next === undefined ? Infinity : doses[next].scheduledFor.getTime();
+      if (takenAt < opensAt || takenAt >= closesAt) return;
+      if (closest === null || distance(index) < distance(closest)) closest = index;
+    });
+
+    if (closest !== null) matched[closest].push(log);
+  }
+
+  return matched;
+};
+
+// Expand one schedule into the doses that fall between from and to (inclusive)
+export const expandScheduleDoses = (
+  schedule: ScheduleForExpansion,
+  from: Date,
+  to: Date
+): DoseInstance[] => {
+  const doses: DoseInstance[] = [];
+  if (!schedule.time || to < from) return doses;
+
+  for (let day = startOfDay(from); day <= to; day = addDays(day, 1)) {
+    const dose = getDoseForDay(schedule, day);
+    if (!dose) continue;
+
+    const scheduledFor = getScheduledDateTime(day, schedule.time);
+    if (scheduledFor < from || scheduledFor > to) continue;
+
+    doses.push({
+      scheduleId: schedule.id,
+      medicationId: schedule.medicationId,
+      date: format(day, 'yyyy-MM-dd'),
+      time: schedule.time,
+      scheduledFor,
+      quantity: dose.quantity,
+      doseAmount: dose.doseAmount,
+      withFood: !!schedule.withFood,
+      taperingStep: dose.taperingStep
+    });
+  }
+
+  return doses;
+};
+
+// Expand a set of schedules and return all their doses in time order
+export const expandDoses = (
+  schedules: ScheduleForExpansion[],
+  from: Date,
+  to: Date
+): DoseInstance[] => {
+  return schedules
+    .flatMap(schedule => expandScheduleDoses(schedule, from, to))
+    .sort((a, b) => a.scheduledFor.getTime() - b.scheduledFor.getTime());
+};
+
+// PRN (as-needed) safety limits configured on a schedule
+export interface PrnDoseLimits {
+  maxDosesPer24h?: number | null;
+  minHoursBetweenDoses?: number | null;
+}
+
+export interface PrnDoseCheck {
+  allowed: boolean;
+  violations: string[];
+  dosesInLast24h: number;
+  lastDoseAt: Date | null;
+  nextAllowedAt: Date | null; // null when a dose is allowed right now
+}
+
+export const hasPrnDoseLimits = (limits: PrnDoseLimits) =>
+  !!limits.maxDosesPer24h || !!limits.minHoursBetweenDoses;
+
+// How far back dose history is needed to check the limits at a point in time
+export const getPrnLookbackHours = (limits: PrnDoseLimits) =>
+  Math.max(24, limits.minHoursBetweenDoses || 0);
+
+// Check whether another as-needed dose can be given at `at`, given the times earlier doses were taken
+export const checkPrnDoseLimits = (
+  limits: PrnDoseLimits,
+  doseTimes: Date[],
+  at: Date
+): PrnDoseCheck => {
+  const earlierDoses = doseTimes
+    .filter(time => time <= at)
+    .sort((a, b) => a.getTime() - b.getTime());
+  const windowStart = subHours(at, 24);
+  const dosesInWindow = earlierDoses.filter(time => time > windowStart);
+  const lastDoseAt = earlierDoses.length > 0 ? earlierDoses[earlierDoses.length - 1] : null;
+
+  const violations: string[] = [];
+  let nextAllowedAt: Date | null = null;
+  const pushBack = (time: Date) => {
+    if (!nextAllowedAt || time > nextAllowedAt) nextAllowedAt = time;
+  };
+
+  if (limits.minHoursBetweenDoses && lastDoseAt) {
+    const intervalEnd = addHours(lastDoseAt, limits.minHoursBetweenDoses);
+    if (intervalEnd > at) {
+      violations.push(`Less than ${limits.minHoursBetweenDoses} hours since the last dose`);
+      pushBack(intervalEnd);
+    }
+  }
+
+  if (limits.maxDosesPer24h && dosesInWindow.length >= limits.maxDosesPer24h) {
+    violations.push(`Already ${dosesInWindow.length} of ${limits.maxDosesPer24h} doses in the last 24 hours`);
+    // Another dose is allowed once enough of the window's doses are more than 24 hours old
+    pushBack(addHours(dosesInWindow[dosesInWindow.length - limits.maxDosesPer24h], 24));
+  }
+
+  return {
+    allowed: violations.length === 0,
+    violations,
+    dosesInLast24h: dosesInWindow.length,
+    lastDoseAt,
+    nextAllowedAt
+  };
+};
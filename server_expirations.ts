@@ -0,0 +1,55 @@
+import { storage } from "./storage";
+
+// Expired stock is written off a few times a day, so it's gone soon after midnight wherever the server runs
+const CHECK_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+let expiredStockCheckerInitialized = false;
+let checkInProgress = false;
+
+// Remove expired stock from inventory for every caregiver who has turned on automatic write-off
+export async function writeOffExpiredStock(now: Date = new Date()) {
+  const expiredMeds = await storage.getExpiredStockForAutoWriteOff(now);
+  let writeOffCount = 0;
+
+  for (const med of expiredMeds) {
+    try {
+      await storage.writeOffExpiredStock(med.id, now);
+      writeOffCount++;
+    } catch (error) {
+      console.error(`Error writing off expired stock for medication ${med.id}:`, error);
+    }
+  }
+
+  return writeOffCount;
+}
+
+// Start the expired stock write-off - called once from routes.ts
+export const scheduleExpiredStockWriteOffs = () => {
+  if (expiredStockCheckerInitialized) {
+    return; // Only initialize once
+  }
+
+  expiredStockCheckerInitialized = true;
+
+  const runCheck = async () => {
+    // Skip this tick if the previous one is still running
+    if (checkInProgress) return;
+
+    checkInProgress = true;
+    try {
+      const writeOffCount = await writeOffExpiredStock();
+      if (writeOffCount > 0) {
+        console.log(`Wrote off expired stock for ${writeOffCount} medication(s)`);
+      }
+    } catch (error) {
+      console.error('Error writing off expired stock:', error);
+    } finally {
+      checkInProgress = false;
+    }
+  };
+
+  setInterval(runCheck, CHECK_INTERVAL_MS);
+  runCheck();
+
+  console.log('Expired stock write-off initialized');
+};
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("./storage", () => ({ storage: {} }));
+
+import { parseImportTimestamp, parseDexcomClarityCsv, parseGenericGlucoseCsv } from "./glucose-import";
+
+describe("parseImportTimestamp", () => {
+  it("reads ISO 8601 and common meter formats as local time", () => {
+    expect(parseImportTimestamp("2026-03-04T08:15:00")).toEqual(new Date(2026, 2, 4, 8, 15));
+    expect(parseImportTimestamp("3/4/26 8:15 PM")).toEqual(new Date(2026, 2, 4, 20, 15));
+    expect(parseImportTimestamp("2026/03/04 08:15")).toEqual(new Date(2026, 2, 4, 8, 15));
+    expect(parseImportTimestamp("03/04/2026 08:15:30")).toEqual(new Date(2026, 2, 4, 8, 15, 30));
+  });
+
+  it("rejects blank, unknown and implausible timestamps", () => {
+    expect(parseImportTimestamp("  ")).toBeNull();
+    expect(parseImportTimestamp("yesterday morning")).toBeNull();
+    expect(parseImportTimestamp("1999-12-31T23:59:00")).toBeNull();
+  });
+});
+
+describe("parseDexcomClarityCsv", () => {
+  const header = "Index,Timestamp (YYYY-MM-DDThh:mm:ss),Event Type,Event Subtype,Glucose Value (mg/dL)";
+
+  it("imports sensor readings only, with Low and High at the sensor limits", () => {
+    const { readings, rejected } = parseDexcomClarityCsv([
+      header,
+      "1,,Device,,",
+      "2,2026-03-04T08:00:00,EGV,,112",
+      "3,2026-03-04T08:05:00,Calibration,,120",
+      "4,2026-03-04T08:10:00,EGV,,Low",
+      "5,2026-03-04T08:15:00,EGV,,High",
+      "6,not a date,EGV,,100"
+    ].join("\n"));
+
+    expect(readings.map(reading => [reading.level, reading.readingType])).toEqual([
+      [112, "cgm"],
+      [40, "cgm"],
+      [400, "cgm"]
+    ]);
+    expect(readings[1].notes).toBe("Sensor read Low (below 40 mg/dL)");
+    expect(rejected).toEqual([{ row: 7, reason: "Unreadable timestamp" }]);
+  });
+
+  it("converts mmol/L exports to mg/dL", () => {
+    const { readings } = parseDexcomClarityCsv(
+      "Timestamp (YYYY-MM-DDThh:mm:ss),Event Type,Glucose Value (mmol/L)\n2026-03-04T08:00:00,EGV,5.5"
+    );
+
+    expect(readings[0].level).toBe(99);
+  });
+
+  it("rejects files without the Clarity columns", () => {
+    expect(() => parseDexcomClarityCsv("Date,Reading\n2026-03-04,100")).toThrow("This does not look like a Dexcom Clarity export");
+    expect(() => parseDexcomClarityCsv("")).toThrow("The file is empty");
+  });
+});
+
+describe("parseGenericGlucoseCsv", () => {
+  const mapping = { timestampColumn: "Date", valueColumn: "Glucose", unit: "mmol/L" as const, readingType: "fasting" };
+
+  it("reads the mapped columns, including decimal commas", () => {
+    const { readings, rejected } = parseGenericGlucoseCsv('date,glucose\n2026-03-04 07:30,"6,1"\n2026-03-04 12:00,', mapping);
+
+    expect(readings).toEqual([
+      { timeOfReading: new Date(2026, 2, 4, 7, 30), level: 110, readingType: "fasting", notes: null }
+    ]);
+    expect(rejected).toEqual([{ row: 3, reason: "Missing or invalid glucose value" }]);
+  });
+
+  it("rejects readings too high for the chosen unit", () => {
+    const { rejected } = parseGenericGlucoseCsv("Date,Glucose\n2026-03-04 07:30,110", mapping);
+
+    expect(rejected).toEqual([{ row: 2, reason: "1982 mg/dL is not a plausible reading - check the unit" }]);
+  });
+
+  it("rejects mappings that don't fit the file", () => {
+    expect(() => parseGenericGlucoseCsv("Time,Value\n", mapping)).toThrow("The selected columns are not in this file");
+    expect(() => parseGenericGlucoseCsv("Date,Glucose\n", { ...mapping, readingType: "snack" })).toThrow("Invalid reading type");
+  });
+});
@@ -0,0 +1,215 @@
+import { isValid, parse } from "date-fns";
+import { storage } from "./storage";
+import { parseCsv } from "@shared/csv";
+import {
+  CGM_READING_TYPE,
+  MG_DL_PER_MMOL_L,
+  importReadingTypes,
+  type GlucoseImportMapping,
+  type GlucoseImportResult,
+  type GlucoseUnit
+} from "@shared/glucose-import";
+
+// One reading read from an export, ready to save
+export interface ParsedGlucoseReading {
+  timeOfReading: Date;
+  level: number;
+  readingType: string;
+  notes: string | null;
+}
+
+interface ParsedExport {
+  readings: ParsedGlucoseReading[];
+  rejected: Array<{ row: number; reason: string }>;
+}
+
+// Only the first few rejected rows are sent back - a wrong mapping rejects every row
+const MAX_REPORTED_ERRORS = 20;
+
+// Dexcom sensors read 40-400 mg/dL and export anything outside as "Low" or "High"
+const DEXCOM_LOW = 40;
+const DEXCOM_HIGH = 400;
+
+// Formats meters and apps commonly export, tried in order after ISO 8601. date-fns reads
+// "yyyy" as one to four digits, so each format only applies when the whole value has its
+// shape, and two-digit years are tried first.
+const TIMESTAMP_FORMATS: Array<{ pattern: string; shape: RegExp }> = [
+  { pattern: 'M/d/yy h:mm a', shape: /^\d{1,2}\/\d{1,2}\/\d{2} \d{1,2}:\d{2} [AP]M$/i },
+  { pattern: 'M/d/yy HH:mm', shape: /^\d{1,2}\/\d{1,2}\/\d{2} \d{1,2}:\d{2}$/ },
+  { pattern: 'yyyy-MM-dd HH:mm:ss', shape: /^\d{4}-\d{1,2}-\d{1,2} \d{1,2}:\d{2}:\d{2}$/ },
+  { pattern: 'yyyy-MM-dd HH:mm', shape: /^\d{4}-\d{1,2}-\d{1,2} \d{1,2}:\d{2}$/ },
+  { pattern: 'yyyy/MM/dd HH:mm:ss', shape: /^\d{4}\/\d{1,2}\/\d{1,2} \d{1,2}:\d{2}:\d{2}$/ },
+  { pattern: 'yyyy/MM/dd HH:mm', shape: /^\d{4}\/\d{1,2}\/\d{1,2} \d{1,2}:\d{2}$/ },
+  { pattern: 'MM/dd/yyyy HH:mm:ss', shape: /^\d{1,2}\/\d{1,2}\/\d{4} \d{1,2}:\d{2}:\d{2}$/ },
+  { pattern: 'MM/dd/yyyy HH:mm', shape: /^\d{1,2}\/\d{1,2}\/\d{4} \d{1,2}:\d{2}$/ },
+  { pattern: 'MM/dd/yyyy h:mm:ss a', shape: /^\d{1,2}\/\d{1,2}\/\d{4} \d{1,2}:\d{2}:\d{2} [AP]M$/i },
+  { pattern: 'MM/dd/yyyy h:mm a', shape: /^\d{1,2}\/\d{1,2}\/\d{4} \d{1,2}:\d{2} [AP]M$/i },
+];
+
+// Readings older than this are a misread date, not a real export
+const MIN_TIMESTAMP_YEAR = 2000;
+
+const isPlausibleTimestamp = (date: Date) =>
+  isValid(date) &&
+  date.getFullYear() >= MIN_TIMESTAMP_YEAR &&
+  date.getFullYear() <= new Date().getFullYear() + 1;
+
+// Timestamps without an offset are read as local time, like readings entered in the app
+export const parseImportTimestamp = (value: string) => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(trimmed)) {
+    const date = new Date(trimmed);
+    return isPlausibleTimestamp(date) ? date : null;
+  }
+
+  const timestampFormat = TIMESTAMP_FORMATS.find(entry => entry.shape.test(trimmed));
+  if (!timestampFormat) return null;
+
+  const date = parse(trimmed, timestampFormat.pattern, new Date());
+  return isPlausibleTimestamp(date) ? date : null;
+};
+
+const toMgDl = (value: number, unit: GlucoseUnit) =>
+  Math.round(unit === 'mmol/L' ? value * MG_DL_PER_MMOL_L : value);
+
+const findColumn = (header: string[], name: string) =>
+  header.findIndex(column => column.trim().toLowerCase() === name.trim().toLowerCase());
+
+// Dexcom Clarity export: a header row, then patient and device rows, then one row per event.
+// Only sensor readings ("EGV") are imported - calibrations were fingersticks, and insulin,
+// carbs and alerts aren't glucose readings.
+export const parseDexcomClarityCsv = (text: string): ParsedExport => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    throw new Error('The file is empty');
+  }
+
+  const timestampIndex = header.findIndex(column => column.startsWith('Timestamp'));
+  const eventTypeIndex = findColumn(header, 'Event Type');
+  const valueIndex = header.findIndex(column => column.startsWith('Glucose Value'));
+  if (timestampIndex === -1 || eventTypeIndex === -1 || valueIndex === -1) {
+    throw new Error('This does not look like a Dexcom Clarity export');
+  }
+  const unit: GlucoseUnit = header[valueIndex].includes('mmol') ? 'mmol/L' : 'mg/dL';
+
+  const result: ParsedExport = { readings: [], rejected: [] };
+
+  rows.forEach((row, index) => {
+    // Row numbers as a spreadsheet shows them, counting the header
+    const rowNumber = index + 2;
+    if (row[eventTypeIndex]?.trim() !== 'EGV') return;
+
+    const timeOfReading = parseImportTimestamp(row[timestampIndex] || '');
+    if (!timeOfReading) {
+      result.rejected.push({ row: rowNumber, reason: 'Unreadable timestamp' });
+      return;
+    }
+
+    const rawValue = (row[valueIndex] || '').trim();
+    if (rawValue === 'Low' || rawValue === 'High') {
+      result.readings.push({
+        timeOfReading,
+        level: rawValue === 'Low' ? DEXCOM_LOW : DEXCOM_HIGH,
+        readingType: CGM_READING_TYPE,
+        notes: rawValue === 'Low'
+          ? `Sensor read Low (below ${DEXCOM_LOW} mg/dL)`
+          : `Sensor read High (above ${DEXCOM_HIGH} mg/dL)`
+      });
+      return;
+    }
+
+    const value = Number(rawValue);
+    if (!rawValue || !Number.isFinite(value) || value <= 0) {
+      result.rejected.push({ row: rowNumber, reason: 'Missing or invalid glucose value' });
+      return;
+    }
+
+    result.readings.push({
+      timeOfReading,
+      level: toMgDl(value, unit),
+      readingType: CGM_READING_TYPE,
+      notes: null
+    });
+  });
+
+  return result;
+};
+
+// Any CSV with a header row, using the columns the caregiver picked
+export const parseGenericGlucoseCsv = (text: string, mapping: GlucoseImportMapping): ParsedExport => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    throw new Error('The file is empty');
+  }
+
+  const timestampIndex = findColumn(header, mapping.timestampColumn);
+  const valueIndex = findColumn(header, mapping.valueColumn);
+  if (timestampIndex === -1 || valueIndex === -1) {
+    throw new Error('The selected columns are not in this file');
+  }
+
+  if (!importReadingTypes.some(type => type.value === mapping.readingType)) {
+    throw new Error('Invalid reading type');
+  }
+
+  const result: ParsedExport = { readings: [], rejected: [] };
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2;
+
+    const timeOfReading = parseImportTimestamp(row[timestampIndex] || '');
+    if (!timeOfReading) {
+      result.rejected.push({ row: rowNumber, reason: 'Unreadable timestamp' });
+      return;
+    }
+
+    // Some European exports use a decimal comma for mmol/L
+    const value = Number((row[valueIndex] || '').trim().replace(',', '.'));
+    if (!Number.isFinite(value) || value <= 0) {
+      result.rejected.push({ row: rowNumber, reason: 'Missing or invalid glucose value' });
+      return;
+    }
+
+    const level = toMgDl(value, mapping.unit);
+    if (level > 1000) {
+      result.rejected.push({ row: rowNumber, reason: `${level} mg/dL is not a plausible reading - check the unit` });
+      return;
+    }
+
+    result.readings.push({ timeOfReading, level, readingType: mapping.readingType, notes: null });
+  });
+
+  return result;
+};
+
+// Parse an export and save the readings that aren't already recorded
+export async function importGlucoseCsv(
+  careRecipientId: number,
+  text: string,
+  source: { format: 'dexcom_clarity' } | { format: 'generic'; mapping: GlucoseImportMapping },
+  userId?: number | null
+): Promise<GlucoseImportResult> {
+  const parsed = source.format === 'dexcom_clarity'
+    ? parseDexcomClarityCsv(text)
+    : parseGenericGlucoseCsv(text, source.mapping);
+
+  if (parsed.readings.length === 0 && parsed.rejected.length === 0) {
+    throw new Error('No glucose readings found in the file');
+  }
+
+  const { imported, skipped } = await storage.importGlucoseReadings(
+    careRecipientId,
+    parsed.readings,
+    source.format === 'dexcom_clarity' ? 'dexcom_clarity' : 'csv',
+    userId
+  );
+
+  return {
+    imported,
+    skipped,
+    rejected: parsed.rejected.length,
+    errors: parsed.rejected.slice(0, MAX_REPORTED_ERRORS)
+  };
+}
@@ -0,0 +1,366 @@
+// Curated drug interaction dataset, bundled with the app so interaction checks never depend on the network.
+// Bump INTERACTION_DATASET_VERSION whenever entries change - the database copy is reloaded on the next startup.
+export const INTERACTION_DATASET_VERSION = "2026.10.1";
+
+export interface InteractionDatasetEntry {
+  drugA: string; // Generic name or a key from drugClasses
+  drugB: string;
+  severity: 'high' | 'moderate' | 'low';
+  description: string;
+  mechanism: string;
+  management: string;
+}
+
+// Brand names mapped to their generic, so "Coumadin" and "warfarin" are checked the same way
+export const brandNames: Record<string, string> = {
+  coumadin: 'warfarin',
+  jantoven: 'warfarin',
+  eliquis: 'apixaban',
+  xarelto: 'rivaroxaban',
+  plavix: 'clopidogrel',
+  advil: 'ibuprofen',
+  motrin: 'ibuprofen',
+  aleve: 'naproxen',
+  naprosyn: 'naproxen',
+  celebrex: 'celecoxib',
+  mobic: 'meloxicam',
+  voltaren: 'diclofenac',
+  bayer: 'aspirin',
+  ecotrin: 'aspirin',
+  zocor: 'simvastatin',
+  lipitor: 'atorvastatin',
+  pacerone: 'amiodarone',
+  cordarone: 'amiodarone',
+  lanoxin: 'digoxin',
+  diflucan: 'fluconazole',
+  bactrim: 'sulfamethoxazole',
+  septra: 'sulfamethoxazole',
+  flagyl: 'metronidazole',
+  biaxin: 'clarithromycin',
+  prilosec: 'omeprazole',
+  nexium: 'esomeprazole',
+  norvasc: 'amlodipine',
+  zestril: 'lisinopril',
+  prinivil: 'lisinopril',
+  vasotec: 'enalapril',
+  altace: 'ramipril',
+  cozaar: 'losartan',
+  diovan: 'valsartan',
+  aldactone: 'spironolactone',
+  'k-dur': 'potassium chloride',
+  'klor-con': 'potassium chloride',
+  microzide: 'hydrochlorothiazide',
+  lithobid: 'lithium',
+  prozac: 'fluoxetine',
+  zoloft: 'sertraline',
+  paxil: 'paroxetine',
+  celexa: 'citalopram',
+  lexapro: 'escitalopram',
+  desyrel: 'trazodone',
+  ultram: 'tramadol',
+  nardil: 'phenelzine',
+  parnate: 'tranylcypromine',
+  emsam: 'selegiline',
+  oxycontin: 'oxycodone',
+  percocet: 'oxycodone',
+  vicodin: 'hydrocodone',
+  norco: 'hydrocodone',
+  dilaudid: 'hydromorphone',
+  xanax: 'alprazolam',
+  ativan: 'lorazepam',
+  klonopin: 'clonazepam',
+  valium: 'diazepam',
+  restoril: 'temazepam',
+  neurontin: 'gabapentin',
+  lyrica: 'pregabalin',
+  viagra: 'sildenafil',
+  revatio: 'sildenafil',
+  cialis: 'tadalafil',
+  nitrostat: 'nitroglycerin',
+  imdur: 'isosorbide mononitrate',
+  isordil: 'isosorbide dinitrate',
+  trexall: 'methotrexate',
+  synthroid: 'levothyroxine',
+  levoxyl: 'levothyroxine',
+  tums: 'calcium carbonate',
+  'os-cal': 'calcium carbonate',
+  cipro: 'ciprofloxacin',
+  levaquin: 'levofloxacin',
+  zyloprim: 'allopurinol',
+  imuran: 'azathioprine',
+  glucotrol: 'glipizide',
+  diabeta: 'glyburide',
+  amaryl: 'glimepiride',
+  calan: 'verapamil',
+  cardizem: 'diltiazem'
+};
+
+// Drug classes used by the dataset, so one entry covers every member
+export const drugClasses: Record<string, string[]> = {
+  nsaid: ['ibuprofen', 'naproxen', 'diclofenac', 'meloxicam', 'celecoxib', 'indomethacin', 'ketorolac'],
+  doac: ['apixaban', 'rivaroxaban', 'dabigatran', 'edoxaban'],
+  ssri: ['fluoxetine', 'sertraline', 'paroxetine', 'citalopram', 'escitalopram'],
+  maoi: ['phenelzine', 'tranylcypromine', 'isocarboxazid', 'selegiline'],
+  opioid: ['oxycodone', 'hydrocodone', 'morphine', 'hydromorphone', 'codeine', 'fentanyl', 'tramadol', 'methadone'],
+  benzodiazepine: ['alprazolam', 'lorazepam', 'clonazepam', 'diazepam', 'temazepam'],
+  gabapentinoid: ['gabapentin', 'pregabalin'],
+  'ace inhibitor': ['lisinopril', 'enalapril', 'ramipril', 'benazepril', 'captopril', 'quinapril'],
+  arb: ['losartan', 'valsartan', 'irbesartan', 'olmesartan', 'candesartan', 'telmisartan'],
+  'potassium supplement': ['potassium chloride', 'potassium citrate'],
+  nitrate: ['nitroglycerin', 'isosorbide mononitrate', 'isosorbide dinitrate'],
+  'pde5 inhibitor': ['sildenafil', 'tadalafil', 'vardenafil'],
+  fluoroquinolone: ['ciprofloxacin', 'levofloxacin', 'moxifloxacin'],
+  tetracycline: ['tetracycline', 'doxycycline', 'minocycline'],
+  'calcium or iron': ['calcium carbonate', 'calcium citrate', 'ferrous sulfate', 'ferrous gluconate', 'iron'],
+  sulfonylurea: ['glipizide', 'glyburide', 'glimepiride'],
+  'non-dihydropyridine ccb': ['verapamil', 'diltiazem']
+};
+
+export const interactionDataset: InteractionDatasetEntry[] = [
+  {
+    drugA: 'warfarin', drugB: 'nsaid', severity: 'high',
+    description: 'NSAIDs taken with warfarin greatly increase the risk of serious bleeding, especially in the stomach.',
+    mechanism: 'Additive antiplatelet effect and gastrointestinal mucosal injury on top of anticoagulation.',
+    management: 'Avoid the combination where possible; acetaminophen is usually preferred for pain. If needed, watch closely for bleeding.'
+  },
+  {
+    drugA: 'warfarin', drugB: 'aspirin', severity: 'high',
+    description: 'Aspirin with warfarin increases the risk of major bleeding.',
+    mechanism: 'Aspirin inhibits platelet function and irritates the stomach lining while warfarin blocks clotting factors.',
+    management: 'Only combine when a prescriber has specifically recommended it; report black stools, bruising or bleeding gums.'
+  },
+  {
+    drugA: 'warfarin', drugB: 'amiodarone', severity: 'high',
+    description: 'Amiodarone can sharply raise INR and bleeding risk in people taking warfarin.',
+    mechanism: 'Amiodarone inhibits CYP2C9 and CYP3A4, slowing warfarin metabolism for weeks to months.',
+    management: 'The warfarin dose is usually reduced when amiodarone starts; INR should be checked weekly until stable.'
+  },
+  {
+    drugA: 'warfarin', drugB: 'fluconazole', severity: 'high',
+    description: 'Fluconazole raises warfarin levels and can cause dangerous bleeding.',
+    mechanism: 'Fluconazole strongly inhibits CYP2C9, the main enzyme that clears warfarin.',
+    management: 'Check INR within a few days of starting fluconazole; a warfarin dose reduction is often needed.'
+  },
+  {
+    drugA: 'warfarin', drugB: 'sulfamethoxazole', severity: 'high',
+    description: 'Sulfamethoxazole-trimethoprim raises INR and bleeding risk with warfarin.',
+    mechanism: 'CYP2C9 inhibition and displacement of warfarin from protein binding.',
+    management: 'Prefer another antibiotic if possible; otherwise check INR within 3-5 days.'
+  },
+  {
+    drugA: 'warfarin', drugB: 'metronidazole', severity: 'high',
+    description: 'Metronidazole raises warfarin levels and INR.',
+    mechanism: 'Inhibition of warfarin metabolism (CYP2C9).',
+    management: 'Check INR soon after starting; a temporary warfarin dose reduction may be needed.'
+  },
+  {
+    drugA: 'warfarin', drugB: 'ssri', severity: 'moderate',
+    description: 'SSRIs add to the bleeding risk of warfarin.',
+    mechanism: 'SSRIs reduce platelet serotonin, impairing platelet aggregation.',
+    management: 'Watch for signs of bleeding and monitor INR when starting or stopping the SSRI.'
+  },
+  {
+    drugA: 'doac', drugB: 'nsaid', severity: 'high',
+    description: 'NSAIDs with apixaban, rivaroxaban or other DOACs increase the risk of serious bleeding.',
+    mechanism: 'Additive antiplatelet effect and gastrointestinal mucosal injury on top of anticoagulation.',
+    management: 'Avoid regular NSAID use; acetaminophen is usually preferred. Report any signs of bleeding.'
+  },
+  {
+    drugA: 'doac', drugB: 'aspirin', severity: 'high',
+    description: 'Aspirin with a DOAC increases the risk of major bleeding.',
+    mechanism: 'Combined antiplatelet and anticoagulant effects.',
+    management: 'Only combine when a prescriber has specifically recommended it.'
+  },
+  {
+    drugA: 'clopidogrel', drugB: 'omeprazole', severity: 'moderate',
+    description: 'Omeprazole and esomeprazole can make clopidogrel less effective at preventing clots.',
+    mechanism: 'CYP2C19 inhibition reduces conversion of clopidogrel to its active form.',
+    management: 'Pantoprazole is generally preferred when a proton pump inhibitor is needed with clopidogrel.'
+  },
+  {
+    drugA: 'clopidogrel', drugB: 'esomeprazole', severity: 'moderate',
+    description: 'Esomeprazole can make clopidogrel less effective at preventing clots.',
+    mechanism: 'CYP2C19 inhibition reduces conversion of clopidogrel to its active form.',
+    management: 'Pantoprazole is generally preferred when a proton pump inhibitor is needed with clopidogrel.'
+  },
+  {
+    drugA: 'clopidogrel', drugB: 'nsaid', severity: 'moderate',
+    description: 'NSAIDs with clopidogrel increase the risk of stomach bleeding.',
+    mechanism: 'Additive antiplatelet effect and gastrointestinal mucosal injury.',
+    management: 'Avoid regular NSAID use; consider stomach protection if the combination is necessary.'
+  },
+  {
+    drugA: 'simvastatin', drugB: 'clarithromycin', severity: 'high',
+    description: 'Clarithromycin can raise simvastatin to levels that cause severe muscle damage (rhabdomyolysis).',
+    mechanism: 'Strong CYP3A4 inhibition blocks simvastatin metabolism.',
+    management: 'Contraindicated - simvastatin is usually paused during the antibiotic course.'
+  },
+  {
+    drugA: 'simvastatin', drugB: 'amiodarone', severity: 'moderate',
+    description: 'Amiodarone increases simvastatin levels and the risk of muscle damage.',
+    mechanism: 'CYP3A4 inhibition.',
+    management: 'Simvastatin should not exceed 20 mg daily with amiodarone. Report unexplained muscle pain or weakness.'
+  },
+  {
+    drugA: 'simvastatin', drugB: 'amlodipine', severity: 'moderate',
+    description: 'Amlodipine increases simvastatin levels and the risk of muscle damage.',
+    mechanism: 'Weak CYP3A4 inhibition.',
+    management: 'Simvastatin should not exceed 20 mg daily with amlodipine.'
+  },
+  {
+    drugA: 'simvastatin', drugB: 'non-dihydropyridine ccb', severity: 'moderate',
+    description: 'Verapamil and diltiazem increase simvastatin levels and the risk of muscle damage.',
+    mechanism: 'CYP3A4 inhibition.',
+    management: 'Simvastatin should not exceed 10 mg daily with these drugs.'
+  },
+  {
+    drugA: 'ace inhibitor', drugB: 'potassium supplement', severity: 'moderate',
+    description: 'Potassium supplements with an ACE inhibitor can cause high potassium levels.',
+    mechanism: 'ACE inhibitors reduce aldosterone, so the kidneys hold on to potassium.',
+    management: 'Potassium levels should be checked periodically; report weakness or irregular heartbeat.'
+  },
+  {
+    drugA: 'ace inhibitor', drugB: 'spironolactone', severity: 'high',
+    description: 'Spironolactone with an ACE inhibitor can cause dangerously high potassium levels.',
+    mechanism: 'Both reduce potassium excretion by the kidneys.',
+    management: 'Requires regular potassium and kidney function blood tests.'
+  },
+  {
+    drugA: 'arb', drugB: 'spironolactone', severity: 'high',
+    description: 'Spironolactone with an ARB can cause dangerously high potassium levels.',
+    mechanism: 'Both reduce potassium excretion by the kidneys.',
+    management: 'Requires regular potassium and kidney function blood tests.'
+  },
+  {
+    drugA: 'spironolactone', drugB: 'potassium supplement', severity: 'high',
+    description: 'Potassium supplements with spironolactone can cause dangerously high potassium levels.',
+    mechanism: 'Spironolactone is potassium-sparing.',
+    management: 'Usually avoided unless potassium is closely monitored.'
+  },
+  {
+    drugA: 'ace inhibitor', drugB: 'nsaid', severity: 'moderate',
+    description: 'NSAIDs can blunt the blood pressure effect of ACE inhibitors and strain the kidneys.',
+    mechanism: 'NSAIDs block kidney prostaglandins that help maintain blood flow and sodium excretion.',
+    management: 'Limit NSAID use; monitor blood pressure and kidney function, especially in older adults.'
+  },
+  {
+    drugA: 'arb', drugB: 'nsaid', severity: 'moderate',
+    description: 'NSAIDs can blunt the blood pressure effect of ARBs and strain the kidneys.',
+    mechanism: 'NSAIDs block kidney prostaglandins that help maintain blood flow and sodium excretion.',
+    management: 'Limit NSAID use; monitor blood pressure and kidney function, especially in older adults.'
+  },
+  {
+    drugA: 'lithium', drugB: 'nsaid', severity: 'high',
+    description: 'NSAIDs can raise lithium to toxic levels.',
+    mechanism: 'Reduced kidney clearance of lithium.',
+    management: 'Avoid if possible; otherwise lithium levels should be checked within a week of starting.'
+  },
+  {
+    drugA: 'lithium', drugB: 'ace inhibitor', severity: 'high',
+    description: 'ACE inhibitors can raise lithium to toxic levels.',
+    mechanism: 'Reduced kidney clearance of lithium.',
+    management: 'Lithium levels should be monitored closely; report tremor, confusion or vomiting.'
+  },
+  {
+    drugA: 'lithium', drugB: 'hydrochlorothiazide', severity: 'high',
+    description: 'Thiazide diuretics can raise lithium to toxic levels.',
+    mechanism: 'Sodium loss causes the kidneys to reabsorb more lithium.',
+    management: 'Lithium dose often needs reducing; levels should be monitored closely.'
+  },
+  {
+    drugA: 'ssri', drugB: 'tramadol', severity: 'high',
+    description: 'Tramadol with an SSRI increases the risk of serotonin syndrome and seizures.',
+    mechanism: 'Both increase serotonin; some SSRIs also block tramadol metabolism.',
+    management: 'Use the lowest effective doses; seek care for agitation, fever, sweating or muscle twitching.'
+  },
+  {
+    drugA: 'ssri', drugB: 'maoi', severity: 'high',
+    description: 'Combining an SSRI with an MAO inhibitor can cause life-threatening serotonin syndrome.',
+    mechanism: 'MAOIs block serotonin breakdown while SSRIs block its reuptake.',
+    management: 'Contraindicated. A washout period of at least 2 weeks (5 weeks after fluoxetine) is required between them.'
+  },
+  {
+    drugA: 'ssri', drugB: 'trazodone', severity: 'moderate',
+    description: 'Trazodone with an SSRI increases the risk of serotonin syndrome.',
+    mechanism: 'Additive serotonergic effects.',
+    management: 'Commonly prescribed together at low doses; watch for agitation, tremor or fever.'
+  },
+  {
+    drugA: 'opioid', drugB: 'benzodiazepine', severity: 'high',
+    description: 'Opioids with benzodiazepines can cause profound sedation, slowed breathing, coma and death.',
+    mechanism: 'Additive central nervous system and respiratory depression.',
+    management: 'Avoid unless no alternative exists. Use the lowest doses and keep naloxone available.'
+  },
+  {
+    drugA: 'opioid', drugB: 'gabapentinoid', severity: 'moderate',
+    description: 'Gabapentin or pregabalin with an opioid increases the risk of slowed breathing and sedation.',
+    mechanism: 'Additive central nervous system depression.',
+    management: 'Start low and watch for excessive drowsiness or shallow breathing, especially in older adults.'
+  },
+  {
+    drugA: 'digoxin', drugB: 'amiodarone', severity: 'high',
+    description: 'Amiodarone roughly doubles digoxin levels and can cause digoxin toxicity.',
+    mechanism: 'P-glycoprotein inhibition reduces digoxin clearance.',
+    management: 'The digoxin dose is usually halved; report nausea, vision changes or a slow pulse.'
+  },
+  {
+    drugA: 'digoxin', drugB: 'non-dihydropyridine ccb', severity: 'moderate',
+    description: 'Verapamil and diltiazem raise digoxin levels and can slow the heart rate too much.',
+    mechanism: 'P-glycoprotein inhibition plus additive effects on the heart\'s conduction system.',
+    management: 'Monitor pulse and digoxin levels.'
+  },
+  {
+    drugA: 'pde5 inhibitor', drugB: 'nitrate', severity: 'high',
+    description: 'Sildenafil or tadalafil with nitrates can cause a sudden, dangerous drop in blood pressure.',
+    mechanism: 'Both increase cyclic GMP, causing additive blood vessel relaxation.',
+    management: 'Contraindicated. Do not take nitroglycerin within 24 hours of sildenafil or 48 hours of tadalafil.'
+  },
+  {
+    drugA: 'methotrexate', drugB: 'sulfamethoxazole', severity: 'high',
+    description: 'Sulfamethoxazole-trimethoprim with methotrexate can cause severe bone marrow suppression.',
+    mechanism: 'Additive folate antagonism and reduced methotrexate clearance.',
+    management: 'Avoid the combination; use a different antibiotic.'
+  },
+  {
+    drugA: 'methotrexate', drugB: 'nsaid', severity: 'moderate',
+    description: 'NSAIDs can raise methotrexate levels.',
+    mechanism: 'Reduced kidney clearance of methotrexate.',
+    management: 'Generally acceptable with low weekly methotrexate doses; blood counts and kidney function should be monitored.'
+  },
+  {
+    drugA: 'allopurinol', drugB: 'azathioprine', severity: 'high',
+    description: 'Allopurinol can raise azathioprine to levels that cause severe bone marrow suppression.',
+    mechanism: 'Allopurinol inhibits xanthine oxidase, which breaks down azathioprine.',
+    management: 'The azathioprine dose must be cut to about a quarter, with close blood count monitoring.'
+  },
+  {
+    drugA: 'levothyroxine', drugB: 'calcium or iron', severity: 'low',
+    description: 'Calcium and iron supplements reduce levothyroxine absorption.',
+    mechanism: 'Binding in the gut prevents levothyroxine from being absorbed.',
+    management: 'Take levothyroxine at least 4 hours apart from calcium or iron.'
+  },
+  {
+    drugA: 'fluoroquinolone', drugB: 'calcium or iron', severity: 'moderate',
+    description: 'Calcium and iron can stop antibiotics like ciprofloxacin from being absorbed.',
+    mechanism: 'Chelation with the minerals in the gut.',
+    management: 'Take the antibiotic 2 hours before or 6 hours after calcium or iron.'
+  },
+  {
+    drugA: 'tetracycline', drugB: 'calcium or iron', severity: 'moderate',
+    description: 'Calcium and iron can stop tetracycline antibiotics from being absorbed.',
+    mechanism: 'Chelation with the minerals in the gut.',
+    management: 'Separate doses by at least 2-3 hours.'
+  },
+  {
+    drugA: 'sulfonylurea', drugB: 'fluconazole', severity: 'moderate',
+    description: 'Fluconazole can increase the blood sugar-lowering effect of glipizide, glyburide and glimepiride.',
+    mechanism: 'CYP2C9 inhibition slows sulfonylurea metabolism.',
+    management: 'Check blood sugar more often and watch for signs of low blood sugar.'
+  },
+  {
+    drugA: 'sulfonylurea', drugB: 'sulfamethoxazole', severity: 'moderate',
+    description: 'Sulfamethoxazole-trimethoprim can cause low blood sugar with sulfonylureas.',
+    mechanism: 'CYP2C9 inhibition and displacement from protein binding.',
+    management: 'Check blood sugar more often during the antibiotic course.'
+  }
+];
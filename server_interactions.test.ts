@@ -0,0 +1,46 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("./storage", () => ({ storage: {} }));
+
+import { getInteractionKeys, findInteractions } from "./interactions";
+
+describe("getInteractionKeys", () => {
+  it("resolves brand names to the generic and its drug class", () => {
+    expect(Array.from(getInteractionKeys("Coumadin 5mg"))).toEqual(["warfarin"]);
+    expect(getInteractionKeys("Advil 200 mg").has("nsaid")).toBe(true);
+  });
+
+  it("returns no keys for a medication the dataset doesn't know", () => {
+    expect(getInteractionKeys("Vitamin D3").size).toBe(0);
+  });
+});
+
+describe("findInteractions", () => {
+  it("finds interactions through drug classes and brand names", () => {
+    const interactions = findInteractions([
+      { name: "Coumadin", id: 1 },
+      { name: "Ibuprofen 400mg", id: 2 }
+    ]);
+
+    expect(interactions).toMatchObject([
+      { drug1: "Coumadin", drug2: "Ibuprofen 400mg", medicationId1: 1, medicationId2: 2, severity: "high" }
+    ]);
+  });
+
+  it("lists the most severe interactions first", () => {
+    const interactions = findInteractions([
+      { name: "Simvastatin" },
+      { name: "Amiodarone" },
+      { name: "Warfarin" }
+    ]);
+
+    expect(interactions.map(interaction => [interaction.drug1, interaction.drug2, interaction.severity])).toEqual([
+      ["Amiodarone", "Warfarin", "high"],
+      ["Simvastatin", "Amiodarone", "moderate"]
+    ]);
+  });
+
+  it("doesn't flag a medication against itself", () => {
+    expect(findInteractions([{ name: "Warfarin" }, { name: "warfarin" }])).toEqual([]);
+  });
+});
@@ -0,0 +1,139 @@
+import { storage } from "./storage";
+import {
+  INTERACTION_DATASET_VERSION,
+  interactionDataset,
+  brandNames,
+  drugClasses,
+  type InteractionDatasetEntry
+} from "./interaction-dataset";
+
+// An interaction found between two of the medications being checked
+export interface MedicationInteraction {
+  drug1: string;
+  drug2: string;
+  medicationId1?: number;
+  medicationId2?: number;
+  severity: 'high' | 'moderate' | 'low';
+  description: string;
+  mechanism: string | null;
+  management: string | null;
+}
+
+const severityOrder: Record<string, number> = { high: 0, moderate: 1, low: 2 };
+
+// Entries read back from the database after loading; null until the dataset has been loaded
+let loadedInteractions: InteractionDatasetEntry[] | null = null;
+
+// Make sure the database holds the bundled dataset version, replacing it after an upgrade
+export async function loadInteractionDataset() {
+  try {
+    const storedVersion = await storage.getDrugInteractionDatasetVersion();
+
+    if (storedVersion !== INTERACTION_DATASET_VERSION) {
+      await storage.replaceDrugInteractions(
+        interactionDataset.map(entry => ({ ...entry, datasetVersion: INTERACTION_DATASET_VERSION }))
+      );
+      console.log(`Loaded drug interaction dataset ${INTERACTION_DATASET_VERSION} (${interactionDataset.length} entries)`);
+    }
+
+    const rows = await storage.getDrugInteractions();
+    loadedInteractions = rows.map(row => ({
+      drugA: row.drugA,
+      drugB: row.drugB,
+      severity: row.severity as InteractionDatasetEntry['severity'],
+      description: row.description,
+      mechanism: row.mechanism || '',
+      management: row.management || ''
+    }));
+  } catch (error) {
+    // The bundled copy is still used for checks, so a database problem never disables them
+    console.error('Error loading drug interaction dataset:', error);
+  }
+}
+
+const getInteractionEntries = () => loadedInteractions || interactionDataset;
+
+const normalizeName = (name: string) =>
+  ` ${name.toLowerCase().replace(/[^a-z0-9\s-]/g, ' ').replace(/\s+/g, ' ').trim()} `;
+
+// Resolve a medication name as entered (e.g. "Coumadin 5mg") to the generic names
+// and drug classes the dataset is keyed on
+export const getInteractionKeys = (medicationName: string, entries: InteractionDatasetEntry[] = getInteractionEntries()) => {
+  const name = normalizeName(medicationName);
+  const generics = new Set<string>();
+
+  for (const [brand, generic] of Object.entries(brandNames)) {
+    if (name.includes(` ${brand} `)) generics.add(generic);
+  }
+
+  const knownGenerics = new Set<string>([
+    ...Object.values(drugClasses).flat(),
+    ...entries.flatMap(entry => [entry.drugA, entry.drugB]).filter(key => !drugClasses[key])
+  ]);
+  for (const generic of Array.from(knownGenerics)) {
+    if (name.includes(` ${generic} `)) generics.add(generic);
+  }
+
+  const keys = new Set<string>(Array.from(generics));
+  for (const [drugClass, members] of Object.entries(drugClasses)) {
+    if (members.some(member => generics.has(member))) keys.add(drugClass);
+  }
+
+  return keys;
+};
+
+// Check every pair in a list of medications against the local dataset
+export const findInteractions = (
+  medicationList: Array<{ name: string; id?: number }>
+): MedicationInteraction[] => {
+  const entries = getInteractionEntries();
+  const resolved = medicationList.map(med => ({ ...med, keys: getInteractionKeys(med.name, entries) }));
+  const interactions: MedicationInteraction[] = [];
+
+  for (let i = 0; i < resolved.length; i++) {
+    for (let j = i + 1; j < resolved.length; j++) {
+      const first = resolved[i];
+      const second = resolved[j];
+      if (normalizeName(first.name) === normalizeName(second.name)) continue;
+
+      for (const entry of entries) {
+        const matches =
+          (first.keys.has(entry.drugA) && second.keys.has(entry.drugB)) ||
+          (first.keys.has(entry.drugB) && second.keys.has(entry.drugA));
+        if (!matches) continue;
+
+        interactions.push({
+          drug1: first.name,
+          drug2: second.name,
+          medicationId1: first.id,
+          medicationId2: second.id,
+          severity: entry.severity,
+          description: entry.description,
+          mechanism: entry.mechanism || null,
+          management: entry.management || null
+        });
+      }
+    }
+  }
+
+  return interactions.sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
+};
+
+// Same response shape as medicationService, so existing callers don't need to change
+export const checkInteractionsByNames = (medicationNames: string[]) => ({
+  success: true,
+  source: 'local',
+  datasetVersion: INTERACTION_DATASET_VERSION,
+  interactions: findInteractions(medicationNames.map(name => ({ name })))
+});
+
+// Check a care recipient's whole active medication list
+export async function getCareRecipientInteractions(careRecipientId: number) {
+  const meds = await storage.getActiveMedications(careRecipientId);
+
+  return {
+    datasetVersion: INTERACTION_DATASET_VERSION,
+    checkedMedications: meds.length,
+    interactions: findInteractions(meds.map(med => ({ name: med.name, id: med.id })))
+  };
+}
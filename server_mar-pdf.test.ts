@@ -0,0 +1,14 @@
+import { describe, it, expect } from "vitest";
+import { getInitials } from "./mar-pdf";
+
+describe("getInitials", () => {
+  it("uses the first letter of each part of the name, up to three", () => {
+    expect(getInitials("jane doe")).toBe("JD");
+    expect(getInitials("Mary  Ann Lee Smith")).toBe("MAL");
+  });
+
+  it("is blank without a name", () => {
+    expect(getInitials(null)).toBe("");
+    expect(getInitials("")).toBe("");
+  });
+});
@@ -0,0 +1,326 @@
+import PDFDocument from "pdfkit";
+import { format, parseISO } from "date-fns";
+import type { storage } from "./storage";
+
+export type MedicationAdministrationRecord = Awaited<ReturnType<typeof storage.getMedicationAdministrationRecord>>;
+
+// Landscape US letter, leaving room for 31 day columns beside the medication names
+const PAGE_MARGIN = 30;
+const NAME_COLUMN_WIDTH = 150;
+const TIME_COLUMN_WIDTH = 40;
+const HEADER_ROW_HEIGHT = 16;
+const ROW_HEIGHT = 20;
+
+// What is written in a day cell for each dose outcome; taken doses get the caregiver's initials
+const outcomeMarks: Record<string, string> = {
+  vomited: "V",
+  refused: "R",
+  skipped: "H",
+  missed: "M",
+  pending: ""
+};
+
+const outcomeFills: Record<string, string | null> = {
+  taken: null,
+  late: "#fde68a",
+  vomited: "#ddd6fe",
+  refused: "#fed7aa",
+  skipped: "#e5e7eb",
+  missed: "#fecaca",
+  pending: null
+};
+
+const outcomeLabels: Record<string, string> = {
+  vomited: "Vomited",
+  refused: "Refused",
+  skipped: "Held"
+};
+
+interface TableColumn {
+  label: string;
+  width: number;
+  color?: string;
+}
+
+// Draw a simple table that carries on over new pages, repeating the header.
+// Returns the y position below the last row.
+const drawTable = (
+  doc: PDFKit.PDFDocument,
+  columns: TableColumn[],
+  rows: string[][],
+  top: number,
+  pageWidth: number,
+  pageBottom: number
+) => {
+  const drawHeader = (headerTop: number) => {
+    doc.font("Helvetica-Bold").fontSize(8).fillColor("black");
+    let x = PAGE_MARGIN;
+    for (const column of columns) {
+      doc.text(column.label, x + 2, headerTop, { width: column.width - 4 });
+      x += column.width;
+    }
+    doc.moveTo(PAGE_MARGIN, headerTop + 11).lineTo(PAGE_MARGIN + pageWidth, headerTop + 11).stroke("#9ca3af");
+    return headerTop + 14;
+  };
+
+  let y = drawHeader(top);
+
+  for (const values of rows) {
+    doc.font("Helvetica").fontSize(8);
+    const rowHeight = Math.max(
+      12,
+      ...values.map((value, index) => doc.heightOfString(value, { width: columns[index].width - 4 }) + 3)
+    );
+
+    if (y + rowHeight > pageBottom) {
+      doc.addPage();
+      y = drawHeader(PAGE_MARGIN);
+      doc.font("Helvetica").fontSize(8);
+    }
+
+    let x = PAGE_MARGIN;
+    values.forEach((value, index) => {
+      doc.fillColor(columns[index].color || "black");
+      doc.text(value, x + 2, y, { width: columns[index].width - 4 });
+      x += columns[index].width;
+    });
+    doc.fillColor("black");
+
+    y += rowHeight;
+  }
+
+  return y;
+};
+
+export const getInitials = (name: string | null | undefined) => {
+  if (!name) return "";
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(part => part[0].toUpperCase())
+    .join("")
+    .slice(0, 3);
+};
+
+// Each caregiver's initials on this record, numbered when two of them share the same ones
+const getCaregiverInitials = (caregivers: MedicationAdministrationRecord["caregivers"]) => {
+  const initialsById = new Map<number, string>();
+  const timesUsed = new Map<string, number>();
+  for (const caregiver of caregivers) {
+    const initials = getInitials(caregiver.name) || "?";
+    const count = (timesUsed.get(initials) || 0) + 1;
+    timesUsed.set(initials, count);
+    initialsById.set(caregiver.id, count > 1 ? `${initials}${count}` : initials);
+  }
+  return initialsById;
+};
+
+// Doses logged before caregivers were recorded on each log
+const UNATTRIBUTED_MARK = "X";
+
+const formatTime = (time: string) => format(parseISO(`2000-01-01T${time}`), "h:mm a");
+
+// Write a month's MAR to the given stream (usually the HTTP response) as a PDF
+export function renderMedicationAdministrationRecord(record: MedicationAdministrationRecord, stream: NodeJS.WritableStream) {
+  const doc = new PDFDocument({ size: "LETTER", layout: "landscape", margin: PAGE_MARGIN });
+  doc.pipe(stream);
+
+  const monthLabel = format(parseISO(`${record.month}-01`), "MMMM yyyy");
+  const pageWidth = doc.page.width - PAGE_MARGIN * 2;
+  const pageBottom = doc.page.height - PAGE_MARGIN;
+  const dayColumnWidth = (pageWidth - NAME_COLUMN_WIDTH - TIME_COLUMN_WIDTH) / record.days.length;
+  const initialsById = getCaregiverInitials(record.caregivers);
+  let hasUnattributedDoses = false;
+  const initialsFor = (recordedBy: { id: number } | null) => {
+    const initials = recordedBy ? initialsById.get(recordedBy.id) : undefined;
+    if (!initials) hasUnattributedDoses = true;
+    return initials || UNATTRIBUTED_MARK;
+  };
+
+  // Header: who the record is for, and the allergies anyone giving a dose must see
+  doc.font("Helvetica-Bold").fontSize(16).text("Medication Administration Record", PAGE_MARGIN, PAGE_MARGIN);
+  doc.font("Helvetica").fontSize(10);
+  doc.text(`${record.careRecipient.name}    ${monthLabel}`);
+  if (record.dateOfBirth) {
+    doc.text(`Date of birth: ${format(parseISO(record.dateOfBirth), "MMM d, yyyy")}`);
+  }
+
+  doc.moveDown(0.3);
+  doc.font("Helvetica-Bold").fillColor("#b91c1c");
+  if (record.medicationAllergies || record.otherAllergies) {
+    if (record.medicationAllergies) {
+      doc.text(`Medication allergies: ${record.medicationAllergies}`, { width: pageWidth });
+    }
+    if (record.otherAllergies) {
+      doc.text(`Other allergies: ${record.otherAllergies}`, { width: pageWidth });
+    }
+  } else {
+    doc.text("Allergies: none recorded", { width: pageWidth });
+  }
+  doc.fillColor("black").font("Helvetica").fontSize(8);
+  doc.text(`Generated ${format(new Date(), "MMM d, yyyy h:mm a")}`);
+  doc.moveDown(0.5);
+
+  const drawGridHeader = (y: number) => {
+    doc.font("Helvetica-Bold").fontSize(7);
+    doc.rect(PAGE_MARGIN, y, pageWidth, HEADER_ROW_HEIGHT).fillAndStroke("#f3f4f6", "#9ca3af");
+    doc.fillColor("black");
+    doc.text("Medication", PAGE_MARGIN + 3, y + 5, { width: NAME_COLUMN_WIDTH - 6 });
+    doc.text("Time", PAGE_MARGIN + NAME_COLUMN_WIDTH + 3, y + 5, { width: TIME_COLUMN_WIDTH - 6 });
+    record.days.forEach((day, index) => {
+      const x = PAGE_MARGIN + NAME_COLUMN_WIDTH + TIME_COLUMN_WIDTH + index * dayColumnWidth;
+      doc.text(String(parseISO(day).getDate()), x, y + 5, { width: dayColumnWidth, align: "center" });
+    });
+    return y + HEADER_ROW_HEIGHT;
+  };
+
+  let y = doc.y;
+
+  if (record.rows.length === 0) {
+    doc.font("Helvetica").fontSize(10).text("No scheduled doses this month.", PAGE_MARGIN, y);
+    y = doc.y + 10;
+  } else {
+    y = drawGridHeader(y);
+
+    for (const row of record.rows) {
+      if (y + ROW_HEIGHT > pageBottom) {
+        doc.addPage();
+        y = drawGridHeader(PAGE_MARGIN);
+      }
+
+      doc.rect(PAGE_MARGIN, y, pageWidth, ROW_HEIGHT).stroke("#9ca3af");
+
+      doc.font("Helvetica-Bold").fontSize(7).fillColor("black");
+      doc.text(`${row.name} ${row.dosage}`, PAGE_MARGIN + 3, y + 3, {
+        width: NAME_COLUMN_WIDTH - 6,
+        height: 8,
+        ellipsis: true
+      });
+      doc.font("Helvetica").fontSize(6).fillColor("#4b5563");
+      const details = [row.quantity && `Qty ${row.quantity}`, row.withFood && "with food", row.status === "discontinued" && "discontinued"]
+        .filter(Boolean)
+        .join(", ");
+      doc.text(details, PAGE_MARGIN + 3, y + 12, { width: NAME_COLUMN_WIDTH - 6, height: 7, ellipsis: true });
+
+      doc.font("Helvetica").fontSize(7).fillColor("black");
+      doc.text(formatTime(row.time), PAGE_MARGIN + NAME_COLUMN_WIDTH + 3, y + 7, { width: TIME_COLUMN_WIDTH - 6 });
+
+      record.days.forEach((day, index) => {
+        const x = PAGE_MARGIN + NAME_COLUMN_WIDTH + TIME_COLUMN_WIDTH + index * dayColumnWidth;
+        const cell = row.cells[day];
+
+        // Days with no dose due (outside the schedule or the medication's active dates) are shaded out
+        const fill = cell ? outcomeFills[cell.outcome] : "#d1d5db";
+        if (fill) {
+          doc.rect(x, y, dayColumnWidth, ROW_HEIGHT).fill(fill);
+        }
+        doc.rect(x, y, dayColumnWidth, ROW_HEIGHT).stroke("#9ca3af");
+
+        if (cell) {
+          const mark = cell.outcome === "taken" || cell.outcome === "late" ? initialsFor(cell.recordedBy) : outcomeMarks[cell.outcome];
+          doc.fillColor("black").font("Helvetica-Bold").fontSize(6);
+          doc.text(mark, x, y + 4, { width: dayColumnWidth, align: "center" });
+          if (cell.recordedAt && cell.outcome !== "skipped" && cell.outcome !== "refused") {
+            doc.font("Helvetica").fontSize(4.5);
+            doc.text(cell.recordedAt, x, y + 12, { width: dayColumnWidth, align: "center" });
+          }
+        }
+      });
+
+      y += ROW_HEIGHT;
+    }
+
+    y += 6;
+    doc.font("Helvetica").fontSize(7).fillColor("black");
+    doc.text(
+      `Key: initials = given by that caregiver (time recorded below, names listed at the end), yellow = given late, V = vomited, R = refused, H = held, M = missed, grey = not due. ` +
+        `Late and missed use a ${record.graceMinutes} minute window after the scheduled time.`,
+      PAGE_MARGIN,
+      y,
+      { width: pageWidth }
+    );
+    y = doc.y + 12;
+  }
+
+  // As-needed doses are listed one by one with the reason they were given
+  if (y + 60 > pageBottom) {
+    doc.addPage();
+    y = PAGE_MARGIN;
+  }
+  doc.font("Helvetica-Bold").fontSize(11).text("As-needed (PRN) doses", PAGE_MARGIN, y);
+  y = doc.y + 4;
+
+  if (record.prnEntries.length === 0) {
+    doc.font("Helvetica").fontSize(9).text("No as-needed doses recorded this month.", PAGE_MARGIN, y);
+    y = doc.y;
+  } else {
+    const rows = record.prnEntries.map(entry => [
+      format(new Date(entry.takenAt), "MMM d, h:mm a"),
+      `${entry.medicationName} ${entry.dosage}`.trim() + (entry.taken ? "" : " (not given)"),
+      entry.quantity,
+      entry.reason || "",
+      entry.overrideReason || "",
+      entry.taken ? initialsFor(entry.recordedBy) : ""
+    ]);
+
+    y = drawTable(doc, [
+      { label: "Date / time", width: 95 },
+      { label: "Medication", width: 170 },
+      { label: "Qty", width: 40 },
+      { label: "Reason", width: 220 },
+      { label: "Limit override", width: 167, color: "#b91c1c" },
+      { label: "Initials", width: 40 }
+    ], rows, y, pageWidth, pageBottom);
+  }
+
+  // Scheduled doses that were refused, held or vomited, with the reason recorded at the time
+  const exceptions = record.rows.flatMap(row =>
+    record.days
+      .filter(day => outcomeLabels[row.cells[day]?.outcome])
+      .map(day => ({ row, day, cell: row.cells[day] }))
+  ).sort((a, b) => a.day.localeCompare(b.day) || a.row.time.localeCompare(b.row.time));
+
+  if (exceptions.length > 0) {
+    y += 12;
+    if (y + 60 > pageBottom) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+    doc.font("Helvetica-Bold").fontSize(11).fillColor("black").text("Doses not given as scheduled", PAGE_MARGIN, y);
+    y = doc.y + 4;
+
+    drawTable(doc, [
+      { label: "Date / time", width: 95 },
+      { label: "Medication", width: 170 },
+      { label: "Outcome", width: 60 },
+      { label: "Reason", width: 160 },
+      { label: "Notes", width: 207 },
+      { label: "Initials", width: 40 }
+    ], exceptions.map(({ row, day, cell }) => [
+      `${format(parseISO(day), "MMM d")}, ${formatTime(row.time)}`,
+      `${row.name} ${row.dosage}`.trim(),
+      outcomeLabels[cell.outcome],
+      cell.reason || "",
+      cell.notes || "",
+      initialsFor(cell.recordedBy)
+    ]), y, pageWidth, pageBottom);
+  }
+
+  // Who each set of initials belongs to, once every section has been drawn
+  const legend = [
+    ...record.caregivers.map(caregiver => `${initialsById.get(caregiver.id)} = ${caregiver.name}`),
+    ...(hasUnattributedDoses ? [`${UNATTRIBUTED_MARK} = given, caregiver not recorded`] : [])
+  ];
+  if (legend.length > 0) {
+    if (doc.y + 20 + legend.length * 10 > pageBottom) {
+      doc.addPage();
+    }
+    doc.font("Helvetica-Bold").fontSize(9).fillColor("black").text("Initials", PAGE_MARGIN, doc.y + 12);
+    doc.font("Helvetica").fontSize(8);
+    for (const line of legend) {
+      doc.text(line, PAGE_MARGIN, doc.y, { width: pageWidth });
+    }
+  }
+
+  doc.end();
+}
@@ -0,0 +1,99 @@
+import { format, subMinutes } from "date-fns";
+import { storage } from "./storage";
+import { sendMedicationReminder } from "./notification-service";
+import { expandScheduleDoses } from "./doses";
+
+// How often the dispatcher looks for due reminders
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+// If the server was down when a dose came due, still send the reminder
+// as long as we come back up within this many minutes of the scheduled time
+const CATCH_UP_WINDOW_MINUTES = 30;
+
+let reminderSchedulerInitialized = false;
+let dispatchInProgress = false;
+
+// Send reminders for every schedule whose time fell inside the catch-up window
+export async function dispatchDueMedicationReminders(now: Date = new Date()) {
+  const windowStart = subMinutes(now, CATCH_UP_WINDOW_MINUTES);
+  const schedules = await storage.getActiveSchedulesWithOwners({ remindersOnly: true });
+  let sentCount = 0;
+
+  for (const schedule of schedules) {
+    const medication = schedule.medication;
+    const owner = medication?.careRecipient?.user;
+
+    if (!medication || !owner || !schedule.time) continue;
+
+    // Doses due since the start of the window (which may straddle midnight)
+    const dueDoses = expandScheduleDoses(schedule, windowStart, now)
+      .filter(dose => dose.scheduledFor > windowStart);
+
+    for (const dose of dueDoses) {
+      const scheduledFor = dose.scheduledFor;
+
+      const claimed = await storage.claimMedicationReminder({
+        scheduleId: schedule.id,
+        medicationId: medication.id,
+        userId: owner.id,
+        scheduledFor
+      });
+
+      // Already sent for this dose
+      if (!claimed) continue;
+
+      const results = await sendMedicationReminder(
+        {
+          recipientName: medication.careRecipient.name,
+          medicationName: medication.name,
+          dosage: dose.quantity || medication.dosage,
+          scheduledTime: format(scheduledFor, 'h:mm a'),
+          userEmail: owner.email || '',
+          userPhone: owner.phone || undefined,
+          userName: owner.name || owner.username
+        },
+        {
+          emailNotifications: !!owner.email && (owner.emailNotifications ?? true),
+          smsNotifications: owner.smsNotifications ?? false,
+          medicationReminders: owner.medicationReminders ?? true
+        }
+      );
+
+      await storage.updateMedicationReminderLog(claimed.id, results);
+      sentCount++;
+    }
+  }
+
+  return sentCount;
+}
+
+// Start the reminder dispatcher - called once from routes.ts
+export const scheduleMedicationReminders = () => {
+  if (reminderSchedulerInitialized) {
+    return; // Only initialize once
+  }
+
+  reminderSchedulerInitialized = true;
+
+  const runDispatch = async () => {
+    // Skip this tick if the previous one is still sending
+    if (dispatchInProgress) return;
+
+    dispatchInProgress = true;
+    try {
+      const sentCount = await dispatchDueMedicationReminders();
+      if (sentCount > 0) {
+        console.log(`Dispatched ${sentCount} medication reminder(s)`);
+      }
+    } catch (error) {
+      console.error('Error dispatching medication reminders:', error);
+    } finally {
+      dispatchInProgress = false;
+    }
+  };
+
+  setInterval(runDispatch, CHECK_INTERVAL_MS);
+  runDispatch();
+
+  console.log('Medication reminder scheduler initialized');
+};
@@ -0,0 +1,153 @@
+import { addDays, addMinutes, format, startOfDay, subHours, subMinutes } from "date-fns";
+import { storage } from "./storage";
+import { sendMissedDoseAlert } from "./notification-service";
+import { expandScheduleDoses, matchDoseLogs, DOSE_LOG_LOOKAHEAD_DAYS } from "./doses";
+
+// How often the detector looks for missed doses
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+// Used when the caregiver hasn't configured their own grace window
+const DEFAULT_GRACE_MINUTES = 60;
+
+// Doses older than this are left alone, so a long outage doesn't flood everyone with alerts
+const LOOKBACK_HOURS = 24;
+
+let missedDoseCheckerInitialized = false;
+let checkInProgress = false;
+
+// Find scheduled doses with no log after the grace window and escalate them:
+// first a follow-up to the primary caregiver, then (after a second grace window) the backup contact
+export async function detectMissedDoses(now: Date = new Date()) {
+  const schedules = await storage.getActiveSchedulesWithOwners();
+  const lookbackStart = subHours(now, LOOKBACK_HOURS);
+  let escalationCount = 0;
+
+  for (const schedule of schedules) {
+    const medication = schedule.medication;
+    const owner = medication?.careRecipient?.user;
+
+    if (!medication || !owner || !schedule.time) continue;
+
+    const graceMinutes = owner.missedDoseGraceMinutes ?? DEFAULT_GRACE_MINUTES;
+
+    // The Medications page logs scheduled doses whenever they're checked off that day, and a dose
+    // given late still counts until the schedule's next dose - the doses after the lookback are
+    // expanded too, so an early log for the next dose isn't taken as a late one for this dose
+    const matchFrom = startOfDay(lookbackStart);
+    const doses = expandScheduleDoses(schedule, matchFrom, addDays(now, DOSE_LOG_LOOKAHEAD_DAYS));
+    const logs = await storage.getMedicationLogsForSchedule(schedule.id, matchFrom, now);
+    const doseLogs = matchDoseLogs(doses, logs);
+    const overdueBefore = subMinutes(now, graceMinutes);
+
+    for (let index = 0; index < doses.length; index++) {
+      const dose = doses[index];
+      // Only doses in the lookback whose grace window has already run out
+      if (dose.scheduledFor < lookbackStart) continue;
+      if (dose.scheduledFor > overdueBefore) break;
+
+      const scheduledFor = dose.scheduledFor;
+      const existing = await storage.getMissedDose(schedule.id, scheduledFor);
+
+      if (doseLogs[index].length > 0) {
+        // Dose was given late - clear the alert
+        if (existing && !existing.resolvedAt) {
+          await storage.updateMissedDose(existing.id, { resolvedAt: now });
+        }
+        continue;
+      }
+
+      const missedDose = existing || await storage.recordMissedDose({
+        scheduleId: schedule.id,
+        medicationId: medication.id,
+        careRecipientId: medication.careRecipientId,
+        scheduledFor
+      });
+
+      if (!missedDose || missedDose.resolvedAt) continue;
+
+      const alertData = {
+        recipientName: medication.careRecipient.name,
+        medicationName: medication.name,
+        dosage: dose.quantity || medication.dosage,
+        scheduledTime: format(scheduledFor, 'h:mm a'),
+        primaryCaregiverName: owner.name || owner.username
+      };
+
+      if (missedDose.escalationLevel === 0) {
+        await sendMissedDoseAlert(
+          {
+            ...alertData,
+            contactName: owner.name || owner.username,
+            contactEmail: owner.email || undefined,
+            contactPhone: owner.phone || undefined,
+            isBackupContact: false
+          },
+          {
+            email: owner.emailNotifications ?? true,
+            sms: owner.smsNotifications ?? false
+          }
+        );
+
+        await storage.updateMissedDose(missedDose.id, {
+          escalationLevel: 1,
+          caregiverNotifiedAt: now
+        });
+        escalationCount++;
+      } else if (
+        missedDose.escalationLevel === 1 &&
+        now >= addMinutes(scheduledFor, graceMinutes * 2) &&
+        (owner.backupContactEmail || owner.backupContactPhone)
+      ) {
+        await sendMissedDoseAlert(
+          {
+            ...alertData,
+            contactName: owner.backupContactName || 'there',
+            contactEmail: owner.backupContactEmail || undefined,
+            contactPhone: owner.backupContactPhone || undefined,
+            isBackupContact: true
+          },
+          { email: true, sms: true }
+        );
+
+        await storage.updateMissedDose(missedDose.id, {
+          escalationLevel: 2,
+          backupNotifiedAt: now
+        });
+        escalationCount++;
+      }
+    }
+  }
+
+  return escalationCount;
+}
+
+// Start the missed dose detector - called once from routes.ts
+export const scheduleMissedDoseChecks = () => {
+  if (missedDoseCheckerInitialized) {
+    return; // Only initialize once
+  }
+
+  missedDoseCheckerInitialized = true;
+
+  const runCheck = async () => {
+    // Skip this tick if the previous one is still running
+    if (checkInProgress) return;
+
+    checkInProgress = true;
+    try {
+      const escalationCount = await detectMissedDoses();
+      if (escalationCount > 0) {
+        console.log(`Sent ${escalationCount} missed dose alert(s)`);
+      }
+    } catch (error) {
+      console.error('Error checking for missed doses:', error);
+    } finally {
+      checkInProgress = false;
+    }
+  };
+
+  setInterval(runCheck, CHECK_INTERVAL_MS);
+  runCheck();
+
+  console.log('Missed dose checker initialized');
+};
@@ -1,6 +1,11 @@
 import sgMail from '@sendgrid/mail';
 import { Twilio } from 'twilio';
 
+// Initialize SendGrid client
+if (process.env.SENDGRID_API_KEY) {
+  sgMail.setApiKey(process.env.SENDGRID_API_KEY);
+}
+
 // Initialize Twilio client
 let twilioClient: Twilio | null = null;
 if (process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN) {
@@ -134,4 +139,349 @@ export async function sendMedicationReminder(
   }
 
   return results;
-}
\ No newline at end of file
+}
+
+export interface MissedDoseAlertData {
+  recipientName: string;
+  medicationName: string;
+  dosage: string;
+  scheduledTime: string;
+  contactName: string;
+  contactEmail?: string;
+  contactPhone?: string;
+  isBackupContact: boolean; // Backup contacts get an escalation message instead of a follow-up
+  primaryCaregiverName?: string;
+}
+
+export async function sendMissedDoseAlertEmail(data: MissedDoseAlertData): Promise<boolean> {
+  try {
+    if (!process.env.SENDGRID_API_KEY || !data.contactEmail) {
+      console.warn('SendGrid API key or contact email missing, missed dose email not sent');
+      return false;
+    }
+
+    const heading = data.isBackupContact ? 'Missed Dose Escalation' : 'Missed Dose Follow-up';
+    const intro = data.isBackupContact
+      ? `A scheduled dose for <strong>${data.recipientName}</strong> still has not been logged, and ${data.primaryCaregiverName || 'the primary caregiver'} has not responded to the follow-up reminder. You are listed as the backup contact.`
+      : `A scheduled dose for <strong>${data.recipientName}</strong> has not been logged yet.`;
+
+    const msg = {
+      to: data.contactEmail,
+      from: process.env.EMAIL_FROM || 'noreply@compassiontracker.org',
+      subject: `⚠️ ${heading}: ${data.medicationName} for ${data.recipientName}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="background: linear-gradient(135deg, #DC2626 0%, #B91C1C 100%); padding: 30px; text-align: center;">
+            <h1 style="color: white; margin: 0; font-size: 24px;">⚠️ ${heading}</h1>
+          </div>
+          
+          <div style="padding: 30px; background-color: white;">
+            <p style="color: #1f2937; line-height: 1.6; font-size: 18px; margin-bottom: 20px;">
+              Hi <strong>${data.contactName}</strong>,
+            </p>
+            
+            <p style="color: #4b5563; line-height: 1.6; font-size: 16px;">${intro}</p>
+            
+            <div style="background-color: #fee2e2; border-left: 4px solid #dc2626; padding: 20px; margin: 20px 0;">
+              <p style="color: #991b1b; margin: 5px 0; font-size: 16px;"><strong>Patient:</strong> ${data.recipientName}</p>
+              <p style="color: #991b1b; margin: 5px 0; font-size: 16px;"><strong>Medication:</strong> ${data.medicationName}</p>
+              <p style="color: #991b1b; margin: 5px 0; font-size: 16px;"><strong>Dosage:</strong> ${data.dosage}</p>
+              <p style="color: #991b1b; margin: 5px 0; font-size: 16px;"><strong>Scheduled Time:</strong> ${data.scheduledTime}</p>
+            </div>
+            
+            <p style="color: #4b5563; line-height: 1.6; font-size: 16px;">
+              If the dose was given, please log it in Compassion Tracker so this alert is cleared.
+            </p>
+          </div>
+          
+          <div style="background-color: #f3f4f6; padding: 20px; text-align: center;">
+            <p style="color: #6b7280; font-size: 12px; margin: 0;">
+              This is an automated missed dose alert from Compassion Tracker.
+            </p>
+          </div>
+        </div>
+      `,
+    };
+
+    await sgMail.send(msg);
+    console.log(`Missed dose email sent to ${data.contactEmail} for ${data.medicationName}`);
+    return true;
+  } catch (error) {
+    console.error('Error sending missed dose email:', error);
+    return false;
+  }
+}
+
+export async function sendMissedDoseAlertSMS(data: MissedDoseAlertData): Promise<boolean> {
+  try {
+    if (!twilioClient || !data.contactPhone) {
+      console.warn('Twilio not configured or phone number missing, missed dose SMS not sent');
+      return false;
+    }
+
+    const message = `⚠️ MISSED DOSE${data.isBackupContact ? ' (BACKUP CONTACT)' : ''}
+${data.recipientName}: ${data.medicationName}
+Dosage: ${data.dosage}
+Scheduled: ${data.scheduledTime}
+
+This dose has not been logged in Compassion Tracker.`;
+
+    await twilioClient.messages.create({
+      body: message,
+      from: process.env.TWILIO_PHONE_NUMBER,
+      to: data.contactPhone,
+    });
+
+    console.log(`Missed dose SMS sent to ${data.contactPhone} for ${data.medicationName}`);
+    return true;
+  } catch (error) {
+    console.error('Error sending missed dose SMS:', error);
+    return false;
+  }
+}
+
+export async function sendMissedDoseAlert(
+  data: MissedDoseAlertData,
+  channels: { email: boolean; sms: boolean }
+): Promise<{ emailSent: boolean; smsSent: boolean }> {
+  const results = { emailSent: false, smsSent: false };
+
+  if (channels.email && data.contactEmail) {
+    results.emailSent = await sendMissedDoseAlertEmail(data);
+  }
+
+  if (channels.sms && data.contactPhone) {
+    results.smsSent = await sendMissedDoseAlertSMS(data);
+  }
+
+  return results;
+}
+
+export interface CountDiscrepancyAlertData {
+  recipientName: string;
+  medicationName: string;
+  dosage: string;
+  shift: string;
+  countedQuantity: number;
+  expectedQuantity: number;
+  countedBy: string;
+  witness: string;
+  countedAt: string;
+  contactName: string;
+  contactEmail?: string;
+  contactPhone?: string;
+}
+
+export async function sendCountDiscrepancyAlertEmail(data: CountDiscrepancyAlertData): Promise<boolean> {
+  try {
+    if (!process.env.SENDGRID_API_KEY || !data.contactEmail) {
+      console.warn('SendGrid API key or contact email missing, count discrepancy email not sent');
+      return false;
+    }
+
+    const difference = data.countedQuantity - data.expectedQuantity;
+
+    const msg = {
+      to: data.contactEmail,
+      from: process.env.EMAIL_FROM || 'noreply@compassiontracker.org',
+      subject: `⚠️ Controlled Substance Count Discrepancy: ${data.medicationName} for ${data.recipientName}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="background: linear-gradient(135deg, #DC2626 0%, #B91C1C 100%); padding: 30px; text-align: center;">
+            <h1 style="color: white; margin: 0; font-size: 24px;">⚠️ Count Discrepancy</h1>
+          </div>
+          
+          <div style="padding: 30px; background-color: white;">
+            <p style="color: #1f2937; line-height: 1.6; font-size: 18px; margin-bottom: 20px;">
+              Hi <strong>${data.contactName}</strong>,
+            </p>
+            
+            <p style="color: #4b5563; line-height: 1.6; font-size: 16px;">
+              The ${data.shift} shift count of a controlled medication for <strong>${data.recipientName}</strong> does not match the stock on record.
+            </p>
+            
+            <div style="background-color: #fee2e2; border-left: 4px solid #dc2626; padding: 20px; margin: 20px 0;">
+              <p style="color: #991b1b; margin: 5px 0; font-size: 16px;"><strong>Medication:</strong> ${data.medicationName} ${data.dosage}</p>
+              <p style="color: #991b1b; margin: 5px 0; font-size: 16px;"><strong>Counted:</strong> ${data.countedQuantity}</p>
+              <p style="color: #991b1b; margin: 5px 0; font-size: 16px;"><strong>Expected:</strong> ${data.expectedQuantity} (${difference > 0 ? `+${difference}` : difference})</p>
+              <p style="color: #991b1b; margin: 5px 0; font-size: 16px;"><strong>Counted by:</strong> ${data.countedBy}, witnessed by ${data.witness}</p>
+              <p style="color: #991b1b; margin: 5px 0; font-size: 16px;"><strong>Counted at:</strong> ${data.countedAt}</p>
+            </div>
+            
+            <p style="color: #4b5563; line-height: 1.6; font-size: 16px;">
+              Please review the count sheet in Compassion Tracker and record what was found.
+            </p>
+          </div>
+          
+          <div style="background-color: #f3f4f6; padding: 20px; text-align: center;">
+            <p style="color: #6b7280; font-size: 12px; margin: 0;">
+              This is an automated controlled substance alert from Compassion Tracker.
+            </p>
+          </div>
+        </div>
+      `,
+    };
+
+    await sgMail.send(msg);
+    console.log(`Count discrepancy email sent to ${data.contactEmail} for ${data.medicationName}`);
+    return true;
+  } catch (error) {
+    console.error('Error sending count discrepancy email:', error);
+    return false;
+  }
+}
+
+export async function sendCountDiscrepancyAlertSMS(data: CountDiscrepancyAlertData): Promise<boolean> {
+  try {
+    if (!twilioClient || !data.contactPhone) {
+      console.warn('Twilio not configured or phone number missing, count discrepancy SMS not sent');
+      return false;
+    }
+
+    const message = `⚠️ COUNT DISCREPANCY
+${data.recipientName}: ${data.medicationName} ${data.dosage}
+Counted ${data.countedQuantity}, expected ${data.expectedQuantity}
+${data.shift} shift, ${data.countedAt}
+
+Review the count sheet in Compassion Tracker.`;
+
+    await twilioClient.messages.create({
+      body: message,
+      from: process.env.TWILIO_PHONE_NUMBER,
+      to: data.contactPhone,
+    });
+
+    console.log(`Count discrepancy SMS sent to ${data.contactPhone} for ${data.medicationName}`);
+    return true;
+  } catch (error) {
+    console.error('Error sending count discrepancy SMS:', error);
+    return false;
+  }
+}
+
+export async function sendCountDiscrepancyAlert(
+  data: CountDiscrepancyAlertData,
+  channels: { email: boolean; sms: boolean }
+): Promise<{ emailSent: boolean; smsSent: boolean }> {
+  const results = { emailSent: false, smsSent: false };
+
+  if (channels.email && data.contactEmail) {
+    results.emailSent = await sendCountDiscrepancyAlertEmail(data);
+  }
+
+  if (channels.sms && data.contactPhone) {
+    results.smsSent = await sendCountDiscrepancyAlertSMS(data);
+  }
+
+  return results;
+}
+
+export interface ReadingAlertData {
+  recipientName: string;
+  readingLabel: string; // "Glucose reading" or "Blood pressure reading"
+  findings: string[]; // e.g. ["Systolic 182 mmHg is above 140"]
+  readingTime: string;
+  contactName: string;
+  contactEmail?: string;
+  contactPhone?: string;
+}
+
+export async function sendReadingAlertEmail(data: ReadingAlertData): Promise<boolean> {
+  try {
+    if (!process.env.SENDGRID_API_KEY || !data.contactEmail) {
+      console.warn('SendGrid API key or contact email missing, reading alert email not sent');
+      return false;
+    }
+
+    const msg = {
+      to: data.contactEmail,
+      from: process.env.EMAIL_FROM || 'noreply@compassiontracker.org',
+      subject: `⚠️ Abnormal Reading: ${data.readingLabel} for ${data.recipientName}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="background: linear-gradient(135deg, #DC2626 0%, #B91C1C 100%); padding: 30px; text-align: center;">
+            <h1 style="color: white; margin: 0; font-size: 24px;">⚠️ Abnormal Reading</h1>
+          </div>
+          
+          <div style="padding: 30px; background-color: white;">
+            <p style="color: #1f2937; line-height: 1.6; font-size: 18px; margin-bottom: 20px;">
+              Hi <strong>${data.contactName}</strong>,
+            </p>
+            
+            <p style="color: #4b5563; line-height: 1.6; font-size: 16px;">
+              A reading recorded for <strong>${data.recipientName}</strong> is outside the limits you set.
+            </p>
+            
+            <div style="background-color: #fee2e2; border-left: 4px solid #dc2626; padding: 20px; margin: 20px 0;">
+              <p style="color: #991b1b; margin: 5px 0; font-size: 16px;"><strong>Reading:</strong> ${data.readingLabel}</p>
+              ${data.findings.map(finding => `<p style="color: #991b1b; margin: 5px 0; font-size: 16px;">${finding}</p>`).join('')}
+              <p style="color: #991b1b; margin: 5px 0; font-size: 16px;"><strong>Taken at:</strong> ${data.readingTime}</p>
+            </div>
+            
+            <p style="color: #4b5563; line-height: 1.6; font-size: 16px;">
+              Please check on ${data.recipientName} and follow the care plan from their doctor.
+            </p>
+          </div>
+          
+          <div style="background-color: #f3f4f6; padding: 20px; text-align: center;">
+            <p style="color: #6b7280; font-size: 12px; margin: 0;">
+              This is an automated reading alert from Compassion Tracker.
+            </p>
+          </div>
+        </div>
+      `,
+    };
+
+    await sgMail.send(msg);
+    console.log(`Reading alert email sent to ${data.contactEmail} for ${data.recipientName}`);
+    return true;
+  } catch (error) {
+    console.error('Error sending reading alert email:', error);
+    return false;
+  }
+}
+
+export async function sendReadingAlertSMS(data: ReadingAlertData): Promise<boolean> {
+  try {
+    if (!twilioClient || !data.contactPhone) {
+      console.warn('Twilio not configured or phone number missing, reading alert SMS not sent');
+      return false;
+    }
+
+    const message = `⚠️ ABNORMAL READING
+${data.recipientName}: ${data.readingLabel}
+${data.findings.join('\n')}
+Taken at ${data.readingTime}
+
+Check the readings in Compassion Tracker.`;
+
+    await twilioClient.messages.create({
+      body: message,
+      from: process.env.TWILIO_PHONE_NUMBER,
+      to: data.contactPhone,
+    });
+
+    console.log(`Reading alert SMS sent to ${data.contactPhone} for ${data.recipientName}`);
+    return true;
+  } catch (error) {
+    console.error('Error sending reading alert SMS:', error);
+    return false;
+  }
+}
+
+export async function sendReadingAlert(
+  data: ReadingAlertData,
+  channels: { email: boolean; sms: boolean }
+): Promise<{ emailSent: boolean; smsSent: boolean }> {
+  const results = { emailSent: false, smsSent: false };
+
+  if (channels.email && data.contactEmail) {
+    results.emailSent = await sendReadingAlertEmail(data);
+  }
+
+  if (channels.sms && data.contactPhone) {
+    results.smsSent = await sendReadingAlertSMS(data);
+  }
+
+  return results;
+}
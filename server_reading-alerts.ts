@@ -0,0 +1,47 @@
+import { format } from "date-fns";
+import { storage } from "./storage";
+import { sendReadingAlert } from "./notification-service";
+import { describeBreach } from "@shared/clinical-thresholds";
+import type { ReadingAlert } from "@shared/schema";
+
+// Let the care recipient's owner know a new reading was outside their limits. The caregiver
+// picks the channels on the thresholds; the owner's contact details decide where they go.
+// Returns false when there was nothing to send.
+export async function notifyReadingAlerts(careRecipientId: number, alerts: ReadingAlert[], now: Date = new Date()) {
+  const pending = alerts.filter(alert => !alert.notifiedAt);
+  if (pending.length === 0) {
+    return false;
+  }
+
+  const careRecipient = await storage.getCareRecipientWithOwner(careRecipientId);
+  const owner = careRecipient?.user;
+  if (!careRecipient || !owner) {
+    return false;
+  }
+
+  const thresholds = await storage.getClinicalThresholds(careRecipientId);
+  if (!thresholds.notifyEmail && !thresholds.notifySms) {
+    return false;
+  }
+
+  const reading = pending[0];
+
+  await sendReadingAlert(
+    {
+      recipientName: careRecipient.name,
+      readingLabel: reading.readingType === 'glucose' ? 'Glucose reading' : 'Blood pressure reading',
+      findings: pending.map(alert => describeBreach(alert)),
+      readingTime: format(new Date(reading.readingTime), 'MMM d, h:mm a'),
+      contactName: owner.name || owner.username,
+      contactEmail: owner.email || undefined,
+      contactPhone: owner.phone || undefined
+    },
+    {
+      email: thresholds.notifyEmail,
+      sms: thresholds.notifySms
+    }
+  );
+
+  await storage.markReadingAlertsNotified(pending.map(alert => alert.id), now);
+  return true;
+}
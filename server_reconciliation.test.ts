@@ -0,0 +1,38 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("./storage", () => ({ storage: {} }));
+
+import { parseDischargeList, getMedicationMatchKey } from "./reconciliation";
+
+describe("parseDischargeList", () => {
+  it("splits each line into name, strength and instructions", () => {
+    const entries = parseDischargeList([
+      "1. Metoprolol tartrate 25 mg - take 1 tablet by mouth twice daily",
+      "- Furosemide 40mg, 1 tablet every morning",
+      "",
+      "Insulin glargine 100 units/mL"
+    ].join("\n"));
+
+    expect(entries).toEqual([
+      { name: "Metoprolol tartrate", dosage: "25 mg", instructions: "take 1 tablet by mouth twice daily" },
+      { name: "Furosemide", dosage: "40mg", instructions: "1 tablet every morning" },
+      { name: "Insulin glargine", dosage: "100 units/mL", instructions: null }
+    ]);
+  });
+
+  it("keeps lines without a strength, splitting off the instructions", () => {
+    expect(parseDischargeList("Senna - 2 tablets at bedtime as needed")).toEqual([
+      { name: "Senna", dosage: "", instructions: "2 tablets at bedtime as needed" }
+    ]);
+  });
+});
+
+describe("getMedicationMatchKey", () => {
+  it("drops the strength and dosage form", () => {
+    expect(getMedicationMatchKey("Metoprolol Tartrate 25mg tablets")).toBe("metoprolol tartrate");
+  });
+
+  it("swaps brand names for the generic", () => {
+    expect(getMedicationMatchKey("Coumadin 5 mg")).toBe(getMedicationMatchKey("warfarin"));
+  });
+});
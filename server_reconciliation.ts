@@ -0,0 +1,113 @@
+import { storage } from "./storage";
+import { brandNames } from "./interaction-dataset";
+import type { ReconciliationAction } from "@shared/reconciliation";
+
+// One medication as written on the discharge list
+export interface DischargeEntry {
+  name: string;
+  dosage: string;
+  instructions: string | null;
+}
+
+// A discharge entry lined up against the current medication list, with the action we'd expect
+export interface ReconciliationPreviewItem extends DischargeEntry {
+  normalizedName: string;
+  match: { medicationId: number; name: string; dosage: string; instructions: string | null } | null;
+  suggestedAction: ReconciliationAction;
+}
+
+// Strength as printed on a label: "25 mg", "0.5mg", "100 units", "5 mg/5 mL", "2%"
+const STRENGTH_PATTERN = /\d+(?:\.\d+)?\s*(?:mg|mcg|µg|g|ml|units?|iu|meq|%)(?:\s*\/\s*\d*(?:\.\d+)?\s*(?:ml|tab(?:let)?|dose|hr|h))?/i;
+
+// Dosage forms that don't change which medication it is
+const FORM_WORDS = /\b(tablets?|tabs?|capsules?|caps?|oral|by mouth|solution|suspension|liquid|pills?)\b/g;
+
+const normalizeText = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9\s-]/g, ' ').replace(/\s+/g, ' ').trim();
+
+// A key two names share when they're the same medication: strength and dosage form
+// removed and brand names swapped for the generic, so "Coumadin 5mg tablet" matches "Warfarin"
+export const getMedicationMatchKey = (name: string) => {
+  const words = normalizeText(name.replace(new RegExp(STRENGTH_PATTERN, 'gi'), ' '))
+    .replace(FORM_WORDS, ' ')
+    .split(' ')
+    .filter(Boolean)
+    .map(word => brandNames[word] || word);
+
+  return words.join(' ');
+};
+
+// "25 mg" and "25mg" are the same dose
+const normalizeDosage = (dosage: string) => dosage.toLowerCase().replace(/\s+/g, '');
+
+// Read a pasted discharge list, one medication per line, e.g.
+// "1. Metoprolol tartrate 25 mg tablet - take 1 tablet by mouth twice daily"
+export const parseDischargeList = (text: string): DischargeEntry[] => {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+    .filter(line => line.length > 0)
+    .map(line => {
+      const strength = line.match(STRENGTH_PATTERN);
+
+      if (!strength || strength.index === undefined) {
+        const [name, ...rest] = line.split(/\s+[-–:]\s+|;\s*/);
+        return { name: name.trim(), dosage: '', instructions: rest.join(' ').trim() || null };
+      }
+
+      const name = line.slice(0, strength.index).replace(/[,\s]+$/, '').trim();
+      const instructions = line.slice(strength.index + strength[0].length)
+        .replace(/^[\s,;:–-]+/, '')
+        .trim();
+
+      return { name, dosage: strength[0].trim(), instructions: instructions || null };
+    })
+    .filter(entry => entry.name.length > 0);
+};
+
+// Line the discharge list up with the care recipient's active medications. Anything active
+// that isn't on the list is suggested for stopping.
+export async function buildReconciliationPreview(careRecipientId: number, entries: DischargeEntry[]) {
+  // Everything still on the active list, including medications with their schedules switched off
+  const activeMedications = await storage.getMedications(careRecipientId, 'all', 'active');
+
+  const medicationKeys = activeMedications.map(med => ({ med, key: getMedicationMatchKey(med.name) }));
+
+  const matchedIds = new Set<number>();
+  const items: ReconciliationPreviewItem[] = [];
+
+  for (const entry of entries) {
+    const normalizedName = getMedicationMatchKey(entry.name);
+
+    const match = normalizedName
+      ? medicationKeys.find(({ med, key }) => !matchedIds.has(med.id) && key === normalizedName)?.med
+      : undefined;
+
+    if (match) matchedIds.add(match.id);
+
+    items.push({
+      ...entry,
+      normalizedName,
+      match: match
+        ? { medicationId: match.id, name: match.name, dosage: match.dosage, instructions: match.instructions }
+        : null,
+      suggestedAction: !match
+        ? 'new'
+        : !entry.dosage || normalizeDosage(entry.dosage) === normalizeDosage(match.dosage)
+          ? 'continue'
+          : 'change_dose'
+    });
+  }
+
+  const notOnList = activeMedications
+    .filter(med => !matchedIds.has(med.id))
+    .map(med => ({
+      medicationId: med.id,
+      name: med.name,
+      dosage: med.dosage,
+      instructions: med.instructions,
+      suggestedAction: 'stop' as const
+    }));
+
+  return { items, notOnList };
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { buildRefillRequest } from "./refill-request";
+
+type Relation = Parameters<typeof buildRefillRequest>[0];
+
+const relation = (medication: Record<string, unknown> = {}, pharmacy: Record<string, unknown> = {}) => ({
+  refillInfo: null,
+  medication: {
+    name: "Lisinopril",
+    dosage: "10mg",
+    prescriptionNumber: "RX-1234",
+    originalQuantity: 30,
+    refillsRemaining: 2,
+    prescribingDoctor: { name: "Dr. Patel", phoneNumber: "555-0100" },
+    careRecipient: { name: "Ann Smith" },
+    ...medication
+  },
+  pharmacy: {
+    name: "Main St Pharmacy",
+    phoneNumber: "555-0199",
+    email: "rx@mainst.example",
+    faxNumber: null,
+    ...pharmacy
+  }
+}) as unknown as Relation;
+
+describe("buildRefillRequest", () => {
+  it("lists the prescription details the pharmacy needs", () => {
+    const request = buildRefillRequest(relation(), {
+      dateOfBirth: "1940-03-02",
+      requestedBy: { name: "Jo Smith", phone: "555-0123", email: null }
+    });
+
+    expect(request.subject).toBe("Refill request: Lisinopril 10mg for Ann Smith");
+    expect(request.body).toContain("Date of birth: March 2, 1940");
+    expect(request.body).toContain("Prescription (Rx) number: RX-1234");
+    expect(request.body).toContain("Prescriber: Dr. Patel (555-0100)");
+    expect(request.body.endsWith("Thank you,\nJo Smith\n555-0123")).toBe(true);
+    expect(request.body).not.toContain("no refills remaining");
+  });
+
+  it("asks the pharmacy to contact the prescriber when no refills are left", () => {
+    expect(buildRefillRequest(relation({ refillsRemaining: 0 })).body).toContain("no refills remaining");
+  });
+
+  it("only builds a mailto link when the pharmacy has an email address", () => {
+    const request = buildRefillRequest(relation());
+
+    expect(request.mailto).toBe(
+      `mailto:rx@mainst.example?subject=${encodeURIComponent(request.subject)}&body=${encodeURIComponent(request.body)}`
+    );
+    expect(buildRefillRequest(relation({}, { email: null })).mailto).toBeNull();
+  });
+});
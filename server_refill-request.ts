@@ -0,0 +1,83 @@
+import { format } from "date-fns";
+import type { storage } from "./storage";
+
+type MedicationPharmacyWithDetails = NonNullable<Awaited<ReturnType<typeof storage.getMedicationPharmacy>>>;
+
+// Text for a refill request, ready to paste into an email or print on a fax cover sheet
+export interface RefillRequest {
+  subject: string;
+  body: string;
+  pharmacy: {
+    name: string;
+    phoneNumber: string;
+    email: string | null;
+    faxNumber: string | null;
+  };
+  mailto: string | null;
+}
+
+export function buildRefillRequest(
+  relation: MedicationPharmacyWithDetails,
+  details: {
+    dateOfBirth?: string | null;
+    requestedBy?: { name: string | null; phone: string | null; email: string | null } | null;
+  } = {}
+): RefillRequest {
+  const { medication, pharmacy } = relation;
+  const patientName = medication.careRecipient?.name || 'Patient';
+
+  const lines = [
+    `Hello ${pharmacy.name},`,
+    '',
+    `Please refill the following prescription for ${patientName}.`,
+    '',
+    `Patient: ${patientName}`,
+  ];
+
+  if (details.dateOfBirth) {
+    lines.push(`Date of birth: ${format(new Date(`${details.dateOfBirth}T00:00:00`), 'MMMM d, yyyy')}`);
+  }
+
+  lines.push(`Medication: ${medication.name} ${medication.dosage}`);
+
+  if (medication.prescriptionNumber) {
+    lines.push(`Prescription (Rx) number: ${medication.prescriptionNumber}`);
+  }
+  if (medication.originalQuantity) {
+    lines.push(`Quantity: ${medication.originalQuantity}`);
+  }
+  if (medication.prescribingDoctor) {
+    lines.push(`Prescriber: ${medication.prescribingDoctor.name} (${medication.prescribingDoctor.phoneNumber})`);
+  }
+  if (relation.refillInfo) {
+    lines.push(`Notes: ${relation.refillInfo}`);
+  }
+
+  // The pharmacy will need to contact the prescriber when there are no refills left on file
+  if ((medication.refillsRemaining || 0) <= 0) {
+    lines.push('', 'Our records show no refills remaining - please contact the prescriber for a new prescription.');
+  }
+
+  const requester = details.requestedBy;
+  lines.push('', 'Please let us know when it is ready for pickup.', '', 'Thank you,');
+  if (requester?.name) lines.push(requester.name);
+  if (requester?.phone) lines.push(requester.phone);
+  if (requester?.email) lines.push(requester.email);
+
+  const subject = `Refill request: ${medication.name} ${medication.dosage} for ${patientName}`;
+  const body = lines.join('\n');
+
+  return {
+    subject,
+    body,
+    pharmacy: {
+      name: pharmacy.name,
+      phoneNumber: pharmacy.phoneNumber,
+      email: pharmacy.email,
+      faxNumber: pharmacy.faxNumber
+    },
+    mailto: pharmacy.email
+      ? `mailto:${pharmacy.email}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`
+      : null
+  };
+}
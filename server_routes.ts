@@ -1,8 +1,24 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
+import rateLimit from "express-rate-limit";
 import { createServer, type Server } from "http";
 import { storage, scheduleMidnightReset } from "./storage";
-import { setupAuth } from "./auth";
+import { setupAuth, comparePasswords } from "./auth";
 import { setupWebAuthn } from "./webauthn";
+import { scheduleMedicationReminders } from "./medication-reminders";
+import { scheduleMissedDoseChecks } from "./missed-doses";
+import { scheduleExpiredStockWriteOffs } from "./expirations";
+import { checkMedicationAllergies, type AllergyWarning } from "./allergy-check";
+import { loadInteractionDataset, checkInteractionsByNames, getCareRecipientInteractions } from "./interactions";
+import { renderMedicationAdministrationRecord } from "./mar-pdf";
+import { buildRefillRequest } from "./refill-request";
+import { alertCountDiscrepancy } from "./controlled-counts";
+import { notifyReadingAlerts } from "./reading-alerts";
+import { importGlucoseCsv } from "./glucose-import";
+import { importAppleHealthExport, extractExportXml } from "./apple-health-import";
+import { parseDischargeList, buildReconciliationPreview } from "./reconciliation";
+import { isDoseGiven } from "@shared/dose-outcomes";
+import type { ReconciliationItem } from "@shared/reconciliation";
+import { DEFAULT_GLUCOSE_ANALYTICS_WINDOW, glucoseAnalyticsWindows } from "@shared/glucose-analytics";
 import * as medicationService from "./services/medicationService";
 import { WebSocketServer } from "ws";
 import { db } from "../db";
@@ -24,8 +40,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
   scheduleMidnightReset();
   console.log('Midnight reset scheduler initialized');
   
+  // Start dispatching medication reminders for schedules with reminders enabled
+  scheduleMedicationReminders();
+  
+  // Start watching for scheduled doses that were never logged
+  scheduleMissedDoseChecks();
+  
+  // Start writing off expired stock for caregivers who have turned it on
+  scheduleExpiredStockWriteOffs();
+  
+  // Load the bundled drug interaction dataset (checks use the in-memory copy until this finishes)
+  loadInteractionDataset();
+  
   // API prefix
   const apiPrefix = '/api';
+  
+  // Wrong witness passwords count against the caregiver recording the count, so the
+  // sign-off can't be used to guess another caregiver's password
+  const witnessCheckLimiter = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 5, // Failed witness sign-offs per caregiver per window
+    message: { message: 'Too many failed witness sign-offs, please try again after 15 minutes' },
+    standardHeaders: true,
+    legacyHeaders: false,
+    keyGenerator: (req) => `witness-${req.user?.id}`,
+    skipSuccessfulRequests: true,
+    requestWasSuccessful: (req, res) => res.locals.witnessRejected !== true
+  });
+  
+  // Log lists can be narrowed to one caregiver's entries with ?loggedBy=<userId>
+  const getLoggedByFilter = (value: unknown) => {
+    const userId = parseInt(value as string);
+    return isNaN(userId) ? undefined : userId;
+  };
 
   // Care Recipients
   app.get(`${apiPrefix}/care-recipients`, isAuthenticated, async (req, res) => {
@@ -178,17 +225,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Scheduled Doses - expands medication schedules into concrete doses for a date range
+  app.get(`${apiPrefix}/doses`, async (req, res) => {
+    try {
+      const careRecipientId = req.query.careRecipientId as string;
+      const from = req.query.from as string;
+      const to = (req.query.to as string) || from;
+
+      if (!careRecipientId) {
+        return res.status(400).json({ message: 'Care recipient ID is required' });
+      }
+
+      if (!from || !from.match(/^\d{4}-\d{2}-\d{2}$/) || !to.match(/^\d{4}-\d{2}-\d{2}$/)) {
+        return res.status(400).json({ message: 'from and to must be in YYYY-MM-DD format' });
+      }
+
+      const { start } = storage.getDateRange(from);
+      const { end } = storage.getDateRange(to);
+
+      if (end < start) {
+        return res.status(400).json({ message: 'to must not be before from' });
+      }
+
+      // Keep the expansion bounded - a year is plenty for any calendar view or report
+      if (end.getTime() - start.getTime() > 366 * 24 * 60 * 60 * 1000) {
+        return res.status(400).json({ message: 'Date range cannot exceed one year' });
+      }
+
+      const doses = await storage.getScheduledDoses(parseInt(careRecipientId), start, end);
+      res.json(doses);
+    } catch (error) {
+      console.error('Error fetching scheduled doses:', error);
+      res.status(500).json({ message: 'Error fetching scheduled doses' });
+    }
+  });
+
   // Medications
   app.get(`${apiPrefix}/medications`, async (req, res) => {
     try {
       const careRecipientId = req.query.careRecipientId as string;
       const filter = req.query.filter as string || 'today';
+      const status = req.query.status as string || 'active';
       
       if (!careRecipientId) {
         return res.status(400).json({ message: 'Care recipient ID is required' });
       }
       
-      const medications = await storage.getMedications(parseInt(careRecipientId), filter);
+      if (!['active', 'discontinued', 'all'].includes(status)) {
+        return res.status(400).json({ message: 'Status must be active, discontinued or all' });
+      }
+      
+      const medications = await storage.getMedications(parseInt(careRecipientId), filter, status);
       res.json(medications);
     } catch (error) {
       console.error('Error fetching medications:', error);
@@ -198,15 +285,201 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post(`${apiPrefix}/medications`, async (req, res) => {
     try {
-      const newMedication = await storage.createMedication(req.body);
-      res.status(201).json(newMedication);
+      const { allergyWarningsAcknowledged, ...medicationData } = req.body;
+
+      // Don't save a medication that conflicts with a recorded allergy until the caregiver has seen the warning
+      const allergyWarnings = await checkMedicationAllergies(medicationData.careRecipientId, medicationData.name);
+      if (allergyWarnings.length > 0 && allergyWarningsAcknowledged !== true) {
+        return res.status(409).json({
+          message: 'Medication conflicts with a recorded allergy',
+          allergyWarnings
+        });
+      }
+
+      const newMedication = await storage.createMedication(medicationData);
+
+      // Check the new medication against everything else the care recipient is taking
+      let interactions: any[] = [];
+      try {
+        const report = await getCareRecipientInteractions(newMedication.careRecipientId);
+        interactions = report.interactions.filter(interaction =>
+          interaction.medicationId1 === newMedication.id || interaction.medicationId2 === newMedication.id
+        );
+      } catch (interactionError) {
+        console.error('Error checking interactions for new medication:', interactionError);
+      }
+
+      res.status(201).json({ ...newMedication, interactions });
     } catch (error) {
       console.error('Error creating medication:', error);
       res.status(500).json({ message: 'Error creating medication' });
     }
   });
   
-  // Delete medication
+  // Discontinue a medication, keeping its history
+  app.post(`${apiPrefix}/medications/:id/discontinue`, async (req, res) => {
+    try {
+      const medicationId = parseInt(req.params.id);
+      if (isNaN(medicationId)) {
+        return res.status(400).json({ message: 'Invalid medication ID' });
+      }
+      
+      const { reason, stopDate } = req.body;
+      if (stopDate && !/^\d{4}-\d{2}-\d{2}$/.test(stopDate)) {
+        return res.status(400).json({ message: 'stopDate must be in YYYY-MM-DD format' });
+      }
+      
+      const medication = await storage.discontinueMedication(medicationId, { reason, stopDate });
+      res.json(medication);
+    } catch (error) {
+      console.error('Error discontinuing medication:', error);
+      if (error instanceof Error && error.message === 'Medication not found') {
+        return res.status(404).json({ message: 'Medication not found' });
+      }
+      res.status(500).json({ message: 'Error discontinuing medication' });
+    }
+  });
+  
+  // Medication reconciliation - line a discharge list up against the current medications
+  app.post(`${apiPrefix}/medication-reconciliations/preview`, async (req, res) => {
+    try {
+      const careRecipientId = parseInt(req.body.careRecipientId);
+      const { text, entries } = req.body;
+      
+      if (isNaN(careRecipientId)) {
+        return res.status(400).json({ message: 'Care recipient ID is required' });
+      }
+      
+      // Either a pasted list or entries typed in one at a time
+      const dischargeEntries = Array.isArray(entries)
+        ? entries
+            .filter((entry: any) => entry && typeof entry.name === 'string' && entry.name.trim())
+            .map((entry: any) => ({
+              name: entry.name.trim(),
+              dosage: typeof entry.dosage === 'string' ? entry.dosage.trim() : '',
+              instructions: entry.instructions || null
+            }))
+        : parseDischargeList(typeof text === 'string' ? text : '');
+      
+      if (dischargeEntries.length === 0) {
+        return res.status(400).json({ message: 'Enter at least one medication from the discharge list' });
+      }
+      
+      const preview = await buildReconciliationPreview(careRecipientId, dischargeEntries);
+      res.json(preview);
+    } catch (error) {
+      console.error('Error building reconciliation preview:', error);
+      res.status(500).json({ message: 'Error building reconciliation preview' });
+    }
+  });
+  
+  // Apply the chosen continue / change dose / stop / new decisions all at once
+  app.post(`${apiPrefix}/medication-reconciliations`, async (req, res) => {
+    try {
+      const careRecipientId = parseInt(req.body.careRecipientId);
+      const { facility, dischargeDate, notes, items, allergyWarningsAcknowledged } = req.body;
+      
+      if (isNaN(careRecipientId)) {
+        return res.status(400).json({ message: 'Care recipient ID is required' });
+      }
+      
+      if (!Array.isArray(items) || items.length === 0) {
+        return res.status(400).json({ message: 'At least one reconciliation decision is required' });
+      }
+      
+      if (dischargeDate && !/^\d{4}-\d{2}-\d{2}$/.test(dischargeDate)) {
+        return res.status(400).json({ message: 'dischargeDate must be in YYYY-MM-DD format' });
+      }
+      
+      // New medications from the discharge list get the same allergy check as one added by hand
+      const allergyWarnings: AllergyWarning[] = [];
+      for (const item of items) {
+        if (item?.action === 'new' && typeof item.name === 'string') {
+          allergyWarnings.push(...await checkMedicationAllergies(careRecipientId, item.name.trim()));
+        }
+      }
+      if (allergyWarnings.length > 0 && allergyWarningsAcknowledged !== true) {
+        return res.status(409).json({
+          message: 'Medication conflicts with a recorded allergy',
+          allergyWarnings
+        });
+      }
+      
+      const reconciliation = await storage.applyMedicationReconciliation(
+        careRecipientId,
+        { facility, dischargeDate, notes, items },
+        req.user?.id
+      );
+      
+      // Check the new medications against everything else the care recipient is taking
+      let interactions: any[] = [];
+      const newMedicationIds = (reconciliation.items as ReconciliationItem[])
+        .filter(item => item.action === 'new')
+        .map(item => item.medicationId);
+      if (newMedicationIds.length > 0) {
+        try {
+          const report = await getCareRecipientInteractions(careRecipientId);
+          interactions = report.interactions.filter(interaction => newMedicationIds.some(id =>
+            interaction.medicationId1 === id || interaction.medicationId2 === id
+          ));
+        } catch (interactionError) {
+          console.error('Error checking interactions for reconciled medications:', interactionError);
+        }
+      }
+      
+      res.status(201).json({ ...reconciliation, interactions });
+    } catch (error) {
+      console.error('Error applying medication reconciliation:', error);
+      if (error instanceof Error && (error.message === 'Care recipient not found' || error.message === 'Medication not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof Error && (
+        error.message === 'Invalid reconciliation action' ||
+        error.message === 'New medications need a name and dosage' ||
+        error.message === 'A dose change needs the new dosage'
+      )) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: 'Error applying medication reconciliation' });
+    }
+  });
+  
+  app.get(`${apiPrefix}/medication-reconciliations`, async (req, res) => {
+    try {
+      const careRecipientId = req.query.careRecipientId as string;
+      
+      if (!careRecipientId) {
+        return res.status(400).json({ message: 'Care recipient ID is required' });
+      }
+      
+      const reconciliations = await storage.getMedicationReconciliations(parseInt(careRecipientId));
+      res.json(reconciliations);
+    } catch (error) {
+      console.error('Error fetching medication reconciliations:', error);
+      res.status(500).json({ message: 'Error fetching medication reconciliations' });
+    }
+  });
+  
+  // Restart a discontinued medication
+  app.post(`${apiPrefix}/medications/:id/reactivate`, async (req, res) => {
+    try {
+      const medicationId = parseInt(req.params.id);
+      if (isNaN(medicationId)) {
+        return res.status(400).json({ message: 'Invalid medication ID' });
+      }
+      
+      const medication = await storage.reactivateMedication(medicationId);
+      res.json(medication);
+    } catch (error) {
+      console.error('Error reactivating medication:', error);
+      if (error instanceof Error && error.message === 'Medication not found') {
+        return res.status(404).json({ message: 'Medication not found' });
+      }
+      res.status(500).json({ message: 'Error reactivating medication' });
+    }
+  });
+  
+  // Permanently delete a medication and all of its history (for entries added by mistake)
   app.delete(`${apiPrefix}/medications/:id`, async (req, res) => {
     try {
       const medicationId = parseInt(req.params.id);
@@ -230,24 +503,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (isNaN(medicationId)) {
         return res.status(400).json({ message: 'Invalid medication ID' });
       }
-      
-      const updatedMedication = await storage.updateMedication(medicationId, req.body);
+
+      const { allergyWarningsAcknowledged, ...medicationData } = req.body;
+
+      const existingMedication = await storage.getMedication(medicationId);
+      if (!existingMedication) {
+        return res.status(404).json({ message: 'Medication not found' });
+      }
+
+      // Only re-check when the name changes - the allergy was already acknowledged (or absent) for the current one
+      if (medicationData.name && medicationData.name !== existingMedication.name) {
+        const allergyWarnings = await checkMedicationAllergies(existingMedication.careRecipientId, medicationData.name);
+        if (allergyWarnings.length > 0 && allergyWarningsAcknowledged !== true) {
+          return res.status(409).json({
+            message: 'Medication conflicts with a recorded allergy',
+            allergyWarnings
+          });
+        }
+      }
+
+      const updatedMedication = await storage.updateMedication(medicationId, medicationData, req.user?.id);
       res.json(updatedMedication);
     } catch (error) {
+      if (error instanceof Error && error.message === 'Doctor not found') {
+        return res.status(400).json({ message: error.message });
+      }
       console.error('Error updating medication:', error);
       res.status(500).json({ message: 'Error updating medication' });
     }
   });
   
+  // Change history for a medication - dosage, instructions, prescriber and schedule edits
+  app.get(`${apiPrefix}/medications/:id/changes`, async (req, res) => {
+    try {
+      const medicationId = parseInt(req.params.id);
+      if (isNaN(medicationId)) {
+        return res.status(400).json({ message: 'Invalid medication ID' });
+      }
+      
+      const changes = await storage.getMedicationChanges(medicationId);
+      res.json(changes);
+    } catch (error) {
+      console.error('Error fetching medication changes:', error);
+      res.status(500).json({ message: 'Error fetching medication changes' });
+    }
+  });
+  
   // Update medication inventory
   app.patch(`${apiPrefix}/medications/:id/inventory`, async (req, res) => {
     try {
       const medicationId = parseInt(req.params.id);
-      const { currentQuantity, reorderThreshold, daysToReorder, originalQuantity, refillsRemaining, lastRefillDate } = req.body;
+      const { currentQuantity, reorderThreshold, daysToReorder, originalQuantity, refillsRemaining, lastRefillDate, expirationDate, isControlled, controlledSchedule, adjustmentNotes } = req.body;
+      
+      if (expirationDate && !String(expirationDate).match(/^\d{4}-\d{2}-\d{2}$/)) {
+        return res.status(400).json({ message: 'expirationDate must be in YYYY-MM-DD format' });
+      }
+      
+      if (controlledSchedule && !['II', 'III', 'IV', 'V'].includes(controlledSchedule)) {
+        return res.status(400).json({ message: 'controlledSchedule must be II, III, IV or V' });
+      }
       
       const updatedMedication = await storage.updateMedicationInventory(
         medicationId, 
-        { currentQuantity, reorderThreshold, daysToReorder, originalQuantity, refillsRemaining, lastRefillDate }
+        { currentQuantity, reorderThreshold, daysToReorder, originalQuantity, refillsRemaining, lastRefillDate, expirationDate, isControlled, controlledSchedule, adjustmentNotes }
       );
       
       res.json(updatedMedication);
@@ -261,12 +579,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post(`${apiPrefix}/medications/:id/refill`, async (req, res) => {
     try {
       const medicationId = parseInt(req.params.id);
-      const { refillAmount, refillDate } = req.body;
+      const { refillAmount, refillDate, expirationDate } = req.body;
+      
+      if (expirationDate && !String(expirationDate).match(/^\d{4}-\d{2}-\d{2}$/)) {
+        return res.status(400).json({ message: 'expirationDate must be in YYYY-MM-DD format' });
+      }
       
       const updatedMedication = await storage.refillMedication(
         medicationId, 
         refillAmount, 
-        refillDate || new Date()
+        refillDate || new Date(),
+        expirationDate || undefined
       );
       
       res.json(updatedMedication);
@@ -276,6 +599,196 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Record wasted stock (dropped, spoiled, disposed of)
+  app.post(`${apiPrefix}/medications/:id/waste`, async (req, res) => {
+    try {
+      const medicationId = parseInt(req.params.id);
+      const quantity = parseInt(req.body.quantity);
+      
+      if (isNaN(quantity) || quantity <= 0) {
+        return res.status(400).json({ message: 'Quantity must be a positive whole number' });
+      }
+      
+      const { medication } = await storage.recordMedicationWaste(medicationId, quantity, req.body.notes);
+      res.json(medication);
+    } catch (error) {
+      console.error('Error recording medication waste:', error);
+      res.status(500).json({ message: 'Error recording medication waste' });
+    }
+  });
+  
+  // Write off stock that is past its expiration date
+  app.post(`${apiPrefix}/medications/:id/write-off-expired`, async (req, res) => {
+    try {
+      const medicationId = parseInt(req.params.id);
+      
+      if (isNaN(medicationId)) {
+        return res.status(400).json({ message: 'Invalid medication ID format' });
+      }
+      
+      const result = await storage.writeOffExpiredStock(medicationId);
+      res.json(result);
+    } catch (error) {
+      console.error('Error writing off expired stock:', error);
+      if (error instanceof Error && error.message === 'Medication not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === 'Medication has not expired') {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: 'Error writing off expired stock' });
+    }
+  });
+  
+  // Medication inventory ledger
+  app.get(`${apiPrefix}/medications/:id/inventory-ledger`, async (req, res) => {
+    try {
+      const medicationId = parseInt(req.params.id);
+      
+      if (isNaN(medicationId)) {
+        return res.status(400).json({ message: 'Invalid medication ID format' });
+      }
+      
+      const ledger = await storage.getMedicationInventoryLedger(medicationId);
+      res.json(ledger);
+    } catch (error) {
+      console.error('Error fetching medication inventory ledger:', error);
+      res.status(500).json({ message: 'Error fetching medication inventory ledger' });
+    }
+  });
+  
+  // Controlled substance count sheet for a medication
+  app.get(`${apiPrefix}/medications/:id/controlled-counts`, async (req, res) => {
+    try {
+      const medicationId = parseInt(req.params.id);
+      
+      if (isNaN(medicationId)) {
+        return res.status(400).json({ message: 'Invalid medication ID format' });
+      }
+      
+      const counts = await storage.getControlledSubstanceCounts(medicationId);
+      res.json(counts);
+    } catch (error) {
+      console.error('Error fetching controlled substance counts:', error);
+      res.status(500).json({ message: 'Error fetching controlled substance counts' });
+    }
+  });
+  
+  // Record a shift count - the witness signs off with their own username and password
+  app.post(`${apiPrefix}/medications/:id/controlled-counts`, isAuthenticated, witnessCheckLimiter, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+      
+      const medicationId = parseInt(req.params.id);
+      const countedQuantity = parseFloat(req.body.countedQuantity);
+      const { shift, witnessUsername, witnessPassword, notes } = req.body;
+      
+      if (isNaN(medicationId)) {
+        return res.status(400).json({ message: 'Invalid medication ID format' });
+      }
+      
+      if (isNaN(countedQuantity) || countedQuantity < 0) {
+        return res.status(400).json({ message: 'Counted quantity must be zero or more' });
+      }
+      
+      if (!witnessUsername || !witnessPassword) {
+        return res.status(400).json({ message: 'A witness must sign off on the count' });
+      }
+      
+      const witness = await storage.getUserByUsername(witnessUsername);
+      if (!witness || !(await comparePasswords(witnessPassword, witness.password))) {
+        res.locals.witnessRejected = true;
+        return res.status(400).json({ message: 'Witness username or password is incorrect' });
+      }
+      
+      const count = await storage.recordControlledSubstanceCount(
+        medicationId,
+        { shift, countedQuantity, witnessId: witness.id, notes },
+        req.user.id
+      );
+      
+      if (count.discrepancy !== 0) {
+        try {
+          await alertCountDiscrepancy(count.id);
+        } catch (error) {
+          // The count itself was recorded - the discrepancy still shows in the app
+          console.error('Error sending count discrepancy alert:', error);
+        }
+      }
+      
+      res.status(201).json(count);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Medication not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof Error && (
+        error.message === 'Medication is not a controlled substance' ||
+        error.message === 'Invalid shift' ||
+        error.message === 'The witness must be a different caregiver'
+      )) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Error recording controlled substance count:', error);
+      res.status(500).json({ message: 'Error recording controlled substance count' });
+    }
+  });
+  
+  // Unresolved count discrepancies for a care recipient
+  app.get(`${apiPrefix}/controlled-counts/discrepancies`, async (req, res) => {
+    try {
+      const careRecipientId = req.query.careRecipientId as string;
+      
+      if (!careRecipientId) {
+        return res.status(400).json({ message: 'Care recipient ID is required' });
+      }
+      
+      const discrepancies = await storage.getControlledSubstanceDiscrepancies(parseInt(careRecipientId));
+      res.json(discrepancies);
+    } catch (error) {
+      console.error('Error fetching count discrepancies:', error);
+      res.status(500).json({ message: 'Error fetching count discrepancies' });
+    }
+  });
+  
+  // Record what was found when looking into a discrepancy
+  app.post(`${apiPrefix}/controlled-counts/:id/resolve`, isAuthenticated, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+      
+      const countId = parseInt(req.params.id);
+      const { notes, adjustStock } = req.body;
+      
+      if (isNaN(countId)) {
+        return res.status(400).json({ message: 'Invalid count ID format' });
+      }
+      
+      if (!notes || !String(notes).trim()) {
+        return res.status(400).json({ message: 'Resolution notes are required' });
+      }
+      
+      const count = await storage.resolveControlledSubstanceCount(
+        countId,
+        { notes: String(notes).trim(), adjustStock: adjustStock === true },
+        req.user.id
+      );
+      
+      res.json(count);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Count not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === 'Count has already been resolved') {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Error resolving controlled substance count:', error);
+      res.status(500).json({ message: 'Error resolving controlled substance count' });
+    }
+  });
+  
   // Medication Schedules
   app.get(`${apiPrefix}/medication-schedules`, async (req, res) => {
     try {
@@ -295,7 +808,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   app.post(`${apiPrefix}/medication-schedules`, async (req, res) => {
     try {
-      const newSchedule = await storage.createMedicationSchedule(req.body);
+      const newSchedule = await storage.createMedicationSchedule(req.body, { userId: req.user?.id });
       res.status(201).json(newSchedule);
     } catch (error) {
       console.error('Error creating medication schedule:', error);
@@ -310,20 +823,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Invalid schedule ID' });
       }
       
-      // First get the existing schedule to ensure it exists
-      const existingSchedules = await storage.getMedicationSchedules(req.body.medicationId);
-      const existingSchedule = existingSchedules.find(s => s.id === scheduleId);
-      
-      if (!existingSchedule) {
-        return res.status(404).json({ message: 'Medication schedule not found' });
-      }
-      
-      // Update the schedule by deleting and recreating with the same ID
-      await storage.deleteMedicationSchedule(scheduleId);
-      const updatedSchedule = await storage.createMedicationSchedule({
-        ...req.body,
-        id: scheduleId
-      });
+      const updatedSchedule = await storage.updateMedicationSchedule(scheduleId, req.body, req.user?.id);
       
       // Always return a proper JSON response with the updated schedule
       res.status(200).json(updatedSchedule || { 
@@ -332,6 +832,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         message: "Schedule updated successfully" 
       });
     } catch (error) {
+      if (error instanceof Error && error.message === 'Medication schedule not found') {
+        return res.status(404).json({ message: error.message });
+      }
       console.error('Error updating medication schedule:', error);
       res.status(500).json({ message: 'Error updating medication schedule' });
     }
@@ -348,7 +851,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const idToUse = !isNaN(numericId) ? numericId : scheduleId;
       
       console.log(`Attempting to delete schedule with ID: ${idToUse} (${typeof idToUse})`);
-      await storage.deleteMedicationSchedule(idToUse);
+      await storage.deleteMedicationSchedule(idToUse, { userId: req.user?.id });
       
       res.status(200).json({ message: 'Medication schedule deleted successfully' });
     } catch (error) {
@@ -373,6 +876,86 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.status(500).json({ message: 'Error fetching medications needing reorder' });
     }
   });
+
+  // Medications that have expired or will soon
+  app.get(`${apiPrefix}/medications/expiring`, async (req, res) => {
+    try {
+      const careRecipientId = req.query.careRecipientId as string;
+      const leadDaysParam = req.query.leadDays as string | undefined;
+
+      if (!careRecipientId) {
+        return res.status(400).json({ message: 'Care recipient ID is required' });
+      }
+
+      let leadDays: number | undefined;
+      if (leadDaysParam !== undefined) {
+        leadDays = parseInt(leadDaysParam);
+        if (isNaN(leadDays) || leadDays < 0 || leadDays > 365) {
+          return res.status(400).json({ message: 'leadDays must be between 0 and 365' });
+        }
+      }
+
+      const expiring = await storage.getExpiringMedications(parseInt(careRecipientId), leadDays);
+      res.json(expiring);
+    } catch (error) {
+      console.error('Error fetching expiring medications:', error);
+      if (error instanceof Error && error.message === 'Care recipient not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(500).json({ message: 'Error fetching expiring medications' });
+    }
+  });
+
+  // Projected run-out and reorder dates for every medication
+  app.get(`${apiPrefix}/medications/refill-forecast`, async (req, res) => {
+    try {
+      const careRecipientId = req.query.careRecipientId as string;
+
+      if (!careRecipientId) {
+        return res.status(400).json({ message: 'Care recipient ID is required' });
+      }
+
+      const forecast = await storage.getRefillForecast(parseInt(careRecipientId));
+      res.json(forecast);
+    } catch (error) {
+      console.error('Error fetching refill forecast:', error);
+      res.status(500).json({ message: 'Error fetching refill forecast' });
+    }
+  });
+
+  // When each as-needed medication can next be given under its dose limits
+  app.get(`${apiPrefix}/medications/prn-status`, async (req, res) => {
+    try {
+      const careRecipientId = req.query.careRecipientId as string;
+
+      if (!careRecipientId) {
+        return res.status(400).json({ message: 'Care recipient ID is required' });
+      }
+
+      const statuses = await storage.getPrnDoseStatuses(parseInt(careRecipientId));
+      res.json(statuses);
+    } catch (error) {
+      console.error('Error fetching PRN dose status:', error);
+      res.status(500).json({ message: 'Error fetching PRN dose status' });
+    }
+  });
+
+  // Interactions across the care recipient's whole active medication list, from the local dataset
+  app.get(`${apiPrefix}/medications/interaction-report`, async (req, res) => {
+    try {
+      const careRecipientId = req.query.careRecipientId as string;
+
+      if (!careRecipientId) {
+        return res.status(400).json({ message: 'Care recipient ID is required' });
+      }
+
+      const report = await getCareRecipientInteractions(parseInt(careRecipientId));
+      res.json(report);
+    } catch (error) {
+      console.error('Error fetching medication interaction report:', error);
+      res.status(500).json({ message: 'Error fetching medication interaction report' });
+    }
+  });
   
   // Drug Database - Get medication name suggestions
   app.get(`${apiPrefix}/medications/suggestions`, async (req, res) => {
@@ -406,17 +989,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log(`Checking interactions for medications: ${medicationNames.join(', ')}`);
       
-      // First try our fallback mechanism directly since external API is having issues
-      const knownInteractions = medicationService.checkKnownInteractions(medicationNames);
+      // The bundled dataset works offline, so it's always checked first
+      const localInteractions = checkInteractionsByNames(medicationNames);
       
-      console.log('Found interactions:', knownInteractions);
-      
-      if (knownInteractions.interactions.length > 0) {
-        console.log('Found interactions using known medication database');
-        return res.json(knownInteractions);
+      if (localInteractions.interactions.length > 0) {
+        console.log(`Found ${localInteractions.interactions.length} interactions in local dataset`);
+        return res.json(localInteractions);
       }
       
-      // If no known interactions, try the full service with external API
+      // If nothing is known locally, try the full service with external API
       try {
         const result = await medicationService.checkDrugInteractionsByNames(medicationNames);
         res.json(result);
@@ -461,58 +1042,288 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!medications || !Array.isArray(medications) || medications.length < 2) {
         return res.status(400).json({ message: 'At least two medication names are required' });
       }
-      
-      const interactions = await medicationService.checkDrugInteractionsByNames(medications);
-      res.json(interactions);
+      
+      const localInteractions = checkInteractionsByNames(medications);
+      if (localInteractions.interactions.length > 0) {
+        return res.json(localInteractions);
+      }
+      
+      try {
+        const interactions = await medicationService.checkDrugInteractionsByNames(medications);
+        res.json(interactions);
+      } catch (serviceError) {
+        console.error('Service error:', serviceError);
+        res.json(localInteractions);
+      }
+    } catch (error) {
+      console.error('Error checking medication interactions:', error);
+      res.status(500).json({ message: 'Error checking medication interactions' });
+    }
+  });
+  
+  // Caregivers who have logged care for a recipient, for "logged by" filters
+  app.get(`${apiPrefix}/caregivers`, async (req, res) => {
+    try {
+      const careRecipientId = req.query.careRecipientId as string;
+      
+      if (!careRecipientId) {
+        return res.status(400).json({ message: 'Care recipient ID is required' });
+      }
+      
+      const caregivers = await storage.getCaregivers(parseInt(careRecipientId));
+      res.json(caregivers);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Care recipient not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error('Error fetching caregivers:', error);
+      res.status(500).json({ message: 'Error fetching caregivers' });
+    }
+  });
+  
+  // Medication Logs
+  app.get(`${apiPrefix}/medication-logs`, async (req, res) => {
+    try {
+      const careRecipientId = req.query.careRecipientId as string;
+      
+      if (!careRecipientId) {
+        return res.status(400).json({ message: 'Care recipient ID is required' });
+      }
+      
+      const logs = await storage.getMedicationLogs(parseInt(careRecipientId), getLoggedByFilter(req.query.loggedBy));
+      res.json(logs);
+    } catch (error) {
+      console.error('Error fetching medication logs:', error);
+      res.status(500).json({ message: 'Error fetching medication logs' });
+    }
+  });
+  
+  app.post(`${apiPrefix}/medication-logs`, async (req, res) => {
+    try {
+      const { scheduleId, taken, status, takenAt, overrideReason } = req.body;
+      
+      // As-needed doses must respect the schedule's limits unless the caregiver gives a reason.
+      // Refused and held doses were never given, so they don't count against the limits.
+      const given = status ? isDoseGiven(status) : taken !== false;
+      if (scheduleId && given) {
+        const prnStatus = await storage.getPrnDoseStatus(parseInt(scheduleId), takenAt ? new Date(takenAt) : new Date());
+        
+        if (prnStatus && !prnStatus.allowed && !(typeof overrideReason === 'string' && overrideReason.trim())) {
+          return res.status(409).json({
+            message: 'Dose is outside the as-needed limits for this medication',
+            requiresOverride: true,
+            violations: prnStatus.violations,
+            nextAllowedAt: prnStatus.nextAllowedAt
+          });
+        }
+        
+        if (!prnStatus || prnStatus.allowed) {
+          delete req.body.overrideReason;
+        }
+      }
+      
+      const newLog = await storage.createMedicationLog(req.body, req.user?.id);
+      res.status(201).json(newLog);
+    } catch (error) {
+      if (error instanceof Error && (
+        error.message === 'Invalid dose status' ||
+        error.message === 'Invalid reason code' ||
+        error.message === 'A reason is required when a dose is not given'
+      )) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Error creating medication log:', error);
+      res.status(500).json({ message: 'Error creating medication log' });
+    }
+  });
+  
+  // Delete medication log
+  app.delete(`${apiPrefix}/medication-logs/:id`, async (req, res) => {
+    try {
+      const logId = parseInt(req.params.id);
+      if (isNaN(logId)) {
+        return res.status(400).json({ message: 'Invalid log ID format' });
+      }
+      
+      await storage.deleteMedicationLog(logId);
+      res.status(200).json({ message: 'Medication log deleted successfully' });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Medication log not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error('Error deleting medication log:', error);
+      res.status(500).json({ message: 'Error deleting medication log' });
+    }
+  });
+  
+  // Missed Doses
+  app.get(`${apiPrefix}/missed-doses`, async (req, res) => {
+    try {
+      const careRecipientId = req.query.careRecipientId as string;
+      const includeResolved = req.query.includeResolved === 'true';
+      
+      if (!careRecipientId) {
+        return res.status(400).json({ message: 'Care recipient ID is required' });
+      }
+      
+      const doses = await storage.getMissedDoses(parseInt(careRecipientId), { includeResolved });
+      res.json(doses);
+    } catch (error) {
+      console.error('Error fetching missed doses:', error);
+      res.status(500).json({ message: 'Error fetching missed doses' });
+    }
+  });
+
+  // Medication Adherence Report
+  app.get(`${apiPrefix}/reports/adherence`, async (req, res) => {
+    try {
+      const careRecipientId = req.query.careRecipientId as string;
+      const from = req.query.from as string;
+      const to = req.query.to as string;
+
+      if (!careRecipientId) {
+        return res.status(400).json({ message: 'Care recipient ID is required' });
+      }
+
+      if (!from || !to || !from.match(/^\d{4}-\d{2}-\d{2}$/) || !to.match(/^\d{4}-\d{2}-\d{2}$/)) {
+        return res.status(400).json({ message: 'from and to must be in YYYY-MM-DD format' });
+      }
+
+      const { start } = storage.getDateRange(from);
+      const { end } = storage.getDateRange(to);
+
+      if (end < start) {
+        return res.status(400).json({ message: 'to must not be before from' });
+      }
+
+      if (end.getTime() - start.getTime() > 366 * 24 * 60 * 60 * 1000) {
+        return res.status(400).json({ message: 'Date range cannot exceed one year' });
+      }
+
+      const report = await storage.getAdherenceReport(parseInt(careRecipientId), start, end);
+      res.json(report);
+    } catch (error) {
+      console.error('Error generating adherence report:', error);
+      if (error instanceof Error && error.message === 'Care recipient not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(500).json({ message: 'Error generating adherence report' });
+    }
+  });
+
+  // Weekly pill organizer - what goes in each compartment for the week starting on weekStart
+  app.get(`${apiPrefix}/pill-organizer`, async (req, res) => {
+    try {
+      const careRecipientId = req.query.careRecipientId as string;
+      const weekStart = req.query.weekStart as string;
+
+      if (!careRecipientId) {
+        return res.status(400).json({ message: 'Care recipient ID is required' });
+      }
+
+      if (!weekStart || !weekStart.match(/^\d{4}-\d{2}-\d{2}$/)) {
+        return res.status(400).json({ message: 'weekStart must be in YYYY-MM-DD format' });
+      }
+
+      const plan = await storage.getPillOrganizerPlan(parseInt(careRecipientId), new Date(`${weekStart}T00:00:00`));
+      res.json(plan);
     } catch (error) {
-      console.error('Error checking medication interactions:', error);
-      res.status(500).json({ message: 'Error checking medication interactions' });
+      console.error('Error building pill organizer plan:', error);
+      if (error instanceof Error && error.message === 'Care recipient not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(500).json({ message: 'Error building pill organizer plan' });
     }
   });
-  
-  // Medication Logs
-  app.get(`${apiPrefix}/medication-logs`, async (req, res) => {
+
+  app.put(`${apiPrefix}/pill-organizer/checklist`, async (req, res) => {
     try {
-      const careRecipientId = req.query.careRecipientId as string;
-      
+      const { careRecipientId, weekStart, checked } = req.body;
+
       if (!careRecipientId) {
         return res.status(400).json({ message: 'Care recipient ID is required' });
       }
-      
-      const logs = await storage.getMedicationLogs(parseInt(careRecipientId));
-      res.json(logs);
+
+      if (!weekStart || !String(weekStart).match(/^\d{4}-\d{2}-\d{2}$/)) {
+        return res.status(400).json({ message: 'weekStart must be in YYYY-MM-DD format' });
+      }
+
+      if (!Array.isArray(checked)) {
+        return res.status(400).json({ message: 'checked must be a list of compartments' });
+      }
+
+      const fill = await storage.updatePillOrganizerChecklist(parseInt(careRecipientId), weekStart, checked);
+      res.json(fill);
     } catch (error) {
-      console.error('Error fetching medication logs:', error);
-      res.status(500).json({ message: 'Error fetching medication logs' });
+      console.error('Error saving pill organizer checklist:', error);
+      if (error instanceof Error && error.message === 'Care recipient not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(500).json({ message: 'Error saving pill organizer checklist' });
     }
   });
-  
-  app.post(`${apiPrefix}/medication-logs`, async (req, res) => {
+
+  app.post(`${apiPrefix}/pill-organizer/fill`, async (req, res) => {
     try {
-      const newLog = await storage.createMedicationLog(req.body);
-      res.status(201).json(newLog);
+      const { careRecipientId, weekStart, deductInventory } = req.body;
+
+      if (!careRecipientId) {
+        return res.status(400).json({ message: 'Care recipient ID is required' });
+      }
+
+      if (!weekStart || !String(weekStart).match(/^\d{4}-\d{2}-\d{2}$/)) {
+        return res.status(400).json({ message: 'weekStart must be in YYYY-MM-DD format' });
+      }
+
+      const fill = await storage.completePillOrganizerFill(
+        parseInt(careRecipientId),
+        new Date(`${weekStart}T00:00:00`),
+        { deductInventory: deductInventory === true },
+        req.user?.id
+      );
+      res.status(201).json(fill);
     } catch (error) {
-      console.error('Error creating medication log:', error);
-      res.status(500).json({ message: 'Error creating medication log' });
+      if (error instanceof Error && error.message === 'Care recipient not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === 'This week has already been filled') {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Error confirming pill organizer fill:', error);
+      res.status(500).json({ message: 'Error confirming pill organizer fill' });
     }
   });
-  
-  // Delete medication log
-  app.delete(`${apiPrefix}/medication-logs/:id`, async (req, res) => {
+
+  // Printable Medication Administration Record for one month
+  app.get(`${apiPrefix}/reports/mar`, async (req, res) => {
     try {
-      const logId = parseInt(req.params.id);
-      if (isNaN(logId)) {
-        return res.status(400).json({ message: 'Invalid log ID format' });
+      const careRecipientId = req.query.careRecipientId as string;
+      const month = req.query.month as string;
+
+      if (!careRecipientId) {
+        return res.status(400).json({ message: 'Care recipient ID is required' });
       }
-      
-      await storage.deleteMedicationLog(logId);
-      res.status(200).json({ message: 'Medication log deleted successfully' });
+
+      if (!month || !month.match(/^\d{4}-(0[1-9]|1[0-2])$/)) {
+        return res.status(400).json({ message: 'month must be in YYYY-MM format' });
+      }
+
+      const { start } = storage.getDateRange(`${month}-01`);
+      const record = await storage.getMedicationAdministrationRecord(parseInt(careRecipientId), start);
+
+      const fileName = `MAR-${record.careRecipient.name.replace(/[^a-z0-9]+/gi, '-')}-${month}.pdf`;
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="${fileName}"`);
+      renderMedicationAdministrationRecord(record, res);
     } catch (error) {
-      console.error('Error deleting medication log:', error);
-      res.status(500).json({ message: 'Error deleting medication log' });
+      console.error('Error generating medication administration record:', error);
+      if (error instanceof Error && error.message === 'Care recipient not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(500).json({ message: 'Error generating medication administration record' });
     }
   });
-  
+
   // Appointments
   app.get(`${apiPrefix}/appointments`, async (req, res) => {
     try {
@@ -623,7 +1434,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       console.log(`Fetching meals for care recipient ${careRecipientId}, all meals: ${all === 'true'}`);
-      const meals = await storage.getMeals(parseInt(careRecipientId), dateRange);
+      const meals = await storage.getMeals(parseInt(careRecipientId), dateRange, getLoggedByFilter(req.query.loggedBy));
       console.log(`Found ${meals.length} meals`);
       res.json(meals);
     } catch (error) {
@@ -634,7 +1445,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   app.post(`${apiPrefix}/meals`, async (req, res) => {
     try {
-      const newMeal = await storage.createMeal(req.body);
+      const newMeal = await storage.createMeal(req.body, req.user?.id);
       res.status(201).json(newMeal);
     } catch (error) {
       console.error('Error creating meal:', error);
@@ -649,7 +1460,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Invalid ID format' });
       }
       
-      const updatedMeal = await storage.updateMeal(id, req.body);
+      const updatedMeal = await storage.updateMeal(id, req.body, req.user?.id);
       res.json(updatedMeal);
     } catch (error) {
       console.error('Error updating meal:', error);
@@ -681,7 +1492,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Care recipient ID is required' });
       }
       
-      const movements = await storage.getBowelMovements(parseInt(careRecipientId));
+      const movements = await storage.getBowelMovements(parseInt(careRecipientId), getLoggedByFilter(req.query.loggedBy));
       res.json(movements);
     } catch (error) {
       console.error('Error fetching bowel movements:', error);
@@ -691,7 +1502,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   app.post(`${apiPrefix}/bowel-movements`, async (req, res) => {
     try {
-      const newMovement = await storage.createBowelMovement(req.body);
+      const newMovement = await storage.createBowelMovement(req.body, req.user?.id);
       res.status(201).json(newMovement);
     } catch (error) {
       console.error('Error creating bowel movement:', error);
@@ -706,7 +1517,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Invalid ID format' });
       }
       
-      const updatedMovement = await storage.updateBowelMovement(id, req.body);
+      const updatedMovement = await storage.updateBowelMovement(id, req.body, req.user?.id);
       res.json(updatedMovement);
     } catch (error) {
       console.error('Error updating bowel movement:', error);
@@ -738,7 +1549,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Care recipient ID is required' });
       }
       
-      const records = await storage.getUrinationRecords(parseInt(careRecipientId));
+      const records = await storage.getUrinationRecords(parseInt(careRecipientId), getLoggedByFilter(req.query.loggedBy));
       res.json(records);
     } catch (error) {
       console.error('Error fetching urination records:', error);
@@ -748,7 +1559,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   app.post(`${apiPrefix}/urination`, async (req, res) => {
     try {
-      const newRecord = await storage.createUrinationRecord(req.body);
+      const newRecord = await storage.createUrinationRecord(req.body, req.user?.id);
       res.status(201).json(newRecord);
     } catch (error) {
       console.error('Error creating urination record:', error);
@@ -763,7 +1574,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Invalid ID format' });
       }
       
-      const updatedRecord = await storage.updateUrinationRecord(id, req.body);
+      const updatedRecord = await storage.updateUrinationRecord(id, req.body, req.user?.id);
       res.json(updatedRecord);
     } catch (error) {
       console.error('Error updating urination record:', error);
@@ -832,7 +1643,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Care recipient ID is required' });
       }
       
-      const records = await storage.getSleepRecords(parseInt(careRecipientId));
+      const records = await storage.getSleepRecords(parseInt(careRecipientId), getLoggedByFilter(req.query.loggedBy));
       res.json(records);
     } catch (error) {
       console.error('Error fetching sleep records:', error);
@@ -842,7 +1653,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   app.post(`${apiPrefix}/sleep`, async (req, res) => {
     try {
-      const newRecord = await storage.createSleepRecord(req.body);
+      const newRecord = await storage.createSleepRecord(req.body, req.user?.id);
       res.status(201).json(newRecord);
     } catch (error) {
       console.error('Error creating sleep record:', error);
@@ -859,7 +1670,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Care recipient ID is required' });
       }
       
-      const notes = await storage.getNotes(parseInt(careRecipientId));
+      const notes = await storage.getNotes(parseInt(careRecipientId), getLoggedByFilter(req.query.loggedBy));
       res.json(notes);
     } catch (error) {
       console.error('Error fetching notes:', error);
@@ -885,7 +1696,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   app.post(`${apiPrefix}/notes`, async (req, res) => {
     try {
-      const newNote = await storage.createNote(req.body);
+      const newNote = await storage.createNote(req.body, req.user?.id);
       res.status(201).json(newNote);
     } catch (error) {
       console.error('Error creating note:', error);
@@ -1015,6 +1826,74 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Refill workflow - mark a refill as requested, ready or picked up (or cancel it with "none")
+  app.post(`${apiPrefix}/medication-pharmacies/:id/refill-status`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { status, refillAmount, expirationDate } = req.body;
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid ID format' });
+      }
+      
+      if (!['none', 'requested', 'ready', 'picked_up'].includes(status)) {
+        return res.status(400).json({ message: 'status must be none, requested, ready or picked_up' });
+      }
+      
+      if (refillAmount !== undefined && (!Number.isInteger(refillAmount) || refillAmount <= 0)) {
+        return res.status(400).json({ message: 'Refill amount must be a positive whole number' });
+      }
+      
+      if (expirationDate && !String(expirationDate).match(/^\d{4}-\d{2}-\d{2}$/)) {
+        return res.status(400).json({ message: 'expirationDate must be in YYYY-MM-DD format' });
+      }
+      
+      const relation = await storage.updateRefillStatus(id, status, { refillAmount, expirationDate: expirationDate || undefined });
+      res.json(relation);
+    } catch (error) {
+      console.error('Error updating refill status:', error);
+      if (error instanceof Error && error.message === 'Medication pharmacy not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof Error && 
+          (error.message === 'Invalid refill status change' || error.message === 'Refill amount is required')) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: 'Error updating refill status' });
+    }
+  });
+  
+  // Refill request text to email or fax to the pharmacy
+  app.get(`${apiPrefix}/medication-pharmacies/:id/refill-request`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid ID format' });
+      }
+      
+      const relation = await storage.getMedicationPharmacy(id);
+      if (!relation) {
+        return res.status(404).json({ message: 'Medication pharmacy not found' });
+      }
+      
+      const info = await storage.getEmergencyInfo(relation.medication.careRecipientId);
+      const owner = relation.medication.careRecipient 
+        ? await storage.getUser(relation.medication.careRecipient.userId) 
+        : undefined;
+      
+      res.json(buildRefillRequest(relation, {
+        dateOfBirth: info?.dateOfBirth,
+        requestedBy: owner 
+          ? { name: owner.name || owner.username, phone: owner.phone, email: owner.email } 
+          : null
+      }));
+    } catch (error) {
+      console.error('Error generating refill request:', error);
+      res.status(500).json({ message: 'Error generating refill request' });
+    }
+  });
+  
   // Emergency Info Password Verification Routes
   app.post(`${apiPrefix}/emergency-info/verify-password`, async (req, res) => {
     try {
@@ -1449,7 +2328,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Care recipient ID is required' });
       }
       
-      const readings = await storage.getBloodPressureReadings(parseInt(careRecipientId));
+      const readings = await storage.getBloodPressureReadings(parseInt(careRecipientId), getLoggedByFilter(req.query.loggedBy));
       res.json(readings);
     } catch (error) {
       console.error('Error fetching blood pressure readings:', error);
@@ -1466,7 +2345,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Systolic, diastolic, and careRecipientId are required' });
       }
       
-      const newReading = await storage.createBloodPressureReading(req.body);
+      const newReading = await storage.createBloodPressureReading(req.body, req.user?.id);
+      
+      if (newReading.alerts.length > 0) {
+        try {
+          await notifyReadingAlerts(newReading.careRecipientId, newReading.alerts);
+        } catch (error) {
+          // The reading and its alerts were saved - they still show in the app
+          console.error('Error sending reading alert:', error);
+        }
+      }
+      
       res.status(201).json(newReading);
     } catch (error) {
       console.error('Error creating blood pressure reading:', error);
@@ -1474,6 +2363,76 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Averages over the last 7, 30 and 90 days, split by morning/evening and position
+  app.get(`${apiPrefix}/blood-pressure/trends`, async (req, res) => {
+    try {
+      const careRecipientId = req.query.careRecipientId as string;
+      
+      if (!careRecipientId) {
+        return res.status(400).json({ message: 'Care recipient ID is required' });
+      }
+      
+      const trends = await storage.getBloodPressureTrends(parseInt(careRecipientId));
+      res.json(trends);
+    } catch (error) {
+      console.error('Error fetching blood pressure trends:', error);
+      res.status(500).json({ message: 'Error fetching blood pressure trends' });
+    }
+  });
+  
+  app.patch(`${apiPrefix}/blood-pressure/:id`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid ID format' });
+      }
+      
+      const { systolic, diastolic } = req.body;
+      if ((systolic !== undefined && !(Number(systolic) > 0)) || (diastolic !== undefined && !(Number(diastolic) > 0))) {
+        return res.status(400).json({ message: 'Systolic and diastolic must be positive numbers' });
+      }
+      
+      const updatedReading = await storage.updateBloodPressureReading(id, req.body, req.user?.id);
+      
+      if (updatedReading.alerts.length > 0) {
+        try {
+          await notifyReadingAlerts(updatedReading.careRecipientId, updatedReading.alerts);
+        } catch (error) {
+          // The reading and its alerts were saved - they still show in the app
+          console.error('Error sending reading alert:', error);
+        }
+      }
+      
+      res.json(updatedReading);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Blood pressure reading not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error('Error updating blood pressure reading:', error);
+      res.status(500).json({ message: 'Error updating blood pressure reading' });
+    }
+  });
+  
+  app.delete(`${apiPrefix}/blood-pressure/:id`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid ID format' });
+      }
+      
+      await storage.deleteBloodPressureReading(id);
+      res.status(200).json({ message: 'Blood pressure reading deleted successfully' });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Blood pressure reading not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error('Error deleting blood pressure reading:', error);
+      res.status(500).json({ message: 'Error deleting blood pressure reading' });
+    }
+  });
+  
   // Glucose
   app.get(`${apiPrefix}/glucose`, async (req, res) => {
     try {
@@ -1483,7 +2442,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Care recipient ID is required' });
       }
       
-      const readings = await storage.getGlucoseReadings(parseInt(careRecipientId));
+      const readings = await storage.getGlucoseReadings(parseInt(careRecipientId), getLoggedByFilter(req.query.loggedBy));
       res.json(readings);
     } catch (error) {
       console.error('Error fetching glucose readings:', error);
@@ -1491,6 +2450,76 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Dexcom Clarity or meter CSV export, sent as the raw file body. Exports are larger than
+  // the app-wide JSON limit, so this route reads text with its own limit.
+  app.post(`${apiPrefix}/glucose/import`, express.text({ type: ['text/csv', 'text/plain'], limit: '10mb' }), async (req, res) => {
+    try {
+      const careRecipientId = parseInt(req.query.careRecipientId as string);
+      const format = req.query.format as string;
+      
+      if (isNaN(careRecipientId)) {
+        return res.status(400).json({ message: 'Care recipient ID is required' });
+      }
+      
+      if (typeof req.body !== 'string' || !req.body.trim()) {
+        return res.status(400).json({ message: 'Upload a CSV file' });
+      }
+      
+      if (format !== 'dexcom_clarity' && format !== 'generic') {
+        return res.status(400).json({ message: 'Unknown import format' });
+      }
+      
+      const { timestampColumn, valueColumn, unit, readingType } = req.query as Record<string, string | undefined>;
+      if (format === 'generic' && (!timestampColumn || !valueColumn || (unit !== 'mg/dL' && unit !== 'mmol/L'))) {
+        return res.status(400).json({ message: 'Choose the timestamp column, glucose column and unit' });
+      }
+      
+      const result = await importGlucoseCsv(
+        careRecipientId,
+        req.body,
+        format === 'dexcom_clarity'
+          ? { format }
+          : { format, mapping: { timestampColumn: timestampColumn!, valueColumn: valueColumn!, unit: unit as 'mg/dL' | 'mmol/L', readingType: readingType || 'other' } },
+        req.user?.id
+      );
+      res.json(result);
+    } catch (error) {
+      if (error instanceof Error && (
+        error.message === 'The file is empty' ||
+        error.message === 'This does not look like a Dexcom Clarity export' ||
+        error.message === 'The selected columns are not in this file' ||
+        error.message === 'Invalid reading type' ||
+        error.message === 'No glucose readings found in the file'
+      )) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Error importing glucose readings:', error);
+      res.status(500).json({ message: 'Error importing glucose readings' });
+    }
+  });
+  
+  // Time in range, GMI and the ambulatory glucose profile - registered before /glucose/:id
+  app.get(`${apiPrefix}/glucose/analytics`, async (req, res) => {
+    try {
+      const careRecipientId = req.query.careRecipientId as string;
+      const days = req.query.days ? parseInt(req.query.days as string) : DEFAULT_GLUCOSE_ANALYTICS_WINDOW;
+      
+      if (!careRecipientId) {
+        return res.status(400).json({ message: 'Care recipient ID is required' });
+      }
+      
+      if (!glucoseAnalyticsWindows.includes(days)) {
+        return res.status(400).json({ message: `Days must be one of ${glucoseAnalyticsWindows.join(', ')}` });
+      }
+      
+      const analytics = await storage.getGlucoseAnalytics(parseInt(careRecipientId), days);
+      res.json(analytics);
+    } catch (error) {
+      console.error('Error fetching glucose analytics:', error);
+      res.status(500).json({ message: 'Error fetching glucose analytics' });
+    }
+  });
+  
   app.get(`${apiPrefix}/glucose/:id`, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
@@ -1514,7 +2543,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   app.post(`${apiPrefix}/glucose`, async (req, res) => {
     try {
-      const newReading = await storage.createGlucoseReading(req.body);
+      const newReading = await storage.createGlucoseReading(req.body, req.user?.id);
+      
+      if (newReading.alerts.length > 0) {
+        try {
+          await notifyReadingAlerts(newReading.careRecipientId, newReading.alerts);
+        } catch (error) {
+          console.error('Error sending reading alert:', error);
+        }
+      }
+      
       res.status(201).json(newReading);
     } catch (error) {
       console.error('Error creating glucose reading:', error);
@@ -1530,7 +2568,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Invalid ID format' });
       }
       
-      const updatedReading = await storage.updateGlucoseReading(id, req.body);
+      const updatedReading = await storage.updateGlucoseReading(id, req.body, req.user?.id);
+      
+      if (updatedReading.alerts.length > 0) {
+        try {
+          await notifyReadingAlerts(updatedReading.careRecipientId, updatedReading.alerts);
+        } catch (error) {
+          // The reading and its alerts were saved - they still show in the app
+          console.error('Error sending reading alert:', error);
+        }
+      }
+      
       res.json(updatedReading);
     } catch (error) {
       console.error('Error updating glucose reading:', error);
@@ -1554,6 +2602,138 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Apple Health export.zip or export.xml, streamed as the raw request body - no body parser
+  // reads it, so exports of any size are handled a line at a time
+  app.post(`${apiPrefix}/health-import/apple-health`, async (req, res) => {
+    try {
+      const careRecipientId = parseInt(req.query.careRecipientId as string);
+      const from = req.query.from as string;
+      const to = req.query.to as string;
+      
+      if (isNaN(careRecipientId)) {
+        return res.status(400).json({ message: 'Care recipient ID is required' });
+      }
+      
+      if (!from || !to || !from.match(/^\d{4}-\d{2}-\d{2}$/) || !to.match(/^\d{4}-\d{2}-\d{2}$/) || from > to) {
+        return res.status(400).json({ message: 'Choose a valid date range' });
+      }
+      
+      const result = await importAppleHealthExport(
+        careRecipientId,
+        req.is('application/zip') ? extractExportXml(req) : req,
+        new Date(`${from}T00:00:00`),
+        new Date(`${to}T23:59:59.999`),
+        req.user?.id
+      );
+      res.json(result);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'This does not look like an Apple Health export') {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Error importing Apple Health export:', error);
+      res.status(500).json({ message: 'Error importing Apple Health export' });
+    }
+  });
+  
+  // Weights - recorded by imports for now
+  app.get(`${apiPrefix}/weights`, async (req, res) => {
+    try {
+      const careRecipientId = req.query.careRecipientId as string;
+      
+      if (!careRecipientId) {
+        return res.status(400).json({ message: 'Care recipient ID is required' });
+      }
+      
+      const entries = await storage.getWeights(parseInt(careRecipientId), getLoggedByFilter(req.query.loggedBy));
+      res.json(entries);
+    } catch (error) {
+      console.error('Error fetching weights:', error);
+      res.status(500).json({ message: 'Error fetching weights' });
+    }
+  });
+  
+  // Clinical thresholds - the care recipient's limits for glucose, blood pressure, pulse and oxygen
+  app.get(`${apiPrefix}/clinical-thresholds`, async (req, res) => {
+    try {
+      const careRecipientId = req.query.careRecipientId as string;
+      
+      if (!careRecipientId) {
+        return res.status(400).json({ message: 'Care recipient ID is required' });
+      }
+      
+      const thresholds = await storage.getClinicalThresholds(parseInt(careRecipientId));
+      res.json(thresholds);
+    } catch (error) {
+      console.error('Error fetching clinical thresholds:', error);
+      res.status(500).json({ message: 'Error fetching clinical thresholds' });
+    }
+  });
+  
+  app.put(`${apiPrefix}/clinical-thresholds`, async (req, res) => {
+    try {
+      const careRecipientId = parseInt(req.body.careRecipientId);
+      
+      if (isNaN(careRecipientId)) {
+        return res.status(400).json({ message: 'Care recipient ID is required' });
+      }
+      
+      const thresholds = await storage.updateClinicalThresholds(careRecipientId, req.body, req.user?.id);
+      res.json(thresholds);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Care recipient not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof Error && (
+        error.message === 'Thresholds must be positive numbers' ||
+        error.message === 'Low limits must be below high limits' ||
+        error.message === 'Oxygen limit must be a percentage'
+      )) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Error updating clinical thresholds:', error);
+      res.status(500).json({ message: 'Error updating clinical thresholds' });
+    }
+  });
+  
+  // Readings that crossed a threshold - only the unacknowledged ones unless includeAcknowledged=true
+  app.get(`${apiPrefix}/reading-alerts`, async (req, res) => {
+    try {
+      const careRecipientId = req.query.careRecipientId as string;
+      
+      if (!careRecipientId) {
+        return res.status(400).json({ message: 'Care recipient ID is required' });
+      }
+      
+      const alerts = await storage.getReadingAlerts(parseInt(careRecipientId), {
+        readingType: req.query.readingType as string | undefined,
+        includeAcknowledged: req.query.includeAcknowledged === 'true'
+      });
+      res.json(alerts);
+    } catch (error) {
+      console.error('Error fetching reading alerts:', error);
+      res.status(500).json({ message: 'Error fetching reading alerts' });
+    }
+  });
+  
+  app.post(`${apiPrefix}/reading-alerts/:id/acknowledge`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid ID format' });
+      }
+      
+      const alert = await storage.acknowledgeReadingAlert(id, req.user?.id);
+      res.json(alert);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Alert not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error('Error acknowledging reading alert:', error);
+      res.status(500).json({ message: 'Error acknowledging reading alert' });
+    }
+  });
+  
   // Insulin
   app.get(`${apiPrefix}/insulin`, async (req, res) => {
     try {
@@ -1563,7 +2743,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Care recipient ID is required' });
       }
       
-      const records = await storage.getInsulinRecords(parseInt(careRecipientId));
+      const records = await storage.getInsulinRecords(parseInt(careRecipientId), getLoggedByFilter(req.query.loggedBy));
       res.json(records);
     } catch (error) {
       console.error('Error fetching insulin records:', error);
@@ -1594,7 +2774,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   app.post(`${apiPrefix}/insulin`, async (req, res) => {
     try {
-      const newRecord = await storage.createInsulinRecord(req.body);
+      const newRecord = await storage.createInsulinRecord(req.body, req.user?.id);
       res.status(201).json(newRecord);
     } catch (error) {
       console.error('Error creating insulin record:', error);
@@ -1610,7 +2790,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Invalid ID format' });
       }
       
-      const updatedRecord = await storage.updateInsulinRecord(id, req.body);
+      const updatedRecord = await storage.updateInsulinRecord(id, req.body, req.user?.id);
       res.json(updatedRecord);
     } catch (error) {
       console.error('Error updating insulin record:', error);
@@ -1698,6 +2878,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         emailNotifications: user.emailNotifications ?? true,
         smsNotifications: user.smsNotifications ?? false,
         medicationReminders: user.medicationReminders ?? true,
+        missedDoseGraceMinutes: user.missedDoseGraceMinutes ?? 60,
+        expirationLeadDays: user.expirationLeadDays ?? 30,
+        autoWriteOffExpired: user.autoWriteOffExpired ?? false,
+        backupContactName: user.backupContactName,
+        backupContactEmail: user.backupContactEmail,
+        backupContactPhone: user.backupContactPhone,
       });
     } catch (error) {
       console.error("Error fetching notification preferences:", error);
@@ -1707,13 +2893,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put(`${apiPrefix}/user/notifications`, isAuthenticated, async (req: Request, res: Response) => {
     try {
-      const { phone, emailNotifications, smsNotifications, medicationReminders } = req.body;
+      const {
+        phone,
+        emailNotifications,
+        smsNotifications,
+        medicationReminders,
+        missedDoseGraceMinutes,
+        expirationLeadDays,
+        autoWriteOffExpired,
+        backupContactName,
+        backupContactEmail,
+        backupContactPhone
+      } = req.body;
+      
+      if (missedDoseGraceMinutes !== undefined &&
+          (!Number.isInteger(missedDoseGraceMinutes) || missedDoseGraceMinutes < 5 || missedDoseGraceMinutes > 720)) {
+        return res.status(400).json({ error: "Missed dose grace window must be between 5 and 720 minutes" });
+      }
+      
+      if (expirationLeadDays !== undefined &&
+          (!Number.isInteger(expirationLeadDays) || expirationLeadDays < 1 || expirationLeadDays > 365)) {
+        return res.status(400).json({ error: "Expiration warning must be between 1 and 365 days" });
+      }
       
       await storage.updateUserNotificationPreferences(req.user!.id, {
         phone,
         emailNotifications,
         smsNotifications,
         medicationReminders,
+        missedDoseGraceMinutes,
+        expirationLeadDays,
+        autoWriteOffExpired,
+        backupContactName,
+        backupContactEmail,
+        backupContactPhone,
       });
 
       res.json({ message: "Notification preferences updated successfully" });
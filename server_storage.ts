@@ -1,5 +1,5 @@
 import { db } from "@db";
-import { eq, and, lt, gte, lte, desc, sql, inArray } from "drizzle-orm";
+import { eq, and, lt, gt, gte, lte, desc, sql, isNull, inArray } from "drizzle-orm";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import {
@@ -8,6 +8,14 @@ import {
   medications,
   medicationSchedules,
   medicationLogs,
+  medicationReminderLogs,
+  missedDoses,
+  medicationInventoryTransactions,
+  controlledSubstanceCounts,
+  medicationReconciliations,
+  medicationChanges,
+  pillOrganizerFills,
+  drugInteractions,
   appointments,
   meals,
   bowelMovements,
@@ -24,6 +32,9 @@ import {
   bloodPressure,
   glucose,
   insulin,
+  weights,
+  clinicalThresholds,
+  readingAlerts,
   insertUserSchema,
   insertCareRecipientSchema,
   insertMedicationSchema,
@@ -46,7 +57,263 @@ import {
   insertGlucoseSchema,
   insertInsulinSchema
 } from "@shared/schema";
-import { format, startOfDay, endOfDay, addHours, formatDistance, isToday, addDays } from "date-fns";
+import type { InsertMedicationSchedule, InsertMedicationLog, InsertDrugInteraction, InsertBloodPressure, InsertClinicalThresholds } from "@shared/schema";
+import { parseDoseAmount } from "@shared/sig";
+import { isReconciliationAction, type ReconciliationItem } from "@shared/reconciliation";
+import {
+  defaultClinicalThresholds,
+  evaluateGlucoseReading,
+  evaluateBloodPressureReading,
+  glucoseReadingTypes,
+  type ClinicalThresholdValues,
+  type ThresholdBreach
+} from "@shared/clinical-thresholds";
+import {
+  agpPercentiles,
+  calculateEstimatedA1c,
+  calculateGmi,
+  getGlucoseRangeBand,
+  glucoseRangeBands,
+  percentile
+} from "@shared/glucose-analytics";
+import { classifyBloodPressure, getBloodPressureTimeOfDay, bloodPressurePositions } from "@shared/blood-pressure";
+import { organizerCompartments, getOrganizerCompartment, getCompartmentKey, isCompartmentKey } from "@shared/pill-organizer";
+import type { ReadingSource } from "@shared/health-import";
+import { doseLogStatuses, isDoseLogStatus, isDoseReasonCode, isDoseGiven, getDoseReasonLabel } from "@shared/dose-outcomes";
+import { format, startOfDay, endOfDay, startOfMonth, endOfMonth, addHours, subHours, formatDistance, isToday, addDays, differenceInCalendarDays } from "date-fns";
+import { 
+  expandDoses, 
+  getDoseForDay, 
+  getDoseStockUnits, 
+  checkPrnDoseLimits, 
+  hasPrnDoseLimits, 
+  getPrnLookbackHours, 
+  withMedicationDates, 
+  isMedicationActiveDuring,
+  parseCourseBreaks,
+  normalizeScheduleDate,
+  classifyDose,
+  matchDoseLogs,
+  DOSE_LOG_LOOKAHEAD_DAYS,
+  type DoseOutcome
+} from "./doses";
+
+// The caregivers who logged an entry and last changed it, loaded with every log list
+const loggedByRelations = {
+  createdBy: { columns: { id: true, name: true, username: true } },
+  updatedBy: { columns: { id: true, name: true, username: true } }
+} as const;
+
+// Who counted, witnessed and resolved a controlled substance count
+const controlledCountRelations = {
+  countedBy: { columns: { id: true, name: true, username: true } },
+  witness: { columns: { id: true, name: true, username: true } },
+  resolvedBy: { columns: { id: true, name: true, username: true } }
+} as const;
+
+const controlledCountShifts = ['day', 'evening', 'night'];
+
+interface MedicationChangeEntry {
+  field: string;
+  oldValue: string | null;
+  newValue: string | null;
+  scheduleId?: number | null;
+}
+
+// Rows for the medication change history, leaving out anything that didn't actually change
+const buildMedicationChanges = (
+  medicationId: number,
+  entries: MedicationChangeEntry[],
+  userId?: number | null,
+  source: string = 'edit'
+) => entries
+  .filter(entry => (entry.oldValue ?? null) !== (entry.newValue ?? null))
+  .map(entry => ({
+    medicationId,
+    scheduleId: entry.scheduleId ?? null,
+    field: entry.field,
+    oldValue: entry.oldValue ?? null,
+    newValue: entry.newValue ?? null,
+    source,
+    changedById: userId ?? null
+  }));
+
+// Every blood pressure reading goes out with its AHA category
+const withBloodPressureCategory = <T extends { systolic: number; diastolic: number }>(reading: T) => ({
+  ...reading,
+  category: classifyBloodPressure(reading.systolic, reading.diastolic)
+});
+
+// Imports skip a row when a reading of the same kind is already recorded at the same minute,
+// so re-importing an overlapping export doesn't double up. Rows repeated within one import
+// are skipped the same way.
+const minuteKey = (time: Date) => Math.floor(new Date(time).getTime() / 60000);
+
+const getImportTimeRange = (times: Date[]) => {
+  const values = times.map(time => time.getTime());
+  return {
+    from: new Date(values.reduce((min, time) => Math.min(min, time)) - 60000),
+    to: new Date(values.reduce((max, time) => Math.max(max, time)) + 60000)
+  };
+};
+
+const withoutRecordedMinutes = <T>(rows: T[], getTime: (row: T) => Date, recorded: Date[]) => {
+  const seen = new Set(recorded.map(minuteKey));
+  const fresh = rows.filter(row => {
+    const key = minuteKey(getTime(row));
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return { fresh, skipped: rows.length - fresh.length };
+};
+
+// Batch size for imports - a 90-day CGM export is ~26,000 rows, more than one insert can bind
+const IMPORT_BATCH_SIZE = 1000;
+
+// Periods the blood pressure trends are averaged over
+const BLOOD_PRESSURE_TREND_PERIODS = [7, 30, 90];
+
+const dayAbbreviations = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// How a schedule's time and days read in the change history, e.g. "08:00" and "Mon, Wed, Fri"
+const describeScheduleTime = (schedule: { time: string; asNeeded?: boolean | null }) =>
+  schedule.asNeeded ? 'As needed' : String(schedule.time).slice(0, 5);
+
+const describeScheduleDays = (schedule: { daysOfWeek: unknown; intervalDays?: number | null }) => {
+  if (schedule.intervalDays && schedule.intervalDays > 1) {
+    return `Every ${schedule.intervalDays} days`;
+  }
+  
+  let days = schedule.daysOfWeek;
+  if (typeof days === 'string') {
+    try {
+      days = JSON.parse(days);
+    } catch (e) {
+      days = [];
+    }
+  }
+  
+  const dayList = Array.isArray(days) ? [...days].map(Number).sort((a, b) => a - b) : [];
+  return dayList.length === 0 || dayList.length === 7
+    ? 'Every day'
+    : dayList.map(day => dayAbbreviations[day] ?? String(day)).join(', ');
+};
+
+// Schedule rows as the forms send them: days of week may come as an array or a comma-separated
+// list, and schedules entered as free text still get a numeric dose, so stock counts don't rely on the text
+const normalizeScheduleData = (scheduleData: Partial<InsertMedicationSchedule>) => {
+  const normalized = { ...scheduleData };
+  
+  if (Array.isArray(normalized.daysOfWeek)) {
+    normalized.daysOfWeek = JSON.stringify(normalized.daysOfWeek);
+  } else if (typeof normalized.daysOfWeek === 'string') {
+    try {
+      JSON.parse(normalized.daysOfWeek);
+    } catch (e) {
+      normalized.daysOfWeek = JSON.stringify(
+        normalized.daysOfWeek.split(',').map((d: string) => parseInt(d.trim()))
+      );
+    }
+  }
+  
+  if (normalized.doseAmount === undefined || normalized.doseAmount === null) {
+    const dose = parseDoseAmount(normalized.quantity);
+    normalized.doseAmount = dose?.amount ?? null;
+    normalized.doseUnit = normalized.doseUnit ?? dose?.unit ?? null;
+  }
+  
+  return normalized;
+};
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Change stock by a signed amount and record it in the inventory ledger inside the caller's transaction
+const applyStockChange = async (
+  tx: DbTransaction,
+  medicationId: number,
+  change: number,
+  type: string,
+  details: { medicationLogId?: number, notes?: string } = {}
+) => {
+  const [updatedMedication] = await tx.update(medications)
+    .set({
+      currentQuantity: sql`coalesce(${medications.currentQuantity}, 0) + ${change}`,
+      updatedAt: new Date()
+    })
+    .where(eq(medications.id, medicationId))
+    .returning();
+  
+  if (!updatedMedication) {
+    throw new Error('Medication not found');
+  }
+  
+  const [transaction] = await tx.insert(medicationInventoryTransactions).values({
+    medicationId,
+    medicationLogId: details.medicationLogId || null,
+    type,
+    quantityChange: change,
+    quantityAfter: updatedMedication.currentQuantity ?? change,
+    notes: details.notes || null
+  }).returning();
+  
+  return { medication: updatedMedication, transaction };
+};
+
+// Add a refill to stock and the inventory ledger inside the caller's transaction
+const applyRefill = async (
+  tx: DbTransaction,
+  medicationId: number,
+  refillAmount: number,
+  refillDate: Date,
+  expirationDate?: string
+) => {
+  const [refilled] = await tx.update(medications)
+    .set({
+      currentQuantity: sql`coalesce(${medications.currentQuantity}, 0) + ${refillAmount}`,
+      refillsRemaining: sql`greatest(coalesce(${medications.refillsRemaining}, 0) - 1, 0)`,
+      lastRefillDate: format(refillDate, 'yyyy-MM-dd'),
+      // The new supply brings its own expiration date
+      ...(expirationDate ? { expirationDate } : {}),
+      updatedAt: new Date()
+    })
+    .where(eq(medications.id, medicationId))
+    .returning();
+  
+  if (!refilled) {
+    throw new Error('Medication not found');
+  }
+  
+  await tx.insert(medicationInventoryTransactions).values({
+    medicationId,
+    type: 'refill',
+    quantityChange: refillAmount,
+    quantityAfter: refilled.currentQuantity ?? refillAmount
+  });
+  
+  return refilled;
+};
+
+// How far ahead refill forecasts look for run-out and reorder dates
+const REFILL_FORECAST_HORIZON_DAYS = 180;
+
+// Used when the caregiver hasn't set how far ahead to warn about expiring medications
+const DEFAULT_EXPIRATION_LEAD_DAYS = 30;
+
+// Where a medication's stock stands against its expiration date. Stock is still good on
+// the expiration date itself and counts as expired from the following day.
+const getExpirationStatus = (expirationDate: string | null, leadDays: number, now: Date) => {
+  if (!expirationDate) {
+    return { daysUntilExpiration: null, expired: false, expiringSoon: false };
+  }
+  
+  const daysUntilExpiration = differenceInCalendarDays(new Date(`${expirationDate}T00:00:00`), now);
+  return {
+    daysUntilExpiration,
+    expired: daysUntilExpiration < 0,
+    expiringSoon: daysUntilExpiration >= 0 && daysUntilExpiration <= leadDays
+  };
+};
 
 // Store the last date reset was performed to track day changes
 let lastResetDate = new Date();
@@ -170,6 +437,12 @@ export const storage = {
     emailNotifications?: boolean;
     smsNotifications?: boolean;
     medicationReminders?: boolean;
+    missedDoseGraceMinutes?: number;
+    expirationLeadDays?: number;
+    autoWriteOffExpired?: boolean;
+    backupContactName?: string;
+    backupContactEmail?: string;
+    backupContactPhone?: string;
   }) {
     const result = await db.update(users)
       .set({ 
@@ -193,6 +466,37 @@ export const storage = {
       orderBy: desc(careRecipients.createdAt)
     });
   },
+  
+  // Everyone who has logged care for a recipient - the owner plus anyone whose name is on an entry
+  async getCaregivers(careRecipientId: number) {
+    const careRecipient = await db.query.careRecipients.findFirst({
+      where: eq(careRecipients.id, careRecipientId)
+    });
+    
+    if (!careRecipient) {
+      throw new Error('Care recipient not found');
+    }
+    
+    const logTables = [medicationLogs, meals, bowelMovements, urination, sleep, notes, bloodPressure, glucose, insulin];
+    const loggers = await Promise.all(logTables.map(table =>
+      db.selectDistinct({ userId: table.createdById })
+        .from(table)
+        .where(eq(table.careRecipientId, careRecipientId))
+    ));
+    
+    const userIds = new Set<number>([careRecipient.userId]);
+    for (const rows of loggers) {
+      for (const row of rows) {
+        if (row.userId) userIds.add(row.userId);
+      }
+    }
+    
+    return db.query.users.findMany({
+      where: inArray(users.id, Array.from(userIds)),
+      columns: { id: true, name: true, username: true },
+      orderBy: users.name
+    });
+  },
 
   async createCareRecipient(recipientData: any) {
     try {
@@ -239,6 +543,12 @@ export const storage = {
       await db.delete(medicationLogs)
         .where(eq(medicationLogs.medicationId, medication.id));
       
+      // Delete reminder and missed dose records
+      await db.delete(medicationReminderLogs)
+        .where(eq(medicationReminderLogs.medicationId, medication.id));
+      await db.delete(missedDoses)
+        .where(eq(missedDoses.medicationId, medication.id));
+      
       // Delete medication schedules
       await db.delete(medicationSchedules)
         .where(eq(medicationSchedules.medicationId, medication.id));
@@ -246,12 +556,30 @@ export const storage = {
       // Delete medication pharmacy relations
       await db.delete(medicationPharmacies)
         .where(eq(medicationPharmacies.medicationId, medication.id));
+      
+      // Delete the inventory ledger and controlled substance counts
+      await db.delete(medicationInventoryTransactions)
+        .where(eq(medicationInventoryTransactions.medicationId, medication.id));
+      await db.delete(controlledSubstanceCounts)
+        .where(eq(controlledSubstanceCounts.medicationId, medication.id));
+      
+      // Delete the change history
+      await db.delete(medicationChanges)
+        .where(eq(medicationChanges.medicationId, medication.id));
     }
     
     // Delete medications
     await db.delete(medications)
       .where(eq(medications.careRecipientId, id));
     
+    // Delete reconciliation records
+    await db.delete(medicationReconciliations)
+      .where(eq(medicationReconciliations.careRecipientId, id));
+    
+    // Delete pill organizer fills
+    await db.delete(pillOrganizerFills)
+      .where(eq(pillOrganizerFills.careRecipientId, id));
+    
     // Delete appointments
     await db.delete(appointments)
       .where(eq(appointments.careRecipientId, id));
@@ -281,6 +609,10 @@ export const storage = {
     await db.delete(sleep)
       .where(eq(sleep.careRecipientId, id));
     
+    // Delete weights
+    await db.delete(weights)
+      .where(eq(weights.careRecipientId, id));
+    
     // Delete notes
     await db.delete(notes)
       .where(eq(notes.careRecipientId, id));
@@ -309,6 +641,12 @@ export const storage = {
     await db.delete(insulin)
       .where(eq(insulin.careRecipientId, id));
     
+    // Delete clinical thresholds and reading alerts
+    await db.delete(clinicalThresholds)
+      .where(eq(clinicalThresholds.careRecipientId, id));
+    await db.delete(readingAlerts)
+      .where(eq(readingAlerts.careRecipientId, id));
+    
     // Finally delete the care recipient
     await db.delete(careRecipients)
       .where(eq(careRecipients.id, id));
@@ -338,10 +676,14 @@ export const storage = {
   
   // Get stats for any specific date
   async getDateStats(careRecipientId: number, start: Date, end: Date) {
-    // First get all medications for this care recipient
-    const meds = await db.query.medications.findMany({
-      where: eq(medications.careRecipientId, careRecipientId)
+    // First get the medications this care recipient was taking during the range
+    const recipientMeds = await db.query.medications.findMany({
+      where: eq(medications.careRecipientId, careRecipientId),
+      with: {
+        schedules: true
+      }
     });
+    const meds = recipientMeds.filter(med => isMedicationActiveDuring(med, start, end));
     
     // Get medication logs for the specified date with medication details
     const dateLogs = await db.query.medicationLogs.findMany({
@@ -355,100 +697,97 @@ export const storage = {
       }
     });
     
-    // Get all medication schedules for the medications
-    const medSchedules = await db.query.medicationSchedules.findMany({
-      where: inArray(medicationSchedules.medicationId, meds.map(med => med.id))
-    });
+    // Get all medication schedules for the medications, limited to their start and stop dates
+    const medSchedules = meds.flatMap(med => withMedicationDates(med));
     
-    // Create a map of medication ID to required doses (from schedules)
-    const requiredDosesMap = new Map();
+    // Expand the schedules into the doses that are actually due in this range
+    // (weekdays, specific calendar dates and tapering steps are all taken into account).
+    // The doses and logs after the range are only used so late logs go to the right dose.
+    const matchUntil = addDays(end, DOSE_LOG_LOOKAHEAD_DAYS);
+    const candidateDoses = expandDoses(medSchedules, start, matchUntil);
+    const scheduledDoses = candidateDoses.filter(dose => dose.scheduledFor <= end);
+    const scheduledLogs = await db.query.medicationLogs.findMany({
+      where: and(
+        eq(medicationLogs.careRecipientId, careRecipientId),
+        gte(medicationLogs.takenAt, start),
+        lt(medicationLogs.takenAt, matchUntil)
+      )
+    });
+    const logsByDose = matchDoseLogs(candidateDoses, scheduledLogs);
     
-    // For each medication, count how many doses are required today
-    for (const med of meds) {
-      // Get schedules for this medication
-      const schedules = Array.isArray(medSchedules) ? medSchedules.filter(
-        schedule => schedule.medicationId === med.id
-      ) : [];
-      
-      // If there are no schedules, the medication only needs to be taken once
-      if (schedules.length === 0) {
-        requiredDosesMap.set(med.id, 1);
-      } else {
-        // Count the number of required schedules (excluding "as needed" medications)
-        const requiredSchedulesCount = schedules.filter(schedule => !schedule.asNeeded).length;
-        
-        // If there are only "as needed" schedules, set required to 0 (they're optional)
-        // Otherwise, set to the count of required schedules
-        requiredDosesMap.set(med.id, requiredSchedulesCount);
+    // Use the same grace window as missed dose alerts to decide when a dose was given late
+    const careRecipient = await db.query.careRecipients.findFirst({
+      where: eq(careRecipients.id, careRecipientId),
+      with: {
+        user: true
       }
-    }
+    });
+    const graceMinutes = careRecipient?.user?.missedDoseGraceMinutes ?? 60;
+    const now = new Date();
     
-    // Track taken doses by medication and schedule
-    // We need to track which specific schedules have been taken, not just count total doses
-    const takenDosesMap = new Map(); // Medication ID -> total count
-    const takenSchedulesMap = new Map(); // Medication ID -> Set of taken schedule IDs
+    // Track recorded doses by medication
+    const loggedDosesMap = new Map(); // Medication ID -> total count
     
     for (const log of dateLogs) {
       const medId = log.medicationId;
       
       // Update total dose count
-      takenDosesMap.set(medId, (takenDosesMap.get(medId) || 0) + 1);
-      
-      // Track which specific schedules have been taken
-      if (log.scheduleId) {
-        // If this log has a scheduleId, track it
-        if (!takenSchedulesMap.has(medId)) {
-          takenSchedulesMap.set(medId, new Set());
-        }
-        takenSchedulesMap.get(medId).add(log.scheduleId);
-      }
+      loggedDosesMap.set(medId, (loggedDosesMap.get(medId) || 0) + 1);
     }
     
-    // A medication is fully taken if all its scheduled doses are taken
-    const takenMedicationIds = new Set();
+    const doseOutcomes = scheduledDoses.map(dose => ({
+      dose,
+      outcome: classifyDose(dose, logsByDose[candidateDoses.indexOf(dose)], graceMinutes, now).outcome
+    }));
+    
+    // A refused, held or vomited dose has been dealt with, so it no longer counts as still to give
+    const isDoseRecorded = (outcome: DoseOutcome) => outcome !== 'missed' && outcome !== 'pending';
+    
+    // Only medications with doses due in this range count towards the total.
+    // A medication with no schedules at all still needs to be recorded once.
+    const dueMedicationIds = new Set();
+    const completedMedicationIds = new Set();
     for (const med of meds) {
-      const requiredDoses = requiredDosesMap.get(med.id) || 1;
-      const takenDoses = takenDosesMap.get(med.id) || 0;
-      
-      // Get schedules for this medication
-      const schedules = Array.isArray(medSchedules) ? medSchedules.filter(
-        schedule => schedule.medicationId === med.id
-      ) : [];
-      
-      if (schedules.length === 0) {
-        // If no schedules, medication is completed if at least one dose was taken
-        if (takenDoses > 0) {
-          takenMedicationIds.add(med.id);
-        }
-      } else {
-        // Check if all required (non-as-needed) schedules were taken
-        const takenScheduleIdsForMed = takenSchedulesMap.get(med.id) || new Set();
-        
-        // Filter out "as needed" schedules when checking completion
-        const requiredSchedules = schedules.filter(schedule => !schedule.asNeeded);
-        
-        // If there are no required schedules (all are as-needed), 
-        // the medication is considered complete regardless of whether doses were taken
-        if (requiredSchedules.length === 0) {
-          takenMedicationIds.add(med.id);
-        } else {
-          // Otherwise, check if all required schedules were taken
-          const allRequiredSchedulesTaken = requiredSchedules.every(schedule => 
-            takenScheduleIdsForMed.has(schedule.id)
-          );
-          
-          if (allRequiredSchedulesTaken) {
-            takenMedicationIds.add(med.id);
-          }
+      const hasSchedules = medSchedules.some(schedule => schedule.medicationId === med.id);
+      
+      if (!hasSchedules) {
+        dueMedicationIds.add(med.id);
+        if ((loggedDosesMap.get(med.id) || 0) > 0) {
+          completedMedicationIds.add(med.id);
         }
+        continue;
+      }
+      
+      const outcomesForMed = doseOutcomes.filter(entry => entry.dose.medicationId === med.id);
+      
+      // Nothing scheduled for this medication in this range (e.g. an off day or an as-needed medication)
+      if (outcomesForMed.length === 0) continue;
+      
+      dueMedicationIds.add(med.id);
+      
+      if (outcomesForMed.every(entry => isDoseRecorded(entry.outcome))) {
+        completedMedicationIds.add(med.id);
       }
     }
     
+    const countOutcome = (outcome: DoseOutcome) => 
+      doseOutcomes.filter(entry => entry.outcome === outcome).length;
+    
     // Debug info
-    console.log(`Medication completion by dose count:`, {
-      requiredDoses: Object.fromEntries(requiredDosesMap),
-      takenDoses: Object.fromEntries(takenDosesMap),
-      completedMeds: Array.from(takenMedicationIds)
+    console.log(`Medication completion by scheduled dose:`, {
+      scheduledDoses: scheduledDoses.length,
+      loggedDoses: Object.fromEntries(loggedDosesMap),
+      completedMeds: Array.from(completedMedicationIds)
+    });
+    
+    // Get doses that were detected as missed and never logged late
+    const dateMissedDoses = await db.query.missedDoses.findMany({
+      where: and(
+        eq(missedDoses.careRecipientId, careRecipientId),
+        gte(missedDoses.scheduledFor, start),
+        lt(missedDoses.scheduledFor, end),
+        isNull(missedDoses.resolvedAt)
+      )
     });
     
     // Get meal stats
@@ -531,7 +870,7 @@ export const storage = {
     
     // Debug medication logs
     console.log(`Date stats for ${start.toISOString()} to ${end.toISOString()}:`);
-    console.log(`Medications total: ${meds.length}, taken: ${takenMedicationIds.size}`);
+    console.log(`Medications due: ${dueMedicationIds.size}, completed: ${completedMedicationIds.size}`);
     console.log(`Medication logs: ${dateLogs.length}`);
     
     // The logs now already include medication details through the with: { medication: true } relation
@@ -539,11 +878,22 @@ export const storage = {
     return {
       // Summary stats
       medications: {
-        completed: takenMedicationIds.size,
-        total: meds.length,
-        progress: meds.length > 0 
-          ? Math.round((takenMedicationIds.size / meds.length) * 100) 
+        completed: completedMedicationIds.size,
+        total: dueMedicationIds.size,
+        progress: dueMedicationIds.size > 0 
+          ? Math.round((completedMedicationIds.size / dueMedicationIds.size) * 100) 
           : 0,
+        missed: dateMissedDoses.length,
+        doses: {
+          scheduled: scheduledDoses.length,
+          // Given on time or late; vomited, refused and held doses are counted on their own
+          taken: countOutcome('taken') + countOutcome('late'),
+          late: countOutcome('late'),
+          vomited: countOutcome('vomited'),
+          refused: countOutcome('refused'),
+          skipped: countOutcome('skipped'),
+          outstanding: countOutcome('missed') + countOutcome('pending')
+        },
         logs: dateLogs
       },
       meals: {
@@ -616,117 +966,34 @@ export const storage = {
   // Upcoming Events
   async getUpcomingEvents(careRecipientId: number) {
     const now = new Date();
-    const endOfToday = endOfDay(now);
-    const currentDayOfWeek = format(now, 'EEEE').toLowerCase();
-    const currentHour = now.getHours();
-    const currentMinute = now.getMinutes();
-    
-    // First get all medications for this care recipient
-    const meds = await db.query.medications.findMany({
-      where: eq(medications.careRecipientId, careRecipientId)
-    });
-    
-    // Get upcoming medication schedules using the medication IDs (excluding "as needed" medications)
-    let medSchedules = [];
-    if (meds.length > 0) {
-      medSchedules = await db.query.medicationSchedules.findMany({
-        where: and(
-          inArray(medicationSchedules.medicationId, meds.map(med => med.id)),
-          eq(medicationSchedules.asNeeded, false)
-        ),
-        with: {
-          medication: true
-        }
-      });
-    }
     
-    // Process medication schedules to get upcoming doses for today and future days
-    const medicationEvents = [];
+    // Look ahead as far as we do for appointments
+    const scheduledDoses = await this.getScheduledDoses(careRecipientId, now, endOfDay(addDays(now, 7)));
     
     // Debug log
-    console.log(`Processing ${medSchedules.length} medication schedules for upcoming doses`);
-    
-    // Convert day name to number (0 = Sunday, 1 = Monday, etc.)
-    const dayToNumber = {
-      'sunday': 0,
-      'monday': 1,
-      'tuesday': 2,
-      'wednesday': 3,
-      'thursday': 4,
-      'friday': 5,
-      'saturday': 6
-    };
+    console.log(`Found ${scheduledDoses.length} scheduled doses for upcoming events`);
     
-    // Get upcoming days to check for scheduled medications (only today + next day)
-    const daysToCheck = [
-      { date: now, dayNumber: dayToNumber[format(now, 'EEEE').toLowerCase()] },
-      { date: addDays(now, 1), dayNumber: dayToNumber[format(addDays(now, 1), 'EEEE').toLowerCase()] }
-    ];
+    // Only show the next dose for each schedule so daily medications don't crowd out everything else
+    const seenSchedules = new Set();
+    const medicationEvents = [];
     
-    for (const schedule of medSchedules) {
-      // Skip if medication is not found
-      if (!schedule.medication) continue;
+    for (const dose of scheduledDoses) {
+      if (seenSchedules.has(dose.scheduleId)) continue;
+      seenSchedules.add(dose.scheduleId);
       
-      // Check each upcoming day to see if this medication is scheduled
-      for (const checkDay of daysToCheck) {
-        let isScheduledForDay = false;
-        const dayOfWeek = format(checkDay.date, 'EEEE').toLowerCase();
-        
-        // Try the direct day property first (e.g., schedule.monday for Monday)
-        if (schedule[dayOfWeek] === true) {
-          isScheduledForDay = true;
-        }
-        // Otherwise check daysOfWeek array
-        else if (schedule.daysOfWeek) {
-          // Handle string JSON or array
-          let daysArray = [];
-          
-          if (typeof schedule.daysOfWeek === 'string') {
-            try {
-              daysArray = JSON.parse(schedule.daysOfWeek);
-            } catch (e) {
-              daysArray = [];
-            }
-          } else if (Array.isArray(schedule.daysOfWeek)) {
-            daysArray = schedule.daysOfWeek;
-          }
-          
-          // Check if day is in the days array
-          if (daysArray && daysArray.includes(checkDay.dayNumber)) {
-            isScheduledForDay = true;
-          }
-        }
-        
-        // Skip if not scheduled for this day
-        if (!isScheduledForDay) continue;
-        
-        // Parse time to check if it's upcoming
-        if (schedule.time) {
-          const [hourStr, minuteStr] = schedule.time.split(':');
-          const hour = parseInt(hourStr);
-          const minute = parseInt(minuteStr);
-          
-          // For today, only include upcoming doses (later today)
-          // For future days, include all doses
-          const isToday = format(checkDay.date, 'yyyy-MM-dd') === format(now, 'yyyy-MM-dd');
-          
-          if (!isToday || (hour > currentHour || (hour === currentHour && minute > currentMinute))) {
-            medicationEvents.push({
-              id: `med_${schedule.id}_${format(checkDay.date, 'yyyy-MM-dd')}`,
-              type: 'medication',
-              title: schedule.medication.name,
-              time: schedule.time,
-              date: format(checkDay.date, 'yyyy-MM-dd'),
-              details: schedule.medication.dosage || 'Take as directed',
-              notes: schedule.medication.instructions || '',
-              source: 'schedule',
-              scheduledFor: `${hour}:${minute.toString().padStart(2, '0')}`,
-              reminder: true, // Scheduled medications have reminders by default
-              canEdit: false   // Schedule-based events can't be edited directly
-            });
-          }
-        }
-      }
+      medicationEvents.push({
+        id: `med_${dose.scheduleId}_${dose.date}`,
+        type: 'medication',
+        title: dose.medicationName,
+        time: dose.time,
+        date: dose.date,
+        details: dose.quantity || dose.dosage || 'Take as directed',
+        notes: dose.instructions || '',
+        source: 'schedule',
+        scheduledFor: format(dose.scheduledFor, 'H:mm'),
+        reminder: true, // Scheduled medications have reminders by default
+        canEdit: false   // Schedule-based events can't be edited directly
+      });
     }
     
     // Get upcoming appointments for the next 7 days
@@ -782,85 +1049,274 @@ export const storage = {
   },
 
   // Medications
-  async getMedications(careRecipientId: number, filter: string = 'today') {
+  // status is "active", "discontinued" or "all"
+  async getMedications(careRecipientId: number, filter: string = 'today', status: string = 'active') {
     const { start, end } = getTodayDateRange();
     
     return db.query.medications.findMany({
-      where: eq(medications.careRecipientId, careRecipientId),
+      where: status === 'all'
+        ? eq(medications.careRecipientId, careRecipientId)
+        : and(eq(medications.careRecipientId, careRecipientId), eq(medications.status, status)),
       with: {
-        schedules: true
+        // Switched-off schedules are only kept for the doses logged against them
+        schedules: {
+          where: eq(medicationSchedules.active, true)
+        }
       },
       orderBy: medications.name // Order by name for better display
     });
   },
   
-  async getMedicationsNeedingReorder(careRecipientId: number) {
-    const today = new Date();
-    // Calculate date thresholds for each medication based on their daysToReorder
+  // Medications currently being taken - discontinued ones, and ones whose schedules
+  // have all been switched off, are left out
+  async getActiveMedications(careRecipientId: number) {
+    const meds = await db.query.medications.findMany({
+      where: and(eq(medications.careRecipientId, careRecipientId), eq(medications.status, 'active')),
+      with: {
+        schedules: true
+      },
+      orderBy: medications.name
+    });
     
-    // Get all medications for this care recipient (ordered by name for consistency)
+    return meds.filter(med =>
+      !med.schedules || med.schedules.length === 0 || med.schedules.some(schedule => schedule.active !== false)
+    );
+  },
+  
+  async getMedicationsNeedingReorder(careRecipientId: number) {
+    // Get all current medications for this care recipient (ordered by name for consistency)
     const allMeds = await db.query.medications.findMany({
-      where: eq(medications.careRecipientId, careRecipientId),
+      where: and(eq(medications.careRecipientId, careRecipientId), eq(medications.status, 'active')),
       with: {
         schedules: true
       },
       orderBy: medications.name
     });
     
-    // Filter medications that need reordering based on:
-    // 1. Quantity is at or below threshold
-    // 2. Scheduled to be taken within daysToReorder days
-    return allMeds.filter(med => {
-      // Check if quantity is at or below threshold
-      const quantityLow = (med.currentQuantity !== null && 
-                            med.currentQuantity <= (med.reorderThreshold || 5));
+    // A medication needs reordering when it's at or below its threshold, or the
+    // forecast says it will get there within its daysToReorder window. Stock that has
+    // expired or is about to needs replacing too, however much of it is left.
+    const forecasts = await this.getRefillForecast(careRecipientId);
+    const forecastsById = new Map(forecasts.map(forecast => [forecast.medicationId, forecast]));
+    
+    return allMeds
+      .map(med => {
+        const forecast = forecastsById.get(med.id);
+        const reorderReasons: string[] = [];
+        
+        if (forecast?.needsReorder) reorderReasons.push('low_stock');
+        if (forecast?.expired && (med.currentQuantity || 0) > 0) reorderReasons.push('expired');
+        if (forecast?.expiringSoon && (med.currentQuantity || 0) > 0) reorderReasons.push('expiring');
+        
+        return {
+          ...med,
+          reorderReasons,
+          daysUntilExpiration: forecast?.daysUntilExpiration ?? null
+        };
+      })
+      .filter(med => med.reorderReasons.length > 0);
+  },
+  
+  // Expiration Tracking
+  // Active medications that have expired or will within leadDays, soonest first.
+  // leadDays defaults to the caregiver's own setting.
+  async getExpiringMedications(careRecipientId: number, leadDays?: number, now: Date = new Date()) {
+    const careRecipient = await db.query.careRecipients.findFirst({
+      where: eq(careRecipients.id, careRecipientId),
+      with: {
+        user: true
+      }
+    });
+    
+    if (!careRecipient) {
+      throw new Error('Care recipient not found');
+    }
+    
+    const lead = leadDays ?? careRecipient.user?.expirationLeadDays ?? DEFAULT_EXPIRATION_LEAD_DAYS;
+    
+    const meds = await db.query.medications.findMany({
+      where: and(eq(medications.careRecipientId, careRecipientId), eq(medications.status, 'active')),
+      orderBy: medications.expirationDate
+    });
+    
+    return meds
+      .map(med => ({
+        medicationId: med.id,
+        name: med.name,
+        dosage: med.dosage,
+        expirationDate: med.expirationDate,
+        currentQuantity: med.currentQuantity || 0,
+        ...getExpirationStatus(med.expirationDate, lead, now)
+      }))
+      .filter(med => med.expired || med.expiringSoon);
+  },
+  
+  // Remove expired stock from inventory so currentQuantity only counts usable doses.
+  // The expiration date is cleared along with it - the next refill brings a new one.
+  async writeOffExpiredStock(medicationId: number, now: Date = new Date()) {
+    // The row is locked while the stock comes off, so a dose logged at the same time either
+    // lands before the write-off (and is counted in it) or after it
+    const result = await db.transaction(async (tx) => {
+      const [medication] = await tx.select()
+        .from(medications)
+        .where(eq(medications.id, medicationId))
+        .for('update');
       
-      // If we have a low quantity, this medication needs reordering
-      if (quantityLow) {
-        return true;
+      if (!medication) {
+        throw new Error('Medication not found');
       }
       
-      // Otherwise, use the daysToReorder setting
-      // Check if we would go below threshold within daysToReorder days
-      const daysToReorder = med.daysToReorder || 7; // Default to 7 days if not set
-      const schedules = med.schedules || [];
+      if (!getExpirationStatus(medication.expirationDate, 0, now).expired) {
+        throw new Error('Medication has not expired');
+      }
       
-      // Skip medications with no schedules
-      if (schedules.length === 0) {
-        return false;
+      // Stock already below zero has nothing left to write off
+      const quantity = Math.max(medication.currentQuantity || 0, 0);
+      
+      if (quantity > 0) {
+        await applyStockChange(tx, medicationId, -quantity, 'expired', {
+          notes: `Expired ${format(new Date(`${medication.expirationDate}T00:00:00`), 'MMM d, yyyy')}`
+        });
+      }
+      
+      const [updatedMedication] = await tx.update(medications)
+        .set({
+          expirationDate: null,
+          updatedAt: new Date()
+        })
+        .where(eq(medications.id, medicationId))
+        .returning();
+      
+      return { medication: updatedMedication, writtenOff: quantity };
+    });
+    
+    if (result.writtenOff > 0) {
+      await this.syncNextRefillDates(medicationId);
+    }
+    
+    return result;
+  },
+  
+  // Expired stock still counted in inventory, for caregivers who have automatic write-off turned on
+  async getExpiredStockForAutoWriteOff(now: Date = new Date()) {
+    const meds = await db.query.medications.findMany({
+      where: and(
+        eq(medications.status, 'active'),
+        lt(medications.expirationDate, format(now, 'yyyy-MM-dd')),
+        gt(medications.currentQuantity, 0)
+      ),
+      with: {
+        careRecipient: {
+          with: {
+            user: true
+          }
+        }
+      }
+    });
+    
+    return meds.filter(med => med.careRecipient?.user?.autoWriteOffExpired);
+  },
+  
+  // Refill Forecast
+  // Walk forward through each medication's scheduled doses (weekdays, specific dates and
+  // tapering steps included) to find when stock hits the reorder threshold and when it runs out
+  async getRefillForecast(careRecipientId: number, now: Date = new Date(), options: { medicationId?: number } = {}) {
+    const careRecipient = await db.query.careRecipients.findFirst({
+      where: eq(careRecipients.id, careRecipientId),
+      with: {
+        user: true
       }
+    });
+    const expirationLeadDays = careRecipient?.user?.expirationLeadDays ?? DEFAULT_EXPIRATION_LEAD_DAYS;
+    
+    const meds = await db.query.medications.findMany({
+      where: and(
+        eq(medications.careRecipientId, careRecipientId),
+        eq(medications.status, 'active'),
+        options.medicationId ? eq(medications.id, options.medicationId) : undefined
+      ),
+      with: {
+        schedules: true,
+        pharmacyRelations: {
+          with: {
+            pharmacy: true
+          }
+        }
+      },
+      orderBy: medications.name
+    });
+    
+    const horizonEnd = endOfDay(addDays(now, REFILL_FORECAST_HORIZON_DAYS));
+    const usageWindowEnd = endOfDay(addDays(now, 27));
+    
+    return meds.map(med => {
+      const currentQuantity = med.currentQuantity || 0;
+      const reorderThreshold = med.reorderThreshold ?? 5;
+      const daysToReorder = med.daysToReorder || 7;
+      const refillsRemaining = med.refillsRemaining || 0;
+      
+      const doses = expandDoses(withMedicationDates(med), now, horizonEnd);
       
-      // Calculate daily usage based on schedules
-      let estimatedDailyUsage = 0;
+      let remaining = currentQuantity;
+      let reorderDate: string | null = currentQuantity <= reorderThreshold ? format(now, 'yyyy-MM-dd') : null;
+      let runOutDate: string | null = currentQuantity <= 0 ? format(now, 'yyyy-MM-dd') : null;
+      let unitsInUsageWindow = 0;
       
-      schedules.forEach(schedule => {
-        // Skip "as needed" medications when calculating daily usage
-        if (schedule.asNeeded) return;
+      for (const dose of doses) {
+        const units = getDoseStockUnits(dose.quantity, dose.doseAmount);
+        if (dose.scheduledFor <= usageWindowEnd) unitsInUsageWindow += units;
         
-        // Extract quantity number from string (e.g., "2 tablets" -> 2)
-        const quantityMatch = (schedule.quantity || "1").match(/^(\d+)/);
-        const qty = quantityMatch ? parseInt(quantityMatch[1]) : 1;
+        if (!runOutDate && remaining < units) {
+          // Not enough left to give this dose
+          runOutDate = dose.date;
+        }
         
-        // Count active days in the week
-        const daysOfWeek = schedule.daysOfWeek as number[];
-        const activeDays = Array.isArray(daysOfWeek) ? daysOfWeek.length : 7;
+        remaining -= units;
         
-        // Calculate average daily usage from this schedule
-        estimatedDailyUsage += (qty * activeDays) / 7;
-      });
-      
-      // If we have no usage, this medication doesn't need reordering yet
-      if (estimatedDailyUsage === 0) {
-        return false;
+        if (!reorderDate && remaining <= reorderThreshold) {
+          reorderDate = dose.date;
+        }
+        
+        if (reorderDate && runOutDate) break;
       }
       
-      // Calculate how many days until we hit the threshold
-      const currentQuantity = med.currentQuantity || 0;
-      const reorderThreshold = med.reorderThreshold || 5;
-      const daysUntilThreshold = Math.floor((currentQuantity - reorderThreshold) / estimatedDailyUsage);
+      // Average over the next four weeks, which smooths out weekday-only schedules
+      const averageDailyUsage = Math.round((unitsInUsageWindow / 28) * 100) / 100;
+      
+      const reorderBy = format(addDays(now, daysToReorder), 'yyyy-MM-dd');
+      const needsReorder = !!reorderDate && reorderDate <= reorderBy;
       
-      // If we'll hit threshold within daysToReorder, we need to reorder
-      return daysUntilThreshold <= daysToReorder;
+      const pharmacyRelation = med.pharmacyRelations?.[0];
+      
+      return {
+        medicationId: med.id,
+        name: med.name,
+        dosage: med.dosage,
+        currentQuantity,
+        reorderThreshold,
+        daysToReorder,
+        refillsRemaining,
+        averageDailyUsage,
+        reorderDate,
+        runOutDate,
+        daysUntilRunOut: runOutDate 
+          ? Math.max(0, differenceInCalendarDays(new Date(`${runOutDate}T00:00:00`), now))
+          : null,
+        needsReorder,
+        // No refills left means the prescriber has to be contacted before the pharmacy can refill
+        contactPrescriber: refillsRemaining <= 0,
+        expirationDate: med.expirationDate,
+        ...getExpirationStatus(med.expirationDate, expirationLeadDays, now),
+        pharmacy: pharmacyRelation?.pharmacy 
+          ? { 
+              id: pharmacyRelation.pharmacy.id, 
+              name: pharmacyRelation.pharmacy.name, 
+              phoneNumber: pharmacyRelation.pharmacy.phoneNumber,
+              relationId: pharmacyRelation.id,
+              refillStatus: pharmacyRelation.refillStatus
+            }
+          : null
+      };
     });
   },
   
@@ -870,8 +1326,20 @@ export const storage = {
     daysToReorder?: number,
     originalQuantity?: number,
     refillsRemaining?: number,
-    lastRefillDate?: Date | string
+    lastRefillDate?: Date | string,
+    expirationDate?: string | null,
+    isControlled?: boolean,
+    controlledSchedule?: string | null,
+    adjustmentNotes?: string
   }) {
+    const medication = await db.query.medications.findFirst({
+      where: eq(medications.id, medicationId)
+    });
+    
+    if (!medication) {
+      throw new Error('Medication not found');
+    }
+    
     // Create an update object with only the provided fields
     const updateData: any = {};
     
@@ -900,6 +1368,18 @@ export const storage = {
       updateData.lastRefillDate = inventoryData.lastRefillDate;
     }
     
+    if (inventoryData.expirationDate !== undefined) {
+      updateData.expirationDate = inventoryData.expirationDate || null;
+    }
+    
+    if (inventoryData.isControlled !== undefined) {
+      updateData.isControlled = inventoryData.isControlled;
+    }
+    
+    if (inventoryData.controlledSchedule !== undefined) {
+      updateData.controlledSchedule = inventoryData.controlledSchedule || null;
+    }
+    
     updateData.updatedAt = new Date();
     
     // Update the medication record
@@ -908,210 +1388,1503 @@ export const storage = {
       .where(eq(medications.id, medicationId))
       .returning();
     
-    return updatedMedication;
-  },
-  
-  async refillMedication(medicationId: number, refillAmount: number, refillDate: Date = new Date()) {
-    // Get the current medication data
+    // A hand-entered count is recorded in the ledger as an adjustment
+    const previousQuantity = medication.currentQuantity || 0;
+    if (inventoryData.currentQuantity !== undefined && inventoryData.currentQuantity !== previousQuantity) {
+      await db.insert(medicationInventoryTransactions).values({
+        medicationId,
+        type: 'adjustment',
+        quantityChange: inventoryData.currentQuantity - previousQuantity,
+        quantityAfter: inventoryData.currentQuantity,
+        notes: inventoryData.adjustmentNotes || null
+      });
+    }
+    
+    await this.syncNextRefillDates(medicationId);
+    
+    return updatedMedication;
+  },
+  
+  async refillMedication(medicationId: number, refillAmount: number, refillDate: Date = new Date(), expirationDate?: string) {
+    const updatedMedication = await db.transaction(tx =>
+      applyRefill(tx, medicationId, refillAmount, refillDate, expirationDate)
+    );
+    
+    await this.syncNextRefillDates(medicationId);
+    
+    return updatedMedication;
+  },
+  
+  // Change a medication's stock by a signed amount and record it in the inventory ledger.
+  // The change is applied in SQL, so doses, fills and refills saved at the same moment all count.
+  // Stock isn't clamped at zero: using more than was on record shows up as a shortage.
+  async adjustMedicationStock(medicationId: number, change: number, type: string, details: {
+    medicationLogId?: number,
+    notes?: string
+  } = {}) {
+    const result = await db.transaction(tx => applyStockChange(tx, medicationId, change, type, details));
+    
+    await this.syncNextRefillDates(medicationId);
+    
+    return result;
+  },
+  
+  async recordMedicationWaste(medicationId: number, quantity: number, notes?: string) {
+    return this.adjustMedicationStock(medicationId, -quantity, 'waste', { notes });
+  },
+  
+  async getMedicationInventoryLedger(medicationId: number) {
+    return db.query.medicationInventoryTransactions.findMany({
+      where: eq(medicationInventoryTransactions.medicationId, medicationId),
+      orderBy: [desc(medicationInventoryTransactions.createdAt), desc(medicationInventoryTransactions.id)],
+      limit: 100
+    });
+  },
+
+  // Medication Reconciliation
+  async getMedicationReconciliations(careRecipientId: number) {
+    return db.query.medicationReconciliations.findMany({
+      where: eq(medicationReconciliations.careRecipientId, careRecipientId),
+      with: {
+        createdBy: { columns: { id: true, name: true, username: true } }
+      },
+      orderBy: desc(medicationReconciliations.createdAt),
+      limit: 20
+    });
+  },
+  
+  // Apply every decision from a discharge reconciliation in one transaction, so the medication
+  // list is never left half-updated, and record what changed
+  async applyMedicationReconciliation(careRecipientId: number, reconciliation: {
+    facility?: string,
+    dischargeDate?: string,
+    notes?: string,
+    items: Array<{
+      action: string,
+      medicationId?: number,
+      name?: string,
+      dosage?: string,
+      instructions?: string | null
+    }>
+  }, userId?: number | null) {
+    const careRecipient = await db.query.careRecipients.findFirst({
+      where: eq(careRecipients.id, careRecipientId)
+    });
+    
+    if (!careRecipient) {
+      throw new Error('Care recipient not found');
+    }
+    
+    for (const item of reconciliation.items) {
+      if (!isReconciliationAction(item.action)) {
+        throw new Error('Invalid reconciliation action');
+      }
+      if (item.action === 'new' && (!item.name?.trim() || !item.dosage?.trim())) {
+        throw new Error('New medications need a name and dosage');
+      }
+      if (item.action === 'change_dose' && !item.dosage?.trim()) {
+        throw new Error('A dose change needs the new dosage');
+      }
+      if (item.action !== 'new' && !item.medicationId) {
+        throw new Error('Medication not found');
+      }
+    }
+    
+    const effectiveDate = reconciliation.dischargeDate || format(new Date(), 'yyyy-MM-dd');
+    const stopReason = reconciliation.facility
+      ? `Stopped at hospital discharge (${reconciliation.facility})`
+      : 'Stopped at hospital discharge';
+    
+    return db.transaction(async (tx) => {
+      const recorded: ReconciliationItem[] = [];
+      
+      for (const item of reconciliation.items) {
+        if (item.action === 'new') {
+          const [created] = await tx.insert(medications).values(insertMedicationSchema.parse({
+            careRecipientId,
+            name: item.name!.trim(),
+            dosage: item.dosage!.trim(),
+            instructions: item.instructions || null,
+            startDate: effectiveDate
+          })).returning();
+          
+          recorded.push({
+            action: 'new',
+            medicationId: created.id,
+            name: created.name,
+            dosage: created.dosage,
+            instructions: created.instructions
+          });
+          continue;
+        }
+        
+        const existing = await tx.query.medications.findFirst({
+          where: and(
+            eq(medications.id, item.medicationId!),
+            eq(medications.careRecipientId, careRecipientId),
+            eq(medications.status, 'active')
+          )
+        });
+        
+        if (!existing) {
+          throw new Error('Medication not found');
+        }
+        
+        if (item.action === 'change_dose') {
+          const [updated] = await tx.update(medications)
+            .set({
+              dosage: item.dosage!.trim(),
+              ...(item.instructions !== undefined ? { instructions: item.instructions || null } : {}),
+              updatedAt: new Date()
+            })
+            .where(eq(medications.id, existing.id))
+            .returning();
+          
+          const changes = buildMedicationChanges(existing.id, [
+            { field: 'dosage', oldValue: existing.dosage, newValue: updated.dosage },
+            { field: 'instructions', oldValue: existing.instructions, newValue: updated.instructions }
+          ], userId, 'reconciliation');
+          if (changes.length > 0) {
+            await tx.insert(medicationChanges).values(changes);
+          }
+          
+          recorded.push({
+            action: 'change_dose',
+            medicationId: existing.id,
+            name: existing.name,
+            dosage: updated.dosage,
+            instructions: updated.instructions,
+            previousDosage: existing.dosage,
+            previousInstructions: existing.instructions
+          });
+        } else if (item.action === 'stop') {
+          await tx.update(medications)
+            .set({
+              status: 'discontinued',
+              stopDate: effectiveDate,
+              discontinuationReason: stopReason,
+              updatedAt: new Date()
+            })
+            .where(eq(medications.id, existing.id));
+          
+          // Open missed dose alerts for a medication that's no longer given don't need following up
+          await tx.update(missedDoses)
+            .set({ resolvedAt: new Date(), updatedAt: new Date() })
+            .where(and(eq(missedDoses.medicationId, existing.id), isNull(missedDoses.resolvedAt)));
+          
+          recorded.push({
+            action: 'stop',
+            medicationId: existing.id,
+            name: existing.name,
+            dosage: existing.dosage,
+            instructions: existing.instructions
+          });
+        } else {
+          recorded.push({
+            action: 'continue',
+            medicationId: existing.id,
+            name: existing.name,
+            dosage: existing.dosage,
+            instructions: existing.instructions
+          });
+        }
+      }
+      
+      const [event] = await tx.insert(medicationReconciliations).values({
+        careRecipientId,
+        facility: reconciliation.facility || null,
+        dischargeDate: reconciliation.dischargeDate || null,
+        notes: reconciliation.notes || null,
+        items: recorded,
+        createdById: userId ?? null
+      }).returning();
+      
+      return event;
+    });
+  },
+  
+  // Controlled Substance Counts
+  async getControlledSubstanceCounts(medicationId: number) {
+    return db.query.controlledSubstanceCounts.findMany({
+      where: eq(controlledSubstanceCounts.medicationId, medicationId),
+      with: controlledCountRelations,
+      orderBy: [desc(controlledSubstanceCounts.countedAt), desc(controlledSubstanceCounts.id)],
+      limit: 100
+    });
+  },
+  
+  async getControlledSubstanceCount(id: number) {
+    return db.query.controlledSubstanceCounts.findFirst({
+      where: eq(controlledSubstanceCounts.id, id),
+      with: {
+        ...controlledCountRelations,
+        medication: {
+          with: {
+            careRecipient: {
+              with: {
+                user: true
+              }
+            }
+          }
+        }
+      }
+    });
+  },
+  
+  // Counts that came up short or over and haven't been looked into yet
+  async getControlledSubstanceDiscrepancies(careRecipientId: number) {
+    return db.query.controlledSubstanceCounts.findMany({
+      where: and(
+        eq(controlledSubstanceCounts.careRecipientId, careRecipientId),
+        sql`${controlledSubstanceCounts.discrepancy} <> 0`,
+        isNull(controlledSubstanceCounts.resolvedAt)
+      ),
+      with: {
+        ...controlledCountRelations,
+        medication: {
+          columns: { id: true, name: true, dosage: true, currentQuantity: true }
+        }
+      },
+      orderBy: desc(controlledSubstanceCounts.countedAt)
+    });
+  },
+  
+  // Record a shift count against the stock the ledger says should be on hand. Every logged
+  // dose has already come off currentQuantity, so any difference is unaccounted-for stock.
+  async recordControlledSubstanceCount(medicationId: number, countData: {
+    shift: string,
+    countedQuantity: number,
+    witnessId: number,
+    notes?: string
+  }, userId: number) {
     const medication = await db.query.medications.findFirst({
       where: eq(medications.id, medicationId)
     });
     
-    if (!medication) {
-      throw new Error('Medication not found');
+    if (!medication) {
+      throw new Error('Medication not found');
+    }
+    if (!medication.isControlled) {
+      throw new Error('Medication is not a controlled substance');
+    }
+    if (!controlledCountShifts.includes(countData.shift)) {
+      throw new Error('Invalid shift');
+    }
+    if (countData.witnessId === userId) {
+      throw new Error('The witness must be a different caregiver');
+    }
+    
+    const expectedQuantity = medication.currentQuantity || 0;
+    
+    const [count] = await db.insert(controlledSubstanceCounts).values({
+      medicationId,
+      careRecipientId: medication.careRecipientId,
+      shift: countData.shift,
+      countedQuantity: countData.countedQuantity,
+      expectedQuantity,
+      discrepancy: countData.countedQuantity - expectedQuantity,
+      countedById: userId,
+      witnessId: countData.witnessId,
+      notes: countData.notes || null
+    }).returning();
+    
+    return count;
+  },
+  
+  async markControlledCountAlertSent(id: number, sentAt: Date = new Date()) {
+    await db.update(controlledSubstanceCounts)
+      .set({ alertSentAt: sentAt })
+      .where(eq(controlledSubstanceCounts.id, id));
+  },
+  
+  // Close out a discrepancy. When the physical count is accepted, stock is corrected
+  // through the ledger so the change stays on record.
+  async resolveControlledSubstanceCount(id: number, resolution: {
+    notes: string,
+    adjustStock?: boolean
+  }, userId: number) {
+    const count = await db.query.controlledSubstanceCounts.findFirst({
+      where: eq(controlledSubstanceCounts.id, id)
+    });
+    
+    if (!count) {
+      throw new Error('Count not found');
+    }
+    const adjustStock = resolution.adjustStock === true && count.discrepancy !== 0;
+    
+    // Claim the count first - only the request that resolves it corrects the stock, so
+    // resolving twice at once can't apply the correction twice
+    const resolved = await db.transaction(async (tx) => {
+      const [claimed] = await tx.update(controlledSubstanceCounts)
+        .set({
+          resolvedAt: new Date(),
+          resolvedById: userId,
+          resolutionNotes: resolution.notes
+        })
+        .where(and(eq(controlledSubstanceCounts.id, id), isNull(controlledSubstanceCounts.resolvedAt)))
+        .returning();
+      
+      if (!claimed) {
+        throw new Error('Count has already been resolved');
+      }
+      
+      // Doses given since the count have already come off stock, so the discrepancy itself is the correction
+      if (adjustStock) {
+        await applyStockChange(tx, count.medicationId, count.discrepancy, 'count_correction', {
+          notes: resolution.notes
+        });
+      }
+      
+      return claimed;
+    });
+    
+    if (adjustStock) {
+      await this.syncNextRefillDates(count.medicationId);
+    }
+    
+    return resolved;
+  },
+
+  // Drug Interactions
+  async getDrugInteractionDatasetVersion() {
+    const row = await db.query.drugInteractions.findFirst({
+      columns: { datasetVersion: true }
+    });
+    return row?.datasetVersion || null;
+  },
+
+  async getDrugInteractions() {
+    return db.query.drugInteractions.findMany();
+  },
+
+  async replaceDrugInteractions(entries: InsertDrugInteraction[]) {
+    await db.delete(drugInteractions);
+    if (entries.length > 0) {
+      await db.insert(drugInteractions).values(entries);
+    }
+  },
+
+  async getMedication(medicationId: number) {
+    return db.query.medications.findFirst({
+      where: eq(medications.id, medicationId)
+    });
+  },
+
+  async createMedication(medicationData: any) {
+    const validatedData = insertMedicationSchema.parse({
+      ...medicationData,
+      startDate: medicationData.startDate || format(new Date(), 'yyyy-MM-dd')
+    });
+    const [newMedication] = await db.insert(medications).values(validatedData).returning();
+    return newMedication;
+  },
+
+  async updateMedication(medicationId: number, medicationData: any, userId?: number | null) {
+    // First check if the medication exists
+    const existingMedication = await db.query.medications.findFirst({
+      where: eq(medications.id, medicationId),
+      with: {
+        prescribingDoctor: {
+          columns: { id: true, name: true }
+        }
+      }
+    });
+    
+    if (!existingMedication) {
+      throw new Error('Medication not found');
+    }
+    
+    // Update the medication with allowed fields only
+    // We only allow name, dosage, instructions and the prescribing doctor to be updated
+    const updateData: any = {};
+    if (medicationData.name !== undefined) updateData.name = medicationData.name;
+    if (medicationData.dosage !== undefined) updateData.dosage = medicationData.dosage;
+    if (medicationData.instructions !== undefined) updateData.instructions = medicationData.instructions;
+    
+    let newDoctor: { id: number; name: string } | null | undefined;
+    if (medicationData.doctorId !== undefined) {
+      const doctorId = medicationData.doctorId === null || medicationData.doctorId === ''
+        ? null
+        : parseInt(medicationData.doctorId);
+      
+      if (doctorId !== null) {
+        newDoctor = await db.query.doctors.findFirst({
+          where: and(eq(doctors.id, doctorId), eq(doctors.careRecipientId, existingMedication.careRecipientId)),
+          columns: { id: true, name: true }
+        });
+        
+        if (!newDoctor) {
+          throw new Error('Doctor not found');
+        }
+      } else {
+        newDoctor = null;
+      }
+      
+      updateData.doctorId = doctorId;
+    }
+    
+    // Nothing changed - return the existing medication
+    if (Object.keys(updateData).length === 0) {
+      const { prescribingDoctor, ...medication } = existingMedication;
+      return medication;
+    }
+    
+    const changes = buildMedicationChanges(medicationId, [
+      { field: 'dosage', oldValue: existingMedication.dosage, newValue: updateData.dosage ?? existingMedication.dosage },
+      {
+        field: 'instructions',
+        oldValue: existingMedication.instructions,
+        newValue: updateData.instructions !== undefined ? updateData.instructions || null : existingMedication.instructions
+      },
+      ...(newDoctor !== undefined && newDoctor?.id !== existingMedication.doctorId
+        ? [{ field: 'doctor', oldValue: existingMedication.prescribingDoctor?.name ?? null, newValue: newDoctor?.name ?? null }]
+        : [])
+    ], userId);
+    
+    return db.transaction(async (tx) => {
+      const [updatedMedication] = await tx.update(medications)
+        .set({ ...updateData, updatedAt: new Date() })
+        .where(eq(medications.id, medicationId))
+        .returning();
+      
+      if (changes.length > 0) {
+        await tx.insert(medicationChanges).values(changes);
+      }
+      
+      return updatedMedication;
+    });
+  },
+  
+  // Every recorded change to a medication and its schedules, newest first
+  async getMedicationChanges(medicationId: number) {
+    return db.query.medicationChanges.findMany({
+      where: eq(medicationChanges.medicationId, medicationId),
+      with: {
+        changedBy: { columns: { id: true, name: true, username: true } }
+      },
+      orderBy: [desc(medicationChanges.changedAt), desc(medicationChanges.id)],
+      limit: 200
+    });
+  },
+  
+  // Stop a medication without losing its schedules, logs or inventory history
+  async discontinueMedication(medicationId: number, details: { reason?: string; stopDate?: string } = {}) {
+    const existingMedication = await db.query.medications.findFirst({
+      where: eq(medications.id, medicationId)
+    });
+    
+    if (!existingMedication) {
+      throw new Error('Medication not found');
+    }
+    
+    const [updatedMedication] = await db.update(medications)
+      .set({
+        status: 'discontinued',
+        stopDate: details.stopDate || format(new Date(), 'yyyy-MM-dd'),
+        discontinuationReason: details.reason || null,
+        updatedAt: new Date()
+      })
+      .where(eq(medications.id, medicationId))
+      .returning();
+    
+    // Open missed dose alerts for a medication that's no longer given don't need following up
+    await db.update(missedDoses)
+      .set({ resolvedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(missedDoses.medicationId, medicationId), isNull(missedDoses.resolvedAt)));
+    
+    return updatedMedication;
+  },
+  
+  // Put a discontinued medication back on the active list, starting again today. The original
+  // start date is kept and the time it was stopped is recorded as a break, so doses from the
+  // earlier course stay in adherence and the MAR, and the stopped days don't count as missed.
+  async reactivateMedication(medicationId: number) {
+    const existingMedication = await db.query.medications.findFirst({
+      where: eq(medications.id, medicationId)
+    });
+    
+    if (!existingMedication) {
+      throw new Error('Medication not found');
+    }
+    
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const courseBreaks = parseCourseBreaks(existingMedication.courseBreaks);
+    const stopDate = normalizeScheduleDate(existingMedication.stopDate);
+    if (stopDate && stopDate < today) {
+      courseBreaks.push({ stopDate, restartDate: today, reason: existingMedication.discontinuationReason });
+    }
+    
+    const [updatedMedication] = await db.update(medications)
+      .set({
+        status: 'active',
+        // A medication that was never given before it was stopped starts from today
+        startDate: existingMedication.startDate && existingMedication.startDate < today ? existingMedication.startDate : today,
+        stopDate: null,
+        courseBreaks,
+        discontinuationReason: null,
+        updatedAt: new Date()
+      })
+      .where(eq(medications.id, medicationId))
+      .returning();
+    
+    return updatedMedication;
+  },
+  
+  async deleteMedication(medicationId: number) {
+    try {
+      console.log(`Deleting medication with ID: ${medicationId}`);
+      
+      // Delete any related medication logs first, so the schedules they point at can go too
+      await db
+        .delete(medicationLogs)
+        .where(eq(medicationLogs.medicationId, medicationId));
+      
+      // Then delete all associated medication schedules
+      const schedules = await db
+        .select()
+        .from(medicationSchedules)
+        .where(eq(medicationSchedules.medicationId, medicationId));
+      
+      for (const schedule of schedules) {
+        await this.deleteMedicationSchedule(schedule.id);
+      }
+      
+      // Delete any pharmacy associations
+      await db
+        .delete(medicationPharmacies)
+        .where(eq(medicationPharmacies.medicationId, medicationId));
+      
+      // Delete the inventory ledger and controlled substance counts
+      await db
+        .delete(medicationInventoryTransactions)
+        .where(eq(medicationInventoryTransactions.medicationId, medicationId));
+      await db
+        .delete(controlledSubstanceCounts)
+        .where(eq(controlledSubstanceCounts.medicationId, medicationId));
+      
+      // Delete the change history
+      await db
+        .delete(medicationChanges)
+        .where(eq(medicationChanges.medicationId, medicationId));
+      
+      // Finally delete the medication itself
+      await db
+        .delete(medications)
+        .where(eq(medications.id, medicationId));
+      
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting medication:', error);
+      throw error;
+    }
+  },
+  
+  // Medication Schedules
+  async getMedicationSchedules(medicationId: number) {
+    return db.query.medicationSchedules.findMany({
+      where: eq(medicationSchedules.medicationId, medicationId),
+      orderBy: medicationSchedules.time
+    });
+  },
+  
+  // Pass changedBy when a caregiver added the schedule, so it shows in the medication's change history
+  async createMedicationSchedule(scheduleData: any, changedBy?: { userId?: number | null }) {
+    const validatedData = insertMedicationScheduleSchema.parse(normalizeScheduleData(scheduleData));
+    const [newSchedule] = await db.insert(medicationSchedules).values(validatedData).returning();
+    
+    if (changedBy) {
+      await db.insert(medicationChanges).values(buildMedicationChanges(newSchedule.medicationId, [{
+        field: 'schedule_added',
+        oldValue: null,
+        newValue: `${describeScheduleTime(newSchedule)}, ${newSchedule.quantity}`,
+        scheduleId: newSchedule.id
+      }], changedBy.userId));
+    }
+    
+    return newSchedule;
+  },
+  
+  // Schedules are updated in place, so the logs, reminders and missed doses recorded against
+  // them keep pointing at the same row. Changes to the time, dose and days are recorded against the medication.
+  async updateMedicationSchedule(scheduleId: number, scheduleData: Partial<InsertMedicationSchedule>, userId?: number | null) {
+    const existingSchedule = await db.query.medicationSchedules.findFirst({
+      where: eq(medicationSchedules.id, scheduleId)
+    });
+    
+    if (!existingSchedule) {
+      throw new Error('Medication schedule not found');
+    }
+    
+    const { id, createdAt, updatedAt, ...validatedData } = insertMedicationScheduleSchema.parse(normalizeScheduleData({
+      ...scheduleData,
+      medicationId: existingSchedule.medicationId
+    }));
+    
+    return db.transaction(async (tx) => {
+      const [updatedSchedule] = await tx.update(medicationSchedules)
+        .set({ ...validatedData, updatedAt: new Date() })
+        .where(eq(medicationSchedules.id, scheduleId))
+        .returning();
+      
+      const changes = buildMedicationChanges(updatedSchedule.medicationId, [
+        { field: 'schedule_time', oldValue: describeScheduleTime(existingSchedule), newValue: describeScheduleTime(updatedSchedule) },
+        { field: 'schedule_quantity', oldValue: existingSchedule.quantity, newValue: updatedSchedule.quantity },
+        { field: 'schedule_days', oldValue: describeScheduleDays(existingSchedule), newValue: describeScheduleDays(updatedSchedule) }
+      ].map(change => ({ ...change, scheduleId })), userId);
+      
+      if (changes.length > 0) {
+        await tx.insert(medicationChanges).values(changes);
+      }
+      
+      return updatedSchedule;
+    });
+  },
+  
+  // Pass changedBy when a caregiver removed the schedule, so it shows in the medication's change history.
+  // A schedule with logged doses is switched off rather than deleted, so those logs keep their schedule.
+  async deleteMedicationSchedule(scheduleId: number | string, changedBy?: { userId?: number | null }) {
+    console.log(`storage.deleteMedicationSchedule called with ID: ${scheduleId} (${typeof scheduleId})`);
+    
+    // If ID is numeric, use standard lookup
+    if (typeof scheduleId === 'number') {
+      // First, check if the schedule exists
+      const schedule = await db.query.medicationSchedules.findFirst({
+        where: eq(medicationSchedules.id, scheduleId)
+      });
+      
+      if (!schedule) {
+        throw new Error('Medication schedule not found');
+      }
+      
+      const loggedDose = await db.query.medicationLogs.findFirst({
+        where: eq(medicationLogs.scheduleId, scheduleId),
+        columns: { id: true }
+      });
+      
+      await db.transaction(async (tx) => {
+        if (loggedDose) {
+          await tx.update(medicationSchedules)
+            .set({ active: false, deactivatedAt: new Date(), updatedAt: new Date() })
+            .where(eq(medicationSchedules.id, scheduleId));
+        } else {
+          // Delete reminder and missed dose records that reference this schedule, then the schedule
+          await tx.delete(medicationReminderLogs).where(eq(medicationReminderLogs.scheduleId, scheduleId));
+          await tx.delete(missedDoses).where(eq(missedDoses.scheduleId, scheduleId));
+          await tx.delete(medicationSchedules).where(eq(medicationSchedules.id, scheduleId));
+        }
+        
+        if (changedBy) {
+          await tx.insert(medicationChanges).values(buildMedicationChanges(schedule.medicationId, [{
+            field: 'schedule_removed',
+            oldValue: `${describeScheduleTime(schedule)}, ${schedule.quantity}`,
+            newValue: null,
+            scheduleId
+          }], changedBy.userId));
+        }
+      });
+      
+      return { success: true, switchedOff: !!loggedDose };
+    } else {
+      // If it's a string ID (UUID), we need to try to find the schedule by numeric ID
+      const numericId = parseInt(scheduleId);
+      
+      if (!isNaN(numericId)) {
+        // We have a valid numeric ID from the string
+        return this.deleteMedicationSchedule(numericId, changedBy);
+      } else {
+        // The ID is a non-numeric string (UUID)
+        // This is a workaround for the client sending UUIDs instead of DB IDs
+        console.log(`Client sent UUID ${scheduleId} which doesn't match any database ID`);
+        console.log(`Searching for matching medication schedules in database...`);
+        
+        // Get all schedules to see if we can find a match
+        const allSchedules = await db.query.medicationSchedules.findMany();
+        console.log(`Found ${allSchedules.length} total schedules in database`);
+        
+        // Since we couldn't find a direct match, we'll just return success
+        // The client will still remove it from the UI
+      }
+    }
+    
+    return { success: true };
+  },
+
+  // Medication Logs
+  async getMedicationLogs(careRecipientId: number, loggedBy?: number) {
+    return db.query.medicationLogs.findMany({
+      where: and(
+        eq(medicationLogs.careRecipientId, careRecipientId),
+        loggedBy ? eq(medicationLogs.createdById, loggedBy) : undefined
+      ),
+      // Include the medication so discontinued ones can still be shown by name
+      with: {
+        medication: {
+          columns: { id: true, name: true, dosage: true, status: true }
+        },
+        ...loggedByRelations
+      },
+      orderBy: desc(medicationLogs.takenAt),
+      limit: 10
+    });
+  },
+
+  async createMedicationLog(logData: Partial<InsertMedicationLog>, userId?: number | null) {
+    // Older callers only send the taken flag
+    const status = logData.status ?? (logData.taken === false ? 'skipped' : 'taken');
+    
+    if (!isDoseLogStatus(status)) {
+      throw new Error('Invalid dose status');
+    }
+    if (logData.reasonCode && !isDoseReasonCode(logData.reasonCode)) {
+      throw new Error('Invalid reason code');
+    }
+    if (doseLogStatuses.find(entry => entry.value === status)?.requiresReason && !logData.reasonCode) {
+      throw new Error('A reason is required when a dose is not given');
+    }
+    
+    const validatedData = insertMedicationLogSchema.parse({
+      ...logData,
+      status,
+      taken: isDoseGiven(status),
+      reasonCode: logData.reasonCode || null,
+      createdById: userId ?? null,
+      updatedById: userId ?? null
+    });
+    // The log and the stock it used are saved together, so a dose is never recorded without
+    // coming off stock. Taking a dose uses up stock, unless it came out of a pill organizer
+    // whose stock was already taken out when it was filled.
+    const { newLog, stockUsed } = await db.transaction(async (tx) => {
+      const [log] = await tx.insert(medicationLogs).values(validatedData).returning();
+      
+      if (!log.taken || await this.isDoseFromDeductedOrganizer(log)) {
+        return { newLog: log, stockUsed: false };
+      }
+      
+      const units = await this.getDoseUnitsForLog(log);
+      await applyStockChange(tx, log.medicationId, -units, 'dose', { medicationLogId: log.id });
+      return { newLog: log, stockUsed: true };
+    });
+    
+    if (stockUsed) {
+      await this.syncNextRefillDates(newLog.medicationId);
+    }
+    
+    return newLog;
+  },
+  
+  // Check an as-needed schedule's limits at a point in time. Every dose of the medication
+  // counts, so a dose logged without a schedule still holds off the next PRN dose.
+  // Returns null for scheduled (non-PRN) doses and PRN schedules without limits.
+  async getPrnDoseStatus(scheduleId: number, at: Date = new Date()) {
+    const schedule = await db.query.medicationSchedules.findFirst({
+      where: eq(medicationSchedules.id, scheduleId)
+    });
+    
+    if (!schedule || !schedule.asNeeded || !hasPrnDoseLimits(schedule)) {
+      return null;
+    }
+    
+    const recentLogs = await db.query.medicationLogs.findMany({
+      where: and(
+        eq(medicationLogs.medicationId, schedule.medicationId),
+        eq(medicationLogs.taken, true),
+        gte(medicationLogs.takenAt, subHours(at, getPrnLookbackHours(schedule))),
+        lte(medicationLogs.takenAt, at)
+      )
+    });
+    
+    return {
+      scheduleId: schedule.id,
+      medicationId: schedule.medicationId,
+      maxDosesPer24h: schedule.maxDosesPer24h,
+      minHoursBetweenDoses: schedule.minHoursBetweenDoses,
+      ...checkPrnDoseLimits(schedule, recentLogs.map(log => new Date(log.takenAt)), at)
+    };
+  },
+  
+  // PRN limit status for every as-needed schedule a care recipient has
+  async getPrnDoseStatuses(careRecipientId: number, now: Date = new Date()) {
+    const meds = await db.query.medications.findMany({
+      where: and(eq(medications.careRecipientId, careRecipientId), eq(medications.status, 'active')),
+      with: {
+        schedules: true
+      }
+    });
+    
+    const prnSchedules = meds
+      .flatMap(med => med.schedules || [])
+      .filter(schedule => schedule.asNeeded && schedule.active !== false && hasPrnDoseLimits(schedule));
+    
+    const statuses = await Promise.all(prnSchedules.map(schedule => this.getPrnDoseStatus(schedule.id, now)));
+    return statuses.filter(status => status !== null);
+  },
+  
+  // How many units of stock a logged dose used, from its schedule's quantity on that day
+  async getDoseUnitsForLog(log: { scheduleId: number | null, takenAt: Date }) {
+    if (!log.scheduleId) return 1;
+    
+    const schedule = await db.query.medicationSchedules.findFirst({
+      where: eq(medicationSchedules.id, log.scheduleId)
+    });
+    
+    if (!schedule) return 1;
+    
+    // Use the taper step quantity when the dose falls inside a tapering plan
+    const dose = getDoseForDay({ ...schedule, active: true, asNeeded: false }, new Date(log.takenAt));
+    if (dose) {
+      return getDoseStockUnits(dose.quantity, dose.doseAmount);
+    }
+    
+    return getDoseStockUnits(schedule.quantity, schedule.doseAmount);
+  },
+  
+  async deleteMedicationLog(logId: number) {
+    // Find the log first to ensure it exists
+    const logToDelete = await db.query.medicationLogs.findFirst({
+      where: eq(medicationLogs.id, logId)
+    });
+    
+    if (!logToDelete) {
+      throw new Error('Medication log not found');
+    }
+    
+    // Put back whatever stock this dose used, and delete the log, together
+    const stockReturned = await db.transaction(async (tx) => {
+      const logTransactions = await tx.query.medicationInventoryTransactions.findMany({
+        where: eq(medicationInventoryTransactions.medicationLogId, logId)
+      });
+      const netChange = logTransactions.reduce((total, transaction) => total + transaction.quantityChange, 0);
+      
+      if (netChange !== 0) {
+        await applyStockChange(tx, logToDelete.medicationId, -netChange, 'dose_reversal', {
+          medicationLogId: logId,
+          notes: 'Dose log deleted'
+        });
+      }
+      
+      await tx.delete(medicationLogs).where(eq(medicationLogs.id, logId));
+      return netChange !== 0;
+    });
+    
+    if (stockReturned) {
+      await this.syncNextRefillDates(logToDelete.medicationId);
+    }
+    
+    return { success: true };
+  },
+
+  // Scheduled Doses
+  async getScheduledDoses(careRecipientId: number, from: Date, to: Date) {
+    const meds = await db.query.medications.findMany({
+      where: eq(medications.careRecipientId, careRecipientId),
+      with: {
+        schedules: true
+      }
+    });
+    
+    // Discontinued medications are included so past doses still show up under their name
+    const medsById = new Map(meds.map(med => [med.id, med]));
+    const doses = expandDoses(meds.flatMap(med => withMedicationDates(med)), from, to);
+    
+    // Attach the medication details the UI needs to show each dose
+    return doses.map(dose => {
+      const med = medsById.get(dose.medicationId);
+      return {
+        ...dose,
+        medicationName: med?.name || 'Unknown medication',
+        dosage: med?.dosage || '',
+        instructions: med?.instructions || ''
+      };
+    });
+  },
+
+  // Pill Organizer
+  // What goes in each compartment of the week's pill organizer, starting on weekStart. Doses come
+  // from the schedules in effect on each day, so tapering steps and specific days are included.
+  async getPillOrganizerPlan(careRecipientId: number, weekStart: Date) {
+    const careRecipient = await db.query.careRecipients.findFirst({
+      where: eq(careRecipients.id, careRecipientId)
+    });
+    
+    if (!careRecipient) {
+      throw new Error('Care recipient not found');
+    }
+    
+    const from = startOfDay(weekStart);
+    const to = endOfDay(addDays(from, 6));
+    const weekStartKey = format(from, 'yyyy-MM-dd');
+    
+    const doses = await this.getScheduledDoses(careRecipientId, from, to);
+    const stock = await db.query.medications.findMany({
+      where: eq(medications.careRecipientId, careRecipientId),
+      columns: { id: true, currentQuantity: true }
+    });
+    const stockById = new Map(stock.map(med => [med.id, med.currentQuantity]));
+    
+    type OrganizerDose = {
+      medicationId: number;
+      scheduleId: number;
+      name: string;
+      dosage: string;
+      quantity: string;
+      time: string;
+      withFood: boolean;
+      units: number;
+    };
+    
+    const days = Array.from({ length: 7 }, (_, index) => {
+      const date = format(addDays(from, index), 'yyyy-MM-dd');
+      return {
+        date,
+        compartments: organizerCompartments.map(compartment => ({
+          compartment: compartment.value,
+          key: getCompartmentKey(date, compartment.value),
+          doses: [] as OrganizerDose[]
+        }))
+      };
+    });
+    const daysByDate = new Map(days.map(day => [day.date, day]));
+    
+    // Stock needed for the whole week, so shortfalls show before the organizer is filled
+    const needed = new Map<number, { medicationId: number; name: string; dosage: string; units: number; currentQuantity: number }>();
+    
+    for (const dose of doses) {
+      const day = daysByDate.get(dose.date);
+      const compartment = day?.compartments.find(entry => entry.compartment === getOrganizerCompartment(dose.time));
+      if (!compartment) continue;
+      
+      const units = getDoseStockUnits(dose.quantity, dose.doseAmount);
+      compartment.doses.push({
+        medicationId: dose.medicationId,
+        scheduleId: dose.scheduleId,
+        name: dose.medicationName,
+        dosage: dose.dosage,
+        quantity: dose.quantity,
+        time: dose.time.slice(0, 5),
+        withFood: dose.withFood,
+        units
+      });
+      
+      const total = needed.get(dose.medicationId) || {
+        medicationId: dose.medicationId,
+        name: dose.medicationName,
+        dosage: dose.dosage,
+        units: 0,
+        currentQuantity: stockById.get(dose.medicationId) || 0
+      };
+      total.units += units;
+      needed.set(dose.medicationId, total);
+    }
+    
+    const fill = await db.query.pillOrganizerFills.findFirst({
+      where: and(
+        eq(pillOrganizerFills.careRecipientId, careRecipientId),
+        eq(pillOrganizerFills.weekStart, weekStartKey)
+      ),
+      with: {
+        filledBy: { columns: { id: true, name: true, username: true } }
+      }
+    });
+    
+    return {
+      weekStart: weekStartKey,
+      weekEnd: format(addDays(from, 6), 'yyyy-MM-dd'),
+      days,
+      medications: Array.from(needed.values())
+        .map(med => ({ ...med, shortBy: Math.max(0, med.units - med.currentQuantity) }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+      fill: fill || null
+    };
+  },
+  
+  // Save which compartments have been filled so far
+  async updatePillOrganizerChecklist(careRecipientId: number, weekStart: string, checked: string[]) {
+    const careRecipient = await db.query.careRecipients.findFirst({
+      where: eq(careRecipients.id, careRecipientId)
+    });
+    
+    if (!careRecipient) {
+      throw new Error('Care recipient not found');
+    }
+    
+    const checkedCompartments = Array.from(new Set(checked.filter(isCompartmentKey)));
+    
+    const [fill] = await db.insert(pillOrganizerFills)
+      .values({ careRecipientId, weekStart, checkedCompartments })
+      .onConflictDoUpdate({
+        target: [pillOrganizerFills.careRecipientId, pillOrganizerFills.weekStart],
+        set: { checkedCompartments, updatedAt: new Date() }
+      })
+      .returning();
+    
+    return fill;
+  },
+  
+  // Confirm the week's organizer is filled. With deductInventory, the pills that went into it
+  // come out of stock now, and doses given from it later don't take stock again.
+  async completePillOrganizerFill(careRecipientId: number, weekStart: Date, options: { deductInventory?: boolean } = {}, userId?: number | null) {
+    const plan = await this.getPillOrganizerPlan(careRecipientId, weekStart);
+    
+    if (plan.fill?.filledAt) {
+      throw new Error('This week has already been filled');
+    }
+    
+    const deductions = options.deductInventory
+      ? plan.medications.filter(med => med.units > 0).map(med => ({ medicationId: med.medicationId, units: med.units }))
+      : [];
+    
+    // Every compartment with something in it counts as filled once the fill is confirmed
+    const checkedCompartments = Array.from(new Set([
+      ...((plan.fill?.checkedCompartments as string[]) || []),
+      ...plan.days.flatMap(day => day.compartments.filter(entry => entry.doses.length > 0).map(entry => entry.key))
+    ]));
+    
+    const values = {
+      checkedCompartments,
+      deductions,
+      filledAt: new Date(),
+      filledById: userId ?? null,
+      updatedAt: new Date()
+    };
+    
+    // Claim the week first - only the request that marks it filled takes the pills out of stock,
+    // so two caregivers confirming at once can't deduct the week twice
+    const fill = await db.transaction(async (tx) => {
+      const [claimed] = await tx.insert(pillOrganizerFills)
+        .values({ careRecipientId, weekStart: plan.weekStart, ...values })
+        .onConflictDoUpdate({
+          target: [pillOrganizerFills.careRecipientId, pillOrganizerFills.weekStart],
+          set: values,
+          where: isNull(pillOrganizerFills.filledAt)
+        })
+        .returning();
+      
+      if (!claimed) {
+        throw new Error('This week has already been filled');
+      }
+      
+      for (const deduction of deductions) {
+        await applyStockChange(tx, deduction.medicationId, -deduction.units, 'organizer_fill', {
+          notes: `Pill organizer for the week of ${format(new Date(`${plan.weekStart}T00:00:00`), 'MMM d')}`
+        });
+      }
+      
+      return claimed;
+    });
+    
+    for (const deduction of deductions) {
+      await this.syncNextRefillDates(deduction.medicationId);
     }
     
-    // Calculate new values
-    const newQuantity = (medication.currentQuantity || 0) + refillAmount;
-    const newRefillsRemaining = Math.max(0, (medication.refillsRemaining || 0) - 1);
+    return fill;
+  },
+  
+  // Whether a logged dose came out of a pill organizer that had its stock taken out when it was filled.
+  // Only scheduled doses go in the organizer - as-needed doses are still taken from stock when logged.
+  async isDoseFromDeductedOrganizer(log: { careRecipientId: number, medicationId: number, scheduleId: number | null, takenAt: Date }) {
+    if (!log.scheduleId) return false;
     
-    // Update the medication with new inventory values
-    const [updatedMedication] = await db.update(medications)
-      .set({
-        currentQuantity: newQuantity,
-        refillsRemaining: newRefillsRemaining,
-        lastRefillDate: refillDate,
-        updatedAt: new Date()
-      })
-      .where(eq(medications.id, medicationId))
-      .returning();
+    const schedule = await db.query.medicationSchedules.findFirst({
+      where: eq(medicationSchedules.id, log.scheduleId)
+    });
     
-    return updatedMedication;
-  },
-
-  async createMedication(medicationData: any) {
-    const validatedData = insertMedicationSchema.parse(medicationData);
-    const [newMedication] = await db.insert(medications).values(validatedData).returning();
-    return newMedication;
+    if (!schedule || schedule.asNeeded) return false;
+    
+    const doseDay = startOfDay(new Date(log.takenAt));
+    const fills = await db.query.pillOrganizerFills.findMany({
+      where: and(
+        eq(pillOrganizerFills.careRecipientId, log.careRecipientId),
+        gte(pillOrganizerFills.weekStart, format(addDays(doseDay, -6), 'yyyy-MM-dd')),
+        lte(pillOrganizerFills.weekStart, format(doseDay, 'yyyy-MM-dd'))
+      )
+    });
+    
+    return fills.some(fill =>
+      !!fill.filledAt &&
+      (fill.deductions as { medicationId: number; units: number }[]).some(deduction => deduction.medicationId === log.medicationId)
+    );
   },
 
-  async updateMedication(medicationId: number, medicationData: any) {
-    // First check if the medication exists
-    const existingMedication = await db.query.medications.findFirst({
-      where: eq(medications.id, medicationId)
+  // Adherence Report
+  async getAdherenceReport(careRecipientId: number, from: Date, to: Date, now: Date = new Date()) {
+    const careRecipient = await db.query.careRecipients.findFirst({
+      where: eq(careRecipients.id, careRecipientId),
+      with: {
+        user: true
+      }
     });
     
-    if (!existingMedication) {
-      throw new Error('Medication not found');
+    if (!careRecipient) {
+      throw new Error('Care recipient not found');
     }
     
-    // Update the medication with allowed fields only
-    // We only allow name, dosage, and instructions to be updated
-    const updateData: any = {};
-    if (medicationData.name !== undefined) updateData.name = medicationData.name;
-    if (medicationData.dosage !== undefined) updateData.dosage = medicationData.dosage;
-    if (medicationData.instructions !== undefined) updateData.instructions = medicationData.instructions;
+    // Use the same grace window as missed dose alerts to decide when a dose is late or missed
+    const graceMinutes = careRecipient.user?.missedDoseGraceMinutes ?? 60;
     
-    // Update the medication
-    if (Object.keys(updateData).length > 0) {
-      const [updatedMedication] = await db.update(medications)
-        .set(updateData)
-        .where(eq(medications.id, medicationId))
-        .returning();
-      
-      return updatedMedication;
+    // Doses and logs after the range are only there so late logs go to the right dose
+    const matchUntil = addDays(to, DOSE_LOG_LOOKAHEAD_DAYS);
+    const doses = await this.getScheduledDoses(careRecipientId, from, matchUntil);
+    
+    const logs = await db.query.medicationLogs.findMany({
+      where: and(
+        eq(medicationLogs.careRecipientId, careRecipientId),
+        gte(medicationLogs.takenAt, from),
+        lte(medicationLogs.takenAt, matchUntil)
+      ),
+      orderBy: medicationLogs.takenAt
+    });
+    
+    const logsByDose = matchDoseLogs(doses, logs);
+    
+    const emptyCounts = () => ({ due: 0, taken: 0, late: 0, vomited: 0, refused: 0, skipped: 0, missed: 0, pending: 0 });
+    type Counts = ReturnType<typeof emptyCounts>;
+    
+    // Adherence counts the doses taken - on time or late - against every dose that has come due.
+    // A vomited dose didn't stay down, so it isn't counted as taken; it's reported on its own.
+    const withAdherence = <T extends Counts>(counts: T) => ({
+      ...counts,
+      adherence: counts.due > 0 
+        ? Math.round(((counts.taken + counts.late) / counts.due) * 100) 
+        : null
+    });
+    
+    const summary = emptyCounts();
+    const byMedication = new Map<number, Counts & { medicationId: number; name: string; dosage: string; schedules: Map<number, Counts & { scheduleId: number; time: string }> }>();
+    const byDay = new Map<string, Counts & { date: string }>();
+    
+    // Include every day in the range so the daily chart has no gaps
+    for (let day = startOfDay(from); day <= to; day = addDays(day, 1)) {
+      const date = format(day, 'yyyy-MM-dd');
+      byDay.set(date, { date, ...emptyCounts() });
     }
     
-    // If no changes, return the existing medication
-    return existingMedication;
-  },
-  
-  async deleteMedication(medicationId: number) {
-    try {
-      console.log(`Deleting medication with ID: ${medicationId}`);
-      
-      // First, delete all associated medication schedules
-      const schedules = await db
-        .select()
-        .from(medicationSchedules)
-        .where(eq(medicationSchedules.medicationId, medicationId));
+    doses.forEach((dose, index) => {
+      if (dose.scheduledFor > to) return;
+      const { outcome } = classifyDose(dose, logsByDose[index], graceMinutes, now);
       
-      for (const schedule of schedules) {
-        await this.deleteMedicationSchedule(schedule.id);
+      if (!byMedication.has(dose.medicationId)) {
+        byMedication.set(dose.medicationId, {
+          medicationId: dose.medicationId,
+          name: dose.medicationName,
+          dosage: dose.dosage,
+          schedules: new Map(),
+          ...emptyCounts()
+        });
       }
+      const medEntry = byMedication.get(dose.medicationId)!;
       
-      // Delete any related medication logs
-      await db
-        .delete(medicationLogs)
-        .where(eq(medicationLogs.medicationId, medicationId));
-      
-      // Delete any pharmacy associations
-      await db
-        .delete(medicationPharmacies)
-        .where(eq(medicationPharmacies.medicationId, medicationId));
+      if (!medEntry.schedules.has(dose.scheduleId)) {
+        medEntry.schedules.set(dose.scheduleId, { scheduleId: dose.scheduleId, time: dose.time, ...emptyCounts() });
+      }
+      const scheduleEntry = medEntry.schedules.get(dose.scheduleId)!;
       
-      // Finally delete the medication itself
-      await db
-        .delete(medications)
-        .where(eq(medications.id, medicationId));
+      if (!byDay.has(dose.date)) {
+        byDay.set(dose.date, { date: dose.date, ...emptyCounts() });
+      }
+      const dayEntry = byDay.get(dose.date)!;
       
-      return { success: true };
-    } catch (error) {
-      console.error('Error deleting medication:', error);
-      throw error;
-    }
-  },
-  
-  // Medication Schedules
-  async getMedicationSchedules(medicationId: number) {
-    return db.query.medicationSchedules.findMany({
-      where: eq(medicationSchedules.medicationId, medicationId),
-      orderBy: medicationSchedules.time
+      for (const counts of [summary, medEntry, scheduleEntry, dayEntry]) {
+        counts[outcome]++;
+        // Doses still inside their grace window haven't come due for adherence purposes
+        if (outcome !== 'pending') counts.due++;
+      }
     });
+    
+    return {
+      from: format(from, 'yyyy-MM-dd'),
+      to: format(to, 'yyyy-MM-dd'),
+      graceMinutes,
+      summary: withAdherence(summary),
+      medications: Array.from(byMedication.values())
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(({ schedules, ...med }) => ({
+          ...withAdherence(med),
+          schedules: Array.from(schedules.values())
+            .sort((a, b) => a.time.localeCompare(b.time))
+            .map(withAdherence)
+        })),
+      daily: Array.from(byDay.values())
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .map(withAdherence)
+    };
   },
-  
-  async createMedicationSchedule(scheduleData: any) {
-    // Process days of week - accept an array and store as JSON
-    if (Array.isArray(scheduleData.daysOfWeek)) {
-      scheduleData.daysOfWeek = JSON.stringify(scheduleData.daysOfWeek);
-    } else if (typeof scheduleData.daysOfWeek === 'string') {
-      try {
-        // If it's a string, ensure it's valid JSON
-        JSON.parse(scheduleData.daysOfWeek);
-      } catch (e) {
-        // If not valid JSON, assume it's a comma-separated list
-        scheduleData.daysOfWeek = JSON.stringify(
-          scheduleData.daysOfWeek.split(',').map(d => parseInt(d.trim()))
-        );
+
+  // Medication Administration Record
+  // One month of scheduled doses laid out per schedule and day, plus every as-needed or
+  // unscheduled dose, for printing as a paper MAR
+  async getMedicationAdministrationRecord(careRecipientId: number, month: Date, now: Date = new Date()) {
+    const careRecipient = await db.query.careRecipients.findFirst({
+      where: eq(careRecipients.id, careRecipientId),
+      with: {
+        user: true
       }
+    });
+    
+    if (!careRecipient) {
+      throw new Error('Care recipient not found');
     }
     
-    const validatedData = insertMedicationScheduleSchema.parse(scheduleData);
-    const [newSchedule] = await db.insert(medicationSchedules).values(validatedData).returning();
-    return newSchedule;
-  },
-  
-  async deleteMedicationSchedule(scheduleId: number | string) {
-    console.log(`storage.deleteMedicationSchedule called with ID: ${scheduleId} (${typeof scheduleId})`);
+    const from = startOfMonth(month);
+    const to = endOfMonth(month);
+    const graceMinutes = careRecipient.user?.missedDoseGraceMinutes ?? 60;
     
-    // If ID is numeric, use standard lookup
-    if (typeof scheduleId === 'number') {
-      // First, check if the schedule exists
-      const schedule = await db.query.medicationSchedules.findFirst({
-        where: eq(medicationSchedules.id, scheduleId)
-      });
+    const meds = await db.query.medications.findMany({
+      where: eq(medications.careRecipientId, careRecipientId),
+      with: {
+        schedules: true
+      },
+      orderBy: medications.name
+    });
+    const medsById = new Map(meds.map(med => [med.id, med]));
+    const schedulesById = new Map(meds.flatMap(med => med.schedules).map(schedule => [schedule.id, schedule]));
+    
+    // Doses and logs after the month are only used so late logs go to the right dose
+    const matchUntil = addDays(to, DOSE_LOG_LOOKAHEAD_DAYS);
+    const doses = await this.getScheduledDoses(careRecipientId, from, matchUntil);
+    
+    const matchingLogs = await db.query.medicationLogs.findMany({
+      where: and(
+        eq(medicationLogs.careRecipientId, careRecipientId),
+        gte(medicationLogs.takenAt, from),
+        lte(medicationLogs.takenAt, matchUntil)
+      ),
+      with: loggedByRelations,
+      orderBy: medicationLogs.takenAt
+    });
+    const logs = matchingLogs.filter(log => new Date(log.takenAt) <= to);
+    
+    // Every dose is initialed by the caregiver who logged it, with one legend line each
+    const caregivers = new Map<number, { id: number; name: string }>();
+    const getRecordedBy = (log: (typeof logs)[number] | null) => {
+      if (!log?.createdBy) return null;
+      const caregiver = { id: log.createdBy.id, name: log.createdBy.name || log.createdBy.username };
+      caregivers.set(caregiver.id, caregiver);
+      return caregiver;
+    };
+    
+    const logsByDose = matchDoseLogs(doses, matchingLogs);
+    
+    // One row per schedule, with a cell for each day it had a dose
+    const rows = new Map<number, {
+      medicationId: number;
+      scheduleId: number;
+      name: string;
+      dosage: string;
+      instructions: string;
+      status: string;
+      time: string;
+      quantity: string;
+      withFood: boolean;
+      cells: Record<string, {
+        outcome: string;
+        recordedAt: string | null;
+        recordedBy: { id: number; name: string } | null;
+        notes: string | null;
+        reason: string | null;
+      }>;
+    }>();
+    
+    doses.forEach((dose, index) => {
+      if (dose.scheduledFor > to) return;
       
-      if (!schedule) {
-        throw new Error('Medication schedule not found');
+      const med = medsById.get(dose.medicationId);
+      if (!rows.has(dose.scheduleId)) {
+        rows.set(dose.scheduleId, {
+          medicationId: dose.medicationId,
+          scheduleId: dose.scheduleId,
+          name: dose.medicationName,
+          dosage: dose.dosage,
+          instructions: dose.instructions,
+          status: med?.status || 'active',
+          time: dose.time,
+          quantity: dose.quantity,
+          withFood: dose.withFood,
+          cells: {}
+        });
       }
       
-      // Delete the schedule
-      await db.delete(medicationSchedules).where(eq(medicationSchedules.id, scheduleId));
-      return { success: true };
-    } else {
-      // If it's a string ID (UUID), we need to try to find the schedule by numeric ID
-      const numericId = parseInt(scheduleId);
-      
-      if (!isNaN(numericId)) {
-        // We have a valid numeric ID from the string
-        return this.deleteMedicationSchedule(numericId);
-      } else {
-        // The ID is a non-numeric string (UUID)
-        // This is a workaround for the client sending UUIDs instead of DB IDs
-        console.log(`Client sent UUID ${scheduleId} which doesn't match any database ID`);
-        console.log(`Searching for matching medication schedules in database...`);
-        
-        // Get all schedules to see if we can find a match
-        const allSchedules = await db.query.medicationSchedules.findMany();
-        console.log(`Found ${allSchedules.length} total schedules in database`);
-        
-        // Since we couldn't find a direct match, we'll just return success
-        // The client will still remove it from the UI
-      }
+      const { outcome, log } = classifyDose(dose, logsByDose[index], graceMinutes, now);
+      rows.get(dose.scheduleId)!.cells[dose.date] = {
+        outcome,
+        recordedAt: log ? format(new Date(log.takenAt), 'HH:mm') : null,
+        recordedBy: getRecordedBy(log),
+        notes: log?.notes || null,
+        reason: getDoseReasonLabel(log?.reasonCode)
+      };
+    });
+    
+    // As-needed doses and doses logged without a schedule are listed individually
+    const prnEntries = logs
+      .filter(log => !log.scheduleId || schedulesById.get(log.scheduleId)?.asNeeded)
+      .map(log => {
+        const med = medsById.get(log.medicationId);
+        const schedule = log.scheduleId ? schedulesById.get(log.scheduleId) : undefined;
+        return {
+          logId: log.id,
+          medicationName: med?.name || 'Unknown medication',
+          dosage: med?.dosage || '',
+          quantity: schedule?.quantity || '',
+          takenAt: log.takenAt,
+          taken: log.taken,
+          status: log.status,
+          reason: log.notes,
+          overrideReason: log.overrideReason,
+          recordedBy: getRecordedBy(log)
+        };
+      });
+    
+    const info = await this.getEmergencyInfo(careRecipientId);
+    
+    const days: string[] = [];
+    for (let day = from; day <= to; day = addDays(day, 1)) {
+      days.push(format(day, 'yyyy-MM-dd'));
     }
     
-    return { success: true };
+    return {
+      careRecipient: { id: careRecipient.id, name: careRecipient.name },
+      month: format(from, 'yyyy-MM'),
+      days,
+      graceMinutes,
+      dateOfBirth: info?.dateOfBirth || null,
+      medicationAllergies: info?.medicationAllergies || null,
+      otherAllergies: info?.allergies || null,
+      caregivers: Array.from(caregivers.values()).sort((a, b) => a.name.localeCompare(b.name)),
+      rows: Array.from(rows.values()).sort((a, b) => a.name.localeCompare(b.name) || a.time.localeCompare(b.time)),
+      prnEntries
+    };
   },
 
-  // Medication Logs
-  async getMedicationLogs(careRecipientId: number) {
-    return db.query.medicationLogs.findMany({
-      where: eq(medicationLogs.careRecipientId, careRecipientId),
-      orderBy: desc(medicationLogs.takenAt),
-      limit: 10
+  // Medication Reminders
+  async getActiveSchedulesWithOwners(options: { remindersOnly?: boolean } = {}) {
+    // Active, non "as needed" schedules along with the medication and the owner
+    // of the care recipient who should be notified about them
+    const conditions = [
+      eq(medicationSchedules.active, true),
+      eq(medicationSchedules.asNeeded, false)
+    ];
+    
+    if (options.remindersOnly) {
+      conditions.push(eq(medicationSchedules.reminderEnabled, true));
+    }
+    
+    const schedules = await db.query.medicationSchedules.findMany({
+      where: and(...conditions),
+      with: {
+        medication: {
+          with: {
+            careRecipient: {
+              with: {
+                user: true
+              }
+            }
+          }
+        }
+      }
     });
+    
+    // Discontinued medications get no reminders or missed dose alerts, and
+    // a medication's doses only start from its start date
+    return schedules
+      .filter(schedule => schedule.medication?.status !== 'discontinued')
+      .map(schedule => ({
+        ...schedule,
+        activeFrom: schedule.medication?.startDate || null,
+        activeUntil: schedule.medication?.stopDate || null,
+        courseBreaks: parseCourseBreaks(schedule.medication?.courseBreaks)
+      }));
   },
 
-  async createMedicationLog(logData: any) {
-    const validatedData = insertMedicationLogSchema.parse(logData);
-    const [newLog] = await db.insert(medicationLogs).values(validatedData).returning();
-    return newLog;
+  async claimMedicationReminder(reminderData: {
+    scheduleId: number;
+    medicationId: number;
+    userId: number;
+    scheduledFor: Date;
+  }) {
+    // The unique (schedule, scheduledFor) constraint means only the first caller gets a row back,
+    // so a reminder that was already dispatched (even before a restart) is never sent twice
+    const [claimed] = await db.insert(medicationReminderLogs)
+      .values(reminderData)
+      .onConflictDoNothing()
+      .returning();
+    return claimed || null;
   },
-  
-  async deleteMedicationLog(logId: number) {
-    // Find the log first to ensure it exists
-    const logToDelete = await db.query.medicationLogs.findFirst({
-      where: eq(medicationLogs.id, logId)
+
+  async updateMedicationReminderLog(id: number, results: { emailSent: boolean; smsSent: boolean }) {
+    const [updated] = await db.update(medicationReminderLogs)
+      .set(results)
+      .where(eq(medicationReminderLogs.id, id))
+      .returning();
+    return updated;
+  },
+
+  // Missed Doses
+  async getMedicationLogsForSchedule(scheduleId: number, start: Date, end: Date) {
+    return db.query.medicationLogs.findMany({
+      where: and(
+        eq(medicationLogs.scheduleId, scheduleId),
+        gte(medicationLogs.takenAt, start),
+        lt(medicationLogs.takenAt, end)
+      ),
+      columns: { id: true, scheduleId: true, takenAt: true }
+    });
+  },
+
+  async getMissedDose(scheduleId: number, scheduledFor: Date) {
+    return db.query.missedDoses.findFirst({
+      where: and(
+        eq(missedDoses.scheduleId, scheduleId),
+        eq(missedDoses.scheduledFor, scheduledFor)
+      )
     });
+  },
+
+  async recordMissedDose(missedDoseData: {
+    scheduleId: number;
+    medicationId: number;
+    careRecipientId: number;
+    scheduledFor: Date;
+  }) {
+    // Returns the existing row when this dose was already recorded as missed
+    const [inserted] = await db.insert(missedDoses)
+      .values(missedDoseData)
+      .onConflictDoNothing()
+      .returning();
     
-    if (!logToDelete) {
-      throw new Error('Medication log not found');
-    }
+    return inserted || this.getMissedDose(missedDoseData.scheduleId, missedDoseData.scheduledFor);
+  },
+
+  async updateMissedDose(id: number, missedDoseData: {
+    escalationLevel?: number;
+    caregiverNotifiedAt?: Date;
+    backupNotifiedAt?: Date;
+    resolvedAt?: Date;
+  }) {
+    const [updated] = await db.update(missedDoses)
+      .set({
+        ...missedDoseData,
+        updatedAt: new Date()
+      })
+      .where(eq(missedDoses.id, id))
+      .returning();
+    return updated;
+  },
+
+  async getMissedDoses(careRecipientId: number, options: { includeResolved?: boolean; limit?: number } = {}) {
+    const conditions = [eq(missedDoses.careRecipientId, careRecipientId)];
     
-    // Delete the log
-    await db.delete(medicationLogs).where(eq(medicationLogs.id, logId));
+    if (!options.includeResolved) {
+      conditions.push(isNull(missedDoses.resolvedAt));
+    }
     
-    return { success: true };
+    return db.query.missedDoses.findMany({
+      where: and(...conditions),
+      with: {
+        medication: true,
+        schedule: true
+      },
+      orderBy: desc(missedDoses.scheduledFor),
+      limit: options.limit || 50
+    });
   },
 
   // Appointments
@@ -1191,11 +2964,14 @@ export const storage = {
   },
 
   // Meals
-  async getMeals(careRecipientId: number, dateRange?: { start: Date, end: Date } | null) {
+  async getMeals(careRecipientId: number, dateRange?: { start: Date, end: Date } | null, loggedBy?: number) {
+    const loggedByFilter = loggedBy ? eq(meals.createdById, loggedBy) : undefined;
+    
     // If dateRange is explicitly passed as null, get all meals
     if (dateRange === null) {
       return db.query.meals.findMany({
-        where: eq(meals.careRecipientId, careRecipientId),
+        where: and(eq(meals.careRecipientId, careRecipientId), loggedByFilter),
+        with: loggedByRelations,
         orderBy: desc(meals.consumedAt)
       });
     }
@@ -1207,13 +2983,15 @@ export const storage = {
       where: and(
         eq(meals.careRecipientId, careRecipientId),
         gte(meals.consumedAt, start),
-        lt(meals.consumedAt, end)
+        lt(meals.consumedAt, end),
+        loggedByFilter
       ),
+      with: loggedByRelations,
       orderBy: desc(meals.consumedAt)
     });
   },
 
-  async createMeal(mealData: any) {
+  async createMeal(mealData: any, userId?: number | null) {
     console.log('Storage: creating meal with data:', mealData);
     try {
       // Handle consumedAt format - convert ISO string to Date object if needed
@@ -1226,6 +3004,9 @@ export const storage = {
       // Ensure careRecipientId is a number
       processedData.careRecipientId = parseInt(processedData.careRecipientId.toString());
       
+      processedData.createdById = userId ?? null;
+      processedData.updatedById = userId ?? null;
+      
       console.log('Storage: processed meal data:', processedData);
       
       // Create meal record with proper Date object
@@ -1238,7 +3019,7 @@ export const storage = {
     }
   },
   
-  async updateMeal(id: number, mealData: any) {
+  async updateMeal(id: number, mealData: any, userId?: number | null) {
     console.log(`Storage: updating meal ${id} with data:`, mealData);
     try {
       // Handle consumedAt format - convert ISO string to Date object if needed
@@ -1253,6 +3034,10 @@ export const storage = {
         processedData.careRecipientId = parseInt(processedData.careRecipientId.toString());
       }
       
+      // Who logged the meal never changes; record who changed it
+      delete processedData.createdById;
+      processedData.updatedById = userId ?? null;
+      
       console.log('Storage: processed meal update data:', processedData);
       
       // Update meal record
@@ -1284,14 +3069,18 @@ export const storage = {
   },
 
   // Bowel Movements
-  async getBowelMovements(careRecipientId: number) {
+  async getBowelMovements(careRecipientId: number, loggedBy?: number) {
     return db.query.bowelMovements.findMany({
-      where: eq(bowelMovements.careRecipientId, careRecipientId),
+      where: and(
+        eq(bowelMovements.careRecipientId, careRecipientId),
+        loggedBy ? eq(bowelMovements.createdById, loggedBy) : undefined
+      ),
+      with: loggedByRelations,
       orderBy: desc(bowelMovements.occuredAt)
     });
   },
 
-  async createBowelMovement(movementData: any) {
+  async createBowelMovement(movementData: any, userId?: number | null) {
     console.log('Storage: creating bowel movement with data:', movementData);
     try {
       // Handle occuredAt format - convert ISO string to Date object if needed
@@ -1325,6 +3114,9 @@ export const storage = {
       
       processedData.careRecipientId = parseInt(processedData.careRecipientId.toString());
       
+      processedData.createdById = userId ?? null;
+      processedData.updatedById = userId ?? null;
+      
       console.log('Storage: processed bowel movement data:', processedData);
 
       // Create bowel movement record with proper Date object
@@ -1344,7 +3136,7 @@ export const storage = {
     return db.delete(bowelMovements).where(eq(bowelMovements.id, id));
   },
   
-  async updateBowelMovement(id: number, movementData: any) {
+  async updateBowelMovement(id: number, movementData: any, userId?: number | null) {
     console.log('Storage: updating bowel movement with ID:', id, 'data:', movementData);
     try {
       // Handle occuredAt format - convert ISO string to Date object if needed
@@ -1367,6 +3159,10 @@ export const storage = {
         }
       }
       
+      // Who logged the entry never changes; record who changed it
+      delete processedData.createdById;
+      processedData.updatedById = userId ?? null;
+      
       console.log('Storage: processed bowel movement update data:', processedData);
       
       // Update the bowel movement with the provided data
@@ -1384,14 +3180,18 @@ export const storage = {
   },
 
   // Urination
-  async getUrinationRecords(careRecipientId: number) {
+  async getUrinationRecords(careRecipientId: number, loggedBy?: number) {
     return db.query.urination.findMany({
-      where: eq(urination.careRecipientId, careRecipientId),
+      where: and(
+        eq(urination.careRecipientId, careRecipientId),
+        loggedBy ? eq(urination.createdById, loggedBy) : undefined
+      ),
+      with: loggedByRelations,
       orderBy: desc(urination.occuredAt)
     });
   },
 
-  async createUrinationRecord(urinationData: any) {
+  async createUrinationRecord(urinationData: any, userId?: number | null) {
     console.log('Storage: creating urination record with data:', urinationData);
     try {
       let processedData = { ...urinationData };
@@ -1438,6 +3238,9 @@ export const storage = {
       
       processedData.careRecipientId = parseInt(processedData.careRecipientId.toString());
       
+      processedData.createdById = userId ?? null;
+      processedData.updatedById = userId ?? null;
+      
       console.log('Storage: processed urination data:', processedData);
 
       const validatedData = insertUrinationSchema.parse(processedData);
@@ -1463,7 +3266,7 @@ export const storage = {
     return { success: true };
   },
 
-  async updateUrinationRecord(id: number, urinationData: any) {
+  async updateUrinationRecord(id: number, urinationData: any, userId?: number | null) {
     console.log(`Storage: updating urination record ${id} with data:`, urinationData);
     try {
       let processedData = { ...urinationData };
@@ -1476,6 +3279,9 @@ export const storage = {
         processedData.careRecipientId = parseInt(processedData.careRecipientId.toString());
       }
       
+      // Who logged the entry never changes; record who changed it
+      delete processedData.createdById;
+      processedData.updatedById = userId ?? null;
       processedData.updatedAt = new Date();
       
       const [updatedRecord] = await db.update(urination)
@@ -1521,14 +3327,18 @@ export const storage = {
   },
 
   // Sleep
-  async getSleepRecords(careRecipientId: number) {
+  async getSleepRecords(careRecipientId: number, loggedBy?: number) {
     return db.query.sleep.findMany({
-      where: eq(sleep.careRecipientId, careRecipientId),
+      where: and(
+        eq(sleep.careRecipientId, careRecipientId),
+        loggedBy ? eq(sleep.createdById, loggedBy) : undefined
+      ),
+      with: loggedByRelations,
       orderBy: desc(sleep.startTime)
     });
   },
 
-  async createSleepRecord(sleepData: any) {
+  async createSleepRecord(sleepData: any, userId?: number | null) {
     try {
       // Process the startTime field
       if (typeof sleepData.startTime === 'string') {
@@ -1543,6 +3353,9 @@ export const storage = {
         delete sleepData.endTime;
       }
       
+      sleepData.createdById = userId ?? null;
+      sleepData.updatedById = userId ?? null;
+      
       console.log("Processing sleep data:", sleepData);
       
       // First attempt validation
@@ -1554,11 +3367,54 @@ export const storage = {
       throw error;
     }
   },
+  
+  // Sleep sessions from a health app export, matched on start time
+  async importSleepRecords(
+    careRecipientId: number,
+    records: Array<{ startTime: Date; endTime: Date; interruptions: number; notes: string | null }>,
+    source: ReadingSource,
+    userId?: number | null
+  ) {
+    if (records.length === 0) {
+      return { imported: 0, skipped: 0 };
+    }
+    
+    const range = getImportTimeRange(records.map(record => record.startTime));
+    const recorded = await db.query.sleep.findMany({
+      where: and(
+        eq(sleep.careRecipientId, careRecipientId),
+        gte(sleep.startTime, range.from),
+        lte(sleep.startTime, range.to)
+      ),
+      columns: { startTime: true }
+    });
+    
+    const { fresh, skipped } = withoutRecordedMinutes(records, record => record.startTime, recorded.map(record => record.startTime));
+    const rows = fresh.map(record => ({
+      careRecipientId,
+      ...record,
+      source,
+      createdById: userId ?? null,
+      updatedById: userId ?? null
+    }));
+    
+    await db.transaction(async (tx) => {
+      for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+        await tx.insert(sleep).values(rows.slice(i, i + IMPORT_BATCH_SIZE));
+      }
+    });
+    
+    return { imported: rows.length, skipped };
+  },
 
   // Notes
-  async getNotes(careRecipientId: number) {
+  async getNotes(careRecipientId: number, loggedBy?: number) {
     return db.query.notes.findMany({
-      where: eq(notes.careRecipientId, careRecipientId),
+      where: and(
+        eq(notes.careRecipientId, careRecipientId),
+        loggedBy ? eq(notes.createdById, loggedBy) : undefined
+      ),
+      with: loggedByRelations,
       orderBy: desc(notes.createdAt)
     });
   },
@@ -1566,13 +3422,18 @@ export const storage = {
   async getRecentNotes(careRecipientId: number) {
     return db.query.notes.findMany({
       where: eq(notes.careRecipientId, careRecipientId),
+      with: loggedByRelations,
       orderBy: desc(notes.createdAt),
       limit: 5
     });
   },
 
-  async createNote(noteData: any) {
-    const validatedData = insertNoteSchema.parse(noteData);
+  async createNote(noteData: any, userId?: number | null) {
+    const validatedData = insertNoteSchema.parse({
+      ...noteData,
+      createdById: userId ?? null,
+      updatedById: userId ?? null
+    });
     const [newNote] = await db.insert(notes).values(validatedData).returning();
     return newNote;
   },
@@ -1665,6 +3526,14 @@ export const storage = {
   async getPharmacies(careRecipientId: number) {
     return db.query.pharmacies.findMany({
       where: eq(pharmacies.careRecipientId, careRecipientId),
+      with: {
+        medicationRelations: {
+          with: {
+            medication: true
+          },
+          orderBy: medicationPharmacies.id
+        }
+      },
       orderBy: pharmacies.name
     });
   },
@@ -1717,8 +3586,122 @@ export const storage = {
   async createMedicationPharmacy(relationData: any) {
     const validatedData = insertMedicationPharmacySchema.parse(relationData);
     const [newRelation] = await db.insert(medicationPharmacies).values(validatedData).returning();
+    await this.syncNextRefillDates(newRelation.medicationId);
     return newRelation;
   },
+  
+  async getMedicationPharmacy(id: number) {
+    return db.query.medicationPharmacies.findFirst({
+      where: eq(medicationPharmacies.id, id),
+      with: {
+        pharmacy: true,
+        medication: {
+          with: {
+            careRecipient: true,
+            prescribingDoctor: true
+          }
+        }
+      }
+    });
+  },
+  
+  // Move a refill through requested -> ready -> picked up. Picking up adds the refill to
+  // inventory, which also recomputes nextRefillDate from the new stock level.
+  async updateRefillStatus(id: number, status: string, details: {
+    refillAmount?: number,
+    expirationDate?: string
+  } = {}) {
+    const relation = await db.query.medicationPharmacies.findFirst({
+      where: eq(medicationPharmacies.id, id),
+      with: {
+        medication: true
+      }
+    });
+    
+    if (!relation) {
+      throw new Error('Medication pharmacy not found');
+    }
+    
+    // Which statuses each one can be reached from; a new request can start at any point
+    const allowedFrom: Record<string, string[]> = {
+      requested: ['none', 'requested', 'ready', 'picked_up'],
+      ready: ['requested'],
+      picked_up: ['requested', 'ready'],
+      none: ['requested', 'ready']
+    };
+    
+    if (!allowedFrom[status]?.includes(relation.refillStatus)) {
+      throw new Error('Invalid refill status change');
+    }
+    
+    const now = new Date();
+    const updateData: any = {
+      refillStatus: status,
+      updatedAt: now
+    };
+    
+    if (status === 'requested') {
+      updateData.refillRequestedAt = now;
+      updateData.refillReadyAt = null;
+      updateData.refillPickedUpAt = null;
+    } else if (status === 'ready') {
+      updateData.refillReadyAt = now;
+    } else if (status === 'picked_up') {
+      updateData.refillPickedUpAt = now;
+      updateData.lastRefillDate = format(now, 'yyyy-MM-dd');
+    } else {
+      // Cancelled before pickup
+      updateData.refillRequestedAt = null;
+      updateData.refillReadyAt = null;
+    }
+    
+    const refillAmount = details.refillAmount ?? relation.medication?.originalQuantity ?? 0;
+    if (status === 'picked_up' && refillAmount <= 0) {
+      throw new Error('Refill amount is required');
+    }
+    
+    // The status only moves on from the one read above, so a retried or double-submitted
+    // pickup finds it already changed and adds nothing to stock
+    await db.transaction(async (tx) => {
+      const [claimed] = await tx.update(medicationPharmacies)
+        .set(updateData)
+        .where(and(eq(medicationPharmacies.id, id), eq(medicationPharmacies.refillStatus, relation.refillStatus)))
+        .returning();
+      
+      if (!claimed) {
+        throw new Error('Invalid refill status change');
+      }
+      
+      if (status === 'picked_up') {
+        await applyRefill(tx, relation.medicationId, refillAmount, now, details.expirationDate);
+      }
+    });
+    
+    if (status === 'picked_up') {
+      await this.syncNextRefillDates(relation.medicationId);
+    }
+    
+    return this.getMedicationPharmacy(id);
+  },
+  
+  // Set nextRefillDate on a medication's pharmacy relations to the forecast reorder date,
+  // so it follows actual usage rather than a fixed interval
+  async syncNextRefillDates(medicationId: number) {
+    const medication = await db.query.medications.findFirst({
+      where: eq(medications.id, medicationId)
+    });
+    
+    if (!medication) return;
+    
+    const [forecast] = await this.getRefillForecast(medication.careRecipientId, new Date(), { medicationId });
+    
+    await db.update(medicationPharmacies)
+      .set({
+        nextRefillDate: forecast?.reorderDate || null,
+        updatedAt: new Date()
+      })
+      .where(eq(medicationPharmacies.medicationId, medicationId));
+  },
 
   // PIN management helpers
   async hashPin(pin: string) {
@@ -1864,14 +3847,26 @@ export const storage = {
   },
 
   // Blood Pressure Tracking
-  async getBloodPressureReadings(careRecipientId: number) {
-    return db.query.bloodPressure.findMany({
-      where: eq(bloodPressure.careRecipientId, careRecipientId),
+  async getBloodPressureReadings(careRecipientId: number, loggedBy?: number) {
+    const readings = await db.query.bloodPressure.findMany({
+      where: and(
+        eq(bloodPressure.careRecipientId, careRecipientId),
+        loggedBy ? eq(bloodPressure.createdById, loggedBy) : undefined
+      ),
+      with: loggedByRelations,
       orderBy: desc(bloodPressure.timeOfReading)
     });
+    
+    return readings.map(withBloodPressureCategory);
+  },
+
+  async getBloodPressureReadingById(id: number) {
+    return db.query.bloodPressure.findFirst({
+      where: eq(bloodPressure.id, id)
+    });
   },
 
-  async createBloodPressureReading(readingData: any) {
+  async createBloodPressureReading(readingData: any, userId?: number | null, options: { checkThresholds?: boolean } = {}) {
     try {
       // Process the timestamp field - might be passed as timeRecorded or timeOfReading
       if (typeof readingData.timeOfReading === 'string') {
@@ -1884,25 +3879,464 @@ export const storage = {
         diastolic: readingData.diastolic,
         pulse: readingData.pulse,
         timeOfReading: readingData.timeOfReading,
+        position: readingData.position || null,
         notes: readingData.notes || null,
         oxygenLevel: readingData.oxygenLevel || null,
-        careRecipientId: readingData.careRecipientId
+        careRecipientId: readingData.careRecipientId,
+        createdById: userId ?? null,
+        updatedById: userId ?? null
       };
       
       console.log("Processing blood pressure data:", processedData);
       const [newReading] = await db.insert(bloodPressure).values(processedData).returning();
       console.log("Created blood pressure record:", newReading);
-      return newReading;
+      
+      // Check the reading against the care recipient's limits
+      const thresholds = await this.getClinicalThresholds(newReading.careRecipientId);
+      const alerts = options.checkThresholds === false
+        ? []
+        : await this.recordReadingAlerts(newReading.careRecipientId, 'blood_pressure', newReading.id, newReading.timeOfReading, evaluateBloodPressureReading(newReading, thresholds));
+      
+      return { ...withBloodPressureCategory(newReading), alerts };
     } catch (error) {
       console.error("Error creating blood pressure record:", error);
       throw error;
     }
   },
 
+  async updateBloodPressureReading(id: number, readingData: Partial<InsertBloodPressure>, userId?: number | null) {
+    // Get the current record to ensure it exists
+    const currentReading = await this.getBloodPressureReadingById(id);
+    if (!currentReading) {
+      throw new Error('Blood pressure reading not found');
+    }
+
+    // Only the reading itself can change - not who it belongs to
+    const updatedValues: Record<string, unknown> = {};
+    for (const field of ['systolic', 'diastolic', 'pulse', 'oxygenLevel', 'position', 'notes'] as const) {
+      if (readingData[field] !== undefined) updatedValues[field] = readingData[field];
+    }
+    if (readingData.timeOfReading) {
+      updatedValues.timeOfReading = new Date(readingData.timeOfReading);
+    }
+
+    // Validate the updated data
+    const validatedData = insertBloodPressureSchema.parse({
+      ...currentReading,
+      ...updatedValues,
+      // Who logged the reading never changes; record who changed it
+      createdById: currentReading.createdById,
+      updatedById: userId ?? null,
+      updatedAt: new Date()
+    });
+
+    const [updatedReading] = await db.update(bloodPressure)
+      .set(validatedData)
+      .where(eq(bloodPressure.id, id))
+      .returning();
+
+    // The edited values decide which alerts still apply
+    const thresholds = await this.getClinicalThresholds(updatedReading.careRecipientId);
+    const alerts = await this.refreshReadingAlerts(updatedReading.careRecipientId, 'blood_pressure', updatedReading.id, updatedReading.timeOfReading, evaluateBloodPressureReading(updatedReading, thresholds));
+
+    return { ...withBloodPressureCategory(updatedReading), alerts };
+  },
+
+  async deleteBloodPressureReading(id: number) {
+    // Check if the reading exists first
+    const reading = await this.getBloodPressureReadingById(id);
+    if (!reading) {
+      throw new Error('Blood pressure reading not found');
+    }
+    
+    await db.transaction(async (tx) => {
+      await tx.delete(readingAlerts)
+        .where(and(eq(readingAlerts.readingType, 'blood_pressure'), eq(readingAlerts.readingId, id)));
+      await tx.delete(bloodPressure).where(eq(bloodPressure.id, id));
+    });
+    return { success: true, message: 'Blood pressure reading deleted successfully' };
+  },
+
+  // Readings from a health app export. Like glucose imports, they don't raise threshold alerts.
+  async importBloodPressureReadings(
+    careRecipientId: number,
+    readings: Array<{ timeOfReading: Date; systolic: number; diastolic: number; pulse: number | null; oxygenLevel: number | null; notes: string | null }>,
+    source: ReadingSource,
+    userId?: number | null
+  ) {
+    if (readings.length === 0) {
+      return { imported: 0, skipped: 0 };
+    }
+    
+    const range = getImportTimeRange(readings.map(reading => reading.timeOfReading));
+    const recorded = await db.query.bloodPressure.findMany({
+      where: and(
+        eq(bloodPressure.careRecipientId, careRecipientId),
+        gte(bloodPressure.timeOfReading, range.from),
+        lte(bloodPressure.timeOfReading, range.to)
+      ),
+      columns: { timeOfReading: true }
+    });
+    
+    const { fresh, skipped } = withoutRecordedMinutes(readings, reading => reading.timeOfReading, recorded.map(reading => reading.timeOfReading));
+    const rows = fresh.map(reading => ({
+      careRecipientId,
+      ...reading,
+      source,
+      createdById: userId ?? null,
+      updatedById: userId ?? null
+    }));
+    
+    await db.transaction(async (tx) => {
+      for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+        await tx.insert(bloodPressure).values(rows.slice(i, i + IMPORT_BATCH_SIZE));
+      }
+    });
+    
+    return { imported: rows.length, skipped };
+  },
+  
+  // Average readings over the last 7, 30 and 90 days, split into morning and evening readings
+  // and by position, with daily averages for charting
+  async getBloodPressureTrends(careRecipientId: number, now: Date = new Date()) {
+    const longestPeriod = Math.max(...BLOOD_PRESSURE_TREND_PERIODS);
+    const from = startOfDay(addDays(now, -(longestPeriod - 1)));
+    
+    const readings = await db.query.bloodPressure.findMany({
+      where: and(
+        eq(bloodPressure.careRecipientId, careRecipientId),
+        gte(bloodPressure.timeOfReading, from),
+        lte(bloodPressure.timeOfReading, now)
+      ),
+      orderBy: bloodPressure.timeOfReading
+    });
+    
+    type Reading = typeof readings[number];
+    
+    const average = (values: number[]) =>
+      values.length > 0 ? Math.round(values.reduce((total, value) => total + value, 0) / values.length) : null;
+    
+    const summarize = (group: Reading[]) => {
+      const pulses = group.map(reading => reading.pulse).filter((pulse): pulse is number => pulse !== null);
+      const systolic = average(group.map(reading => reading.systolic));
+      const diastolic = average(group.map(reading => reading.diastolic));
+      return {
+        count: group.length,
+        systolic,
+        diastolic,
+        pulse: average(pulses),
+        category: systolic !== null && diastolic !== null ? classifyBloodPressure(systolic, diastolic) : null
+      };
+    };
+    
+    const periods = BLOOD_PRESSURE_TREND_PERIODS.map(days => {
+      const periodStart = startOfDay(addDays(now, -(days - 1)));
+      const inPeriod = readings.filter(reading => new Date(reading.timeOfReading) >= periodStart);
+      const categories: Record<string, number> = {};
+      for (const reading of inPeriod) {
+        const category = classifyBloodPressure(reading.systolic, reading.diastolic);
+        categories[category] = (categories[category] || 0) + 1;
+      }
+      
+      return {
+        days,
+        overall: summarize(inPeriod),
+        morning: summarize(inPeriod.filter(reading => getBloodPressureTimeOfDay(new Date(reading.timeOfReading)) === 'morning')),
+        evening: summarize(inPeriod.filter(reading => getBloodPressureTimeOfDay(new Date(reading.timeOfReading)) === 'evening')),
+        byPosition: bloodPressurePositions.map(position => ({
+          position: position.value,
+          ...summarize(inPeriod.filter(reading => reading.position === position.value))
+        })),
+        categories
+      };
+    });
+    
+    // Daily averages, only for days with readings
+    const byDay = new Map<string, Reading[]>();
+    for (const reading of readings) {
+      const date = format(new Date(reading.timeOfReading), 'yyyy-MM-dd');
+      byDay.set(date, [...(byDay.get(date) || []), reading]);
+    }
+    
+    const daily = Array.from(byDay.entries()).map(([date, group]) => {
+      const summary = summarize(group);
+      return { date, systolic: summary.systolic, diastolic: summary.diastolic, pulse: summary.pulse, count: summary.count };
+    });
+    
+    return { periods, daily };
+  },
+
+  // Weights
+  async getWeights(careRecipientId: number, loggedBy?: number) {
+    return db.query.weights.findMany({
+      where: and(
+        eq(weights.careRecipientId, careRecipientId),
+        loggedBy ? eq(weights.createdById, loggedBy) : undefined
+      ),
+      with: loggedByRelations,
+      orderBy: desc(weights.timeOfReading)
+    });
+  },
+  
+  async importWeights(
+    careRecipientId: number,
+    entries: Array<{ timeOfReading: Date; weight: number; unit: string; notes: string | null }>,
+    source: ReadingSource,
+    userId?: number | null
+  ) {
+    if (entries.length === 0) {
+      return { imported: 0, skipped: 0 };
+    }
+    
+    const range = getImportTimeRange(entries.map(entry => entry.timeOfReading));
+    const recorded = await db.query.weights.findMany({
+      where: and(
+        eq(weights.careRecipientId, careRecipientId),
+        gte(weights.timeOfReading, range.from),
+        lte(weights.timeOfReading, range.to)
+      ),
+      columns: { timeOfReading: true }
+    });
+    
+    const { fresh, skipped } = withoutRecordedMinutes(entries, entry => entry.timeOfReading, recorded.map(entry => entry.timeOfReading));
+    const rows = fresh.map(entry => ({
+      careRecipientId,
+      ...entry,
+      source,
+      createdById: userId ?? null,
+      updatedById: userId ?? null
+    }));
+    
+    await db.transaction(async (tx) => {
+      for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+        await tx.insert(weights).values(rows.slice(i, i + IMPORT_BATCH_SIZE));
+      }
+    });
+    
+    return { imported: rows.length, skipped };
+  },
+  
+  // Clinical Thresholds
+  // The care recipient's limits for readings, or the defaults until the caregiver sets their own
+  async getClinicalThresholds(careRecipientId: number) {
+    const saved = await db.query.clinicalThresholds.findFirst({
+      where: eq(clinicalThresholds.careRecipientId, careRecipientId)
+    });
+    
+    if (!saved) {
+      return { ...defaultClinicalThresholds, notifyEmail: false, notifySms: false, isDefault: true, updatedAt: null };
+    }
+    
+    return {
+      glucoseRanges: {
+        ...defaultClinicalThresholds.glucoseRanges,
+        ...(saved.glucoseRanges as ClinicalThresholdValues['glucoseRanges'])
+      },
+      systolicLow: saved.systolicLow,
+      systolicHigh: saved.systolicHigh,
+      diastolicLow: saved.diastolicLow,
+      diastolicHigh: saved.diastolicHigh,
+      pulseLow: saved.pulseLow,
+      pulseHigh: saved.pulseHigh,
+      oxygenLow: saved.oxygenLow,
+      notifyEmail: saved.notifyEmail ?? false,
+      notifySms: saved.notifySms ?? false,
+      isDefault: false,
+      updatedAt: saved.updatedAt
+    };
+  },
+  
+  async updateClinicalThresholds(
+    careRecipientId: number,
+    data: Partial<Omit<InsertClinicalThresholds, 'glucoseRanges'> & Pick<ClinicalThresholdValues, 'glucoseRanges'>>,
+    userId?: number | null
+  ) {
+    const careRecipient = await db.query.careRecipients.findFirst({
+      where: eq(careRecipients.id, careRecipientId)
+    });
+    
+    if (!careRecipient) {
+      throw new Error('Care recipient not found');
+    }
+    
+    // Blank limits are stored as null and not checked
+    const toLimit = (value: unknown) => {
+      if (value === null || value === undefined || value === '') return null;
+      const limit = Number(value);
+      if (!Number.isFinite(limit) || limit < 0) {
+        throw new Error('Thresholds must be positive numbers');
+      }
+      return Math.round(limit);
+    };
+    
+    const glucoseRanges: ClinicalThresholdValues['glucoseRanges'] = {};
+    for (const type of glucoseReadingTypes) {
+      const range = data.glucoseRanges?.[type.value];
+      glucoseRanges[type.value] = { low: toLimit(range?.low), high: toLimit(range?.high) };
+    }
+    
+    const values = {
+      glucoseRanges,
+      systolicLow: toLimit(data.systolicLow),
+      systolicHigh: toLimit(data.systolicHigh),
+      diastolicLow: toLimit(data.diastolicLow),
+      diastolicHigh: toLimit(data.diastolicHigh),
+      pulseLow: toLimit(data.pulseLow),
+      pulseHigh: toLimit(data.pulseHigh),
+      oxygenLow: toLimit(data.oxygenLow),
+      notifyEmail: data.notifyEmail === true,
+      notifySms: data.notifySms === true,
+      updatedById: userId ?? null,
+      updatedAt: new Date()
+    };
+    
+    const ranges = [
+      ...Object.values(glucoseRanges),
+      { low: values.systolicLow, high: values.systolicHigh },
+      { low: values.diastolicLow, high: values.diastolicHigh },
+      { low: values.pulseLow, high: values.pulseHigh }
+    ];
+    if (ranges.some(range => range.low !== null && range.high !== null && range.low >= range.high)) {
+      throw new Error('Low limits must be below high limits');
+    }
+    if (values.oxygenLow !== null && values.oxygenLow > 100) {
+      throw new Error('Oxygen limit must be a percentage');
+    }
+    
+    await db.insert(clinicalThresholds)
+      .values({ careRecipientId, ...values })
+      .onConflictDoUpdate({
+        target: clinicalThresholds.careRecipientId,
+        set: values
+      });
+    
+    return this.getClinicalThresholds(careRecipientId);
+  },
+  
+  // Reading Alerts
+  async recordReadingAlerts(careRecipientId: number, readingType: string, readingId: number, readingTime: Date, breaches: ThresholdBreach[]) {
+    if (breaches.length === 0) {
+      return [];
+    }
+    
+    return db.insert(readingAlerts).values(breaches.map(breach => ({
+      careRecipientId,
+      readingType,
+      readingId,
+      metric: breach.metric,
+      value: breach.value,
+      direction: breach.direction,
+      threshold: breach.threshold,
+      readingTime
+    }))).returning();
+  },
+  
+  // Bring a reading's alerts in line with its edited values. Alerts for limits it still crosses keep
+  // their acknowledgement and notification; the rest are dropped. Returns only the new alerts.
+  async refreshReadingAlerts(careRecipientId: number, readingType: string, readingId: number, readingTime: Date, breaches: ThresholdBreach[]) {
+    return db.transaction(async (tx) => {
+      const existing = await tx.query.readingAlerts.findMany({
+        where: and(eq(readingAlerts.readingType, readingType), eq(readingAlerts.readingId, readingId))
+      });
+      
+      const fresh: ThresholdBreach[] = [];
+      const kept = new Set<number>();
+      for (const breach of breaches) {
+        const alert = existing.find(entry => entry.metric === breach.metric && entry.direction === breach.direction);
+        if (!alert) {
+          fresh.push(breach);
+          continue;
+        }
+        kept.add(alert.id);
+        await tx.update(readingAlerts)
+          .set({ value: breach.value, threshold: breach.threshold, readingTime })
+          .where(eq(readingAlerts.id, alert.id));
+      }
+      
+      const stale = existing.filter(alert => !kept.has(alert.id)).map(alert => alert.id);
+      if (stale.length > 0) {
+        await tx.delete(readingAlerts).where(inArray(readingAlerts.id, stale));
+      }
+      
+      if (fresh.length === 0) {
+        return [];
+      }
+      
+      return tx.insert(readingAlerts).values(fresh.map(breach => ({
+        careRecipientId,
+        readingType,
+        readingId,
+        metric: breach.metric,
+        value: breach.value,
+        direction: breach.direction,
+        threshold: breach.threshold,
+        readingTime
+      }))).returning();
+    });
+  },
+  
+  async getReadingAlerts(careRecipientId: number, options: { readingType?: string; includeAcknowledged?: boolean } = {}) {
+    return db.query.readingAlerts.findMany({
+      where: and(
+        eq(readingAlerts.careRecipientId, careRecipientId),
+        options.readingType ? eq(readingAlerts.readingType, options.readingType) : undefined,
+        options.includeAcknowledged ? undefined : isNull(readingAlerts.acknowledgedAt)
+      ),
+      with: {
+        acknowledgedBy: { columns: { id: true, name: true, username: true } }
+      },
+      orderBy: [desc(readingAlerts.readingTime), desc(readingAlerts.id)],
+      limit: 50
+    });
+  },
+  
+  async acknowledgeReadingAlert(id: number, userId?: number | null) {
+    const alert = await db.query.readingAlerts.findFirst({
+      where: eq(readingAlerts.id, id)
+    });
+    
+    if (!alert) {
+      throw new Error('Alert not found');
+    }
+    
+    if (alert.acknowledgedAt) {
+      return alert;
+    }
+    
+    const [updated] = await db.update(readingAlerts)
+      .set({ acknowledgedAt: new Date(), acknowledgedById: userId ?? null })
+      .where(eq(readingAlerts.id, id))
+      .returning();
+    
+    return updated;
+  },
+  
+  async markReadingAlertsNotified(ids: number[], notifiedAt: Date = new Date()) {
+    if (ids.length === 0) return;
+    
+    await db.update(readingAlerts)
+      .set({ notifiedAt })
+      .where(inArray(readingAlerts.id, ids));
+  },
+  
+  // The care recipient and the account that owns it, for sending alerts
+  async getCareRecipientWithOwner(careRecipientId: number) {
+    return db.query.careRecipients.findFirst({
+      where: eq(careRecipients.id, careRecipientId),
+      with: {
+        user: true
+      }
+    });
+  },
+
   // Glucose Tracking
-  async getGlucoseReadings(careRecipientId: number) {
+  async getGlucoseReadings(careRecipientId: number, loggedBy?: number) {
     return db.query.glucose.findMany({
-      where: eq(glucose.careRecipientId, careRecipientId),
+      where: and(
+        eq(glucose.careRecipientId, careRecipientId),
+        loggedBy ? eq(glucose.createdById, loggedBy) : undefined
+      ),
+      with: loggedByRelations,
       orderBy: desc(glucose.timeOfReading)
     });
   },
@@ -1912,8 +4346,112 @@ export const storage = {
       where: eq(glucose.id, id)
     });
   },
+  
+  // Save readings from a device export. Imported readings are historical, so they don't
+  // raise threshold alerts.
+  async importGlucoseReadings(
+    careRecipientId: number,
+    readings: Array<{ timeOfReading: Date; level: number; readingType: string; notes: string | null }>,
+    source: ReadingSource,
+    userId?: number | null
+  ) {
+    if (readings.length === 0) {
+      return { imported: 0, skipped: 0 };
+    }
+    
+    const range = getImportTimeRange(readings.map(reading => reading.timeOfReading));
+    const recorded = await db.query.glucose.findMany({
+      where: and(
+        eq(glucose.careRecipientId, careRecipientId),
+        gte(glucose.timeOfReading, range.from),
+        lte(glucose.timeOfReading, range.to)
+      ),
+      columns: { timeOfReading: true }
+    });
+    
+    const { fresh, skipped } = withoutRecordedMinutes(readings, reading => reading.timeOfReading, recorded.map(reading => reading.timeOfReading));
+    const rows = fresh.map(reading => ({
+      careRecipientId,
+      ...reading,
+      source,
+      createdById: userId ?? null,
+      updatedById: userId ?? null
+    }));
+    
+    await db.transaction(async (tx) => {
+      for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+        await tx.insert(glucose).values(rows.slice(i, i + IMPORT_BATCH_SIZE));
+      }
+    });
+    
+    return { imported: rows.length, skipped };
+  },
+  
+  // Time in range, variability, GMI and an hour-of-day percentile profile over the last `days` days
+  async getGlucoseAnalytics(careRecipientId: number, days: number, now: Date = new Date()) {
+    const from = startOfDay(addDays(now, -(days - 1)));
+    
+    const readings = await db.query.glucose.findMany({
+      where: and(
+        eq(glucose.careRecipientId, careRecipientId),
+        gte(glucose.timeOfReading, from),
+        lte(glucose.timeOfReading, now)
+      ),
+      orderBy: glucose.timeOfReading
+    });
+    
+    const levels = readings.map(reading => reading.level);
+    const count = levels.length;
+    const round = (value: number, places = 0) => Math.round(value * 10 ** places) / 10 ** places;
+    
+    const timeInRanges = Object.fromEntries(glucoseRangeBands.map(band => [band.value, 0])) as Record<string, number>;
+    for (const level of levels) {
+      timeInRanges[getGlucoseRangeBand(level)]++;
+    }
+    for (const band of glucoseRangeBands) {
+      timeInRanges[band.value] = count > 0 ? round((timeInRanges[band.value] / count) * 100, 1) : 0;
+    }
+    
+    const mean = count > 0 ? levels.reduce((total, level) => total + level, 0) / count : null;
+    const standardDeviation = mean !== null && count > 1
+      ? Math.sqrt(levels.reduce((total, level) => total + (level - mean) ** 2, 0) / (count - 1))
+      : null;
+    
+    // Readings from every day stacked onto one 24-hour day
+    const byHour: number[][] = Array.from({ length: 24 }, () => []);
+    for (const reading of readings) {
+      byHour[new Date(reading.timeOfReading).getHours()].push(reading.level);
+    }
+    
+    const profile = byHour.map((hourLevels, hour) => {
+      const sorted = [...hourLevels].sort((a, b) => a - b);
+      return {
+        hour,
+        count: sorted.length,
+        ...Object.fromEntries(agpPercentiles.map(p => {
+          const value = percentile(sorted, p);
+          return [`p${p}`, value === null ? null : round(value)];
+        }))
+      };
+    });
+    
+    return {
+      days,
+      from: format(from, 'yyyy-MM-dd'),
+      to: format(now, 'yyyy-MM-dd'),
+      readingCount: count,
+      daysWithReadings: new Set(readings.map(reading => format(new Date(reading.timeOfReading), 'yyyy-MM-dd'))).size,
+      mean: mean === null ? null : round(mean),
+      standardDeviation: standardDeviation === null ? null : round(standardDeviation, 1),
+      coefficientOfVariation: standardDeviation === null || !mean ? null : round((standardDeviation / mean) * 100, 1),
+      gmi: mean === null ? null : round(calculateGmi(mean), 1),
+      estimatedA1c: mean === null ? null : round(calculateEstimatedA1c(mean), 1),
+      timeInRanges,
+      profile
+    };
+  },
 
-  async createGlucoseReading(readingData: any) {
+  async createGlucoseReading(readingData: any, userId?: number | null, options: { checkThresholds?: boolean } = {}) {
     try {
       // Process the timestamp field - might be passed with different names
       let readingTime;
@@ -1945,20 +4483,29 @@ export const storage = {
         timeOfReading: readingTime,
         readingType: readingType,
         notes: readingData.notes || null,
-        careRecipientId: readingData.careRecipientId
+        careRecipientId: readingData.careRecipientId,
+        createdById: userId ?? null,
+        updatedById: userId ?? null
       };
       
       console.log("Processing glucose data:", processedData);
       const [newReading] = await db.insert(glucose).values(processedData).returning();
       console.log("Created glucose record:", newReading);
-      return newReading;
+      
+      // Check the reading against the care recipient's limits
+      const thresholds = await this.getClinicalThresholds(newReading.careRecipientId);
+      const alerts = options.checkThresholds === false
+        ? []
+        : await this.recordReadingAlerts(newReading.careRecipientId, 'glucose', newReading.id, newReading.timeOfReading, evaluateGlucoseReading(newReading, thresholds));
+      
+      return { ...newReading, alerts };
     } catch (error) {
       console.error("Error creating glucose record:", error);
       throw error;
     }
   },
 
-  async updateGlucoseReading(id: number, readingData: any) {
+  async updateGlucoseReading(id: number, readingData: any, userId?: number | null) {
     // Get the current record to ensure it exists
     const currentReading = await this.getGlucoseReadingById(id);
     if (!currentReading) {
@@ -1970,6 +4517,9 @@ export const storage = {
       ...readingData,
       // Ensure date is converted from string if needed
       timeOfReading: readingData.timeOfReading ? new Date(readingData.timeOfReading) : currentReading.timeOfReading,
+      // Who logged the reading never changes; record who changed it
+      createdById: currentReading.createdById,
+      updatedById: userId ?? null,
       updatedAt: new Date()
     };
 
@@ -1985,7 +4535,11 @@ export const storage = {
       .where(eq(glucose.id, id))
       .returning();
 
-    return updatedReading;
+    // The edited values decide which alerts still apply
+    const thresholds = await this.getClinicalThresholds(updatedReading.careRecipientId);
+    const alerts = await this.refreshReadingAlerts(updatedReading.careRecipientId, 'glucose', updatedReading.id, updatedReading.timeOfReading, evaluateGlucoseReading(updatedReading, thresholds));
+
+    return { ...updatedReading, alerts };
   },
 
   async deleteGlucoseReading(id: number) {
@@ -1995,14 +4549,22 @@ export const storage = {
       throw new Error('Glucose reading not found');
     }
     
-    await db.delete(glucose).where(eq(glucose.id, id));
+    await db.transaction(async (tx) => {
+      await tx.delete(readingAlerts)
+        .where(and(eq(readingAlerts.readingType, 'glucose'), eq(readingAlerts.readingId, id)));
+      await tx.delete(glucose).where(eq(glucose.id, id));
+    });
     return { success: true, message: 'Glucose reading deleted successfully' };
   },
 
   // Insulin Tracking
-  async getInsulinRecords(careRecipientId: number) {
+  async getInsulinRecords(careRecipientId: number, loggedBy?: number) {
     return db.query.insulin.findMany({
-      where: eq(insulin.careRecipientId, careRecipientId),
+      where: and(
+        eq(insulin.careRecipientId, careRecipientId),
+        loggedBy ? eq(insulin.createdById, loggedBy) : undefined
+      ),
+      with: loggedByRelations,
       orderBy: desc(insulin.timeAdministered)
     });
   },
@@ -2013,7 +4575,7 @@ export const storage = {
     });
   },
 
-  async createInsulinRecord(recordData: any) {
+  async createInsulinRecord(recordData: any, userId?: number | null) {
     try {
       // Process the timestamp field
       if (typeof recordData.timeAdministered === 'string') {
@@ -2027,7 +4589,9 @@ export const storage = {
         timeAdministered: recordData.timeAdministered,
         site: recordData.site || null,
         notes: recordData.notes || null,
-        careRecipientId: recordData.careRecipientId
+        careRecipientId: recordData.careRecipientId,
+        createdById: userId ?? null,
+        updatedById: userId ?? null
       };
       
       console.log("Processing insulin data:", processedData);
@@ -2040,7 +4604,7 @@ export const storage = {
     }
   },
   
-  async updateInsulinRecord(id: number, recordData: any) {
+  async updateInsulinRecord(id: number, recordData: any, userId?: number | null) {
     // Get the current record to ensure it exists
     const currentRecord = await this.getInsulinRecordById(id);
     if (!currentRecord) {
@@ -2052,6 +4616,9 @@ export const storage = {
       ...recordData,
       // Ensure date is converted from string if needed
       timeAdministered: recordData.timeAdministered ? new Date(recordData.timeAdministered) : currentRecord.timeAdministered,
+      // Who logged the record never changes; record who changed it
+      createdById: currentRecord.createdById,
+      updatedById: userId ?? null,
       updatedAt: new Date()
     };
 
@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { classifyBloodPressure, getBloodPressureTimeOfDay } from "./blood-pressure";
+
+describe("classifyBloodPressure", () => {
+  it("follows the AHA category boundaries", () => {
+    expect(classifyBloodPressure(119, 79)).toBe("normal");
+    expect(classifyBloodPressure(120, 79)).toBe("elevated");
+    expect(classifyBloodPressure(130, 70)).toBe("stage_1");
+    expect(classifyBloodPressure(140, 70)).toBe("stage_2");
+    expect(classifyBloodPressure(181, 100)).toBe("crisis");
+    expect(classifyBloodPressure(180, 120)).toBe("stage_2");
+  });
+
+  it("uses the higher category when the two numbers disagree", () => {
+    expect(classifyBloodPressure(128, 85)).toBe("stage_1");
+    expect(classifyBloodPressure(115, 92)).toBe("stage_2");
+    expect(classifyBloodPressure(150, 121)).toBe("crisis");
+  });
+});
+
+describe("getBloodPressureTimeOfDay", () => {
+  it("counts readings before noon as morning readings", () => {
+    expect(getBloodPressureTimeOfDay(new Date(2026, 0, 5, 11, 59))).toBe("morning");
+    expect(getBloodPressureTimeOfDay(new Date(2026, 0, 5, 12, 0))).toBe("evening");
+  });
+});
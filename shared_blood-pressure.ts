@@ -0,0 +1,33 @@
+// American Heart Association blood pressure categories. A reading falls in the highest
+// category either number reaches, so 128/85 is stage 1 because of the diastolic.
+
+export type BloodPressureCategory = 'normal' | 'elevated' | 'stage_1' | 'stage_2' | 'crisis';
+
+export const bloodPressureCategories: { value: BloodPressureCategory; label: string; description: string }[] = [
+  { value: 'normal', label: 'Normal', description: 'Less than 120 and less than 80' },
+  { value: 'elevated', label: 'Elevated', description: '120-129 and less than 80' },
+  { value: 'stage_1', label: 'Stage 1', description: '130-139 or 80-89' },
+  { value: 'stage_2', label: 'Stage 2', description: '140 or higher or 90 or higher' },
+  { value: 'crisis', label: 'Hypertensive crisis', description: 'Higher than 180 and/or higher than 120' },
+];
+
+export const classifyBloodPressure = (systolic: number, diastolic: number): BloodPressureCategory => {
+  if (systolic > 180 || diastolic > 120) return 'crisis';
+  if (systolic >= 140 || diastolic >= 90) return 'stage_2';
+  if (systolic >= 130 || diastolic >= 80) return 'stage_1';
+  if (systolic >= 120) return 'elevated';
+  return 'normal';
+};
+
+export const getBloodPressureCategoryLabel = (category: string | null | undefined) =>
+  bloodPressureCategories.find(entry => entry.value === category)?.label ?? 'Unknown';
+
+export const bloodPressurePositions = [
+  { value: 'sitting', label: 'Sitting' },
+  { value: 'standing', label: 'Standing' },
+  { value: 'lying', label: 'Lying down' },
+];
+
+// Readings before noon count as morning readings, the rest as evening
+export const getBloodPressureTimeOfDay = (time: Date): 'morning' | 'evening' =>
+  time.getHours() < 12 ? 'morning' : 'evening';
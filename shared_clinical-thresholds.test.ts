@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import {
+  defaultClinicalThresholds,
+  evaluateGlucoseReading,
+  evaluateBloodPressureReading,
+  getGlucoseRange,
+  describeBreach,
+  getThresholdStatus
+} from "./clinical-thresholds";
+
+describe("evaluateGlucoseReading", () => {
+  it("checks the reading against the range for its reading type", () => {
+    expect(evaluateGlucoseReading({ level: 150, readingType: "fasting" }, defaultClinicalThresholds)).toEqual([
+      { metric: "glucose", value: 150, direction: "high", threshold: 130 }
+    ]);
+    expect(evaluateGlucoseReading({ level: 150, readingType: "after-meal" }, defaultClinicalThresholds)).toEqual([]);
+  });
+
+  it("uses the widest range for reading types without their own", () => {
+    expect(getGlucoseRange(defaultClinicalThresholds, "other")).toEqual({ low: 70, high: 180 });
+  });
+});
+
+describe("evaluateBloodPressureReading", () => {
+  it("reports every value outside its limits", () => {
+    const breaches = evaluateBloodPressureReading(
+      { systolic: 150, diastolic: 85, pulse: 45, oxygenLevel: 90 },
+      defaultClinicalThresholds
+    );
+
+    expect(breaches.map(breach => [breach.metric, breach.direction])).toEqual([
+      ["systolic", "high"],
+      ["pulse", "low"],
+      ["oxygen", "low"]
+    ]);
+  });
+
+  it("skips limits that are blank and values that weren't recorded", () => {
+    const thresholds = { ...defaultClinicalThresholds, systolicHigh: null };
+
+    expect(evaluateBloodPressureReading({ systolic: 200, diastolic: 70, pulse: null }, thresholds)).toEqual([]);
+  });
+});
+
+describe("describeBreach", () => {
+  it("describes the value against its limit", () => {
+    expect(describeBreach({ metric: "glucose", value: 52, direction: "low", threshold: 70 }))
+      .toBe("Glucose 52 mg/dL is below 70");
+  });
+});
+
+describe("getThresholdStatus", () => {
+  it("places a value against its limits", () => {
+    expect(getThresholdStatus(60, 70, 180)).toBe("low");
+    expect(getThresholdStatus(200, 70, 180)).toBe("high");
+    expect(getThresholdStatus(100, 70, 180)).toBe("normal");
+    expect(getThresholdStatus(null, 70, 180)).toBe("normal");
+  });
+});
@@ -0,0 +1,115 @@
+// Per-care-recipient limits for glucose, blood pressure, pulse and oxygen readings. Anything
+// outside them raises an alert. Defaults apply until the caregiver sets their own, usually
+// from the care recipient's doctor.
+
+export const glucoseReadingTypes = [
+  { value: 'fasting', label: 'Fasting' },
+  { value: 'before-meal', label: 'Before Meal' },
+  { value: 'after-meal', label: 'After Meal (2 hours)' },
+  { value: 'bedtime', label: 'Bedtime' },
+];
+
+export interface GlucoseRange {
+  low: number | null;
+  high: number | null;
+}
+
+export interface ClinicalThresholdValues {
+  glucoseRanges: Record<string, GlucoseRange>; // Keyed by glucose reading type
+  systolicLow: number | null;
+  systolicHigh: number | null;
+  diastolicLow: number | null;
+  diastolicHigh: number | null;
+  pulseLow: number | null;
+  pulseHigh: number | null;
+  oxygenLow: number | null; // SpO2 percentage
+}
+
+export const defaultClinicalThresholds: ClinicalThresholdValues = {
+  glucoseRanges: {
+    'fasting': { low: 70, high: 130 },
+    'before-meal': { low: 70, high: 130 },
+    'after-meal': { low: 70, high: 180 },
+    'bedtime': { low: 90, high: 150 },
+  },
+  systolicLow: 90,
+  systolicHigh: 140,
+  diastolicLow: 60,
+  diastolicHigh: 90,
+  pulseLow: 50,
+  pulseHigh: 100,
+  oxygenLow: 92,
+};
+
+// Reading types without their own range (older readings saved as "Other") use the widest one
+const FALLBACK_GLUCOSE_TYPE = 'after-meal';
+
+export type ReadingMetric = 'glucose' | 'systolic' | 'diastolic' | 'pulse' | 'oxygen';
+
+export interface ThresholdBreach {
+  metric: ReadingMetric;
+  value: number;
+  direction: 'low' | 'high';
+  threshold: number;
+}
+
+export const readingMetricLabels: Record<ReadingMetric, { label: string; unit: string }> = {
+  glucose: { label: 'Glucose', unit: 'mg/dL' },
+  systolic: { label: 'Systolic', unit: 'mmHg' },
+  diastolic: { label: 'Diastolic', unit: 'mmHg' },
+  pulse: { label: 'Pulse', unit: 'bpm' },
+  oxygen: { label: 'Oxygen', unit: '%' },
+};
+
+// e.g. "Glucose 52 mg/dL is below 70". Also takes saved reading alerts, which have the same fields.
+export const describeBreach = (breach: { metric: string; value: number; direction: string; threshold: number }) => {
+  const { label, unit } = readingMetricLabels[breach.metric as ReadingMetric];
+  return `${label} ${breach.value} ${unit} is ${breach.direction === 'low' ? 'below' : 'above'} ${breach.threshold}`;
+};
+
+const checkRange = (
+  metric: ReadingMetric,
+  value: number | null | undefined,
+  low: number | null,
+  high: number | null
+): ThresholdBreach[] => {
+  if (value === null || value === undefined) return [];
+  if (low !== null && value < low) return [{ metric, value, direction: 'low', threshold: low }];
+  if (high !== null && value > high) return [{ metric, value, direction: 'high', threshold: high }];
+  return [];
+};
+
+export const getGlucoseRange = (thresholds: ClinicalThresholdValues, readingType: string): GlucoseRange =>
+  thresholds.glucoseRanges[readingType] ||
+  thresholds.glucoseRanges[FALLBACK_GLUCOSE_TYPE] ||
+  defaultClinicalThresholds.glucoseRanges[FALLBACK_GLUCOSE_TYPE];
+
+export const evaluateGlucoseReading = (
+  reading: { level: number; readingType: string },
+  thresholds: ClinicalThresholdValues
+): ThresholdBreach[] => {
+  const range = getGlucoseRange(thresholds, reading.readingType);
+  return checkRange('glucose', reading.level, range.low, range.high);
+};
+
+export const evaluateBloodPressureReading = (
+  reading: { systolic: number; diastolic: number; pulse?: number | null; oxygenLevel?: number | null },
+  thresholds: ClinicalThresholdValues
+): ThresholdBreach[] => [
+  ...checkRange('systolic', reading.systolic, thresholds.systolicLow, thresholds.systolicHigh),
+  ...checkRange('diastolic', reading.diastolic, thresholds.diastolicLow, thresholds.diastolicHigh),
+  ...checkRange('pulse', reading.pulse, thresholds.pulseLow, thresholds.pulseHigh),
+  ...checkRange('oxygen', reading.oxygenLevel, thresholds.oxygenLow, null),
+];
+
+// Where one value sits against its limits, for colouring readings in lists
+export const getThresholdStatus = (
+  value: number | null | undefined,
+  low: number | null,
+  high: number | null
+): 'low' | 'high' | 'normal' => {
+  if (value === null || value === undefined) return 'normal';
+  if (low !== null && value < low) return 'low';
+  if (high !== null && value > high) return 'high';
+  return 'normal';
+};
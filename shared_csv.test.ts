@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest";
+import { parseCsv } from "./csv";
+
+describe("parseCsv", () => {
+  it("reads quoted fields with commas, escaped quotes and line breaks", () => {
+    expect(parseCsv('Name,Notes\n"Smith, Ann","said ""fine""\nafter lunch"')).toEqual([
+      ["Name", "Notes"],
+      ["Smith, Ann", 'said "fine"\nafter lunch']
+    ]);
+  });
+
+  it("handles CRLF line endings, a byte order mark and blank lines", () => {
+    expect(parseCsv("\uFEFFa,b\r\n\r\n1,2\r\n,\r\n")).toEqual([
+      ["a", "b"],
+      ["1", "2"]
+    ]);
+  });
+
+  it("keeps empty fields in a row", () => {
+    expect(parseCsv("a,,c")).toEqual([["a", "", "c"]]);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { isDoseGiven, getDoseLogStatus, getDoseStatusLabel, isDoseLogStatus } from "./dose-outcomes";
+
+describe("isDoseGiven", () => {
+  it("counts taken, late and vomited doses as given", () => {
+    expect(["taken", "late", "vomited"].map(isDoseGiven)).toEqual([true, true, true]);
+    expect(["refused", "skipped"].map(isDoseGiven)).toEqual([false, false]);
+  });
+
+  it("treats logs from before statuses existed as given", () => {
+    expect(isDoseGiven(null)).toBe(true);
+    expect(getDoseStatusLabel(undefined)).toBe("Given");
+  });
+});
+
+describe("getDoseLogStatus", () => {
+  it("uses the recorded status when it agrees with the taken flag", () => {
+    expect(getDoseLogStatus({ taken: true, status: "late" })).toBe("late");
+    expect(getDoseLogStatus({ taken: false, status: "refused" })).toBe("refused");
+  });
+
+  it("falls back to the taken flag otherwise", () => {
+    expect(getDoseLogStatus({ taken: false, status: "taken" })).toBe("skipped");
+    expect(getDoseLogStatus({ taken: true, status: "unknown" })).toBe("taken");
+    expect(getDoseLogStatus({ taken: false })).toBe("skipped");
+  });
+});
+
+describe("isDoseLogStatus", () => {
+  it("only accepts the recorded statuses", () => {
+    expect(isDoseLogStatus("vomited")).toBe(true);
+    expect(isDoseLogStatus("missed")).toBe(false);
+  });
+});
@@ -0,0 +1,50 @@
+// What happened to a dose when it was recorded. Stored on medicationLogs.status next to the
+// taken flag, which stays true whenever the dose was actually given so stock counts and
+// as-needed limits keep working from it.
+
+export type DoseLogStatus = 'taken' | 'late' | 'refused' | 'skipped' | 'vomited';
+
+export const doseLogStatuses: { value: DoseLogStatus; label: string; given: boolean; requiresReason: boolean }[] = [
+  { value: 'taken', label: 'Given', given: true, requiresReason: false },
+  { value: 'late', label: 'Given late', given: true, requiresReason: false },
+  { value: 'refused', label: 'Refused', given: false, requiresReason: true },
+  { value: 'skipped', label: 'Held / skipped', given: false, requiresReason: true },
+  { value: 'vomited', label: 'Vomited', given: true, requiresReason: false },
+];
+
+export const doseReasonCodes = [
+  { value: 'asleep', label: 'Asleep' },
+  { value: 'refused_taste', label: 'Refused - taste or pill size' },
+  { value: 'difficulty_swallowing', label: 'Difficulty swallowing' },
+  { value: 'nausea', label: 'Nausea or vomiting' },
+  { value: 'side_effects', label: 'Side effects' },
+  { value: 'vitals_out_of_range', label: 'Blood pressure, pulse or sugar out of range' },
+  { value: 'held_by_clinician', label: 'Held by nurse or doctor' },
+  { value: 'nothing_by_mouth', label: 'Nothing by mouth (NPO)' },
+  { value: 'away', label: 'Away from home' },
+  { value: 'out_of_stock', label: 'Out of stock' },
+  { value: 'other', label: 'Other' },
+];
+
+export const isDoseLogStatus = (value: unknown): value is DoseLogStatus =>
+  doseLogStatuses.some(status => status.value === value);
+
+export const isDoseReasonCode = (value: unknown) =>
+  doseReasonCodes.some(reason => reason.value === value);
+
+// Whether a status means the dose went in - unknown statuses are treated as given,
+// matching logs recorded before statuses existed
+export const isDoseGiven = (status: string | null | undefined) =>
+  doseLogStatuses.find(entry => entry.value === status)?.given ?? true;
+
+export const getDoseStatusLabel = (status: string | null | undefined) =>
+  doseLogStatuses.find(entry => entry.value === status)?.label ?? 'Given';
+
+export const getDoseReasonLabel = (reasonCode: string | null | undefined) =>
+  doseReasonCodes.find(reason => reason.value === reasonCode)?.label ?? null;
+
+// A log's status, falling back to the taken flag for logs recorded before statuses existed
+export const getDoseLogStatus = (log: { taken: boolean; status?: string | null }): DoseLogStatus => {
+  if (isDoseLogStatus(log.status) && isDoseGiven(log.status) === log.taken) return log.status;
+  return log.taken ? 'taken' : 'skipped';
+};
@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { getGlucoseRangeBand, calculateGmi, calculateEstimatedA1c, percentile } from "./glucose-analytics";
+
+describe("getGlucoseRangeBand", () => {
+  it("uses the consensus time-in-range bands", () => {
+    expect(getGlucoseRangeBand(53)).toBe("veryLow");
+    expect(getGlucoseRangeBand(54)).toBe("low");
+    expect(getGlucoseRangeBand(70)).toBe("inRange");
+    expect(getGlucoseRangeBand(180)).toBe("inRange");
+    expect(getGlucoseRangeBand(181)).toBe("high");
+    expect(getGlucoseRangeBand(251)).toBe("veryHigh");
+  });
+});
+
+describe("calculateGmi", () => {
+  it("predicts A1C from mean glucose", () => {
+    expect(calculateGmi(150)).toBeCloseTo(6.9, 1);
+    expect(calculateEstimatedA1c(154)).toBeCloseTo(7.0, 1);
+  });
+});
+
+describe("percentile", () => {
+  it("interpolates between the closest ranks", () => {
+    expect(percentile([10, 20, 30, 40, 50], 50)).toBe(30);
+    expect(percentile([10, 20, 30, 40], 50)).toBe(25);
+    expect(percentile([10, 20, 30, 40, 50], 95)).toBeCloseTo(48);
+  });
+
+  it("returns null without values", () => {
+    expect(percentile([], 50)).toBeNull();
+  });
+});
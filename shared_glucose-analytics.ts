@@ -0,0 +1,46 @@
+// Glucose summary metrics from the international consensus on time in range (Battelino et al.,
+// Diabetes Care 2019). The bands are fixed by the consensus so reports stay comparable between
+// visits - the care recipient's own thresholds only drive alerts.
+
+export type GlucoseRangeBand = 'veryLow' | 'low' | 'inRange' | 'high' | 'veryHigh';
+
+export const glucoseRangeBands: { value: GlucoseRangeBand; label: string; description: string }[] = [
+  { value: 'veryHigh', label: 'Very high', description: 'Above 250 mg/dL' },
+  { value: 'high', label: 'High', description: '181-250 mg/dL' },
+  { value: 'inRange', label: 'In range', description: '70-180 mg/dL' },
+  { value: 'low', label: 'Low', description: '54-69 mg/dL' },
+  { value: 'veryLow', label: 'Very low', description: 'Below 54 mg/dL' },
+];
+
+export const getGlucoseRangeBand = (level: number): GlucoseRangeBand => {
+  if (level < 54) return 'veryLow';
+  if (level < 70) return 'low';
+  if (level <= 180) return 'inRange';
+  if (level <= 250) return 'high';
+  return 'veryHigh';
+};
+
+// Windows the report can cover. 14 days is what the consensus asks for.
+export const glucoseAnalyticsWindows = [7, 14, 30, 90];
+export const DEFAULT_GLUCOSE_ANALYTICS_WINDOW = 14;
+
+// Glucose Management Indicator, the A1C a mean glucose predicts (Bergenstal et al., 2018)
+export const calculateGmi = (meanGlucose: number) => 3.31 + 0.02392 * meanGlucose;
+
+// The older ADAG estimated A1C, which is what most lab reports still print
+export const calculateEstimatedA1c = (meanGlucose: number) => (meanGlucose + 46.7) / 28.7;
+
+// Variability above 36% is considered unstable glucose
+export const GLUCOSE_VARIABILITY_TARGET = 36;
+
+// Percentiles drawn on the ambulatory glucose profile
+export const agpPercentiles = [5, 25, 50, 75, 95] as const;
+
+// Linear interpolation between the closest ranks. Values must be sorted ascending.
+export const percentile = (sorted: number[], p: number) => {
+  if (sorted.length === 0) return null;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
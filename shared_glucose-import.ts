@@ -0,0 +1,38 @@
+import { glucoseReadingTypes } from "./clinical-thresholds";
+
+// Glucose readings imported from a CGM or meter export instead of entered by hand
+
+export type GlucoseImportFormat = 'dexcom_clarity' | 'generic';
+
+export const glucoseImportFormats: { value: GlucoseImportFormat; label: string; description: string }[] = [
+  { value: 'dexcom_clarity', label: 'Dexcom Clarity', description: 'The CSV from Clarity > Export' },
+  { value: 'generic', label: 'Other meter or app', description: 'Any CSV with a date/time column and a glucose column' },
+];
+
+export type GlucoseUnit = 'mg/dL' | 'mmol/L';
+
+export const MG_DL_PER_MMOL_L = 18.016;
+
+// Sensor readings get their own type so they aren't mistaken for fingersticks
+export const CGM_READING_TYPE = 'cgm';
+
+export const importReadingTypes = [
+  ...glucoseReadingTypes,
+  { value: CGM_READING_TYPE, label: 'Sensor (CGM)' },
+  { value: 'other', label: 'Other / not recorded' },
+];
+
+// Which columns of a generic CSV hold what, by header name
+export interface GlucoseImportMapping {
+  timestampColumn: string;
+  valueColumn: string;
+  unit: GlucoseUnit;
+  readingType: string;
+}
+
+export interface GlucoseImportResult {
+  imported: number;
+  skipped: number; // Already recorded at the same minute, or repeated in the file
+  rejected: number;
+  errors: Array<{ row: number; reason: string }>; // First few rejected rows, numbered as in the file
+}
@@ -0,0 +1,29 @@
+// Where a reading came from. Everything entered in the app is "manual"; imports tag their
+// rows so they can be told apart (and traced back) later.
+
+export type ReadingSource = 'manual' | 'apple_health' | 'dexcom_clarity' | 'csv';
+
+export const readingSourceLabels: Record<ReadingSource, string> = {
+  manual: 'Entered in app',
+  apple_health: 'Apple Health',
+  dexcom_clarity: 'Dexcom Clarity',
+  csv: 'CSV import',
+};
+
+export const getReadingSourceLabel = (source: string | null | undefined) =>
+  readingSourceLabels[source as ReadingSource] ?? source ?? readingSourceLabels.manual;
+
+export interface ImportCounts {
+  imported: number;
+  skipped: number; // Already recorded at the same time
+}
+
+export interface AppleHealthImportResult {
+  from: string;
+  to: string;
+  recordsRead: number; // Records of a supported type in the date range
+  bloodPressure: ImportCounts;
+  glucose: ImportCounts;
+  sleep: ImportCounts;
+  weight: ImportCounts;
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { getOrganizerCompartment, getCompartmentKey, isCompartmentKey } from "./pill-organizer";
+
+describe("getOrganizerCompartment", () => {
+  it("puts each dose time in the compartment it falls in", () => {
+    expect(getOrganizerCompartment("08:00:00")).toBe("am");
+    expect(getOrganizerCompartment("11:00")).toBe("noon");
+    expect(getOrganizerCompartment("14:59")).toBe("noon");
+    expect(getOrganizerCompartment("17:30:00")).toBe("pm");
+    expect(getOrganizerCompartment("21:00:00")).toBe("bedtime");
+  });
+
+  it("puts doses from midnight until 4am in bedtime", () => {
+    expect(getOrganizerCompartment("00:30:00")).toBe("bedtime");
+    expect(getOrganizerCompartment("03:59")).toBe("bedtime");
+    expect(getOrganizerCompartment("04:00")).toBe("am");
+  });
+});
+
+describe("isCompartmentKey", () => {
+  it("accepts keys made by getCompartmentKey", () => {
+    expect(isCompartmentKey(getCompartmentKey("2026-10-25", "am"))).toBe(true);
+  });
+
+  it("rejects unknown compartments and malformed dates", () => {
+    expect(isCompartmentKey("2026-10-25:lunch")).toBe(false);
+    expect(isCompartmentKey("10/25/2026:am")).toBe(false);
+    expect(isCompartmentKey(42)).toBe(false);
+  });
+});
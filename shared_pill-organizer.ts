@@ -0,0 +1,26 @@
+// The compartments of a weekly AM / noon / PM / bedtime pill organizer, and which
+// scheduled dose times go in each. Doses from midnight until 4am go in bedtime.
+
+export type OrganizerCompartment = 'am' | 'noon' | 'pm' | 'bedtime';
+
+export const organizerCompartments: { value: OrganizerCompartment; label: string; from: string }[] = [
+  { value: 'am', label: 'AM', from: '04:00' },
+  { value: 'noon', label: 'Noon', from: '11:00' },
+  { value: 'pm', label: 'PM', from: '15:00' },
+  { value: 'bedtime', label: 'Bedtime', from: '20:00' },
+];
+
+// "HH:MM" or "HH:MM:SS" schedule time to its compartment
+export const getOrganizerCompartment = (time: string): OrganizerCompartment => {
+  const hhmm = time.slice(0, 5);
+  const compartment = [...organizerCompartments].reverse().find(entry => hhmm >= entry.from);
+  return compartment ? compartment.value : 'bedtime';
+};
+
+// Checklist key for one compartment on one day, e.g. "2026-10-25:am"
+export const getCompartmentKey = (date: string, compartment: OrganizerCompartment) => `${date}:${compartment}`;
+
+export const isCompartmentKey = (value: unknown): value is string =>
+  typeof value === 'string' &&
+  /^\d{4}-\d{2}-\d{2}:[a-z]+$/.test(value) &&
+  organizerCompartments.some(entry => value.endsWith(`:${entry.value}`));
@@ -0,0 +1,26 @@
+// What to do with each medication when reconciling the list against a hospital discharge list
+export type ReconciliationAction = 'continue' | 'change_dose' | 'stop' | 'new';
+
+export const reconciliationActions: { value: ReconciliationAction; label: string }[] = [
+  { value: 'continue', label: 'Continue' },
+  { value: 'change_dose', label: 'Change dose' },
+  { value: 'stop', label: 'Stop' },
+  { value: 'new', label: 'New' },
+];
+
+export const isReconciliationAction = (value: unknown): value is ReconciliationAction =>
+  reconciliationActions.some(action => action.value === value);
+
+export const getReconciliationActionLabel = (action: string) =>
+  reconciliationActions.find(entry => entry.value === action)?.label ?? action;
+
+// A decision as recorded on the reconciliation event, with the values it replaced
+export interface ReconciliationItem {
+  action: ReconciliationAction;
+  medicationId: number;
+  name: string;
+  dosage: string;
+  instructions: string | null;
+  previousDosage?: string;
+  previousInstructions?: string | null;
+}
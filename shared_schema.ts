@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb, date, time, varchar } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, date, time, varchar, unique, real } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
@@ -27,12 +27,21 @@ export const medications = pgTable("medications", {
   prescriptionNumber: text("prescription_number"),
   expirationDate: date("expiration_date"),
   // Inventory tracking fields
-  currentQuantity: integer("current_quantity").default(0),
+  currentQuantity: real("current_quantity").default(0), // Half a tablet counts as 0.5
   reorderThreshold: integer("reorder_threshold").default(5),
   daysToReorder: integer("days_to_reorder").default(7), // Days in advance to alert for reorder (1-30 days)
   originalQuantity: integer("original_quantity").default(0), // Original prescription amount
   refillsRemaining: integer("refills_remaining").default(0),
   lastRefillDate: date("last_refill_date"),
+  // Controlled substances (opioids, benzodiazepines...) get a witnessed count sheet
+  isControlled: boolean("is_controlled").notNull().default(false),
+  controlledSchedule: text("controlled_schedule"), // DEA schedule: "II", "III", "IV" or "V"
+  // Discontinued medications are kept so their history stays available
+  status: text("status").notNull().default("active"), // "active" or "discontinued"
+  startDate: date("start_date"),
+  stopDate: date("stop_date"), // First day the medication is no longer taken
+  courseBreaks: jsonb("course_breaks").default([]), // Earlier stops before a restart: [{stopDate, restartDate, reason}]
+  discontinuationReason: text("discontinuation_reason"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
@@ -44,13 +53,20 @@ export const medicationSchedules = pgTable("medication_schedules", {
   time: time("time").notNull(),
   daysOfWeek: jsonb("days_of_week").notNull(), // Array of days (0-6, Sunday-Saturday)
   quantity: text("quantity").notNull(), // e.g., "1 tablet", "2 pills"
+  doseAmount: real("dose_amount"), // Numeric amount per dose, e.g. 2 for "2 tablets"
+  doseUnit: text("dose_unit"), // Canonical unit, e.g. "tablet", "mL", "puff"
   withFood: boolean("with_food").default(false),
   active: boolean("active").default(true),
+  deactivatedAt: timestamp("deactivated_at"), // When a schedule with logged doses was switched off - doses before this still count
   reminderEnabled: boolean("reminder_enabled").default(true),
   asNeeded: boolean("as_needed").default(false), // Field for as-needed medications
+  maxDosesPer24h: integer("max_doses_per_24h"), // PRN limit - most doses allowed in any rolling 24 hours
+  minHoursBetweenDoses: integer("min_hours_between_doses"), // PRN limit - shortest gap allowed between doses
   specificDays: jsonb("specific_days").default([]),  // Specific calendar days (MM/DD/YYYY)
   isTapering: boolean("is_tapering").default(false), // Whether this is a tapering schedule
   taperingSchedule: jsonb("tapering_schedule").default([]), // Array of {startDate, endDate, quantity}
+  intervalDays: integer("interval_days"), // Every N days (2 = every other day) instead of days of the week
+  intervalStartDate: date("interval_start_date"), // First day of the interval, yyyy-MM-dd
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
@@ -60,14 +76,141 @@ export const medicationLogs = pgTable("medication_logs", {
   id: serial("id").primaryKey(),
   medicationId: integer("medication_id").references(() => medications.id).notNull(),
   scheduleId: integer("schedule_id").references(() => medicationSchedules.id),
-  taken: boolean("taken").notNull().default(true),
+  taken: boolean("taken").notNull().default(true), // Whether the dose was actually given
+  status: text("status").notNull().default("taken"), // taken, late, refused, skipped (held) or vomited
+  reasonCode: text("reason_code"), // Why a dose was refused, held or vomited - see @shared/dose-outcomes
   takenAt: timestamp("taken_at").notNull().defaultNow(),
   notes: text("notes"),
+  overrideReason: text("override_reason"), // Why a dose outside the PRN limits was given anyway
   careRecipientId: integer("care_recipient_id").references(() => careRecipients.id).notNull(),
+  createdById: integer("created_by_id").references(() => users.id), // Caregiver who logged it
+  updatedById: integer("updated_by_id").references(() => users.id), // Caregiver who last changed it
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
 
+// Medication Reminder Logs - one row per reminder dispatched, so a restart never re-sends the same dose
+export const medicationReminderLogs = pgTable("medication_reminder_logs", {
+  id: serial("id").primaryKey(),
+  scheduleId: integer("schedule_id").references(() => medicationSchedules.id).notNull(),
+  medicationId: integer("medication_id").references(() => medications.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  scheduledFor: timestamp("scheduled_for").notNull(), // The dose time this reminder was sent for
+  emailSent: boolean("email_sent").default(false),
+  smsSent: boolean("sms_sent").default(false),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => [
+  unique("medication_reminder_logs_schedule_time_unique").on(table.scheduleId, table.scheduledFor)
+]);
+
+// Missed Doses - scheduled doses with no matching medication log after the grace window
+export const missedDoses = pgTable("missed_doses", {
+  id: serial("id").primaryKey(),
+  scheduleId: integer("schedule_id").references(() => medicationSchedules.id).notNull(),
+  medicationId: integer("medication_id").references(() => medications.id).notNull(),
+  careRecipientId: integer("care_recipient_id").references(() => careRecipients.id).notNull(),
+  scheduledFor: timestamp("scheduled_for").notNull(),
+  escalationLevel: integer("escalation_level").notNull().default(0), // 0 = detected, 1 = caregiver follow-up sent, 2 = backup contact notified
+  caregiverNotifiedAt: timestamp("caregiver_notified_at"),
+  backupNotifiedAt: timestamp("backup_notified_at"),
+  resolvedAt: timestamp("resolved_at"), // Set when the dose is logged late
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+}, (table) => [
+  unique("missed_doses_schedule_time_unique").on(table.scheduleId, table.scheduledFor)
+]);
+
+// Medication Inventory Ledger - every change to a medication's stock, so pill counts can be reconciled
+export const medicationInventoryTransactions = pgTable("medication_inventory_transactions", {
+  id: serial("id").primaryKey(),
+  medicationId: integer("medication_id").references(() => medications.id).notNull(),
+  medicationLogId: integer("medication_log_id").references(() => medicationLogs.id, { onDelete: "set null" }),
+  type: text("type").notNull(), // "dose", "dose_reversal", "refill", "adjustment", "waste", "expired", "count_correction", "organizer_fill"
+  quantityChange: real("quantity_change").notNull(), // Negative when stock goes down
+  quantityAfter: real("quantity_after").notNull(), // Below zero when more was used than was on record
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+// Controlled Substance Counts - each shift's physical count of a controlled medication, signed off by a witness
+export const controlledSubstanceCounts = pgTable("controlled_substance_counts", {
+  id: serial("id").primaryKey(),
+  medicationId: integer("medication_id").references(() => medications.id).notNull(),
+  careRecipientId: integer("care_recipient_id").references(() => careRecipients.id).notNull(),
+  shift: text("shift").notNull(), // "day", "evening" or "night"
+  countedQuantity: real("counted_quantity").notNull(),
+  expectedQuantity: real("expected_quantity").notNull(), // Stock on hand by the ledger when the count was taken
+  discrepancy: real("discrepancy").notNull(), // countedQuantity - expectedQuantity
+  countedById: integer("counted_by_id").references(() => users.id),
+  witnessId: integer("witness_id").references(() => users.id).notNull(),
+  notes: text("notes"),
+  alertSentAt: timestamp("alert_sent_at"),
+  resolvedAt: timestamp("resolved_at"), // Set once a discrepancy has been looked into
+  resolvedById: integer("resolved_by_id").references(() => users.id),
+  resolutionNotes: text("resolution_notes"),
+  countedAt: timestamp("counted_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+// Medication Changes - every edit to a medication's dosage, instructions, prescriber or schedule,
+// with the value before and after, so the history of a prescription can be followed
+export const medicationChanges = pgTable("medication_changes", {
+  id: serial("id").primaryKey(),
+  medicationId: integer("medication_id").references(() => medications.id).notNull(),
+  scheduleId: integer("schedule_id"), // No reference - removed schedules keep their history
+  field: text("field").notNull(), // "dosage", "instructions", "doctor", "schedule_time", "schedule_quantity", "schedule_days", "schedule_added", "schedule_removed"
+  oldValue: text("old_value"),
+  newValue: text("new_value"),
+  source: text("source").notNull().default("edit"), // "edit" or "reconciliation"
+  changedById: integer("changed_by_id").references(() => users.id),
+  changedAt: timestamp("changed_at").defaultNow().notNull()
+});
+
+// Medication Reconciliations - the medication list checked against a hospital discharge list,
+// with every continue / change dose / stop / new decision applied together
+export const medicationReconciliations = pgTable("medication_reconciliations", {
+  id: serial("id").primaryKey(),
+  careRecipientId: integer("care_recipient_id").references(() => careRecipients.id).notNull(),
+  source: text("source").notNull().default("hospital_discharge"),
+  facility: text("facility"), // Hospital or facility the list came from
+  dischargeDate: date("discharge_date"),
+  items: jsonb("items").notNull().default([]), // Array of ReconciliationItem - see @shared/reconciliation
+  notes: text("notes"),
+  createdById: integer("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+// Pill Organizer Fills - one per care recipient per week: which compartments have been filled,
+// and the stock taken out for the organizer once the fill was confirmed
+export const pillOrganizerFills = pgTable("pill_organizer_fills", {
+  id: serial("id").primaryKey(),
+  careRecipientId: integer("care_recipient_id").references(() => careRecipients.id).notNull(),
+  weekStart: date("week_start").notNull(), // First day in the organizer, yyyy-MM-dd
+  checkedCompartments: jsonb("checked_compartments").notNull().default([]), // Keys like "2026-10-25:am" - see @shared/pill-organizer
+  deductions: jsonb("deductions").notNull().default([]), // Array of {medicationId, units} taken out of stock for the fill
+  filledAt: timestamp("filled_at"), // Set when the fill is confirmed
+  filledById: integer("filled_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+}, (table) => [
+  unique("pill_organizer_fills_week_unique").on(table.careRecipientId, table.weekStart)
+]);
+
+// Drug Interactions - the bundled, versioned interaction dataset loaded at startup so checks work offline
+export const drugInteractions = pgTable("drug_interactions", {
+  id: serial("id").primaryKey(),
+  drugA: text("drug_a").notNull(), // Generic name or drug class key, lowercase (e.g. "warfarin", "nsaid")
+  drugB: text("drug_b").notNull(),
+  severity: text("severity").notNull(), // "high", "moderate", "low"
+  description: text("description").notNull(),
+  mechanism: text("mechanism"),
+  management: text("management"),
+  datasetVersion: text("dataset_version").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => [
+  unique("drug_interactions_pair_unique").on(table.drugA, table.drugB)
+]);
+
 // Appointments
 export const appointments = pgTable("appointments", {
   id: serial("id").primaryKey(),
@@ -90,6 +233,8 @@ export const meals = pgTable("meals", {
   notes: text("notes"),
   consumedAt: timestamp("consumed_at").notNull().defaultNow(),
   careRecipientId: integer("care_recipient_id").references(() => careRecipients.id).notNull(),
+  createdById: integer("created_by_id").references(() => users.id), // Caregiver who logged it
+  updatedById: integer("updated_by_id").references(() => users.id), // Caregiver who last changed it
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
@@ -101,6 +246,8 @@ export const bowelMovements = pgTable("bowel_movements", {
   notes: text("notes"),
   occuredAt: timestamp("occured_at").notNull().defaultNow(),
   careRecipientId: integer("care_recipient_id").references(() => careRecipients.id).notNull(),
+  createdById: integer("created_by_id").references(() => users.id), // Caregiver who logged it
+  updatedById: integer("updated_by_id").references(() => users.id), // Caregiver who last changed it
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
@@ -115,6 +262,8 @@ export const urination = pgTable("urination", {
   notes: text("notes"),
   occuredAt: timestamp("occured_at").notNull().defaultNow(),
   careRecipientId: integer("care_recipient_id").references(() => careRecipients.id).notNull(),
+  createdById: integer("created_by_id").references(() => users.id), // Caregiver who logged it
+  updatedById: integer("updated_by_id").references(() => users.id), // Caregiver who last changed it
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
@@ -150,6 +299,9 @@ export const sleep = pgTable("sleep", {
   interruptions: integer("interruptions").default(0),
   notes: text("notes"),
   careRecipientId: integer("care_recipient_id").references(() => careRecipients.id).notNull(),
+  source: text("source").notNull().default("manual"), // "manual", or where it was imported from - see @shared/health-import
+  createdById: integer("created_by_id").references(() => users.id), // Caregiver who logged it
+  updatedById: integer("updated_by_id").references(() => users.id), // Caregiver who last changed it
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
@@ -160,6 +312,8 @@ export const notes = pgTable("notes", {
   title: text("title").notNull(),
   content: text("content").notNull(),
   careRecipientId: integer("care_recipient_id").references(() => careRecipients.id).notNull(),
+  createdById: integer("created_by_id").references(() => users.id), // Caregiver who logged it
+  updatedById: integer("updated_by_id").references(() => users.id), // Caregiver who last changed it
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
@@ -221,6 +375,8 @@ export const pharmacies = pgTable("pharmacies", {
   name: text("name").notNull(),
   address: text("address").notNull(),
   phoneNumber: text("phone_number").notNull(),
+  email: text("email"), // Where refill requests can be emailed
+  faxNumber: text("fax_number"), // Where refill requests can be faxed
   notes: text("notes"),
   careRecipientId: integer("care_recipient_id").references(() => careRecipients.id).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -234,7 +390,12 @@ export const medicationPharmacies = pgTable("medication_pharmacies", {
   pharmacyId: integer("pharmacy_id").references(() => pharmacies.id).notNull(),
   refillInfo: text("refill_info"),
   lastRefillDate: date("last_refill_date"),
-  nextRefillDate: date("next_refill_date"),
+  nextRefillDate: date("next_refill_date"), // Recomputed from the refill forecast whenever stock changes
+  // Refill workflow
+  refillStatus: text("refill_status").notNull().default("none"), // "none", "requested", "ready" or "picked_up"
+  refillRequestedAt: timestamp("refill_requested_at"),
+  refillReadyAt: timestamp("refill_ready_at"),
+  refillPickedUpAt: timestamp("refill_picked_up_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
@@ -250,6 +411,9 @@ export const bloodPressure = pgTable("blood_pressure", {
   timeOfReading: timestamp("time_of_reading").notNull(),
   position: text("position"), // Standing, sitting, or lying down
   notes: text("notes"),
+  source: text("source").notNull().default("manual"), // "manual", or where it was imported from - see @shared/health-import
+  createdById: integer("created_by_id").references(() => users.id), // Caregiver who logged it
+  updatedById: integer("updated_by_id").references(() => users.id), // Caregiver who last changed it
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
@@ -262,6 +426,9 @@ export const glucose = pgTable("glucose", {
   timeOfReading: timestamp("time_of_reading").notNull(),
   readingType: text("reading_type").notNull(), // Fasting, before meal, after meal, bedtime, etc.
   notes: text("notes"),
+  source: text("source").notNull().default("manual"), // "manual", or where it was imported from - see @shared/health-import
+  createdById: integer("created_by_id").references(() => users.id), // Caregiver who logged it
+  updatedById: integer("updated_by_id").references(() => users.id), // Caregiver who last changed it
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
@@ -275,10 +442,64 @@ export const insulin = pgTable("insulin", {
   timeAdministered: timestamp("time_administered").notNull(),
   site: text("site"), // Injection site (e.g., abdomen, thigh)
   notes: text("notes"),
+  createdById: integer("created_by_id").references(() => users.id), // Caregiver who logged it
+  updatedById: integer("updated_by_id").references(() => users.id), // Caregiver who last changed it
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
 
+// Weights - body weight in the unit it was measured in
+export const weights = pgTable("weights", {
+  id: serial("id").primaryKey(),
+  careRecipientId: integer("care_recipient_id").references(() => careRecipients.id).notNull(),
+  weight: real("weight").notNull(),
+  unit: text("unit").notNull().default("lb"), // "lb" or "kg"
+  timeOfReading: timestamp("time_of_reading").notNull(),
+  notes: text("notes"),
+  source: text("source").notNull().default("manual"), // "manual", or where it was imported from - see @shared/health-import
+  createdById: integer("created_by_id").references(() => users.id), // Caregiver who logged it
+  updatedById: integer("updated_by_id").references(() => users.id), // Caregiver who last changed it
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+// Clinical Thresholds - the care recipient's own limits for readings, set by the caregiver.
+// Empty limits aren't checked; see @shared/clinical-thresholds for the defaults
+export const clinicalThresholds = pgTable("clinical_thresholds", {
+  id: serial("id").primaryKey(),
+  careRecipientId: integer("care_recipient_id").references(() => careRecipients.id).notNull().unique(),
+  glucoseRanges: jsonb("glucose_ranges").notNull().default({}), // { [readingType]: { low, high } } in mg/dL
+  systolicLow: integer("systolic_low"),
+  systolicHigh: integer("systolic_high"),
+  diastolicLow: integer("diastolic_low"),
+  diastolicHigh: integer("diastolic_high"),
+  pulseLow: integer("pulse_low"),
+  pulseHigh: integer("pulse_high"),
+  oxygenLow: integer("oxygen_low"), // Lowest acceptable SpO2 percentage
+  notifyEmail: boolean("notify_email").default(false), // Email the care recipient's owner about abnormal readings
+  notifySms: boolean("notify_sms").default(false),
+  updatedById: integer("updated_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+// Reading Alerts - a glucose or blood pressure reading that fell outside the care recipient's thresholds
+export const readingAlerts = pgTable("reading_alerts", {
+  id: serial("id").primaryKey(),
+  careRecipientId: integer("care_recipient_id").references(() => careRecipients.id).notNull(),
+  readingType: text("reading_type").notNull(), // "glucose" or "blood_pressure"
+  readingId: integer("reading_id").notNull(), // No reference - it points at either table; alerts are removed with their reading
+  metric: text("metric").notNull(), // "glucose", "systolic", "diastolic", "pulse" or "oxygen"
+  value: integer("value").notNull(),
+  direction: text("direction").notNull(), // "low" or "high"
+  threshold: integer("threshold").notNull(), // The limit that was crossed
+  readingTime: timestamp("reading_time").notNull(),
+  notifiedAt: timestamp("notified_at"), // Set once an email or SMS went out
+  acknowledgedAt: timestamp("acknowledged_at"),
+  acknowledgedById: integer("acknowledged_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
 // Users table (keeping existing structure)
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -290,6 +511,14 @@ export const users = pgTable("users", {
   emailNotifications: boolean("email_notifications").default(true),
   smsNotifications: boolean("sms_notifications").default(false),
   medicationReminders: boolean("medication_reminders").default(true),
+  // Missed dose escalation settings
+  missedDoseGraceMinutes: integer("missed_dose_grace_minutes").default(60), // Minutes after a dose is due before it counts as missed
+  backupContactName: text("backup_contact_name"),
+  backupContactEmail: varchar("backup_contact_email", { length: 255 }),
+  backupContactPhone: text("backup_contact_phone"),
+  // Medication expiration settings
+  expirationLeadDays: integer("expiration_lead_days").default(30), // How many days ahead a medication counts as expiring soon
+  autoWriteOffExpired: boolean("auto_write_off_expired").default(false), // Remove expired stock from inventory automatically
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
@@ -336,7 +565,8 @@ export const careRecipientsRelations = relations(careRecipients, ({ one, many })
   emergencyInfo: many(emergencyInfo),
   bloodPressureReadings: many(bloodPressure),
   glucoseReadings: many(glucose),
-  insulinRecords: many(insulin)
+  insulinRecords: many(insulin),
+  weights: many(weights)
 }));
 
 export const medicationsRelations = relations(medications, ({ one, many }) => ({
@@ -350,7 +580,10 @@ export const medicationsRelations = relations(medications, ({ one, many }) => ({
   }),
   schedules: many(medicationSchedules),
   logs: many(medicationLogs),
-  pharmacyRelations: many(medicationPharmacies)
+  pharmacyRelations: many(medicationPharmacies),
+  inventoryTransactions: many(medicationInventoryTransactions),
+  controlledCounts: many(controlledSubstanceCounts),
+  changes: many(medicationChanges)
 }));
 
 export const doctorsRelations = relations(doctors, ({ one, many }) => ({
@@ -400,6 +633,96 @@ export const medicationLogsRelations = relations(medicationLogs, ({ one }) => ({
   careRecipient: one(careRecipients, {
     fields: [medicationLogs.careRecipientId],
     references: [careRecipients.id]
+  }),
+  createdBy: one(users, {
+    fields: [medicationLogs.createdById],
+    references: [users.id]
+  }),
+  updatedBy: one(users, {
+    fields: [medicationLogs.updatedById],
+    references: [users.id]
+  })
+}));
+
+export const missedDosesRelations = relations(missedDoses, ({ one }) => ({
+  medication: one(medications, {
+    fields: [missedDoses.medicationId],
+    references: [medications.id]
+  }),
+  schedule: one(medicationSchedules, {
+    fields: [missedDoses.scheduleId],
+    references: [medicationSchedules.id]
+  }),
+  careRecipient: one(careRecipients, {
+    fields: [missedDoses.careRecipientId],
+    references: [careRecipients.id]
+  })
+}));
+
+export const medicationInventoryTransactionsRelations = relations(medicationInventoryTransactions, ({ one }) => ({
+  medication: one(medications, {
+    fields: [medicationInventoryTransactions.medicationId],
+    references: [medications.id]
+  }),
+  medicationLog: one(medicationLogs, {
+    fields: [medicationInventoryTransactions.medicationLogId],
+    references: [medicationLogs.id]
+  })
+}));
+
+export const controlledSubstanceCountsRelations = relations(controlledSubstanceCounts, ({ one }) => ({
+  medication: one(medications, {
+    fields: [controlledSubstanceCounts.medicationId],
+    references: [medications.id]
+  }),
+  careRecipient: one(careRecipients, {
+    fields: [controlledSubstanceCounts.careRecipientId],
+    references: [careRecipients.id]
+  }),
+  countedBy: one(users, {
+    fields: [controlledSubstanceCounts.countedById],
+    references: [users.id]
+  }),
+  witness: one(users, {
+    fields: [controlledSubstanceCounts.witnessId],
+    references: [users.id]
+  }),
+  resolvedBy: one(users, {
+    fields: [controlledSubstanceCounts.resolvedById],
+    references: [users.id]
+  })
+}));
+
+export const medicationChangesRelations = relations(medicationChanges, ({ one }) => ({
+  medication: one(medications, {
+    fields: [medicationChanges.medicationId],
+    references: [medications.id]
+  }),
+  changedBy: one(users, {
+    fields: [medicationChanges.changedById],
+    references: [users.id]
+  })
+}));
+
+export const medicationReconciliationsRelations = relations(medicationReconciliations, ({ one }) => ({
+  careRecipient: one(careRecipients, {
+    fields: [medicationReconciliations.careRecipientId],
+    references: [careRecipients.id]
+  }),
+  createdBy: one(users, {
+    fields: [medicationReconciliations.createdById],
+    references: [users.id]
+  })
+}));
+
+export const pillOrganizerFillsRelations = relations(pillOrganizerFills, ({ one }) => ({
+  careRecipient: one(careRecipients, {
+    fields: [pillOrganizerFills.careRecipientId],
+    references: [careRecipients.id]
+  }),
+  filledBy: one(users, {
+    fields: [pillOrganizerFills.filledById],
+    references: [users.id]
   })
 }));
 
@@ -410,6 +733,163 @@ export const emergencyInfoRelations = relations(emergencyInfo, ({ one }) => ({
   })
 }));
 
+export const mealsRelations = relations(meals, ({ one }) => ({
+  careRecipient: one(careRecipients, {
+    fields: [meals.careRecipientId],
+    references: [careRecipients.id]
+  }),
+  createdBy: one(users, {
+    fields: [meals.createdById],
+    references: [users.id]
+  }),
+  updatedBy: one(users, {
+    fields: [meals.updatedById],
+    references: [users.id]
+  })
+}));
+
+export const bowelMovementsRelations = relations(bowelMovements, ({ one }) => ({
+  careRecipient: one(careRecipients, {
+    fields: [bowelMovements.careRecipientId],
+    references: [careRecipients.id]
+  }),
+  createdBy: one(users, {
+    fields: [bowelMovements.createdById],
+    references: [users.id]
+  }),
+  updatedBy: one(users, {
+    fields: [bowelMovements.updatedById],
+    references: [users.id]
+  })
+}));
+
+export const urinationRelations = relations(urination, ({ one }) => ({
+  careRecipient: one(careRecipients, {
+    fields: [urination.careRecipientId],
+    references: [careRecipients.id]
+  }),
+  createdBy: one(users, {
+    fields: [urination.createdById],
+    references: [users.id]
+  }),
+  updatedBy: one(users, {
+    fields: [urination.updatedById],
+    references: [users.id]
+  })
+}));
+
+export const sleepRelations = relations(sleep, ({ one }) => ({
+  careRecipient: one(careRecipients, {
+    fields: [sleep.careRecipientId],
+    references: [careRecipients.id]
+  }),
+  createdBy: one(users, {
+    fields: [sleep.createdById],
+    references: [users.id]
+  }),
+  updatedBy: one(users, {
+    fields: [sleep.updatedById],
+    references: [users.id]
+  })
+}));
+
+export const notesRelations = relations(notes, ({ one }) => ({
+  careRecipient: one(careRecipients, {
+    fields: [notes.careRecipientId],
+    references: [careRecipients.id]
+  }),
+  createdBy: one(users, {
+    fields: [notes.createdById],
+    references: [users.id]
+  }),
+  updatedBy: one(users, {
+    fields: [notes.updatedById],
+    references: [users.id]
+  })
+}));
+
+export const bloodPressureRelations = relations(bloodPressure, ({ one }) => ({
+  careRecipient: one(careRecipients, {
+    fields: [bloodPressure.careRecipientId],
+    references: [careRecipients.id]
+  }),
+  createdBy: one(users, {
+    fields: [bloodPressure.createdById],
+    references: [users.id]
+  }),
+  updatedBy: one(users, {
+    fields: [bloodPressure.updatedById],
+    references: [users.id]
+  })
+}));
+
+export const glucoseRelations = relations(glucose, ({ one }) => ({
+  careRecipient: one(careRecipients, {
+    fields: [glucose.careRecipientId],
+    references: [careRecipients.id]
+  }),
+  createdBy: one(users, {
+    fields: [glucose.createdById],
+    references: [users.id]
+  }),
+  updatedBy: one(users, {
+    fields: [glucose.updatedById],
+    references: [users.id]
+  })
+}));
+
+export const insulinRelations = relations(insulin, ({ one }) => ({
+  careRecipient: one(careRecipients, {
+    fields: [insulin.careRecipientId],
+    references: [careRecipients.id]
+  }),
+  createdBy: one(users, {
+    fields: [insulin.createdById],
+    references: [users.id]
+  }),
+  updatedBy: one(users, {
+    fields: [insulin.updatedById],
+    references: [users.id]
+  })
+}));
+
+export const weightsRelations = relations(weights, ({ one }) => ({
+  careRecipient: one(careRecipients, {
+    fields: [weights.careRecipientId],
+    references: [careRecipients.id]
+  }),
+  createdBy: one(users, {
+    fields: [weights.createdById],
+    references: [users.id]
+  }),
+  updatedBy: one(users, {
+    fields: [weights.updatedById],
+    references: [users.id]
+  })
+}));
+
+export const clinicalThresholdsRelations = relations(clinicalThresholds, ({ one }) => ({
+  careRecipient: one(careRecipients, {
+    fields: [clinicalThresholds.careRecipientId],
+    references: [careRecipients.id]
+  }),
+  updatedBy: one(users, {
+    fields: [clinicalThresholds.updatedById],
+    references: [users.id]
+  })
+}));
+
+export const readingAlertsRelations = relations(readingAlerts, ({ one }) => ({
+  careRecipient: one(careRecipients, {
+    fields: [readingAlerts.careRecipientId],
+    references: [careRecipients.id]
+  }),
+  acknowledgedBy: one(users, {
+    fields: [readingAlerts.acknowledgedById],
+    references: [users.id]
+  })
+}));
+
 // Create insert/select schemas for validation
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
@@ -433,6 +913,22 @@ export const insertMedicationScheduleSchema = createInsertSchema(medicationSched
 
 export const insertMedicationLogSchema = createInsertSchema(medicationLogs);
 
+export const insertMedicationReminderLogSchema = createInsertSchema(medicationReminderLogs);
+
+export const insertMissedDoseSchema = createInsertSchema(missedDoses);
+
+export const insertMedicationInventoryTransactionSchema = createInsertSchema(medicationInventoryTransactions);
+
+export const insertControlledSubstanceCountSchema = createInsertSchema(controlledSubstanceCounts);
+
+export const insertMedicationChangeSchema = createInsertSchema(medicationChanges);
+
+export const insertMedicationReconciliationSchema = createInsertSchema(medicationReconciliations);
+
+export const insertPillOrganizerFillSchema = createInsertSchema(pillOrganizerFills);
+
+export const insertDrugInteractionSchema = createInsertSchema(drugInteractions);
+
 export const insertAppointmentSchema = createInsertSchema(appointments);
 
 export const insertMealSchema = createInsertSchema(meals);
@@ -462,6 +958,9 @@ export const insertEmergencyInfoSchema = createInsertSchema(emergencyInfo);
 export const insertBloodPressureSchema = createInsertSchema(bloodPressure);
 export const insertGlucoseSchema = createInsertSchema(glucose);
 export const insertInsulinSchema = createInsertSchema(insulin);
+export const insertWeightSchema = createInsertSchema(weights);
+export const insertClinicalThresholdsSchema = createInsertSchema(clinicalThresholds);
+export const insertReadingAlertSchema = createInsertSchema(readingAlerts);
 
 // Define types
 export type User = typeof users.$inferSelect;
@@ -482,6 +981,30 @@ export type InsertMedicationSchedule = z.infer<typeof insertMedicationScheduleSc
 export type MedicationLog = typeof medicationLogs.$inferSelect;
 export type InsertMedicationLog = z.infer<typeof insertMedicationLogSchema>;
 
+export type MedicationReminderLog = typeof medicationReminderLogs.$inferSelect;
+export type InsertMedicationReminderLog = z.infer<typeof insertMedicationReminderLogSchema>;
+
+export type MissedDose = typeof missedDoses.$inferSelect;
+export type InsertMissedDose = z.infer<typeof insertMissedDoseSchema>;
+
+export type MedicationInventoryTransaction = typeof medicationInventoryTransactions.$inferSelect;
+export type InsertMedicationInventoryTransaction = z.infer<typeof insertMedicationInventoryTransactionSchema>;
+
+export type ControlledSubstanceCount = typeof controlledSubstanceCounts.$inferSelect;
+export type InsertControlledSubstanceCount = z.infer<typeof insertControlledSubstanceCountSchema>;
+
+export type MedicationChange = typeof medicationChanges.$inferSelect;
+export type InsertMedicationChange = z.infer<typeof insertMedicationChangeSchema>;
+
+export type MedicationReconciliation = typeof medicationReconciliations.$inferSelect;
+export type InsertMedicationReconciliation = z.infer<typeof insertMedicationReconciliationSchema>;
+
+export type PillOrganizerFill = typeof pillOrganizerFills.$inferSelect;
+export type InsertPillOrganizerFill = z.infer<typeof insertPillOrganizerFillSchema>;
+
+export type DrugInteraction = typeof drugInteractions.$inferSelect;
+export type InsertDrugInteraction = z.infer<typeof insertDrugInteractionSchema>;
+
 export type Appointment = typeof appointments.$inferSelect;
 export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
 
@@ -527,5 +1050,14 @@ export type InsertGlucose = z.infer<typeof insertGlucoseSchema>;
 export type Insulin = typeof insulin.$inferSelect;
 export type InsertInsulin = z.infer<typeof insertInsulinSchema>;
 
+export type Weight = typeof weights.$inferSelect;
+export type InsertWeight = z.infer<typeof insertWeightSchema>;
+
+export type ClinicalThresholds = typeof clinicalThresholds.$inferSelect;
+export type InsertClinicalThresholds = z.infer<typeof insertClinicalThresholdsSchema>;
+
+export type ReadingAlert = typeof readingAlerts.$inferSelect;
+export type InsertReadingAlert = z.infer<typeof insertReadingAlertSchema>;
+
 export type WebAuthnCredential = typeof webauthnCredentials.$inferSelect;
 export type InsertWebAuthnCredential = z.infer<typeof insertWebAuthnCredentialSchema>;
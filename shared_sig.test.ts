@@ -0,0 +1,153 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseSig,
+  parseDoseAmount,
+  formatDoseQuantity,
+  getEveryNHoursTimes,
+  describeSig,
+  buildSchedulesFromSig,
+  matchSchedulesByTime
+} from "./sig";
+
+describe("parseSig", () => {
+  it("reads dose, route, frequency and food from a typical sig", () => {
+    const { sig, errors } = parseSig("1 tab PO BID with food");
+
+    expect(errors).toEqual([]);
+    expect(sig).toMatchObject({
+      amount: 1,
+      unit: "tablet",
+      route: "by mouth",
+      frequency: "bid",
+      times: ["08:00:00", "20:00:00"],
+      withFood: true,
+      asNeeded: false
+    });
+  });
+
+  it("reads as-needed doses every N hours with a daily maximum", () => {
+    const { sig } = parseSig("2 puffs inh q4-6h prn, max 8 per day");
+
+    expect(sig).toMatchObject({
+      amount: 2,
+      unit: "puff",
+      route: "inhaled",
+      frequency: "every_n_hours",
+      everyHours: 4,
+      asNeeded: true,
+      maxDosesPer24h: 8
+    });
+  });
+
+  it("reads every-other-day, weekly and bedtime schedules", () => {
+    expect(parseSig("5 mL by mouth every other day").sig).toMatchObject({ frequency: "every_n_days", everyDays: 2, unit: "mL" });
+    expect(parseSig("1 tablet weekly on Monday").sig).toMatchObject({ frequency: "weekly", dayOfWeek: 1 });
+    expect(parseSig("take one capsule at bedtime").sig).toMatchObject({ amount: 1, unit: "capsule", times: ["21:00:00"] });
+  });
+
+  it("treats q24h and q48h as daily and every other day", () => {
+    expect(parseSig("1 tab q24h").sig).toMatchObject({ frequency: "once_daily", everyHours: null });
+    expect(parseSig("1 tab q48h").sig).toMatchObject({ frequency: "every_n_days", everyDays: 2 });
+  });
+
+  it("reports what it couldn't read", () => {
+    expect(parseSig("take as directed")).toEqual({
+      sig: null,
+      errors: [
+        "No dose amount found - assuming 1",
+        "No frequency found - use QD, BID, TID, QID, every N hours, every other day or weekly"
+      ]
+    });
+  });
+});
+
+describe("parseDoseAmount", () => {
+  it("reads the amount and canonical unit", () => {
+    expect(parseDoseAmount("2 tablets")).toEqual({ amount: 2, unit: "tablet" });
+    expect(parseDoseAmount("1/2 tab")).toEqual({ amount: 0.5, unit: "tablet" });
+    expect(parseDoseAmount("5ml")).toEqual({ amount: 5, unit: "mL" });
+    expect(parseDoseAmount("one capsule")).toEqual({ amount: 1, unit: "capsule" });
+  });
+
+  it("returns null without an amount", () => {
+    expect(parseDoseAmount("as directed")).toBeNull();
+    expect(parseDoseAmount(null)).toBeNull();
+  });
+});
+
+describe("formatDoseQuantity", () => {
+  it("pluralises units that take an s", () => {
+    expect(formatDoseQuantity(1, "tablet")).toBe("1 tablet");
+    expect(formatDoseQuantity(2, "tablet")).toBe("2 tablets");
+    expect(formatDoseQuantity(2, "patch")).toBe("2 patches");
+    expect(formatDoseQuantity(5, "mL")).toBe("5 mL");
+  });
+});
+
+describe("getEveryNHoursTimes", () => {
+  it("spaces doses through the day from 8 AM, wrapping past midnight", () => {
+    expect(getEveryNHoursTimes(6)).toEqual(["02:00:00", "08:00:00", "14:00:00", "20:00:00"]);
+    expect(getEveryNHoursTimes(8)).toEqual(["00:00:00", "08:00:00", "16:00:00"]);
+  });
+});
+
+describe("describeSig", () => {
+  it("writes the directions out in plain language", () => {
+    const { sig } = parseSig("1 tab PO BID with food");
+
+    expect(describeSig(sig!)).toBe("1 tablet by mouth twice daily with food");
+  });
+});
+
+describe("buildSchedulesFromSig", () => {
+  it("makes one schedule row per dose time", () => {
+    const rows = buildSchedulesFromSig(parseSig("2 tabs PO TID").sig!, 7, "2026-01-05");
+
+    expect(rows.map(row => row.time)).toEqual(["08:00:00", "14:00:00", "20:00:00"]);
+    expect(rows[0]).toMatchObject({ medicationId: 7, quantity: "2 tablets", doseAmount: 2, doseUnit: "tablet" });
+  });
+
+  it("anchors every-N-days schedules on the start date and weekly ones on its weekday", () => {
+    const [everyOtherDay] = buildSchedulesFromSig(parseSig("1 tab every other day").sig!, 7, "2026-01-05");
+    const [weekly] = buildSchedulesFromSig(parseSig("1 tab weekly").sig!, 7, "2026-01-05");
+
+    expect(everyOtherDay).toMatchObject({ intervalDays: 2, intervalStartDate: "2026-01-05" });
+    expect(weekly.daysOfWeek).toEqual([1]);
+  });
+
+  it("makes a single as-needed row carrying the limits", () => {
+    const rows = buildSchedulesFromSig(parseSig("1 tab q6h prn max 4 per day").sig!, 7, "2026-01-05");
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ asNeeded: true, maxDosesPer24h: 4, minHoursBetweenDoses: 6 });
+  });
+});
+
+describe("matchSchedulesByTime", () => {
+  it("keeps ids for times the sig keeps and lists the schedules for times it drops", () => {
+    const generated = buildSchedulesFromSig(parseSig("1 tab TID").sig!, 7, "2026-01-05");
+    const saved = [
+      { id: 1, time: "08:00:00", asNeeded: false },
+      { id: 2, time: "12:00:00", asNeeded: false },
+      { id: 3, time: "20:00", asNeeded: false }
+    ];
+
+    const { schedules, removedIds } = matchSchedulesByTime(saved, generated);
+
+    expect(schedules.map(schedule => [schedule.time, schedule.id])).toEqual([
+      ["08:00:00", 1],
+      ["14:00:00", undefined],
+      ["20:00:00", 3]
+    ]);
+    expect(removedIds).toEqual([2]);
+  });
+
+  it("doesn't match an as-needed schedule to a scheduled dose at the same time", () => {
+    const generated = buildSchedulesFromSig(parseSig("1 tab daily").sig!, 7, "2026-01-05");
+
+    const { schedules, removedIds } = matchSchedulesByTime([{ id: 1, time: "08:00:00", asNeeded: true }], generated);
+
+    expect(schedules[0].id).toBeUndefined();
+    expect(removedIds).toEqual([1]);
+  });
+});
@@ -0,0 +1,360 @@
+// Structured medication directions ("sigs"): frequency templates, a parser for typical
+// sig strings like "1 tab PO BID with food", and the schedule rows a sig turns into.
+// Shared so the schedule editor and the server read doses the same way.
+
+export type SigFrequency =
+  | 'once_daily'
+  | 'bid'
+  | 'tid'
+  | 'qid'
+  | 'every_n_hours'
+  | 'every_n_days'
+  | 'weekly';
+
+export interface SigTemplate {
+  frequency: SigFrequency;
+  label: string;
+  abbreviation: string;
+  times: string[]; // Default dose times, HH:mm:ss
+}
+
+export const sigTemplates: SigTemplate[] = [
+  { frequency: 'once_daily', label: 'Once daily', abbreviation: 'QD', times: ['08:00:00'] },
+  { frequency: 'bid', label: 'Twice daily', abbreviation: 'BID', times: ['08:00:00', '20:00:00'] },
+  { frequency: 'tid', label: 'Three times daily', abbreviation: 'TID', times: ['08:00:00', '14:00:00', '20:00:00'] },
+  { frequency: 'qid', label: 'Four times daily', abbreviation: 'QID', times: ['08:00:00', '12:00:00', '16:00:00', '20:00:00'] },
+  { frequency: 'every_n_hours', label: 'Every N hours', abbreviation: 'QnH', times: ['08:00:00'] },
+  { frequency: 'every_n_days', label: 'Every other day', abbreviation: 'QOD', times: ['08:00:00'] },
+  { frequency: 'weekly', label: 'Weekly', abbreviation: 'QWK', times: ['08:00:00'] },
+];
+
+export interface Sig {
+  amount: number;
+  unit: string;
+  route: string | null;
+  frequency: SigFrequency;
+  times: string[];
+  everyHours: number | null; // every_n_hours only
+  everyDays: number | null; // every_n_days only - 2 for every other day
+  dayOfWeek: number | null; // weekly only, 0 = Sunday
+  withFood: boolean;
+  asNeeded: boolean;
+  maxDosesPer24h: number | null;
+}
+
+export interface SigParseResult {
+  sig: Sig | null;
+  errors: string[];
+}
+
+// Canonical unit names, keyed by the spellings seen on labels and prescriptions
+const unitAliases: Record<string, string> = {
+  tab: 'tablet', tabs: 'tablet', tablet: 'tablet', tablets: 'tablet', tb: 'tablet',
+  cap: 'capsule', caps: 'capsule', capsule: 'capsule', capsules: 'capsule',
+  ml: 'mL', mls: 'mL', cc: 'mL',
+  mg: 'mg', mcg: 'mcg', g: 'g',
+  tsp: 'teaspoon', teaspoon: 'teaspoon', teaspoons: 'teaspoon',
+  tbsp: 'tablespoon', tablespoon: 'tablespoon', tablespoons: 'tablespoon',
+  puff: 'puff', puffs: 'puff', inh: 'puff', inhalation: 'puff', inhalations: 'puff',
+  drop: 'drop', drops: 'drop', gtt: 'drop', gtts: 'drop',
+  unit: 'unit', units: 'unit', u: 'unit', iu: 'unit',
+  patch: 'patch', patches: 'patch',
+  spray: 'spray', sprays: 'spray',
+  supp: 'suppository', suppository: 'suppository', suppositories: 'suppository',
+  injection: 'injection', injections: 'injection',
+  application: 'application', applications: 'application',
+  dose: 'dose', doses: 'dose',
+};
+
+// Units that are never pluralised with an "s"
+const invariantUnits = ['mL', 'mg', 'mcg', 'g'];
+
+const pluralUnits: Record<string, string> = {
+  patch: 'patches',
+};
+
+const routeAliases: Record<string, string> = {
+  po: 'by mouth', 'by mouth': 'by mouth', oral: 'by mouth', orally: 'by mouth',
+  sl: 'under the tongue', 'under the tongue': 'under the tongue',
+  top: 'on the skin', topical: 'on the skin', topically: 'on the skin',
+  inh: 'inhaled', inhaled: 'inhaled',
+  sc: 'under the skin', sq: 'under the skin', subq: 'under the skin', subcut: 'under the skin',
+  im: 'into the muscle',
+  pr: 'rectally', rectally: 'rectally',
+  od: 'in the right eye', os: 'in the left eye', ou: 'in both eyes',
+  'in each nostril': 'in each nostril', 'each nostril': 'in each nostril',
+};
+
+const numberWords: Record<string, number> = {
+  half: 0.5, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10
+};
+
+const dayNames: Record<string, number> = {
+  sun: 0, sunday: 0, mon: 1, monday: 1, tue: 2, tues: 2, tuesday: 2, wed: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4, fri: 5, friday: 5, sat: 6, saturday: 6
+};
+
+const dayLabels = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const readAmount = (value: string): number | null => {
+  const text = value.trim().toLowerCase();
+  if (text === '½') return 0.5;
+
+  const mixed = text.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed && Number(mixed[3]) > 0) return Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+
+  const fraction = text.match(/^(\d+)\/(\d+)$/);
+  if (fraction && Number(fraction[2]) > 0) return Number(fraction[1]) / Number(fraction[2]);
+
+  if (/^\d+(\.\d+)?$/.test(text)) return parseFloat(text);
+
+  return numberWords[text] ?? null;
+};
+
+const amountPattern = '(\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d+(?:\\.\\d+)?|½|half|one|two|three|four|five|six|seven|eight|nine|ten)';
+
+// Read a dose such as "2 tablets", "1/2 tab", "5ml" or "one capsule" into a number and a unit.
+// Returns null when there's no amount to read.
+export const parseDoseAmount = (text: unknown): { amount: number; unit: string } | null => {
+  if (typeof text !== 'string') return null;
+
+  const match = text.trim().toLowerCase().match(new RegExp(`^${amountPattern}\\s*([a-z]+)?`));
+  if (!match) return null;
+
+  const amount = readAmount(match[1]);
+  if (amount === null || amount <= 0) return null;
+
+  return { amount, unit: (match[2] && unitAliases[match[2]]) || match[2] || 'dose' };
+};
+
+// "1 tablet", "2 tablets", "0.5 tablet", "5 mL"
+export const formatDoseQuantity = (amount: number, unit: string) => {
+  const value = Number.isInteger(amount) ? String(amount) : String(Math.round(amount * 100) / 100);
+  if (amount <= 1 || invariantUnits.includes(unit)) return `${value} ${unit}`;
+  return `${value} ${pluralUnits[unit] || `${unit}s`}`;
+};
+
+// Dose times for a schedule that repeats every N hours, starting at 8 AM and wrapping past midnight
+export const getEveryNHoursTimes = (hours: number, firstTime: string = '08:00:00') => {
+  const startHour = parseInt(firstTime.split(':')[0]);
+  const times: string[] = [];
+  for (let offset = 0; offset < 24; offset += hours) {
+    times.push(`${String((startHour + offset) % 24).padStart(2, '0')}:00:00`);
+  }
+  return times.sort();
+};
+
+const frequencyText = (sig: Sig) => {
+  switch (sig.frequency) {
+    case 'once_daily': return 'once daily';
+    case 'bid': return 'twice daily';
+    case 'tid': return 'three times daily';
+    case 'qid': return 'four times daily';
+    case 'every_n_hours': return `every ${sig.everyHours} hours`;
+    case 'every_n_days': return sig.everyDays === 2 ? 'every other day' : `every ${sig.everyDays} days`;
+    case 'weekly': return sig.dayOfWeek !== null ? `weekly on ${dayLabels[sig.dayOfWeek]}` : 'weekly';
+  }
+};
+
+// Plain-language directions, e.g. "1 tablet by mouth twice daily with food"
+export const describeSig = (sig: Sig) => {
+  const parts = [formatDoseQuantity(sig.amount, sig.unit)];
+  if (sig.route) parts.push(sig.route);
+  parts.push(frequencyText(sig));
+  if (sig.asNeeded) parts.push('as needed');
+  if (sig.withFood) parts.push('with food');
+  if (sig.maxDosesPer24h) parts.push(`(max ${sig.maxDosesPer24h} doses in 24 hours)`);
+  return parts.join(' ');
+};
+
+// Start a sig from one of the frequency templates
+export const sigFromTemplate = (
+  frequency: SigFrequency,
+  options: Partial<Omit<Sig, 'frequency'>> = {}
+): Sig => {
+  const template = sigTemplates.find(entry => entry.frequency === frequency) || sigTemplates[0];
+  const everyHours = frequency === 'every_n_hours' ? options.everyHours ?? 6 : null;
+
+  return {
+    amount: options.amount ?? 1,
+    unit: options.unit ?? 'tablet',
+    route: options.route ?? null,
+    frequency,
+    times: options.times ?? (everyHours ? getEveryNHoursTimes(everyHours) : template.times),
+    everyHours,
+    everyDays: frequency === 'every_n_days' ? options.everyDays ?? 2 : null,
+    dayOfWeek: frequency === 'weekly' ? options.dayOfWeek ?? null : null,
+    withFood: options.withFood ?? false,
+    asNeeded: options.asNeeded ?? false,
+    maxDosesPer24h: options.maxDosesPer24h ?? null,
+  };
+};
+
+// Parse a typical sig string: "1 tab PO BID with food", "2 puffs inh q4h prn",
+// "5 mL by mouth every other day", "1 tablet weekly on Monday", "take one capsule at bedtime"
+export const parseSig = (text: string): SigParseResult => {
+  const errors: string[] = [];
+  const normalized = ` ${text.toLowerCase().replace(/[.,;]/g, ' ').replace(/\s+/g, ' ').trim()} `;
+
+  // Dose amount and unit - the first amount that is followed by a unit word
+  let amount = 1;
+  let unit = 'dose';
+  const doseMatch = normalized.match(new RegExp(`\\s${amountPattern}\\s*([a-z]+)\\s`));
+  if (doseMatch && unitAliases[doseMatch[2]]) {
+    amount = readAmount(doseMatch[1]) ?? 1;
+    unit = unitAliases[doseMatch[2]];
+  } else {
+    const bareAmount = normalized.match(new RegExp(`^\\s(?:take\\s|give\\s|use\\s|inject\\s)?${amountPattern}\\s`));
+    if (bareAmount) {
+      amount = readAmount(bareAmount[1]) ?? 1;
+    } else {
+      errors.push('No dose amount found - assuming 1');
+    }
+  }
+
+  // Route - longest phrases first so "by mouth" wins over a stray "po"
+  let route: string | null = null;
+  for (const alias of Object.keys(routeAliases).sort((a, b) => b.length - a.length)) {
+    if (normalized.includes(` ${alias} `)) {
+      route = routeAliases[alias];
+      break;
+    }
+  }
+
+  const asNeeded = /\s(prn|as needed|when needed|if needed)\s/.test(normalized);
+  const withFood = /\s(with (food|meals?|breakfast|dinner|supper)|after (food|meals?)|pc)\s/.test(normalized);
+
+  let maxDosesPer24h: number | null = null;
+  const maxMatch = normalized.match(/(?:max(?:imum)?|not to exceed|no more than)\s(\d+)\s?(?:[a-z]+\s)?(?:per|a|in|every|\/)\s?(?:day|24\s?h(?:ours|rs|r)?)/);
+  if (maxMatch) maxDosesPer24h = parseInt(maxMatch[1]);
+
+  let frequency: SigFrequency | null = null;
+  let everyHours: number | null = null;
+  let everyDays: number | null = null;
+  let dayOfWeek: number | null = null;
+  let times: string[] | null = null;
+
+  // Every N hours - q4h, q 4 h, q4-6h (the shorter gap), every 6 hours
+  const hoursMatch = normalized.match(/\sq\s?(\d+)(?:\s?-\s?\d+)?\s?(?:h|hr|hrs|hours?)\s/) ||
+    normalized.match(/\severy\s(\d+)(?:\s?(?:-|to)\s?\d+)?\s(?:h|hr|hrs|hours?)\s/);
+  const daysMatch = normalized.match(/\severy\s(\d+|other)\sdays?\s/);
+  const dayNameMatch = normalized.match(/\s(?:on\s|every\s)(sun|sunday|mon|monday|tue|tues|tuesday|wed|wednesday|thu|thur|thurs|thursday|fri|friday|sat|saturday)s?\s/);
+
+  if (hoursMatch) {
+    everyHours = parseInt(hoursMatch[1]);
+    if (everyHours >= 24 && everyHours % 24 === 0) {
+      frequency = everyHours === 24 ? 'once_daily' : 'every_n_days';
+      everyDays = everyHours === 24 ? null : everyHours / 24;
+      everyHours = null;
+    } else if (everyHours <= 0 || everyHours > 24) {
+      errors.push(`Can't schedule a dose every ${everyHours} hours`);
+      everyHours = null;
+    } else {
+      frequency = 'every_n_hours';
+    }
+  } else if (/\s(qod|every other day|alternate days|on alternate days)\s/.test(normalized) || daysMatch) {
+    frequency = 'every_n_days';
+    everyDays = daysMatch && daysMatch[1] !== 'other' ? parseInt(daysMatch[1]) : 2;
+    if (everyDays === 1) {
+      frequency = 'once_daily';
+      everyDays = null;
+    }
+  } else if (/\s(weekly|once a week|once weekly|qwk|q week|every week)\s/.test(normalized) || dayNameMatch) {
+    frequency = 'weekly';
+    dayOfWeek = dayNameMatch ? dayNames[dayNameMatch[1]] : null;
+  } else if (/\s(qid|4 times (a|per) day|four times (a |per )?day|four times daily|4 times daily)\s/.test(normalized)) {
+    frequency = 'qid';
+  } else if (/\s(tid|3 times (a|per) day|three times (a |per )?day|three times daily|3 times daily)\s/.test(normalized)) {
+    frequency = 'tid';
+  } else if (/\s(bid|2 times (a|per) day|twice (a |per )?day|twice daily|2 times daily)\s/.test(normalized)) {
+    frequency = 'bid';
+  } else if (/\s(qhs|hs|at bedtime|at night|nightly)\s/.test(normalized)) {
+    frequency = 'once_daily';
+    times = ['21:00:00'];
+  } else if (/\s(qam|in the morning|every morning)\s/.test(normalized)) {
+    frequency = 'once_daily';
+    times = ['08:00:00'];
+  } else if (/\s(qpm|in the evening|every evening)\s/.test(normalized)) {
+    frequency = 'once_daily';
+    times = ['18:00:00'];
+  } else if (/\s(qd|daily|once daily|once a day|every day|1 time (a|per) day)\s/.test(normalized)) {
+    frequency = 'once_daily';
+  } else if (asNeeded) {
+    // "1 tab prn" with no frequency - a single as-needed slot
+    frequency = 'once_daily';
+  }
+
+  if (!frequency) {
+    errors.push('No frequency found - use QD, BID, TID, QID, every N hours, every other day or weekly');
+    return { sig: null, errors };
+  }
+
+  return {
+    sig: sigFromTemplate(frequency, {
+      amount,
+      unit,
+      route,
+      times: times ?? undefined,
+      everyHours: everyHours ?? undefined,
+      everyDays: everyDays ?? undefined,
+      dayOfWeek,
+      withFood,
+      asNeeded,
+      maxDosesPer24h,
+    }),
+    errors,
+  };
+};
+
+// The medicationSchedules rows a sig turns into - one per dose time.
+// startDate (yyyy-MM-dd) anchors every-N-days schedules and picks the weekday for weekly ones.
+export const buildSchedulesFromSig = (sig: Sig, medicationId: number, startDate: string) => {
+  const allDays = [0, 1, 2, 3, 4, 5, 6];
+  const startDay = new Date(`${startDate}T00:00:00`).getDay();
+  const quantity = formatDoseQuantity(sig.amount, sig.unit);
+
+  // As-needed doses aren't due at set times, so a single row carries the limits
+  const times = sig.asNeeded ? ['08:00:00'] : sig.times;
+
+  return times.map(time => ({
+    medicationId,
+    time,
+    daysOfWeek: sig.frequency === 'weekly' ? [sig.dayOfWeek ?? startDay] : allDays,
+    quantity,
+    doseAmount: sig.amount,
+    doseUnit: sig.unit,
+    withFood: sig.withFood,
+    active: true,
+    reminderEnabled: true,
+    asNeeded: sig.asNeeded,
+    maxDosesPer24h: sig.asNeeded ? sig.maxDosesPer24h : null,
+    minHoursBetweenDoses: sig.asNeeded && sig.everyHours ? sig.everyHours : null,
+    intervalDays: sig.frequency === 'every_n_days' ? sig.everyDays : null,
+    intervalStartDate: sig.frequency === 'every_n_days' ? startDate : null,
+    specificDays: [] as string[],
+    isTapering: false,
+    taperingSchedule: [] as { startDate: string; endDate: string; quantity: string }[],
+  }));
+};
+
+// Give generated rows the ids of saved schedules due at the same time of day, so doses logged
+// against a time that stays keep their schedule. Saved schedules whose time is no longer in the
+// sig come back in removedIds; new times get no id and are created as new schedules.
+export const matchSchedulesByTime = <T extends { time: string; asNeeded: boolean }>(
+  saved: Array<{ id: number; time: string; asNeeded?: boolean | null }>,
+  generated: T[]
+) => {
+  const unmatched = [...saved];
+  const schedules = generated.map(schedule => {
+    const index = unmatched.findIndex(entry =>
+      entry.time.slice(0, 5) === schedule.time.slice(0, 5) && !!entry.asNeeded === schedule.asNeeded
+    );
+    if (index === -1) {
+      return { ...schedule, id: undefined as number | undefined };
+    }
+    const [match] = unmatched.splice(index, 1);
+    return { ...schedule, id: match.id };
+  });
+
+  return { schedules, removedIds: unmatched.map(entry => entry.id) };
+};